@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { Routes, Route, Navigate, useNavigate } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from 'react-hot-toast';
 import { Header } from './components/layout/Header';
@@ -10,18 +11,21 @@ import { MyVideos } from './components/dashboard/MyVideos';
 import { MyCharacters } from './components/dashboard/MyCharacters';
 import { Settings } from './components/dashboard/Settings';
 import { EnhancedStoryCreator } from './components/story/EnhancedStoryCreator';
-import { StoryWorkflowContinuation } from './components/story/StoryWorkflowContinuation';
+import { StoryWorkflowRoute } from './components/story/StoryWorkflowRoute';
 import { AuthModal } from './components/auth/AuthModal';
+import { AuthCallback } from './components/auth/AuthCallback';
 import { useAuthStore } from './store/authStore';
 import { useStoryStore } from './store/storyStore';
+import { useSyncStore } from './store/syncStore';
+import { useVideoJobStore } from './store/videoJobStore';
+import { paths } from './routes';
 
 const queryClient = new QueryClient();
 
 function App() {
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [authMode, setAuthMode] = useState<'signin' | 'signup'>('signin');
-  const [activeTab, setActiveTab] = useState('dashboard');
-  const [continuationData, setContinuationData] = useState<{story: any, step: string} | null>(null);
+  const navigate = useNavigate();
   const { isAuthenticated, user, checkAuth } = useAuthStore();
   const { fetchUserStories } = useStoryStore();
 
@@ -37,6 +41,20 @@ function App() {
     }
   }, [isAuthenticated, user, fetchUserStories]);
 
+  // Replay queued offline changes while signed in
+  useEffect(() => {
+    if (isAuthenticated) {
+      return useSyncStore.getState().startSync();
+    }
+  }, [isAuthenticated]);
+
+  // Keep checking on videos that providers are still rendering
+  useEffect(() => {
+    if (isAuthenticated) {
+      return useVideoJobStore.getState().startPolling();
+    }
+  }, [isAuthenticated]);
+
   const handleAuthClick = (mode: 'signin' | 'signup' = 'signin') => {
     setAuthMode(mode);
     setShowAuthModal(true);
@@ -44,43 +62,35 @@ function App() {
 
   const handleCreateStory = () => {
     console.log('🎬 App: handleCreateStory called');
-    setContinuationData(null); // Clear any continuation data
-    setActiveTab('create');
+    navigate(paths.create);
   };
 
   const handleContinueStory = (story: any, step: string) => {
     console.log('🔄 App: handleContinueStory called with:', story.title, 'step:', step);
-    
-    try {
-      setContinuationData({ story, step });
-      setActiveTab('continue');
-      console.log('✅ App: Successfully set continuation data and switched to continue tab');
-    } catch (error) {
-      console.error('❌ App: Error in handleContinueStory:', error);
-    }
+    navigate(paths.storyStep(story.id, step));
   };
 
   const handleStoryComplete = () => {
     console.log('✅ App: handleStoryComplete called');
-    setContinuationData(null);
-    setActiveTab('dashboard');
-  };
-
-  const handleWorkflowComplete = () => {
-    console.log('✅ App: handleWorkflowComplete called');
-    setContinuationData(null);
-    setActiveTab('stories');
+    navigate(paths.dashboard);
   };
 
   if (!isAuthenticated) {
     return (
       <QueryClientProvider client={queryClient}>
         <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
-          <Header onAuthClick={() => handleAuthClick('signin')} />
-          <LandingPage 
-            onGetStarted={() => handleAuthClick('signin')} 
-            onSignUp={() => handleAuthClick('signup')}
-          />
+          <Routes>
+            <Route path={paths.authCallback} element={<AuthCallback />} />
+            <Route path="*" element={
+              <>
+                <Header onAuthClick={() => handleAuthClick('signin')} />
+                <LandingPage 
+                  onGetStarted={() => handleAuthClick('signin')} 
+                  onSignUp={() => handleAuthClick('signup')}
+                />
+              </>
+            } />
+          </Routes>
           <AuthModal 
             isOpen={showAuthModal} 
             onClose={() => setShowAuthModal(false)}
@@ -120,40 +130,36 @@ function App() {
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col">
         <Header />
         <div className="flex-1 flex overflow-hidden">
-          <Sidebar activeTab={activeTab} onTabChange={setActiveTab} />
+          <Sidebar />
           <main className="flex-1 overflow-y-auto">
             <div className="p-6">
-              {activeTab === 'dashboard' && (
-                <Dashboard 
-                  onCreateStory={handleCreateStory} 
-                  onContinueStory={handleContinueStory}
-                />
-              )}
-              {activeTab === 'create' && (
-                <EnhancedStoryCreator onComplete={handleStoryComplete} />
-              )}
-              {activeTab === 'continue' && continuationData && (
-                <StoryWorkflowContinuation 
-                  story={continuationData.story}
-                  startStep={continuationData.step}
-                  onComplete={handleWorkflowComplete}
-                />
-              )}
-              {activeTab === 'stories' && (
-                <MyStories 
-                  onCreateStory={handleCreateStory}
-                  onContinueStory={handleContinueStory}
-                />
-              )}
-              {activeTab === 'videos' && (
-                <MyVideos />
-              )}
-              {activeTab === 'characters' && (
-                <MyCharacters />
-              )}
-              {activeTab === 'settings' && (
-                <Settings />
-              )}
+              <Routes>
+                <Route path={paths.dashboard} element={
+                  <Dashboard 
+                    onCreateStory={handleCreateStory} 
+                    onContinueStory={handleContinueStory}
+                  />
+                } />
+                <Route path={paths.create} element={
+                  <EnhancedStoryCreator onComplete={handleStoryComplete} />
+                } />
+                <Route path={paths.stories} element={
+                  <MyStories 
+                    onCreateStory={handleCreateStory}
+                    onContinueStory={handleContinueStory}
+                  />
+                } />
+                <Route path="/stories/:id" element={<StoryWorkflowRoute />} />
+                <Route path="/stories/:id/:step" element={<StoryWorkflowRoute />} />
+                <Route path={paths.videos} element={<MyVideos />} />
+                <Route path="/videos/:videoId" element={<MyVideos />} />
+                <Route path="/videos/:videoId/edit" element={<MyVideos editing />} />
+                <Route path={paths.characters} element={<MyCharacters />} />
+                <Route path="/settings/:tab?" element={<Settings />} />
+                {/* Signed in already, e.g. the confirmation link was opened in this tab */}
+                <Route path={paths.authCallback} element={<AuthCallback />} />
+                <Route path="*" element={<Navigate to={paths.dashboard} replace />} />
+              </Routes>
             </div>
           </main>
         </div>
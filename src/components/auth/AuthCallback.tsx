@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader, AlertCircle, CheckCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card, CardContent } from '../ui/Card';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../store/authStore';
+import { paths } from '../../routes';
+import toast from 'react-hot-toast';
+
+// Landing page for the email confirmation link sent on signup (emailRedirectTo)
+export const AuthCallback: React.FC = () => {
+  const navigate = useNavigate();
+  const { checkAuth } = useAuthStore();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleCallback = async () => {
+      // Supabase reports failures (e.g. an expired link) in the query string or hash
+      const params = new URLSearchParams(window.location.search);
+      const hashParams = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+      const errorDescription = params.get('error_description') || hashParams.get('error_description');
+
+      if (errorDescription) {
+        console.error('❌ Auth callback error:', errorDescription);
+        setError(errorDescription);
+        return;
+      }
+
+      // The client exchanges the PKCE code itself (detectSessionInUrl), so wait for the session
+      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+      if (sessionError || !session) {
+        console.error('❌ Auth callback error:', sessionError);
+        setError(sessionError?.message || 'This confirmation link is invalid or has expired.');
+        return;
+      }
+
+      console.log('✅ Email confirmed for:', session.user.email);
+      await checkAuth();
+      toast.success('Email confirmed! Welcome to Animato.');
+      navigate(paths.dashboard, { replace: true });
+    };
+
+    handleCallback();
+  }, [checkAuth, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gray-50 dark:bg-gray-900">
+      <Card className="max-w-md w-full">
+        <CardContent className="p-8 text-center">
+          {error ? (
+            <>
+              <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
+                Could not confirm your email
+              </h2>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">{error}</p>
+              <Button onClick={() => navigate(paths.dashboard, { replace: true })}>
+                Back to Animato
+              </Button>
+            </>
+          ) : (
+            <>
+              <div className="relative w-12 h-12 mx-auto mb-4">
+                <CheckCircle className="w-12 h-12 text-green-500 opacity-20" />
+                <Loader className="w-6 h-6 text-primary-500 animate-spin absolute top-3 left-3" />
+              </div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                Confirming your email...
+              </h2>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
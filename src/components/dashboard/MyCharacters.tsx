@@ -63,7 +63,7 @@ export const MyCharacters: React.FC = () => {
 
   const getSelectedPhoto = (character: any) => {
     if (!character.photos || character.photos.length === 0) return null;
-    return character.photos.find(photo => photo.isSelected) || character.photos[0];
+    return character.photos.find(photo => photo.is_selected) || character.photos[0];
   };
 
   return (
@@ -144,7 +144,7 @@ export const MyCharacters: React.FC = () => {
                   <div className="aspect-square bg-gray-100 dark:bg-gray-800 rounded-t-xl overflow-hidden relative">
                     {selectedPhoto ? (
                       <img
-                        src={selectedPhoto.url}
+                        src={selectedPhoto.photo_url}
                         alt={character.name}
                         className="w-full h-full object-cover"
                         onError={(e) => {
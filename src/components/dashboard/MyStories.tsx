@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { BookOpen, Video, Users, Clock, Edit3, Trash2, Play, Download, Search, Filter, Plus, ArrowRight, CheckCircle, AlertCircle, Loader2, FileX } from 'lucide-react';
+import { BookOpen, Video, Users, Clock, Edit3, Trash2, Play, Download, Search, Filter, Plus, ArrowRight, CheckCircle, AlertCircle, Loader2, FileX, FileText } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader } from '../ui/Card';
 import { Input } from '../ui/Input';
 import { useStoryStore } from '../../store/storyStore';
 import { useAuthStore } from '../../store/authStore';
+import { exportScreenplay } from '../../lib/screenplayFiles';
+import { Story, ScreenplayFormat } from '../../types';
 import toast from 'react-hot-toast';
 
 interface MyStoriesProps {
@@ -21,6 +23,7 @@ export const MyStories: React.FC<MyStoriesProps> = ({ onCreateStory, onContinueS
   const [filterStatus, setFilterStatus] = useState('all');
   const [isLoading, setIsLoading] = useState(false);
   const [deletingStoryId, setDeletingStoryId] = useState<string | null>(null);
+  const [exportMenuStoryId, setExportMenuStoryId] = useState<string | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -57,6 +60,31 @@ export const MyStories: React.FC<MyStoriesProps> = ({ onCreateStory, onContinueS
     }
   };
 
+  const handleExportStory = (story: Story, format: ScreenplayFormat) => {
+    setExportMenuStoryId(null);
+
+    if (!story.content.trim()) {
+      toast.error('This story has no script to export yet');
+      return;
+    }
+
+    try {
+      const { fileName, contents, mimeType } = exportScreenplay(story, format);
+      const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success(`Exported ${fileName}`);
+    } catch (error) {
+      console.error('❌ Screenplay export failed:', error);
+      toast.error('Failed to export screenplay');
+    }
+  };
+
   const getStoryProgress = (story: any) => {
     const hasContent = story.content && story.content.length > 100;
     const hasCharacters = story.characters && story.characters.length > 0;
@@ -380,6 +408,41 @@ export const MyStories: React.FC<MyStoriesProps> = ({ onCreateStory, onContinueS
                           Edit
                         </Button>
                         
+                        <div className="relative">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setExportMenuStoryId(exportMenuStoryId === story.id ? null : story.id);
+                            }}
+                            disabled={isDeleting}
+                            title="Export screenplay"
+                          >
+                            <FileText className="w-3 h-3" />
+                          </Button>
+
+                          {exportMenuStoryId === story.id && (
+                            <div className="absolute right-0 bottom-full mb-2 z-10 w-44 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg py-1">
+                              {([
+                                ['fountain', 'Fountain (.fountain)'],
+                                ['fdx', 'Final Draft (.fdx)'],
+                              ] as [ScreenplayFormat, string][]).map(([format, label]) => (
+                                <button
+                                  key={format}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleExportStory(story, format);
+                                  }}
+                                  className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                                >
+                                  {label}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+
                         {story.videos && story.videos.length > 0 && (
                           <Button 
                             variant="outline" 
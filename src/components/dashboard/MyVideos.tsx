@@ -1,24 +1,37 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Video, Play, Download, Share2, Trash2, Search, Filter, Calendar, Clock, Eye, Pause, Volume2, VolumeX, Maximize, RotateCcw } from 'lucide-react';
+import { Video, Play, Download, Share2, Trash2, Search, Filter, Calendar, Clock, Eye, Pause, Volume2, VolumeX, Maximize, RotateCcw, AlertCircle, RefreshCw, Scissors, Layers } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader } from '../ui/Card';
 import { Input } from '../ui/Input';
+import { TimelineEditor } from '../video/TimelineEditor';
+import { SceneClipList } from '../video/SceneClipList';
 import { useStoryStore } from '../../store/storyStore';
+import { useVideoJobStore } from '../../store/videoJobStore';
 import { useAuthStore } from '../../store/authStore';
+import { useNavigate, useParams } from 'react-router-dom';
+import { paths } from '../../routes';
+import { toSRT, toWebVTT } from '../../lib/subtitles';
+import { SubtitleCue, Video as StoryVideo } from '../../types';
 import toast from 'react-hot-toast';
 
-export const MyVideos: React.FC = () => {
+interface MyVideosProps {
+  editing?: boolean; // Opens the selected video in the timeline editor instead of the player
+}
+
+export const MyVideos: React.FC<MyVideosProps> = ({ editing = false }) => {
   const { stories } = useStoryStore();
   const { user } = useAuthStore();
   const [searchTerm, setSearchTerm] = useState('');
   const [filterProvider, setFilterProvider] = useState('all');
-  const [selectedVideo, setSelectedVideo] = useState<any>(null);
+  const { videoId } = useParams();
+  const navigate = useNavigate();
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [videoRef, setVideoRef] = useState<HTMLVideoElement | null>(null);
+  const [scenesVideoId, setScenesVideoId] = useState<string | null>(null);
 
   // Extract all videos from stories
   const allVideos = stories.flatMap(story => 
@@ -37,8 +50,25 @@ export const MyVideos: React.FC = () => {
     return matchesSearch && matchesProvider;
   });
 
+  // The open video lives in the URL (/videos/:videoId) so it can be linked to
+  const selectedVideo = allVideos.find(video => video.id === videoId) || null;
+  const storedSubtitles = selectedVideo?.metadata?.subtitles;
+  const subtitles = useMemo<SubtitleCue[]>(() => storedSubtitles || [], [storedSubtitles]);
+
+  // The player reads subtitles from a URL, so the stored cues are served as a WebVTT blob
+  const subtitleTrackUrl = useMemo(() => {
+    if (subtitles.length === 0) return null;
+    return URL.createObjectURL(new Blob([toWebVTT(subtitles)], { type: 'text/vtt' }));
+  }, [subtitles]);
+
+  useEffect(() => {
+    return () => {
+      if (subtitleTrackUrl) URL.revokeObjectURL(subtitleTrackUrl);
+    };
+  }, [subtitleTrackUrl]);
+
   const handlePlayVideo = (video: any) => {
-    setSelectedVideo(video);
+    navigate(paths.video(video.id));
     setIsPlaying(false);
     setCurrentTime(0);
   };
@@ -88,7 +118,7 @@ export const MyVideos: React.FC = () => {
     if (video.video_url) {
       const link = document.createElement('a');
       link.href = video.video_url;
-      link.download = `${video.story_title}-video.mp4`;
+      link.download = `${video.story_title}-video.${video.metadata?.mimeType?.includes('webm') ? 'webm' : 'mp4'}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -98,6 +128,31 @@ export const MyVideos: React.FC = () => {
     }
   };
 
+  const handleDownloadSubtitles = (video: StoryVideo & { story_title: string }, format: 'srt' | 'vtt') => {
+    const blob = new Blob(
+      [format === 'srt' ? toSRT(subtitles) : toWebVTT(subtitles)],
+      { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${video.story_title}-subtitles.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCancelVideo = async (videoId: string) => {
+    try {
+      await useVideoJobStore.getState().cancelJob(videoId);
+      toast.success('Video render cancelled');
+    } catch (error) {
+      console.error('Cancel video error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel video');
+    }
+  };
+
   const handleShareVideo = (video: any) => {
     if (navigator.share && video.video_url) {
       navigator.share({
@@ -111,6 +166,21 @@ export const MyVideos: React.FC = () => {
     }
   };
 
+  const editedStory = editing && selectedVideo
+    ? stories.find(story => story.id === selectedVideo.story_id)
+    : undefined;
+
+  if (selectedVideo && editedStory) {
+    return (
+      <TimelineEditor
+        video={selectedVideo}
+        story={editedStory}
+        onClose={() => navigate(paths.video(selectedVideo.id))}
+        onRendered={(renderedId) => navigate(paths.video(renderedId))}
+      />
+    );
+  }
+
   const getProviderColor = (provider: string) => {
     const colors = {
       kapwing: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
@@ -208,7 +278,7 @@ export const MyVideos: React.FC = () => {
                         poster={video.thumbnail_url || "https://images.pexels.com/photos/1261728/pexels-photo-1261728.jpeg?auto=compress&cs=tinysrgb&w=400"}
                         preload="metadata"
                       >
-                        <source src={video.video_url} type="video/mp4" />
+                        <source src={video.video_url} type={video.metadata?.mimeType || 'video/mp4'} />
                       </video>
                       <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                         <Button
@@ -219,6 +289,18 @@ export const MyVideos: React.FC = () => {
                         </Button>
                       </div>
                     </>
+                  ) : video.status === 'failed' ? (
+                    <div className="w-full h-full flex flex-col items-center justify-center p-4 text-center">
+                      <AlertCircle className="w-10 h-10 text-red-400 mb-2" />
+                      <p className="text-sm text-red-200 line-clamp-3">
+                        {video.error || 'Video generation failed'}
+                      </p>
+                    </div>
+                  ) : video.status === 'pending' || video.status === 'processing' ? (
+                    <div className="w-full h-full flex flex-col items-center justify-center">
+                      <RefreshCw className="w-10 h-10 text-gray-400 animate-spin mb-2" />
+                      <p className="text-sm text-gray-300">Rendering with {video.provider}...</p>
+                    </div>
                   ) : (
                     <div className="w-full h-full flex items-center justify-center">
                       <Video className="w-12 h-12 text-gray-400" />
@@ -259,6 +341,16 @@ export const MyVideos: React.FC = () => {
 
                   {/* Actions */}
                   <div className="flex space-x-2">
+                    {(video.status === 'pending' || video.status === 'processing') && video.provider_job_id && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCancelVideo(video.id)}
+                        className="flex-1"
+                      >
+                        Cancel Render
+                      </Button>
+                    )}
                     {video.video_url && (
                       <>
                         <Button
@@ -271,6 +363,15 @@ export const MyVideos: React.FC = () => {
                           Play
                         </Button>
                         
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => navigate(paths.videoEdit(video.id))}
+                          title="Edit"
+                        >
+                          <Scissors className="w-3 h-3" />
+                        </Button>
+
                         <Button
                           variant="outline"
                           size="sm"
@@ -288,7 +389,26 @@ export const MyVideos: React.FC = () => {
                         </Button>
                       </>
                     )}
+                    {video.metadata?.finalCut && (
+                      <Button
+                        variant={scenesVideoId === video.id ? 'primary' : 'outline'}
+                        size="sm"
+                        onClick={() => setScenesVideoId(scenesVideoId === video.id ? null : video.id)}
+                        title="Scenes"
+                        className={video.video_url ? undefined : 'flex-1'}
+                      >
+                        <Layers className="w-3 h-3" />
+                        {!video.video_url && <span className="ml-1">Scenes</span>}
+                      </Button>
+                    )}
                   </div>
+
+                  {/* Scene clips, so a failed scene can be rendered again */}
+                  {scenesVideoId === video.id && (
+                    <div className="mt-4">
+                      <SceneClipList videoId={video.id} />
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </motion.div>
@@ -326,7 +446,7 @@ export const MyVideos: React.FC = () => {
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => setSelectedVideo(null)}
+                onClick={() => navigate(paths.videos)}
                 className="text-white hover:bg-gray-800"
               >
                 ×
@@ -345,7 +465,10 @@ export const MyVideos: React.FC = () => {
                 onPause={() => setIsPlaying(false)}
                 onClick={togglePlayPause}
               >
-                <source src={selectedVideo.video_url} type="video/mp4" />
+                <source src={selectedVideo.video_url} type={selectedVideo.metadata?.mimeType || 'video/mp4'} />
+                {subtitleTrackUrl && (
+                  <track kind="subtitles" src={subtitleTrackUrl} srcLang="en" label="English" default />
+                )}
                 Your browser does not support the video tag.
               </video>
               
@@ -431,6 +554,34 @@ export const MyVideos: React.FC = () => {
                 <Download className="w-4 h-4 mr-2" />
                 Download
               </Button>
+              <Button
+                onClick={() => navigate(paths.videoEdit(selectedVideo.id))}
+                variant="outline"
+                className="border-gray-600 text-white hover:bg-gray-800"
+              >
+                <Scissors className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+              {subtitles.length > 0 && (
+                <>
+                  <Button
+                    onClick={() => handleDownloadSubtitles(selectedVideo, 'srt')}
+                    variant="outline"
+                    className="border-gray-600 text-white hover:bg-gray-800"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    SRT
+                  </Button>
+                  <Button
+                    onClick={() => handleDownloadSubtitles(selectedVideo, 'vtt')}
+                    variant="outline"
+                    className="border-gray-600 text-white hover:bg-gray-800"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    WebVTT
+                  </Button>
+                </>
+              )}
               <Button
                 onClick={() => handleShareVideo(selectedVideo)}
                 variant="outline"
@@ -6,12 +6,16 @@ import { Card, CardContent, CardHeader } from '../ui/Card';
 import { Input } from '../ui/Input';
 import { useAuthStore } from '../../store/authStore';
 import { useTheme } from '../../hooks/useTheme';
+import { llmService, LLMFeature, LLMProviderId } from '../../lib/llmService';
+import { useNavigate, useParams } from 'react-router-dom';
+import { paths } from '../../routes';
 import toast from 'react-hot-toast';
 
 export const Settings: React.FC = () => {
   const { user, logout } = useAuthStore();
   const { theme, toggleTheme } = useTheme();
-  const [activeTab, setActiveTab] = useState('profile');
+  const { tab } = useParams();
+  const navigate = useNavigate();
   const [profileData, setProfileData] = useState({
     email: user?.email || '',
     fullName: '',
@@ -32,6 +36,32 @@ export const Settings: React.FC = () => {
     marketingEmails: false
   });
 
+  const [llmConfig, setLlmConfig] = useState(() => llmService.getConfig());
+  const llmProviders = llmService.getProviders();
+  const llmFeatures: { id: LLMFeature; name: string }[] = [
+    { id: 'chat', name: 'Story chat' },
+    { id: 'story', name: 'Full story generation' },
+    { id: 'ideas', name: 'Story ideas' },
+    { id: 'characters', name: 'Character extraction' },
+    { id: 'scenes', name: 'Scene shot planning' },
+  ];
+
+  const moveProvider = (providerId: LLMProviderId, direction: -1 | 1) => {
+    const priority = [...llmConfig.priority];
+    const index = priority.indexOf(providerId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= priority.length) return;
+
+    [priority[index], priority[target]] = [priority[target], priority[index]];
+    llmService.setPriority(priority);
+    setLlmConfig(llmService.getConfig());
+  };
+
+  const handleFeatureProviderChange = (feature: LLMFeature, providerId: string) => {
+    llmService.setFeatureProvider(feature, (providerId || null) as LLMProviderId | null);
+    setLlmConfig(llmService.getConfig());
+  };
+
   const tabs = [
     { id: 'profile', name: 'Profile', icon: User },
     { id: 'api', name: 'API Keys', icon: Key },
@@ -40,6 +70,10 @@ export const Settings: React.FC = () => {
     { id: 'security', name: 'Security', icon: Shield },
   ];
 
+  // The open tab comes from /settings/:tab; unknown tabs fall back to the profile
+  const activeTab = tabs.some(t => t.id === tab) ? tab! : 'profile';
+  const setActiveTab = (tabId: string) => navigate(paths.settings(tabId));
+
   const handleSaveProfile = () => {
     // In a real app, this would save to the database
     toast.success('Profile updated successfully');
@@ -169,6 +203,55 @@ export const Settings: React.FC = () => {
                     </p>
                   </div>
 
+                  <div className="space-y-3">
+                    <h3 className="font-medium text-gray-900 dark:text-gray-100">AI Providers</h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Providers are tried in this order; a failing provider falls through to the next one.
+                    </p>
+                    {llmConfig.priority.map((providerId, index) => {
+                      const provider = llmProviders.find(p => p.id === providerId);
+                      if (!provider) return null;
+
+                      return (
+                        <div key={providerId} className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                          <div className="flex items-center space-x-3">
+                            <span className="text-sm text-gray-500">{index + 1}.</span>
+                            <span className="font-medium text-gray-900 dark:text-gray-100">{provider.name}</span>
+                            <span className={`text-xs px-2 py-0.5 rounded-full ${
+                              provider.isConfigured()
+                                ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                                : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400'
+                            }`}>
+                              {provider.isConfigured() ? 'Configured' : 'Not configured'}
+                            </span>
+                          </div>
+                          <div className="flex space-x-1">
+                            <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveProvider(providerId, -1)}>↑</Button>
+                            <Button variant="ghost" size="sm" disabled={index === llmConfig.priority.length - 1} onClick={() => moveProvider(providerId, 1)}>↓</Button>
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 pt-2">
+                      {llmFeatures.map(feature => (
+                        <label key={feature.id} className="block">
+                          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{feature.name}</span>
+                          <select
+                            value={llmConfig.features[feature.id] || ''}
+                            onChange={(e) => handleFeatureProviderChange(feature.id, e.target.value)}
+                            className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+                          >
+                            <option value="">Follow priority order</option>
+                            {llmProviders.map(provider => (
+                              <option key={provider.id} value={provider.id}>{provider.name}</option>
+                            ))}
+                          </select>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
                   <div className="space-y-4">
                     <Input
                       label="OpenAI API Key"
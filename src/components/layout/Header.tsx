@@ -2,6 +2,7 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Film, User, LogOut, Moon, Sun, Sparkles } from 'lucide-react';
 import { Button } from '../ui/Button';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
 import { useAuthStore } from '../../store/authStore';
 import { useTheme } from '../../hooks/useTheme';
 
@@ -52,6 +53,7 @@ export const Header: React.FC<HeaderProps> = ({ onAuthClick }) => {
             
             {isAuthenticated ? (
               <div className="flex items-center space-x-3">
+                <SyncStatusIndicator />
                 <div className="flex items-center space-x-2 px-3 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
                   <User className="w-4 h-4 text-gray-600 dark:text-gray-400" />
                   <span className="text-sm text-gray-700 dark:text-gray-300 max-w-32 truncate">
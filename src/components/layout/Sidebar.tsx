@@ -2,22 +2,26 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Home, PlusCircle, Video, Settings, BookOpen, Users } from 'lucide-react';
 import { clsx } from 'clsx';
-
-interface SidebarProps {
-  activeTab: string;
-  onTabChange: (tab: string) => void;
-}
+import { useLocation, useNavigate } from 'react-router-dom';
+import { paths } from '../../routes';
 
 const navigation = [
-  { id: 'dashboard', name: 'Dashboard', icon: Home },
-  { id: 'create', name: 'Create Story', icon: PlusCircle },
-  { id: 'stories', name: 'My Stories', icon: BookOpen },
-  { id: 'videos', name: 'Videos', icon: Video },
-  { id: 'characters', name: 'Characters', icon: Users },
-  { id: 'settings', name: 'Settings', icon: Settings },
+  { id: 'dashboard', name: 'Dashboard', icon: Home, path: paths.dashboard },
+  { id: 'create', name: 'Create Story', icon: PlusCircle, path: paths.create },
+  { id: 'stories', name: 'My Stories', icon: BookOpen, path: paths.stories },
+  { id: 'videos', name: 'Videos', icon: Video, path: paths.videos },
+  { id: 'characters', name: 'Characters', icon: Users, path: paths.characters },
+  { id: 'settings', name: 'Settings', icon: Settings, path: paths.settings() },
 ];
 
-export const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange }) => {
+export const Sidebar: React.FC = () => {
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
+
+  // Nested routes such as /stories/:id/edit keep their section highlighted
+  const isActivePath = (path: string) =>
+    path === paths.dashboard ? pathname === path : pathname === path || pathname.startsWith(`${path}/`);
+
   return (
     <motion.aside
       initial={{ x: -20, opacity: 0 }}
@@ -28,12 +32,12 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange }) => {
         <nav className="space-y-2">
           {navigation.map((item) => {
             const Icon = item.icon;
-            const isActive = activeTab === item.id;
+            const isActive = isActivePath(item.path);
             
             return (
               <motion.button
                 key={item.id}
-                onClick={() => onTabChange(item.id)}
+                onClick={() => navigate(item.path)}
                 className={clsx(
                   'w-full flex items-center space-x-3 px-4 py-3 rounded-lg text-left transition-all duration-200 group',
                   isActive
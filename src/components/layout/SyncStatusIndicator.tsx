@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, Check, RotateCcw, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import { Modal } from '../ui/Modal';
+import { useSyncStore } from '../../store/syncStore';
+import { PendingMutation } from '../../lib/localDatabase';
+
+const MUTATION_LABELS: Record<PendingMutation['kind'], string> = {
+  'story.update': 'Story details',
+  'story.delete': 'Story deletion',
+  'segments.save': 'Scenes',
+  'characters.save': 'Characters',
+  'revision.create': 'Revision snapshot',
+};
+
+export const SyncStatusIndicator: React.FC = () => {
+  const { status, pendingCount, conflicts, failed, resolveConflict, retryFailed, dismissFailed } = useSyncStore();
+  const [showDetails, setShowDetails] = useState(false);
+
+  const handleResolve = async (mutationId: number, resolution: 'local' | 'remote') => {
+    try {
+      await resolveConflict(mutationId, resolution);
+      toast.success(resolution === 'local' ? 'Your version was saved' : 'Server version restored');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve conflict');
+    }
+  };
+
+  const getStatusDisplay = () => {
+    switch (status) {
+      case 'syncing':
+        return { icon: <RefreshCw className="w-4 h-4 animate-spin" />, label: 'Syncing', className: 'text-primary-600 dark:text-primary-400' };
+      case 'pending':
+        return { icon: <Cloud className="w-4 h-4" />, label: `${pendingCount} pending`, className: 'text-yellow-600 dark:text-yellow-400' };
+      case 'offline':
+        return { icon: <CloudOff className="w-4 h-4" />, label: pendingCount > 0 ? `Offline · ${pendingCount}` : 'Offline', className: 'text-gray-500 dark:text-gray-400' };
+      case 'conflict':
+        return { icon: <AlertTriangle className="w-4 h-4" />, label: 'Conflict', className: 'text-orange-600 dark:text-orange-400' };
+      case 'error':
+        return { icon: <AlertTriangle className="w-4 h-4" />, label: 'Sync failed', className: 'text-red-600 dark:text-red-400' };
+      default:
+        return { icon: <Check className="w-4 h-4" />, label: 'Saved', className: 'text-green-600 dark:text-green-400' };
+    }
+  };
+
+  const display = getStatusDisplay();
+  const hasIssues = conflicts.length > 0 || failed.length > 0;
+
+  return (
+    <>
+      <button
+        onClick={() => setShowDetails(true)}
+        disabled={!hasIssues}
+        title={hasIssues ? 'Review sync issues' : display.label}
+        className={`flex items-center space-x-1 px-2 py-1 rounded-lg text-xs font-medium transition-colors ${display.className} ${hasIssues ? 'hover:bg-gray-100 dark:hover:bg-gray-800' : 'cursor-default'}`}
+      >
+        {display.icon}
+        <span className="hidden sm:inline">{display.label}</span>
+      </button>
+
+      <Modal
+        isOpen={showDetails && hasIssues}
+        onClose={() => setShowDetails(false)}
+        title="Sync Issues"
+        maxWidth="lg"
+      >
+        <div className="space-y-4">
+          {conflicts.map(mutation => (
+            <div key={mutation.id} className="p-4 border border-orange-200 dark:border-orange-800 bg-orange-50 dark:bg-orange-900/20 rounded-lg">
+              <div className="font-medium text-gray-900 dark:text-white">
+                {MUTATION_LABELS[mutation.kind]}
+                {typeof mutation.remote?.title === 'string' && ` - ${mutation.remote.title}`}
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 mb-3">
+                This story was changed on another device after your offline edit.
+              </p>
+              <div className="flex space-x-2">
+                <Button size="sm" onClick={() => handleResolve(mutation.id!, 'local')}>
+                  Keep mine
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleResolve(mutation.id!, 'remote')}>
+                  Use server version
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {failed.map(mutation => (
+            <div key={mutation.id} className="p-4 border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 rounded-lg">
+              <div className="font-medium text-gray-900 dark:text-white">
+                {MUTATION_LABELS[mutation.kind]} could not be saved
+              </div>
+              {mutation.lastError && (
+                <p className="text-sm text-red-600 dark:text-red-400 mt-1 mb-3">{mutation.lastError}</p>
+              )}
+              <div className="flex space-x-2">
+                <Button size="sm" onClick={() => retryFailed(mutation.id!)}>
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Retry
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => dismissFailed(mutation.id!)}>
+                  <X className="w-4 h-4 mr-1" />
+                  Discard
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </Modal>
+    </>
+  );
+};
@@ -1,10 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Send, Bot, User, Sparkles, RefreshCw, Lightbulb, Wand2, AlertCircle, Loader2, CheckCircle, ArrowRight } from 'lucide-react';
+import { Send, Bot, User, Sparkles, RefreshCw, Lightbulb, Wand2, AlertCircle, Loader2, CheckCircle, ArrowRight, Square } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card, CardContent } from '../ui/Card';
 import { aiService } from '../../lib/aiService';
-import { geminiService } from '../../lib/geminiService';
 import toast from 'react-hot-toast';
 
 interface Message {
@@ -12,6 +11,7 @@ interface Message {
   type: 'user' | 'ai';
   content: string;
   timestamp: Date;
+  isStreaming?: boolean;
 }
 
 interface StoryTemplate {
@@ -35,7 +35,7 @@ export const AIStoryChat: React.FC<AIStoryChatProps> = ({
     {
       id: '1',
       type: 'ai',
-      content: `Hello! I'm your AI story assistant powered by ${geminiService.isConfigured() ? 'Gemini AI' : 'advanced AI'}. I'll help you create an amazing ${theme} story. 
+      content: `Hello! I'm your AI story assistant powered by ${aiService.getProviderName('chat') || 'advanced AI'}. I'll help you create an amazing ${theme} story. 
 
 You can either:
 🎯 Tell me your own story idea
@@ -53,8 +53,12 @@ What would you like to do?`,
   const [apiConfigured, setApiConfigured] = useState(false);
   const [isLoadingStory, setIsLoadingStory] = useState(false);
   const [storyGenerated, setStoryGenerated] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamingStory, setStreamingStory] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const storyPreviewEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -64,11 +68,86 @@ What would you like to do?`,
     scrollToBottom();
   }, [messages]);
 
+  useEffect(() => {
+    storyPreviewEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [streamingStory]);
+
   useEffect(() => {
     setApiConfigured(aiService.isConfigured());
     generateStoryTemplates();
   }, [theme]);
 
+  // Stop any response still streaming when the chat goes away
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const startStream = () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsStreaming(true);
+    return controller;
+  };
+
+  const endStream = () => {
+    abortControllerRef.current = null;
+    setIsStreaming(false);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const updateMessage = (id: string, changes: Partial<Message>) => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, ...changes } : message));
+  };
+
+  // Streams a complete screenplay into the preview; a stopped story stays in the chat instead of moving on
+  const streamStory = async (storyIdea: string, conversationContext?: string) => {
+    const controller = startStream();
+    let story = '';
+
+    setStreamingStory('');
+    setIsLoadingStory(true);
+
+    try {
+      for await (const token of aiService.streamCompleteStory(theme, storyIdea, conversationContext, controller.signal)) {
+        story += token;
+        setStreamingStory(story);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) throw error;
+    } finally {
+      endStream();
+      setIsLoadingStory(false);
+    }
+
+    if (controller.signal.aborted) {
+      const stoppedMessage: Message = {
+        id: Date.now().toString(),
+        type: 'ai',
+        content: story.trim()
+          ? `⏹️ Story generation stopped. Here's what I had so far:\n\n${story}\n\nSay 'generate my story' when you want me to try again.`
+          : "⏹️ Story generation stopped. Say 'generate my story' when you want me to try again.",
+        timestamp: new Date(),
+      };
+      setMessages(prev => [...prev, stoppedMessage]);
+      return;
+    }
+
+    setStoryGenerated(true);
+
+    const completionMessage: Message = {
+      id: (Date.now() + 2).toString(),
+      type: 'ai',
+      content: '✅ Your complete story has been generated! Click "Continue" to review and edit it.',
+      timestamp: new Date(),
+    };
+    setMessages(prev => [...prev, completionMessage]);
+
+    onStoryGenerated(story);
+  };
+
   const generateStoryTemplates = async () => {
     try {
       const templates = await aiService.generateStoryIdeas(theme, 3);
@@ -79,7 +158,7 @@ What would you like to do?`,
   };
 
   const handleSendMessage = async () => {
-    if (!inputValue.trim() || isTyping || isLoadingStory) return;
+    if (!inputValue.trim() || isTyping || isStreaming || isLoadingStory) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -94,8 +173,6 @@ What would you like to do?`,
     setShowSuggestions(false);
 
     try {
-      let aiResponse: string;
-
       // Check if user wants to generate a complete story
       const userMessageLower = userMessage.content.toLowerCase();
       const shouldGenerateStory = userMessageLower.includes('generate') || 
@@ -106,8 +183,6 @@ What would you like to do?`,
                                   messages.filter(m => m.type === 'user').length >= 2; // Auto-generate after 2 user messages
 
       if (shouldGenerateStory) {
-        // Show loading state for story generation
-        setIsLoadingStory(true);
         setIsTyping(false);
         
         const loadingMessage: Message = {
@@ -124,37 +199,46 @@ What would you like to do?`,
           .map(m => m.content)
           .join(' ');
         
-        const story = await aiService.generateCompleteStory(theme, userMessage.content, conversationContext);
-        
-        setIsLoadingStory(false);
-        setStoryGenerated(true);
-        
-        const completionMessage: Message = {
-          id: (Date.now() + 2).toString(),
-          type: 'ai',
-          content: '✅ Your complete story has been generated! Click "Continue" to review and edit it.',
-          timestamp: new Date(),
-        };
-        setMessages(prev => [...prev, completionMessage]);
-        
-        onStoryGenerated(story);
+        await streamStory(userMessage.content, conversationContext);
         return;
       }
 
+      const aiMessageId = (Date.now() + 1).toString();
+
       if (apiConfigured) {
-        aiResponse = await aiService.generateStoryResponse(userMessage.content, theme, messages);
+        const controller = startStream();
+        let started = false;
+
+        try {
+          for await (const token of aiService.streamStoryResponse(userMessage.content, theme, messages, controller.signal)) {
+            if (!started) {
+              // The typing indicator gives way to the message as soon as the first token lands
+              started = true;
+              setIsTyping(false);
+              setMessages(prev => [...prev, { id: aiMessageId, type: 'ai', content: token, timestamp: new Date(), isStreaming: true }]);
+            } else {
+              setMessages(prev => prev.map(message =>
+                message.id === aiMessageId ? { ...message, content: message.content + token } : message
+              ));
+            }
+          }
+        } catch (error) {
+          if (!controller.signal.aborted) throw error;
+        } finally {
+          endStream();
+          updateMessage(aiMessageId, { isStreaming: false });
+        }
+
+        if (controller.signal.aborted) return;
       } else {
-        aiResponse = await generateFallbackResponse(userMessage.content, messages.length);
+        const aiMessage: Message = {
+          id: aiMessageId,
+          type: 'ai',
+          content: await generateFallbackResponse(userMessage.content, messages.length),
+          timestamp: new Date(),
+        };
+        setMessages(prev => [...prev, aiMessage]);
       }
-      
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'ai',
-        content: aiResponse,
-        timestamp: new Date(),
-      };
-
-      setMessages(prev => [...prev, aiMessage]);
 
       // Check if we should offer to generate the full story
       if (messages.filter(m => m.type === 'user').length >= 1) {
@@ -212,9 +296,7 @@ Which of these interests you, or would you like me to suggest different concepts
   };
 
   const handleTemplateSelect = async (template: StoryTemplate) => {
-    setIsTyping(true);
     setShowSuggestions(false);
-    setIsLoadingStory(true);
 
     try {
       // Add user message
@@ -236,20 +318,7 @@ Which of these interests you, or would you like me to suggest different concepts
       setMessages(prev => [...prev, aiMessage]);
 
       // Generate complete story directly from template
-      const story = await aiService.generateCompleteStory(theme, `${template.title}: ${template.description}`);
-      
-      setStoryGenerated(true);
-      
-      const completionMessage: Message = {
-        id: (Date.now() + 2).toString(),
-        type: 'ai',
-        content: '✅ Your complete story has been generated! Click "Continue" to review and edit it.',
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, completionMessage]);
-
-      // Generate the story
-      onStoryGenerated(story);
+      await streamStory(`${template.title}: ${template.description}`);
     } catch (error: any) {
       console.error('Error generating story from template:', error);
       toast.error(apiConfigured ? 'Failed to generate story. Please try again.' : 'Please add your Gemini or OpenAI API key for story generation.');
@@ -270,9 +339,6 @@ Which of these interests you, or would you like me to suggest different concepts
         timestamp: new Date(),
       };
       setMessages(prev => [...prev, aiMessage]);
-    } finally {
-      setIsTyping(false);
-      setIsLoadingStory(false);
     }
   };
 
@@ -295,6 +361,7 @@ Which of these interests you, or would you like me to suggest different concepts
   };
 
   const resetChat = () => {
+    abortControllerRef.current?.abort();
     setMessages([
       {
         id: '1',
@@ -315,7 +382,37 @@ Which of these interests you, or would you like me to suggest different concepts
     }
   };
 
-  // Show loading screen when generating story
+  // Show the screenplay as it streams in, with the option to stop
+  if (isLoadingStory && streamingStory) {
+    return (
+      <div className="flex flex-col h-[600px] bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <Loader2 className="w-5 h-5 text-primary-500 animate-spin" />
+            <div>
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100">🎬 Writing Your Story</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {streamingStory.split(/\s+/).filter(Boolean).length} words so far
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleStop}>
+            <Square className="w-3 h-3 mr-1" />
+            Stop
+          </Button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="text-sm leading-relaxed whitespace-pre-wrap text-gray-900 dark:text-gray-100 font-mono">
+            {streamingStory}
+            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary-500 animate-pulse" />
+          </div>
+          <div ref={storyPreviewEndRef} />
+        </div>
+      </div>
+    );
+  }
+
+  // Show loading screen until the first words of the story arrive
   if (isLoadingStory) {
     return (
       <div className="flex flex-col h-[600px] bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
@@ -370,6 +467,13 @@ Which of these interests you, or would you like me to suggest different concepts
                 Almost ready... Creating your masterpiece!
               </div>
             </div>
+
+            {isStreaming && (
+              <Button variant="outline" size="sm" onClick={handleStop}>
+                <Square className="w-3 h-3 mr-1" />
+                Stop
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -495,9 +599,9 @@ Which of these interests you, or would you like me to suggest different concepts
               {!apiConfigured && (
                 <AlertCircle className="w-3 h-3 text-yellow-500" title="API key not configured" />
               )}
-              {geminiService.isConfigured() && (
+              {aiService.getProviderName('chat') && (
                 <span className="text-xs bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 px-2 py-1 rounded-full">
-                  Gemini AI
+                  {aiService.getProviderName('chat')}
                 </span>
               )}
             </p>
@@ -548,6 +652,9 @@ Which of these interests you, or would you like me to suggest different concepts
                 }`}>
                   <div className="text-sm leading-relaxed whitespace-pre-wrap">
                     {message.content}
+                    {message.isStreaming && (
+                      <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                    )}
                   </div>
                   <p className={`text-xs mt-1 ${
                     message.type === 'user' 
@@ -601,26 +708,36 @@ Which of these interests you, or would you like me to suggest different concepts
             onKeyPress={handleKeyPress}
             placeholder={storyGenerated ? "Story is ready! Click Continue to proceed..." : "Describe your story idea or ask for suggestions..."}
             className="flex-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
-            disabled={isTyping || isGenerating || isLoadingStory || storyGenerated}
+            disabled={isTyping || isStreaming || isGenerating || isLoadingStory || storyGenerated}
           />
-          <Button
-            onClick={handleSendMessage}
-            disabled={!inputValue.trim() || isTyping || isGenerating || isLoadingStory || storyGenerated}
-            className="px-3"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          {isStreaming ? (
+            <Button
+              variant="outline"
+              onClick={handleStop}
+              className="px-3"
+              title="Stop generating"
+            >
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSendMessage}
+              disabled={!inputValue.trim() || isTyping || isGenerating || isLoadingStory || storyGenerated}
+              className="px-3"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
         </div>
         
         {/* Status */}
         <div className="flex justify-between items-center mt-2 text-xs text-gray-500 dark:text-gray-400">
           <span>
             {storyGenerated ? '✅ Story ready for review' :
-             geminiService.isConfigured() ? '🤖 Gemini AI enabled' : 
-             aiService.isConfigured() ? '🤖 AI responses enabled' : 
+             aiService.isConfigured() ? `🤖 ${aiService.getProviderName('chat')} enabled` : 
              '💡 Add API key for full AI features'}
           </span>
-          <span>{storyGenerated ? 'Click Continue to proceed' : 'Press Enter to send'}</span>
+          <span>{storyGenerated ? 'Click Continue to proceed' : isStreaming ? 'Click stop to cut the answer short' : 'Press Enter to send'}</span>
         </div>
       </div>
     </div>
@@ -1,35 +1,51 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Volume2, Play, Pause, Download, RefreshCw, Mic, User, Settings, Check, AlertCircle, Square, VolumeX, SkipForward } from 'lucide-react';
+import { Volume2, Play, Pause, Download, RefreshCw, Mic, User, Users, Settings, Check, AlertCircle, Square, VolumeX, SkipForward, Layers, Save, Wand2, Captions } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader } from '../ui/Card';
-import { geminiService } from '../../lib/geminiService';
-import { elevenLabsService } from '../../lib/elevenlabsService';
+import { elevenLabsService, ElevenLabsVoice } from '../../lib/elevenlabsService';
+import { parseStoryText, toSpeechSegments } from '../../lib/screenplay';
+import { audioMixService, DEFAULT_MIXDOWN_SETTINGS } from '../../lib/audioMixService';
+import { offlineTtsService } from '../../lib/offlineTtsService';
+import { buildSubtitleCues, placeClips, timeSpeech, toSRT, toWebVTT } from '../../lib/subtitles';
+import { applyPronunciations } from '../../lib/pronunciation';
+import { VoiceCloneStudio } from './VoiceCloneStudio';
 import toast from 'react-hot-toast';
+import { AudioClip, AudioMixdown, CharacterVoice, ExtractedCharacter, MixdownSettings, PronunciationEntry, StoryTheme } from '../../types';
 
 interface AudioGeneratorProps {
   storySegments: any[];
   characters: any[];
+  initialAudio?: AudioClip[];
+  theme?: StoryTheme;
+  pronunciations?: PronunciationEntry[];
   onAudioGenerated: (audioFiles: any[]) => void;
+  onMixdownRendered?: (mixdown: AudioMixdown) => void;
+  onCastSaved?: (characters: ExtractedCharacter[]) => void;
 }
 
-interface AudioFile {
-  id: string;
-  text: string;
-  character?: string;
-  type: 'narration' | 'dialogue';
-  audioUrl?: string;
+interface AudioFile extends AudioClip {
   isPlaying: boolean;
   isGenerated: boolean;
-  duration?: number;
+  isPremium?: boolean; // Voiced through ElevenLabs rather than rendered offline
 }
 
 export const AudioGenerator: React.FC<AudioGeneratorProps> = ({
   storySegments,
   characters,
-  onAudioGenerated
+  initialAudio = [],
+  theme,
+  pronunciations = [],
+  onAudioGenerated,
+  onMixdownRendered,
+  onCastSaved
 }) => {
-  const [audioFiles, setAudioFiles] = useState<AudioFile[]>([]);
+  const [audioFiles, setAudioFiles] = useState<AudioFile[]>(
+    initialAudio.map(clip => ({ ...clip, isPlaying: false, isGenerated: true }))
+  );
+  // Which characters can speak only depends on their names, so recasting a voice keeps the clips
+  const speakerKey = characters.map(char => [char.name, ...(char.aliases || [])].join('|')).join(',');
+  const extractedFrom = useRef(initialAudio.length > 0 ? { storySegments, speakerKey } : null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [selectedVoice, setSelectedVoice] = useState('professional');
   const [currentlyPlaying, setCurrentlyPlaying] = useState<string | null>(null);
@@ -42,10 +58,42 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({
     includeDialogue: true,
     voiceStyle: 'professional' as 'professional' | 'casual' | 'dramatic'
   });
+  const [mixSettings, setMixSettings] = useState<MixdownSettings>(DEFAULT_MIXDOWN_SETTINGS);
+  const [mixdown, setMixdown] = useState<AudioMixdown | null>(null);
+  const [isMixing, setIsMixing] = useState(false);
+  const [voices, setVoices] = useState<ElevenLabsVoice[]>([]);
+  const [cast, setCast] = useState<Record<string, CharacterVoice>>({});
+  const [isCastDirty, setIsCastDirty] = useState(false);
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const [showCloneStudio, setShowCloneStudio] = useState(false);
+  const previewAudio = useRef<HTMLAudioElement | null>(null);
+  const storyTheme = theme || storySegments[0]?.theme || 'fantasy';
+  const castCharacters = characters.map(char => ({ ...char, voice: cast[char.id] || char.voice }));
 
   useEffect(() => {
+    // Saved clips already cover these segments, so only re-extract when the inputs change
+    const source = extractedFrom.current;
+    if (source && source.storySegments === storySegments && source.speakerKey === speakerKey) {
+      return;
+    }
+    extractedFrom.current = { storySegments, speakerKey };
     extractAudioFromSegments();
-  }, [storySegments, characters]);
+  }, [storySegments, speakerKey]);
+
+  useEffect(() => {
+    elevenLabsService.getVoices().then(setVoices);
+
+    return () => {
+      previewAudio.current?.pause();
+    };
+  }, []);
+
+  // Keep edits that haven't been saved yet; new characters start from their saved or heuristic voice
+  useEffect(() => {
+    setCast(prev => Object.fromEntries(
+      characters.map(char => [char.id, prev[char.id] || elevenLabsService.getCharacterVoice(char)])
+    ));
+  }, [characters]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -60,75 +108,32 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({
     const extractedAudio: AudioFile[] = [];
     
     storySegments.forEach((segment, segmentIndex) => {
-      // Extract narration
-      if (audioSettings.includeNarration && segment.content) {
-        const narrativeText = extractNarrative(segment.content);
-        if (narrativeText) {
-          extractedAudio.push({
-            id: `narration-${segmentIndex}`,
-            text: narrativeText,
-            type: 'narration',
-            isPlaying: false,
-            isGenerated: false
-          });
-        }
-      }
+      // Keep narration and dialogue in script order so the mixdown plays the scene as written
+      toSpeechSegments(parseStoryText(segment.content || '')).forEach((part, partIndex) => {
+        const included = part.type === 'narration'
+          ? audioSettings.includeNarration
+          : audioSettings.includeDialogue && isKnownCharacter(part.character!);
+        if (!included) return;
 
-      // Extract dialogue
-      if (audioSettings.includeDialogue) {
-        const dialogueLines = extractDialogue(segment.content);
-        dialogueLines.forEach((line, lineIndex) => {
-          extractedAudio.push({
-            id: `dialogue-${segmentIndex}-${lineIndex}`,
-            text: line.text,
-            character: line.character,
-            type: 'dialogue',
-            isPlaying: false,
-            isGenerated: false
-          });
+        extractedAudio.push({
+          id: `${part.type}-${segmentIndex}-${partIndex}`,
+          text: part.text,
+          character: part.character,
+          type: part.type,
+          scene: segmentIndex,
+          isPlaying: false,
+          isGenerated: false
         });
-      }
+      });
     });
 
     setAudioFiles(extractedAudio);
   };
 
-  const extractNarrative = (content: string): string => {
-    // Extract narrative text (non-dialogue parts)
-    const lines = content.split('\n');
-    const narrativeLines = lines.filter(line => {
-      const trimmed = line.trim();
-      return trimmed && 
-             !trimmed.startsWith('**') && 
-             !trimmed.includes(':') &&
-             !trimmed.startsWith('*') &&
-             trimmed.length > 10;
-    });
-    
-    return narrativeLines.join(' ').substring(0, 500); // Limit length
-  };
-
-  const extractDialogue = (content: string): Array<{character: string, text: string}> => {
-    const dialogue = [];
-    const lines = content.split('\n');
-    
-    for (const line of lines) {
-      const dialogueMatch = line.match(/^\*\*([A-Z][A-Z\s]+)\*\*:?\s*(.+)/);
-      if (dialogueMatch) {
-        const characterName = dialogueMatch[1].trim();
-        const text = dialogueMatch[2].trim();
-        
-        if (characters.some(char => char.name.toUpperCase() === characterName)) {
-          dialogue.push({
-            character: characterName,
-            text: text
-          });
-        }
-      }
-    }
-    
-    return dialogue;
-  };
+  const isKnownCharacter = (name: string) => characters.some(char =>
+    char.name.toUpperCase() === name ||
+    char.aliases?.some((alias: string) => alias.toUpperCase() === name)
+  );
 
   const generateAllAudio = async () => {
     setIsGenerating(true);
@@ -138,31 +143,37 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({
       
       // Use ElevenLabs story narration for premium experience
       if (elevenLabsService.isConfigured() && storySegments.length > 0) {
-        const storyText = storySegments.map(seg => seg.content).join('\n');
-        const theme = storySegments[0]?.theme || 'fantasy';
+        const theme = storyTheme;
         
         // Generate character voices mapping
-        const characterVoices = await elevenLabsService.generateCharacterVoices(characters);
-        
-        // Generate story narration with Creator Tier
-        const narrationResult = await elevenLabsService.generateStoryNarration(
-          storyText,
-          theme,
-          characterVoices
-        );
+        const characterVoices = await elevenLabsService.generateCharacterVoices(castCharacters);
         
-        const enhancedFiles = narrationResult.segments.map((segment, index) => ({
-          id: `enhanced-${index}`,
-          text: segment.text,
-          character: segment.character,
-          type: segment.type,
-          audioUrl: segment.audioUrl,
-          isPlaying: false,
-          isGenerated: true,
-          duration: estimateAudioDuration(segment.text),
-          voiceId: segment.voiceId,
-          isPremium: true
-        }));
+        // Narrate scene by scene so every clip knows its scene and the mixdown pauses between them.
+        // The clips are mixed later, with the user's music and ambience, by renderMixdown
+        const enhancedFiles: AudioFile[] = [];
+        for (const [sceneIndex, storySegment] of storySegments.entries()) {
+          const segments = await elevenLabsService.generateNarrationSegments(
+            storySegment.content,
+            theme,
+            characterVoices,
+            pronunciations
+          );
+
+          segments.forEach(segment => enhancedFiles.push({
+            id: `enhanced-${enhancedFiles.length}`,
+            text: segment.text,
+            character: segment.character,
+            type: segment.type,
+            scene: sceneIndex,
+            audioUrl: segment.audioUrl,
+            isPlaying: false,
+            isGenerated: true,
+            duration: segment.duration || estimateAudioDuration(segment.text),
+            words: segment.words,
+            voiceId: segment.voiceId,
+            isPremium: true
+          }));
+        }
         
         setAudioFiles(enhancedFiles);
         onAudioGenerated(enhancedFiles);
@@ -175,12 +186,13 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({
       
       for (const audioFile of audioFiles) {
         try {
-          const audioUrl = await generateSingleAudio(audioFile);
+          const { audioUrl, words, duration } = await generateSingleAudio(audioFile);
           const updatedFile = {
             ...audioFile,
             audioUrl,
+            words,
             isGenerated: true,
-            duration: estimateAudioDuration(audioFile.text)
+            duration
           };
           
           generatedFiles.push(updatedFile);
@@ -210,53 +222,24 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({
     }
   };
 
-  const generateSingleAudio = async (audioFile: AudioFile): Promise<string> => {
-    // Use browser Speech Synthesis API for demo
-    return new Promise((resolve, reject) => {
-      if (!('speechSynthesis' in window)) {
-        reject(new Error('Speech synthesis not supported'));
-        return;
-      }
-
-      const utterance = new SpeechSynthesisUtterance(audioFile.text);
-      
-      // Configure voice settings based on character or type
-      if (audioFile.character) {
-        const character = characters.find(c => c.name.toUpperCase() === audioFile.character?.toUpperCase());
-        if (character) {
-          utterance.pitch = character.appearance.gender === 'female' ? 1.2 : 0.8;
-          utterance.rate = audioSettings.speed;
-        }
-      } else {
-        // Narrator voice
-        utterance.pitch = 1.0;
-        utterance.rate = audioSettings.speed * 0.9; // Slightly slower for narration
-      }
+  // Renders real audio offline, so clips can be downloaded and mixed without ElevenLabs
+  const generateSingleAudio = async (audioFile: AudioFile) => {
+    const character = audioFile.character
+      ? castCharacters.find(c => c.name.toUpperCase() === audioFile.character?.toUpperCase())
+      : undefined;
 
-      utterance.volume = audioSettings.volume;
-
-      // Try to find a suitable voice
-      const voices = speechSynthesis.getVoices();
-      const preferredVoice = voices.find(voice => 
-        voice.lang.startsWith('en') && voice.name.includes('Google')
-      ) || voices.find(voice => voice.lang.startsWith('en'));
-      
-      if (preferredVoice) {
-        utterance.voice = preferredVoice;
-      }
-
-      utterance.onend = () => {
-        // Create a blob URL for the audio (simulated)
-        const audioUrl = `data:audio/wav;base64,${btoa('simulated-audio-data')}`;
-        resolve(audioUrl);
-      };
-
-      utterance.onerror = (error) => {
-        reject(new Error(`Speech synthesis error: ${error.error}`));
-      };
-
-      speechSynthesis.speak(utterance);
+    const audioUrl = await offlineTtsService.generateSpeech({
+      text: audioFile.text,
+      voice_id: character
+        ? elevenLabsService.getCharacterVoice(character).voiceId
+        : elevenLabsService.getThemeOptimizedVoice(storyTheme).voice_id,
+      // Narration reads slightly slower than dialogue
+      speed: character ? audioSettings.speed : audioSettings.speed * 0.9,
+      pitch: audioSettings.pitch,
+      pronunciations
     });
+
+    return { audioUrl, ...(await timeSpeech(audioUrl, audioFile.text)) };
   };
 
   const estimateAudioDuration = (text: string): number => {
@@ -281,7 +264,7 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({
     }
 
     try {
-      const utterance = new SpeechSynthesisUtterance(audioFile.text);
+      const utterance = new SpeechSynthesisUtterance(applyPronunciations(audioFile.text, pronunciations));
       utterance.rate = audioSettings.speed;
       utterance.pitch = audioFile.character ? 
         (characters.find(c => c.name.toUpperCase() === audioFile.character?.toUpperCase())?.appearance.gender === 'female' ? 1.2 : 0.8) : 
@@ -368,21 +351,209 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({
     }
   };
 
-  const downloadAudio = (audioFile: AudioFile) => {
-    if (!audioFile.audioUrl) {
+  const downloadAudio = async (audioFile: AudioFile) => {
+    if (!audioFile.audioUrl || !audioMixService.hasRenderedAudio(audioFile)) {
       toast.error('Audio not generated yet');
       return;
     }
-    
-    // For demo purposes, show success message
-    toast.success(`Audio file "${audioFile.character || 'Narration'}" ready for download`);
+
+    try {
+      const response = await fetch(audioFile.audioUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const blob = await response.blob();
+      const extension = blob.type.includes('mpeg') ? 'mp3' : 'wav';
+      const name = (audioFile.character || 'narration').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      const url = URL.createObjectURL(blob);
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${name}-${audioFile.id}.${extension}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('❌ Audio download failed:', error);
+      toast.error('Failed to download audio');
+    }
+  };
+
+  const renderMixdown = async () => {
+    if (!audioFiles.some(file => audioMixService.hasRenderedAudio(file))) {
+      toast.error('Generate audio before rendering a mix');
+      return;
+    }
+
+    setIsMixing(true);
+    try {
+      const mix = await audioMixService.mixdown(audioFiles, storyTheme, mixSettings);
+      if (mixdown) URL.revokeObjectURL(mixdown.url);
+      setMixdown(mix);
+      onMixdownRendered?.(mix);
+      toast.success(`Mixed ${mix.cues.length} clips into one ${Math.round(mix.duration)}s track`);
+    } catch (error) {
+      console.error('❌ Mixdown failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to render the audio mix');
+    } finally {
+      setIsMixing(false);
+    }
+  };
+
+  const downloadMixdown = () => {
+    if (!mixdown) return;
+
+    const link = document.createElement('a');
+    link.href = mixdown.url;
+    link.download = 'story-audio-mix.wav';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  // Cues follow the rendered mix when there is one, otherwise the mixer's default spacing
+  const downloadSubtitles = (format: 'srt' | 'vtt') => {
+    const clips = audioFiles.filter(file => file.isGenerated);
+    const cues = buildSubtitleCues(clips, mixdown?.cues || placeClips(clips, mixSettings));
+    if (cues.length === 0) {
+      toast.error('Generate audio before exporting subtitles');
+      return;
+    }
+
+    const blob = new Blob(
+      [format === 'srt' ? toSRT(cues) : toWebVTT(cues)],
+      { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `story-subtitles.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const updateCharacterGain = (name: string, gain: number) => {
+    setMixSettings(prev => ({ ...prev, characterGains: { ...prev.characterGains, [name]: gain } }));
   };
 
+  const mixVoices = Array.from(new Set(
+    audioFiles.filter(file => file.type === 'dialogue' && file.character).map(file => file.character!.toUpperCase())
+  ));
+
+  const renderMixSlider = (
+    label: string,
+    value: number,
+    max: number,
+    step: number,
+    onChange: (value: number) => void,
+    format: (value: number) => string = v => `${v}s`
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {label}: {format(value)}
+      </label>
+      <input
+        type="range"
+        min="0"
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 slider"
+      />
+    </div>
+  );
+
+  const formatGain = (value: number) => `${Math.round(value * 100)}%`;
+
   const getCharacterVoiceInfo = (characterName: string) => {
-    const character = characters.find(c => c.name.toUpperCase() === characterName.toUpperCase());
+    const character = castCharacters.find(c => c.name.toUpperCase() === characterName.toUpperCase());
     if (!character) return 'Unknown Character';
-    
-    return `${character.appearance.gender}, ${character.appearance.age} years old`;
+
+    const voice = elevenLabsService.getCharacterVoice(character);
+    const voiceName = voice.voiceName || voices.find(v => v.voice_id === voice.voiceId)?.name;
+    return `${character.appearance.gender}, ${character.appearance.age} years old${voiceName ? ` · ${voiceName}` : ''}`;
+  };
+
+  const updateCast = (characterId: string, update: (voice: CharacterVoice) => CharacterVoice) => {
+    setCast(prev => ({ ...prev, [characterId]: update(prev[characterId]) }));
+    setIsCastDirty(true);
+  };
+
+  const assignVoice = (characterId: string, voiceId: string) => {
+    const voice = voices.find(v => v.voice_id === voiceId);
+    updateCast(characterId, current => ({
+      ...current,
+      voiceId,
+      voiceName: voice?.name.replace(/ \(Demo\)$/, '')
+    }));
+  };
+
+  const updateVoiceSetting = (characterId: string, setting: 'stability' | 'similarity_boost' | 'style', value: number) => {
+    updateCast(characterId, current => ({ ...current, settings: { ...current.settings, [setting]: value } }));
+  };
+
+  const resetVoice = (character: ExtractedCharacter) => {
+    updateCast(character.id, () => elevenLabsService.getCharacterVoice({ ...character, voice: null }));
+  };
+
+  const playPreview = (id: string, url: string) => {
+    previewAudio.current?.pause();
+    const audio = new Audio(url);
+    audio.onended = () => setPreviewingId(null);
+    previewAudio.current = audio;
+    setPreviewingId(id);
+    audio.play().catch(() => setPreviewingId(null));
+  };
+
+  // ElevenLabs publishes a sample for each voice; demo voices are spoken offline instead
+  const playVoiceSample = async (voiceId: string) => {
+    const voice = voices.find(v => v.voice_id === voiceId);
+    try {
+      const url = voice?.preview_url || await offlineTtsService.generateSpeech({
+        text: `Hello, I'm ${voice?.name.replace(/ \(Demo\)$/, '') || 'your narrator'}.`,
+        voice_id: voiceId
+      });
+      playPreview(`sample-${voiceId}`, url);
+    } catch (error) {
+      console.error('❌ Voice sample failed:', error);
+      toast.error('Failed to play the voice sample');
+    }
+  };
+
+  // Reads one of the character's own lines with the chosen voice and settings
+  const previewCharacterVoice = async (character: ExtractedCharacter) => {
+    const voice = cast[character.id];
+    if (!voice) return;
+
+    setPreviewingId(character.id);
+    try {
+      const url = await elevenLabsService.generateSpeech({
+        text: character.dialogueLines?.[0] || `My name is ${character.name}.`,
+        voice_id: voice.voiceId,
+        voice_settings: voice.settings,
+        pronunciations
+      });
+      playPreview(character.id, url);
+    } catch (error) {
+      console.error('❌ Voice preview failed:', error);
+      toast.error('Failed to preview this voice');
+      setPreviewingId(null);
+    }
+  };
+
+  // Cloned voices join the casting list straight away; getVoices returns them on later visits
+  const addClonedVoice = (voice: ElevenLabsVoice) => {
+    setVoices(prev => [voice, ...prev.filter(v => v.voice_id !== voice.voice_id)]);
+  };
+
+  const saveCast = () => {
+    onCastSaved?.(castCharacters);
+    setIsCastDirty(false);
   };
 
   return (
@@ -569,6 +740,104 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({
         </CardContent>
       </Card>
 
+      {/* Voice Casting */}
+      {characters.length > 0 && (
+        <Card className="shadow-sm">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Users className="w-5 h-5 text-primary-500" />
+                <h4 className="font-medium text-gray-900 dark:text-gray-100">Voice Casting</h4>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setShowCloneStudio(true)}>
+                  <Wand2 className="w-4 h-4 mr-2" />
+                  Clone a Voice
+                </Button>
+                {onCastSaved && (
+                  <Button size="sm" onClick={saveCast} disabled={!isCastDirty}>
+                    <Save className="w-4 h-4 mr-2" />
+                    Save Cast
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {characters.map(character => {
+              const voice = cast[character.id];
+              if (!voice) return null;
+              const listed = voices.some(v => v.voice_id === voice.voiceId);
+
+              return (
+                <div key={character.id} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900 dark:text-gray-100">{character.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {character.voice ? 'Saved voice' : 'Picked from age and gender'}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => previewCharacterVoice(character)}
+                        disabled={previewingId === character.id}
+                      >
+                        <Play className="w-4 h-4 mr-1" />
+                        Preview
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => resetVoice(character)} title="Use the automatic voice">
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={voice.voiceId}
+                      onChange={(e) => assignVoice(character.id, e.target.value)}
+                      className="flex-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
+                    >
+                      {!listed && <option value={voice.voiceId}>{voice.voiceName || 'Custom voice'}</option>}
+                      {voices.map(v => (
+                        <option key={v.voice_id} value={v.voice_id}>
+                          {v.name}{v.description ? ` — ${v.description}` : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => playVoiceSample(voice.voiceId)}
+                      title="Play a sample of this voice"
+                    >
+                      <Volume2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {renderMixSlider('Stability', voice.settings.stability, 1, 0.05,
+                      value => updateVoiceSetting(character.id, 'stability', value), formatGain)}
+                    {renderMixSlider('Similarity', voice.settings.similarity_boost, 1, 0.05,
+                      value => updateVoiceSetting(character.id, 'similarity_boost', value), formatGain)}
+                    {renderMixSlider('Style', voice.settings.style, 1, 0.05,
+                      value => updateVoiceSetting(character.id, 'style', value), formatGain)}
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <VoiceCloneStudio
+        isOpen={showCloneStudio}
+        onClose={() => setShowCloneStudio(false)}
+        onVoiceCloned={addClonedVoice}
+      />
+
       {/* Audio Files List */}
       {audioFiles.length > 0 ? (
         <div className="space-y-4">
@@ -694,6 +963,105 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({
         </Card>
       )}
 
+      {/* Mixdown */}
+      {audioFiles.some(file => file.isGenerated) && (
+        <Card className="shadow-sm">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Layers className="w-5 h-5 text-primary-500" />
+                <h4 className="font-medium text-gray-900 dark:text-gray-100">Mixdown</h4>
+              </div>
+              <Button
+                size="sm"
+                onClick={renderMixdown}
+                disabled={isMixing || isGenerating}
+                isLoading={isMixing}
+              >
+                <Layers className="w-4 h-4 mr-2" />
+                {mixdown ? 'Re-render Mix' : 'Render Mix'}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Stitches every clip in scene order into one WAV track for the video step.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {renderMixSlider('Pause between lines', mixSettings.clipPause, 2, 0.1, v => setMixSettings(prev => ({ ...prev, clipPause: v })))}
+              {renderMixSlider('Pause between scenes', mixSettings.scenePause, 4, 0.1, v => setMixSettings(prev => ({ ...prev, scenePause: v })))}
+              {renderMixSlider('Fade in', mixSettings.fadeIn, 5, 0.5, v => setMixSettings(prev => ({ ...prev, fadeIn: v })))}
+              {renderMixSlider('Fade out', mixSettings.fadeOut, 5, 0.5, v => setMixSettings(prev => ({ ...prev, fadeOut: v })))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={mixSettings.music}
+                    onChange={(e) => setMixSettings(prev => ({ ...prev, music: e.target.checked }))}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-gray-300">Background music ({storyTheme})</span>
+                </label>
+                {mixSettings.music && renderMixSlider('Music level', mixSettings.musicGain, 0.5, 0.01, v => setMixSettings(prev => ({ ...prev, musicGain: v })), formatGain)}
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={mixSettings.ambience}
+                    onChange={(e) => setMixSettings(prev => ({ ...prev, ambience: e.target.checked }))}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-gray-300">Ambience bed ({storyTheme})</span>
+                </label>
+                {mixSettings.ambience && renderMixSlider('Ambience level', mixSettings.ambienceGain, 0.5, 0.01, v => setMixSettings(prev => ({ ...prev, ambienceGain: v })), formatGain)}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {renderMixSlider('Narrator', mixSettings.narrationGain, 2, 0.05, v => setMixSettings(prev => ({ ...prev, narrationGain: v })), formatGain)}
+              {mixVoices.map(name => (
+                <React.Fragment key={name}>
+                  {renderMixSlider(name, mixSettings.characterGains[name] ?? 1, 2, 0.05, v => updateCharacterGain(name, v), formatGain)}
+                </React.Fragment>
+              ))}
+            </div>
+
+            {mixdown && (
+              <div className="flex items-center space-x-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <audio controls src={mixdown.url} className="flex-1" />
+                <span className="text-xs text-gray-500">{Math.round(mixdown.duration)}s</span>
+                <Button variant="outline" size="sm" onClick={downloadMixdown}>
+                  <Download className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+                <Captions className="w-4 h-4" />
+                <span>Subtitles{mixdown ? ' timed to this mix' : ''}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button variant="outline" size="sm" onClick={() => downloadSubtitles('srt')}>
+                  <Download className="w-4 h-4 mr-2" />
+                  SRT
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => downloadSubtitles('vtt')}>
+                  <Download className="w-4 h-4 mr-2" />
+                  WebVTT
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Audio Technology Info */}
       <Card className="shadow-sm">
         <CardContent className="p-4">
@@ -704,13 +1072,13 @@ export const AudioGenerator: React.FC<AudioGeneratorProps> = ({
           <div className="space-y-3 text-sm">
             <div className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700 rounded-lg">
               <div className="font-medium text-blue-800 dark:text-blue-200 mb-2">
-                Browser Speech Synthesis (Always Available):
+                Offline Speech Synthesis (Always Available):
               </div>
               <div className="text-blue-700 dark:text-blue-300">
-                • Uses your browser's built-in text-to-speech engine
-                • Supports multiple voices and languages
-                • Adjustable speed, pitch, and volume
-                • Works offline once loaded
+                • Renders real WAV files in your browser, no network needed
+                • Previews play through your browser's built-in voices
+                • Adjustable speed and pitch
+                • Clips download and mix like premium audio
               </div>
             </div>
 
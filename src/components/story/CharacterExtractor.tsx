@@ -5,41 +5,14 @@ import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader } from '../ui/Card';
 import { Input } from '../ui/Input';
 import { characterService } from '../../lib/characterService';
+import { characterExtractionService } from '../../lib/characterExtractionService';
 import { useAuthStore } from '../../store/authStore';
 import toast from 'react-hot-toast';
-
-interface Character {
-  id: string;
-  name: string;
-  role: 'protagonist' | 'antagonist' | 'supporting';
-  description: string;
-  personality: string[];
-  appearance: {
-    age: string;
-    gender: string;
-    ethnicity: string;
-    hairColor: string;
-    eyeColor: string;
-    style: string;
-  };
-  dialogueLines: string[];
-  photos: Array<{
-    url: string;
-    provider: string;
-    style: string;
-    isSelected?: boolean;
-    validation?: {
-      isValid: boolean;
-      mismatches: string[];
-      confidence: number;
-    };
-    needsRegeneration?: boolean;
-    isAccepted?: boolean;
-  }>;
-}
+import { ExtractedCharacter as Character } from '../../types';
 
 interface CharacterExtractorProps {
   story: string;
+  initialCharacters?: Character[];
   onCharactersExtracted: (characters: Character[]) => void;
 }
 
@@ -48,15 +21,18 @@ const MIN_CONFIDENCE_THRESHOLD = 70; // 70%
 
 export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({
   story,
+  initialCharacters = [],
   onCharactersExtracted
 }) => {
   const { user } = useAuthStore();
-  const [characters, setCharacters] = useState<Character[]>([]);
+  const [characters, setCharacters] = useState<Character[]>(initialCharacters);
   const [isExtracting, setIsExtracting] = useState(false);
   const [isGeneratingPhotos, setIsGeneratingPhotos] = useState<string | null>(null);
   const [isGeneratingAllPhotos, setIsGeneratingAllPhotos] = useState(false);
   const [editingCharacter, setEditingCharacter] = useState<string | null>(null);
-  const [hasExtracted, setHasExtracted] = useState(false);
+  // Characters loaded from the database count as already extracted
+  const [hasExtracted, setHasExtracted] = useState(initialCharacters.length > 0);
+  const [extractionSource, setExtractionSource] = useState<'llm' | 'heuristic' | null>(null);
   const [bulkGenerationProgress, setBulkGenerationProgress] = useState<{
     current: number;
     total: number;
@@ -73,11 +49,9 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({
     setIsExtracting(true);
     
     try {
-      // Simulate AI character extraction
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const extractedCharacters = analyzeStoryForCharacters(story);
+      const { characters: extractedCharacters, source } = await characterExtractionService.extractCharacters(story);
       setCharacters(extractedCharacters);
+      setExtractionSource(source);
       setHasExtracted(true);
       onCharactersExtracted(extractedCharacters);
 
@@ -90,153 +64,6 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({
     }
   };
 
-  const analyzeStoryForCharacters = (storyText: string): Character[] => {
-    // Extract character names from dialogue and descriptions
-    const characterNames = new Set<string>();
-    const lines = storyText.split('\n');
-    
-    // Look for character names in dialogue format
-    lines.forEach(line => {
-      const dialogueMatch = line.match(/^\*\*([A-Z][A-Z\s]+)\*\*/);
-      if (dialogueMatch) {
-        characterNames.add(dialogueMatch[1].trim());
-      }
-      
-      // Look for character names in descriptions - be more selective
-      const descriptionMatches = line.match(/\b([A-Z][a-z]+(?:\s[A-Z][a-z]+)?)\b/g);
-      if (descriptionMatches) {
-        descriptionMatches.forEach(name => {
-          // Only add names that appear in character-like contexts
-          if (name.length > 2 && 
-              !['The', 'And', 'But', 'For', 'With', 'Scene', 'Act', 'Chapter', 'Then', 'When', 'Where', 'Why', 'How'].includes(name) &&
-              (line.toLowerCase().includes('said') || 
-               line.toLowerCase().includes('replied') || 
-               line.toLowerCase().includes('asked') ||
-               line.toLowerCase().includes('whispered') ||
-               line.toLowerCase().includes('shouted') ||
-               line.toLowerCase().includes('thought') ||
-               line.includes(name + ' was') ||
-               line.includes(name + ' had') ||
-               line.includes(name + ' could') ||
-               line.includes(name + ' would') ||
-               line.includes(name + "'s"))) {
-            characterNames.add(name);
-          }
-        });
-      }
-    });
-
-    // Filter out very common words and keep only meaningful character names
-    const filteredNames = Array.from(characterNames).filter(name => {
-      const lowerName = name.toLowerCase();
-      return !['chapter', 'scene', 'part', 'book', 'story', 'tale', 'end', 'beginning', 
-               'morning', 'evening', 'night', 'day', 'time', 'place', 'world', 'life',
-               'death', 'love', 'hope', 'fear', 'joy', 'pain', 'voice', 'eyes', 'hand',
-               'face', 'heart', 'mind', 'soul', 'body', 'room', 'house', 'door', 'window'].includes(lowerName);
-    });
-
-    // If we found fewer than 2 characters, add some default main characters
-    if (filteredNames.length < 2) {
-      if (!filteredNames.includes('Protagonist')) {
-        filteredNames.unshift('Protagonist');
-      }
-      if (filteredNames.length < 2 && !filteredNames.includes('Supporting Character')) {
-        filteredNames.push('Supporting Character');
-      }
-    }
-
-    // Generate character profiles - limit to what we actually found (max 8 for performance)
-    const characters: Character[] = filteredNames.slice(0, 8).map((name, index) => {
-      const dialogueLines = lines
-        .filter(line => line.includes(name))
-        .slice(0, 3);
-
-      return {
-        id: `char-${index}`,
-        name,
-        role: index === 0 ? 'protagonist' : index === 1 ? 'supporting' : 'supporting',
-        description: generateCharacterDescription(name, storyText),
-        personality: generatePersonalityTraits(name, storyText),
-        appearance: generateAppearance(name, storyText),
-        dialogueLines,
-        photos: []
-      };
-    });
-
-    return characters;
-  };
-
-  const generateCharacterDescription = (name: string, story: string): string => {
-    const descriptions = [
-      `${name} is a complex character whose journey drives much of the story's emotional core.`,
-      `${name} brings unique perspective and depth to the narrative through their actions and decisions.`,
-      `${name} serves as a catalyst for important plot developments and character growth.`,
-      `${name} represents key themes in the story through their personal struggles and triumphs.`
-    ];
-    
-    // Create deterministic seed from character name
-    const seed = name.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    const seededRandom = () => {
-      const x = Math.sin(seed) * 10000;
-      return x - Math.floor(x);
-    };
-    
-    return descriptions[Math.floor(seededRandom() * descriptions.length)];
-  };
-
-  const generatePersonalityTraits = (name: string, story: string): string[] => {
-    const allTraits = [
-      'brave', 'intelligent', 'compassionate', 'determined', 'loyal', 'creative',
-      'ambitious', 'mysterious', 'charismatic', 'resilient', 'wise', 'adventurous',
-      'cautious', 'optimistic', 'analytical', 'empathetic', 'independent', 'curious'
-    ];
-    
-    // Create deterministic seed from character name
-    const seed = name.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    const seededRandom = (index: number) => {
-      const x = Math.sin(seed + index) * 10000;
-      return x - Math.floor(x);
-    };
-    
-    // Use seeded random to select 4 consistent traits
-    const selectedTraits: string[] = [];
-    const shuffledTraits = [...allTraits];
-    
-    for (let i = 0; i < 4; i++) {
-      const randomIndex = Math.floor(seededRandom(i + 10) * shuffledTraits.length);
-      selectedTraits.push(shuffledTraits.splice(randomIndex, 1)[0]);
-    }
-    
-    return selectedTraits;
-  };
-
-  const generateAppearance = (name: string, story: string) => {
-    const appearances = {
-      ages: ['25', '30', '35', '40', '28', '32'],
-      genders: ['male', 'female'],
-      ethnicities: ['caucasian', 'african', 'asian', 'hispanic', 'middle-eastern', 'mixed'],
-      hairColors: ['brown', 'black', 'blonde', 'red', 'gray', 'auburn'],
-      eyeColors: ['brown', 'blue', 'green', 'hazel', 'gray', 'amber'],
-      styles: ['casual', 'professional', 'artistic', 'athletic', 'elegant', 'bohemian']
-    };
-
-    // Create deterministic seed from character name to ensure consistent traits
-    const seed = name.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    const seededRandom = (index: number) => {
-      const x = Math.sin(seed + index) * 10000;
-      return x - Math.floor(x);
-    };
-
-    return {
-      age: appearances.ages[Math.floor(seededRandom(1) * appearances.ages.length)],
-      gender: appearances.genders[Math.floor(seededRandom(2) * appearances.genders.length)],
-      ethnicity: appearances.ethnicities[Math.floor(seededRandom(3) * appearances.ethnicities.length)],
-      hairColor: appearances.hairColors[Math.floor(seededRandom(4) * appearances.hairColors.length)],
-      eyeColor: appearances.eyeColors[Math.floor(seededRandom(5) * appearances.eyeColors.length)],
-      style: appearances.styles[Math.floor(seededRandom(6) * appearances.styles.length)]
-    };
-  };
-
   const generateAllCharacterPhotos = async () => {
     if (characters.length === 0) {
       toast.error('No characters available for photo generation');
@@ -430,16 +257,7 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({
   };
 
   const addNewCharacter = () => {
-    const newCharacter: Character = {
-      id: `char-${Date.now()}`,
-      name: 'New Character',
-      role: 'supporting',
-      description: 'A new character in the story.',
-      personality: ['mysterious'],
-      appearance: generateAppearance('New Character', story),
-      dialogueLines: [],
-      photos: []
-    };
+    const newCharacter = characterExtractionService.createCharacter('New Character');
     
     const updatedCharacters = [...characters, newCharacter];
     setCharacters(updatedCharacters);
@@ -485,6 +303,12 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({
           <p className="text-sm text-gray-600 dark:text-gray-400">
             AI has extracted {characters.length} characters from your story
           </p>
+          {extractionSource === 'heuristic' && (
+            <p className="flex items-center text-xs text-amber-600 dark:text-amber-400 mt-1">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              AI unavailable: names were matched from dialogue and traits are placeholders
+            </p>
+          )}
         </div>
         
         <div className="flex space-x-2">
@@ -577,6 +401,11 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({
                             {character.name}
                           </h4>
                         )}
+                        {character.aliases && character.aliases.length > 0 && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                            aka {character.aliases.join(', ')}
+                          </p>
+                        )}
                         <span className={`text-xs px-2 py-1 rounded-full font-medium ${
                           character.role === 'protagonist' 
                             ? 'bg-primary-100 text-primary-700 dark:bg-primary-900 dark:text-primary-300'
@@ -751,6 +580,11 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({
                       <div>Hair: {character.appearance.hairColor}</div>
                       <div>Eyes: {character.appearance.eyeColor}</div>
                       <div>Style: {character.appearance.style}</div>
+                      {character.appearance.bodyType && <div>Build: {character.appearance.bodyType}</div>}
+                      {character.appearance.height && <div>Height: {character.appearance.height}</div>}
+                      {character.appearance.facialFeatures && (
+                        <div className="col-span-2">Features: {character.appearance.facialFeatures}</div>
+                      )}
                     </div>
                   </div>
 
@@ -789,6 +623,25 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({
                       ))}
                     </div>
                   </div>
+
+                  {/* Evidence from the story */}
+                  {character.evidence && character.evidence.length > 0 && (
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                        From the story
+                      </label>
+                      <div className="mt-1 space-y-1">
+                        {character.evidence.map((quote, i) => (
+                          <blockquote
+                            key={i}
+                            className="border-l-2 border-gray-300 dark:border-gray-600 pl-2 text-xs italic text-gray-600 dark:text-gray-400"
+                          >
+                            {quote}
+                          </blockquote>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </motion.div>
@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowRight, ArrowLeft, BookOpen, MessageCircle, Users, Video, Edit3, Eye, Volume2, Brain } from 'lucide-react';
+import { ArrowRight, ArrowLeft, BookOpen, MessageCircle, Users, Video, Edit3, Eye, Volume2, Brain, Upload } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader } from '../ui/Card';
 import { StoryTemplateSelector } from './StoryTemplateSelector';
@@ -9,11 +9,13 @@ import { StoryEditor } from './StoryEditor';
 import { CharacterExtractor } from './CharacterExtractor';
 import { SceneSegmenter } from './SceneSegmenter';
 import { AudioGenerator } from './AudioGenerator';
+import { PronunciationLexicon } from './PronunciationLexicon';
 import { VideoGenerator } from '../video/VideoGenerator';
-import { useStoryStore } from '../../store/storyStore';
+import { useStoryStore, segmentToScene, characterToExtracted, audioFileToClip } from '../../store/storyStore';
 import { useAuthStore } from '../../store/authStore';
-import { StoryTheme } from '../../types';
+import { StoryTheme, Scene, ExtractedCharacter, AudioClip, AudioMixdown, PronunciationEntry } from '../../types';
 import { AICopilot } from './AICopilot';
+import { importScreenplay, SCREENPLAY_FILE_TYPES } from '../../lib/screenplayFiles';
 import toast from 'react-hot-toast';
 
 interface EnhancedStoryCreatorProps {
@@ -36,13 +38,18 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
   const [selectedTemplate, setSelectedTemplate] = useState<any>(null);
   const [generatedStory, setGeneratedStory] = useState('');
   const [editedStory, setEditedStory] = useState('');
-  const [extractedCharacters, setExtractedCharacters] = useState<any[]>([]);
-  const [storySegments, setStorySegments] = useState<any[]>([]);
-  const [generatedAudio, setGeneratedAudio] = useState<any[]>([]);
+  const [extractedCharacters, setExtractedCharacters] = useState<ExtractedCharacter[]>([]);
+  const [storySegments, setStorySegments] = useState<Scene[]>([]);
+  const [generatedAudio, setGeneratedAudio] = useState<AudioClip[]>([]);
+  const [audioMix, setAudioMix] = useState<AudioMixdown | null>(null);
+  const [pronunciations, setPronunciations] = useState<PronunciationEntry[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [createdStory, setCreatedStory] = useState<any>(null);
+  // Title of a script imported from another tool; imported stories skip the AI chat
+  const [importedTitle, setImportedTitle] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
-  const { createStory, updateStory } = useStoryStore();
+  const { createStory, updateStory, recordRevision, saveSegments, saveCharacters, saveAudioFiles } = useStoryStore();
   const { user } = useAuthStore();
 
   // Helper function to extract valid theme from template ID
@@ -59,6 +66,34 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
     return 'fantasy';
   };
 
+  const handleCopilotRewrite = (content: string) => {
+    setEditedStory(content);
+
+    if (createdStory) {
+      updateStory(createdStory.id, { content });
+      recordRevision(createdStory.id, content, 'copilot_rewrite');
+    }
+  };
+
+  const handleImportScreenplay = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { screenplay, story } = importScreenplay(file.name, await file.text());
+      const title = screenplay.title || file.name;
+      setImportedTitle(title);
+      setGeneratedStory(story);
+      setEditedStory(story);
+      setCurrentStep(2);
+      toast.success(`Imported "${title}"`);
+    } catch (error: any) {
+      console.error('❌ Screenplay import failed:', error);
+      toast.error(error.message || 'Failed to import screenplay');
+    }
+  };
+
   const handleNext = async () => {
     if (currentStep === 0) {
       if (!selectedTemplate) {
@@ -83,12 +118,17 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
       try {
         setIsGenerating(true);
         const story = await createStory(
-          selectedTemplate.name,
+          importedTitle ?? selectedTemplate.name,
           editedStory,
-          getThemeFromTemplate(selectedTemplate.id), // Extract theme properly
+          selectedTemplate ? getThemeFromTemplate(selectedTemplate.id) : 'drama', // Extract theme properly
           'medium'
         );
         setCreatedStory(story);
+        if (!importedTitle) {
+          // Keep the untouched AI draft in history alongside the reviewed version
+          await recordRevision(story.id, generatedStory, 'ai_chat');
+        }
+        await recordRevision(story.id, editedStory, 'manual');
         toast.success('Story saved to your dashboard!');
         setCurrentStep(3);
       } catch (error: any) {
@@ -109,13 +149,16 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
       // Save characters to story
       if (createdStory) {
         try {
+          const savedCharacters = await saveCharacters(createdStory.id, extractedCharacters);
+          setExtractedCharacters(savedCharacters.map(characterToExtracted));
           updateStory(createdStory.id, { 
-            characters: extractedCharacters,
-            status: 'processing'
+            status: 'processing',
+            pronunciations
           });
           toast.success('Characters saved to your story!');
         } catch (error) {
           console.error('Failed to save characters:', error);
+          toast.error('Failed to save characters');
         }
       }
       
@@ -129,13 +172,15 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
       // Save segments to story
       if (createdStory) {
         try {
+          const savedSegments = await saveSegments(createdStory.id, storySegments);
+          setStorySegments(savedSegments.map(segmentToScene));
           updateStory(createdStory.id, { 
-            segments: storySegments,
             status: 'processing'
           });
           toast.success('Story segments saved!');
         } catch (error) {
           console.error('Failed to save segments:', error);
+          toast.error('Failed to save segments');
         }
       }
       
@@ -144,13 +189,15 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
       // Audio generation is optional, can skip
       if (generatedAudio.length > 0 && createdStory) {
         try {
+          const savedAudio = await saveAudioFiles(createdStory.id, generatedAudio);
+          setGeneratedAudio(savedAudio.map(audioFileToClip));
           updateStory(createdStory.id, { 
-            audio: generatedAudio,
             status: 'processing'
           });
           toast.success('Audio saved to your story!');
         } catch (error) {
           console.error('Failed to save audio:', error);
+          toast.error('Failed to save audio');
         }
       }
       setCurrentStep(7);
@@ -173,18 +220,22 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
   };
 
   const handleBack = () => {
-    if (currentStep > 0) {
+    if (currentStep === 2 && importedTitle) {
+      // Imported scripts never went through the chat, so step back to the start
+      setImportedTitle(null);
+      setGeneratedStory('');
+      setEditedStory('');
+      setCurrentStep(0);
+    } else if (currentStep > 0) {
       setCurrentStep(currentStep - 1);
     }
   };
 
-  const handleVideoGenerated = (video: any) => {
+  // The video is already on the story; the job store saved it
+  const handleVideoGenerated = () => {
     if (createdStory) {
       try {
-        updateStory(createdStory.id, { 
-          videos: [video],
-          status: 'completed'
-        });
+        updateStory(createdStory.id, { status: 'completed' });
         toast.success('Video saved to your story!');
       } catch (error) {
         console.error('Failed to save video:', error);
@@ -197,7 +248,22 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
     onComplete();
   };
 
-  const handleAudioGenerated = (audioFiles: any[]) => {
+  // The cast is stored on the character records so every later narration reuses it
+  const handleCastSaved = async (characters: ExtractedCharacter[]) => {
+    setExtractedCharacters(characters);
+    if (!createdStory) return;
+
+    try {
+      const savedCharacters = await saveCharacters(createdStory.id, characters);
+      setExtractedCharacters(savedCharacters.map(characterToExtracted));
+      toast.success('Voice cast saved');
+    } catch (error) {
+      console.error('Failed to save voice cast:', error);
+      toast.error('Failed to save voice cast');
+    }
+  };
+
+  const handleAudioGenerated = (audioFiles: AudioClip[]) => {
     setGeneratedAudio(audioFiles);
     toast.success(`Generated ${audioFiles.length} audio files!`);
   };
@@ -295,7 +361,31 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
       <Card className="min-h-[600px]">
         <CardContent className="p-6">
           {currentStep === 0 && (
-            <StoryTemplateSelector onTemplateSelect={setSelectedTemplate} />
+            <div className="space-y-6">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg border border-dashed border-gray-300 dark:border-gray-600">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">
+                    Already have a script?
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Import a Fountain (.fountain) or Final Draft (.fdx) screenplay and skip the AI chat
+                  </p>
+                </div>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept={SCREENPLAY_FILE_TYPES}
+                  onChange={handleImportScreenplay}
+                  className="hidden"
+                />
+                <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import Screenplay
+                </Button>
+              </div>
+
+              <StoryTemplateSelector onTemplateSelect={setSelectedTemplate} />
+            </div>
           )}
 
           {currentStep === 1 && selectedTemplate && (
@@ -308,6 +398,7 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
 
           {currentStep === 2 && (
             <StoryEditor
+              storyId={createdStory?.id}
               initialStory={generatedStory}
               onStoryChange={setEditedStory}
             />
@@ -317,7 +408,7 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
             <AICopilot
               storyContent={editedStory}
               characters={extractedCharacters}
-              onStoryUpdate={setEditedStory}
+              onStoryUpdate={handleCopilotRewrite}
               onSuggestionApplied={(suggestion) => {
                 console.log('Suggestion applied:', suggestion);
                 toast.success('AI suggestion applied!');
@@ -326,16 +417,26 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
           )}
 
           {currentStep === 4 && (
-            <CharacterExtractor
-              story={editedStory}
-              onCharactersExtracted={setExtractedCharacters}
-            />
+            <div className="space-y-6">
+              <CharacterExtractor
+                story={editedStory}
+                initialCharacters={extractedCharacters}
+                onCharactersExtracted={setExtractedCharacters}
+              />
+              <PronunciationLexicon
+                entries={pronunciations}
+                characters={extractedCharacters}
+                theme={createdStory?.theme}
+                onChange={setPronunciations}
+              />
+            </div>
           )}
 
           {currentStep === 5 && (
             <SceneSegmenter
               story={editedStory}
               characters={extractedCharacters}
+              initialScenes={storySegments}
               onSegmentsCreated={setStorySegments}
             />
           )}
@@ -344,15 +445,26 @@ export const EnhancedStoryCreator: React.FC<EnhancedStoryCreatorProps> = ({ onCo
             <AudioGenerator
               storySegments={storySegments}
               characters={extractedCharacters}
+              initialAudio={generatedAudio}
+              theme={createdStory?.theme}
+              pronunciations={pronunciations}
               onAudioGenerated={handleAudioGenerated}
+              onMixdownRendered={setAudioMix}
+              onCastSaved={handleCastSaved}
             />
           )}
 
           {currentStep === 7 && (
             <div className="space-y-6">
               <VideoGenerator
+                storyId={createdStory?.id}
+                storyTitle={createdStory?.title}
+                theme={createdStory?.theme}
                 storySegments={storySegments}
                 characters={extractedCharacters}
+                audioMix={audioMix}
+                audioClips={generatedAudio}
+                pronunciations={pronunciations}
                 onVideoGenerated={handleVideoGenerated}
               />
               
@@ -0,0 +1,176 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { BookOpen, Plus, Trash2, Volume2, Square } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { elevenLabsService } from '../../lib/elevenlabsService';
+import { spokenForm } from '../../lib/pronunciation';
+import toast from 'react-hot-toast';
+import { ExtractedCharacter, PronunciationEntry, StoryTheme } from '../../types';
+
+interface PronunciationLexiconProps {
+  entries: PronunciationEntry[];
+  characters: ExtractedCharacter[];
+  theme?: StoryTheme;
+  onChange: (entries: PronunciationEntry[]) => void;
+}
+
+export const PronunciationLexicon: React.FC<PronunciationLexiconProps> = ({
+  entries,
+  characters,
+  theme,
+  onChange
+}) => {
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const previewAudio = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    return () => {
+      previewAudio.current?.pause();
+    };
+  }, []);
+
+  // Character names and aliases that have no entry yet, offered as one-click additions
+  const listed = new Set(entries.map(entry => entry.term.trim().toLowerCase()));
+  const suggestions = Array.from(new Set(
+    characters.flatMap(character => [character.name, ...(character.aliases || [])])
+  )).filter(name => name.trim() && !listed.has(name.trim().toLowerCase()));
+
+  const addEntry = (term = '') => {
+    onChange([...entries, { id: `pron-${Date.now()}`, term, type: 'alias', value: '' }]);
+  };
+
+  const updateEntry = (id: string, updates: Partial<PronunciationEntry>) => {
+    onChange(entries.map(entry => entry.id === id ? { ...entry, ...updates } : entry));
+  };
+
+  const removeEntry = (id: string) => {
+    onChange(entries.filter(entry => entry.id !== id));
+  };
+
+  const stopPreview = () => {
+    previewAudio.current?.pause();
+    previewAudio.current = null;
+    setPreviewingId(null);
+  };
+
+  // Speaks the term through the same path narration uses, so the preview matches the final audio
+  const previewEntry = async (entry: PronunciationEntry) => {
+    if (!entry.term.trim() || !entry.value.trim()) {
+      toast.error('Enter a term and how it is pronounced');
+      return;
+    }
+
+    stopPreview();
+    setPreviewingId(entry.id);
+    try {
+      const url = await elevenLabsService.generateSpeech({
+        text: entry.term,
+        voice_id: elevenLabsService.getThemeOptimizedVoice(theme || 'fantasy').voice_id,
+        pronunciations: [entry]
+      });
+
+      const audio = new Audio(url);
+      audio.onended = () => setPreviewingId(null);
+      previewAudio.current = audio;
+      await audio.play();
+    } catch (error) {
+      console.error('❌ Pronunciation preview failed:', error);
+      toast.error('Failed to preview this pronunciation');
+      setPreviewingId(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <BookOpen className="w-5 h-5 text-primary-500" />
+            <h4 className="font-medium text-gray-900 dark:text-gray-100">Pronunciation</h4>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => addEntry()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Term
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Tell the narrator how to say invented names and places. Write a respelling like "thaw-rin", or IPA like "ˈθɔːrɪn".
+        </p>
+
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map(name => (
+              <button
+                key={name}
+                onClick={() => addEntry(name)}
+                className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-primary-100 dark:hover:bg-primary-900 transition-colors"
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                {name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-2">
+            No pronunciations yet
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {entries.map(entry => (
+              <div key={entry.id} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center">
+                <div className="md:col-span-4">
+                  <Input
+                    value={entry.term}
+                    onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+                    placeholder="Thorin Ironforge"
+                    aria-label="Term"
+                  />
+                </div>
+                <select
+                  value={entry.type}
+                  onChange={(e) => updateEntry(entry.id, { type: e.target.value as PronunciationEntry['type'] })}
+                  className="md:col-span-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
+                  aria-label="Pronunciation type"
+                >
+                  <option value="alias">Respelling</option>
+                  <option value="ipa">IPA</option>
+                </select>
+                <div className="md:col-span-4">
+                  <Input
+                    value={entry.value}
+                    onChange={(e) => updateEntry(entry.id, { value: e.target.value })}
+                    placeholder={entry.type === 'ipa' ? 'ˈθɔːrɪn ˈaɪərnfɔːrdʒ' : 'thaw-rin iron-forge'}
+                    aria-label="Pronunciation"
+                  />
+                </div>
+                <div className="md:col-span-2 flex items-center justify-end space-x-1">
+                  {entry.type === 'ipa' && entry.value.trim() && (
+                    <span className="text-xs text-gray-500 truncate" title="Read as">
+                      {spokenForm(entry)}
+                    </span>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => previewingId === entry.id ? stopPreview() : previewEntry(entry)}
+                    title="Preview"
+                  >
+                    {previewingId === entry.id ? <Square className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => removeEntry(entry.id)} title="Remove">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,37 +1,33 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Eye, Play, Edit3, Plus, Trash2, Clock, Users, Video, AlertCircle } from 'lucide-react';
+import { Eye, Play, Edit3, Plus, Trash2, Clock, Users, Video, AlertCircle, Camera, Film } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader } from '../ui/Card';
 import { Modal } from '../ui/Modal';
-
-interface Scene {
-  id: string;
-  title: string;
-  content: string;
-  characters: string[];
-  setting: string;
-  duration: number; // in seconds
-  visualPrompt: string;
-  order: number;
-}
+import { sceneSegmentationService } from '../../lib/sceneSegmentationService';
+import { Scene } from '../../types';
+import toast from 'react-hot-toast';
 
 interface SceneSegmenterProps {
   story: string;
   characters: any[];
+  initialScenes?: Scene[];
   onSegmentsCreated: (segments: Scene[]) => void;
 }
 
 export const SceneSegmenter: React.FC<SceneSegmenterProps> = ({
   story,
   characters,
+  initialScenes = [],
   onSegmentsCreated
 }) => {
-  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [scenes, setScenes] = useState<Scene[]>(initialScenes);
   const [isSegmenting, setIsSegmenting] = useState(false);
   const [editingScene, setEditingScene] = useState<string | null>(null);
-  const [hasSegmented, setHasSegmented] = useState(false);
+  // Scenes loaded from the database count as already segmented
+  const [hasSegmented, setHasSegmented] = useState(initialScenes.length > 0);
   const [previewScene, setPreviewScene] = useState<Scene | null>(null);
+  const [planShots, setPlanShots] = useState(() => sceneSegmentationService.canPlanShots());
 
   useEffect(() => {
     if (story && characters.length > 0 && !hasSegmented) {
@@ -41,244 +37,28 @@ export const SceneSegmenter: React.FC<SceneSegmenterProps> = ({
 
   const segmentStory = async () => {
     setIsSegmenting(true);
-    
-    // Simulate AI scene segmentation
-    await new Promise(resolve => setTimeout(resolve, 2500));
-    
-    const segments = analyzeStoryForScenes(story, characters);
-    setScenes(segments);
-    setHasSegmented(true);
-    setIsSegmenting(false);
-    onSegmentsCreated(segments);
-  };
 
-  const analyzeStoryForScenes = (storyText: string, characterList: any[]): Scene[] => {
-    const lines = storyText.split('\n').filter(line => line.trim());
-    const scenes: Scene[] = [];
-    let currentScene: Partial<Scene> = {};
-    let sceneContent: string[] = [];
-    let sceneOrder = 0;
-
-    lines.forEach((line, index) => {
-      // Enhanced scene break detection for cinematic storytelling
-      if (line.startsWith('#') || line.includes('EXT.') || line.includes('INT.') || 
-          line.includes('FADE IN') || line.includes('CUT TO') ||
-          line.includes('MEANWHILE') || line.includes('LATER') ||
-          line.includes('SUDDENLY') || isNewSceneLine(line, sceneContent)) {
-        
-        // Save previous scene if it exists
-        if (currentScene.title && sceneContent.length > 0) {
-          scenes.push(createSceneFromContent(currentScene, sceneContent, characterList, sceneOrder));
-          sceneOrder++;
-        }
-        
-        // Start new scene
-        currentScene = {
-          title: generateSceneTitle(line, sceneContent, sceneOrder + 1),
-        };
-        sceneContent = [];
-      } else if (line.trim()) {
-        sceneContent.push(line);
+    try {
+      const graph = await sceneSegmentationService.segmentStory(
+        story,
+        characters.map(character => character.name),
+        { planShots }
+      );
+      setScenes(graph.scenes);
+      setHasSegmented(true);
+      onSegmentsCreated(graph.scenes);
+
+      if (graph.scenes.some(scene => scene.plan?.source === 'llm')) {
+        toast.success(`Planned shots for ${graph.scenes.length} scenes`);
       }
-    });
-
-    // Add final scene
-    if (currentScene.title && sceneContent.length > 0) {
-      scenes.push(createSceneFromContent(currentScene, sceneContent, characterList, sceneOrder));
-    }
-
-    // If no clear scene breaks found, create cinematic scenes based on story flow
-    if (scenes.length === 0) {
-      return createCinematicScenes(storyText, characterList);
-    }
-
-    // Ensure optimal scene count (3-6 scenes for best video experience)
-    return optimizeSceneCount(scenes, characterList);
-  };
-
-  // Enhanced helper functions for cinematic scene creation
-  const isNewSceneLine = (line: string, currentContent: string[]): boolean => {
-    const sceneIndicators = [
-      'the next day', 'hours later', 'moments later', 'back at',
-      'in the distance', 'across town', 'upstairs', 'outside',
-      'at the same time', 'while', 'chapter'
-    ];
-    
-    return sceneIndicators.some(indicator => 
-      line.toLowerCase().includes(indicator) && currentContent.length > 3
-    );
-  };
-
-  const generateSceneTitle = (line: string, content: string[], sceneNumber: number): string => {
-    if (line.startsWith('#')) {
-      return line.replace(/^#+\s*/, '').replace(/\*\*/g, '').trim();
-    }
-    
-    if (line.includes('EXT.') || line.includes('INT.')) {
-      return line.trim();
-    }
-    
-    // Generate dynamic scene titles based on content
-    const themes = extractSceneTheme(content.join(' '));
-    return `${themes} - Scene ${sceneNumber}`;
-  };
-
-  const extractSceneTheme = (content: string): string => {
-    const contentLower = content.toLowerCase();
-    
-    if (contentLower.includes('action') || contentLower.includes('fight') || contentLower.includes('chase')) {
-      return 'Action Sequence';
-    } else if (contentLower.includes('dialogue') || contentLower.includes('conversation') || contentLower.includes('talk')) {
-      return 'Character Dialogue';
-    } else if (contentLower.includes('discover') || contentLower.includes('reveal') || contentLower.includes('find')) {
-      return 'Discovery';
-    } else if (contentLower.includes('emotional') || contentLower.includes('feel') || contentLower.includes('heart')) {
-      return 'Emotional Moment';
-    } else if (contentLower.includes('mysterious') || contentLower.includes('strange') || contentLower.includes('unknown')) {
-      return 'Mystery';
-    }
-    
-    return 'Story Development';
-  };
-
-  const createCinematicScenes = (storyText: string, characterList: any[]): Scene[] => {
-    // Create 4-5 optimal scenes for cinematic experience
-    const sentences = storyText.split(/[.!?]+/).filter(s => s.trim().length > 20);
-    const scenesCount = Math.min(Math.max(3, Math.floor(sentences.length / 3)), 6);
-    const sentencesPerScene = Math.floor(sentences.length / scenesCount);
-    
-    const scenes: Scene[] = [];
-    
-    for (let i = 0; i < scenesCount; i++) {
-      const startIndex = i * sentencesPerScene;
-      const endIndex = i === scenesCount - 1 ? sentences.length : (i + 1) * sentencesPerScene;
-      const sceneContent = sentences.slice(startIndex, endIndex).join('. ') + '.';
-      
-      const sceneType = determineSceneType(i, scenesCount);
-      scenes.push(createSceneFromContent(
-        { title: `${sceneType} - Scene ${i + 1}` },
-        [sceneContent],
-        characterList,
-        i
-      ));
-    }
-    
-    return scenes;
-  };
-
-  const determineSceneType = (sceneIndex: number, totalScenes: number): string => {
-    const sceneTypes = [
-      'Opening', 'Development', 'Conflict', 'Climax', 'Resolution'
-    ];
-    
-    if (totalScenes <= 3) {
-      return ['Opening', 'Climax', 'Resolution'][sceneIndex] || 'Scene';
-    } else if (totalScenes === 4) {
-      return ['Opening', 'Development', 'Climax', 'Resolution'][sceneIndex] || 'Scene';
-    } else {
-      const typeIndex = Math.floor((sceneIndex / totalScenes) * sceneTypes.length);
-      return sceneTypes[Math.min(typeIndex, sceneTypes.length - 1)];
+    } catch (error) {
+      console.error('❌ Scene segmentation error:', error);
+      toast.error('Failed to segment story');
+    } finally {
+      setIsSegmenting(false);
     }
   };
 
-  const optimizeSceneCount = (scenes: Scene[], characterList: any[]): Scene[] => {
-    // If too many scenes, combine shorter ones
-    if (scenes.length > 6) {
-      const optimized: Scene[] = [];
-      let i = 0;
-      
-      while (i < scenes.length) {
-        const currentScene = scenes[i];
-        
-        // If scene is very short and not the last, combine with next
-        if (currentScene.duration < 20 && i < scenes.length - 1) {
-          const nextScene = scenes[i + 1];
-          const combinedScene = {
-            ...currentScene,
-            title: `${currentScene.title} & ${nextScene.title}`,
-            content: `${currentScene.content}\n\n${nextScene.content}`,
-            characters: [...new Set([...currentScene.characters, ...nextScene.characters])],
-            duration: currentScene.duration + nextScene.duration,
-            visualPrompt: `${currentScene.visualPrompt} Transitions to ${nextScene.visualPrompt.toLowerCase()}`
-          };
-          optimized.push(combinedScene);
-          i += 2; // Skip both scenes
-        } else {
-          optimized.push(currentScene);
-          i++;
-        }
-      }
-      
-      return optimized;
-    }
-    
-    return scenes;
-  };
-
-  const createSceneFromContent = (
-    sceneData: Partial<Scene>, 
-    content: string[], 
-    characterList: any[], 
-    order: number
-  ): Scene => {
-    const fullContent = content.join('\n');
-    const charactersInScene = characterList
-      .filter(char => fullContent.toLowerCase().includes(char.name.toLowerCase()))
-      .map(char => char.name);
-
-    return {
-      id: `scene-${order}`,
-      title: sceneData.title || `Scene ${order + 1}`,
-      content: fullContent,
-      characters: charactersInScene,
-      setting: extractSetting(fullContent),
-      duration: Math.max(15, Math.min(60, fullContent.split(' ').length / 3)), // 3 words per second
-      visualPrompt: generateVisualPrompt(fullContent, charactersInScene),
-      order
-    };
-  };
-
-  const extractSetting = (content: string): string => {
-    const settings = [
-      'forest', 'castle', 'city', 'home', 'office', 'school', 'park', 'beach',
-      'mountain', 'space station', 'laboratory', 'restaurant', 'street', 'room'
-    ];
-    
-    const contentLower = content.toLowerCase();
-    const foundSetting = settings.find(setting => contentLower.includes(setting));
-    return foundSetting || 'indoor scene';
-  };
-
-  const generateVisualPrompt = (content: string, characters: string[]): string => {
-    const actions = extractActions(content);
-    const setting = extractSetting(content);
-    const characterList = characters.length > 0 ? characters.join(' and ') : 'characters';
-    
-    return `${characterList} in ${setting}, ${actions}. Cinematic lighting, detailed animation.`;
-  };
-
-  const extractActions = (content: string): string => {
-    const actionWords = [
-      'walking', 'talking', 'fighting', 'running', 'sitting', 'standing',
-      'looking', 'searching', 'discovering', 'meeting', 'arguing', 'laughing'
-    ];
-    
-    const contentLower = content.toLowerCase();
-    const foundActions = actionWords.filter(action => contentLower.includes(action));
-    return foundActions.length > 0 ? foundActions.join(', ') : 'interacting';
-  };
-
-  const chunkStoryByLength = (text: string, wordsPerChunk: number): string[] => {
-    const words = text.split(' ');
-    const chunks: string[] = [];
-    
-    for (let i = 0; i < words.length; i += wordsPerChunk) {
-      chunks.push(words.slice(i, i + wordsPerChunk).join(' '));
-    }
-    
-    return chunks;
-  };
-
   const updateScene = (sceneId: string, updates: Partial<Scene>) => {
     const updatedScenes = scenes.map(scene =>
       scene.id === sceneId ? { ...scene, ...updates } : scene
@@ -353,7 +133,18 @@ export const SceneSegmenter: React.FC<SceneSegmenterProps> = ({
           </p>
         </div>
         
-        <div className="flex space-x-2">
+        <div className="flex items-center space-x-2">
+          {sceneSegmentationService.canPlanShots() && (
+            <label className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400 mr-2">
+              <input
+                type="checkbox"
+                checked={planShots}
+                onChange={(e) => setPlanShots(e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>AI shot planning</span>
+            </label>
+          )}
           <Button variant="outline" size="sm" onClick={segmentStory}>
             <Eye className="w-4 h-4 mr-2" />
             Re-segment
@@ -374,6 +165,13 @@ export const SceneSegmenter: React.FC<SceneSegmenterProps> = ({
             animate={{ opacity: 1, x: 0 }}
             transition={{ delay: index * 0.1 }}
           >
+            {/* Act marker from the screenplay */}
+            {scene.act !== undefined && scene.act !== scenes[index - 1]?.act && (
+              <div className="flex items-center space-x-2 mb-2 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                <Film className="w-4 h-4 text-primary-500" />
+                <span>Act {scene.act}{scene.actTitle ? `: ${scene.actTitle}` : ''}</span>
+              </div>
+            )}
             <Card className="hover:shadow-md transition-shadow duration-200">
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
@@ -471,6 +269,35 @@ export const SceneSegmenter: React.FC<SceneSegmenterProps> = ({
                   </div>
                 </div>
 
+                {/* Shot Plan */}
+                {scene.plan && scene.plan.shots.length > 0 && (
+                  <div>
+                    <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                      <span>Shots</span>
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400 rounded-full text-xs font-normal">
+                        {scene.plan.mood}
+                      </span>
+                      {scene.plan.source === 'llm' && (
+                        <span className="px-2 py-0.5 bg-primary-100 text-primary-700 dark:bg-primary-900 dark:text-primary-300 rounded-full text-xs font-normal">
+                          AI planned
+                        </span>
+                      )}
+                    </label>
+                    <ol className="mt-1 space-y-1">
+                      {scene.plan.shots.map((shot, i) => (
+                        <li key={i} className="flex items-start space-x-2 text-xs text-gray-600 dark:text-gray-400">
+                          <Camera className="w-3 h-3 mt-0.5 flex-shrink-0 text-gray-400" />
+                          <span className="line-clamp-1">
+                            <span className="font-medium text-gray-700 dark:text-gray-300">{shot.camera}</span>
+                            {' · '}{shot.description}
+                          </span>
+                          <span className="flex-shrink-0 text-gray-400">{Math.round(shot.duration)}s</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+
                 {/* Visual Prompt */}
                 <div>
                   <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -642,6 +469,28 @@ export const SceneSegmenter: React.FC<SceneSegmenterProps> = ({
                   </div>
                 </div>
 
+                {/* Shot List */}
+                {previewScene.plan && previewScene.plan.shots.length > 0 && (
+                  <div>
+                    <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-2">
+                      Shot List · {previewScene.plan.camera}
+                    </h4>
+                    <div className="space-y-2">
+                      {previewScene.plan.shots.map((shot, i) => (
+                        <div key={i} className="flex items-start justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm">
+                          <div>
+                            <div className="font-medium text-gray-900 dark:text-gray-100">
+                              {i + 1}. {shot.camera}
+                            </div>
+                            <div className="text-gray-600 dark:text-gray-400">{shot.description}</div>
+                          </div>
+                          <span className="text-gray-500 ml-4 flex-shrink-0">{Math.round(shot.duration)}s</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Video Preview Placeholder */}
                 <div>
                   <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-2">
@@ -65,8 +65,10 @@ export const StoryCreator: React.FC<StoryCreatorProps> = ({ onComplete }) => {
       try {
         const story = useStoryStore.getState().currentStory;
         if (story) {
-          await generateVideo(story.id);
-          toast.success('Video generated successfully!');
+          const video = await generateVideo(story.id);
+          toast.success(video.status === 'completed'
+            ? 'Video generated successfully!'
+            : 'Your video is rendering and will appear in My Videos');
           onComplete();
         } else {
           toast.error('No story found to generate video');
@@ -1,23 +1,30 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Save, RefreshCw, Eye, EyeOff, FileText, Clock } from 'lucide-react';
+import { Save, RefreshCw, Eye, EyeOff, FileText, Clock, History } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader } from '../ui/Card';
+import { StoryRevisionHistory } from './StoryRevisionHistory';
+import { useStoryStore } from '../../store/storyStore';
+import { parseStoryText } from '../../lib/screenplay';
 
 interface StoryEditorProps {
   initialStory: string;
   onStoryChange: (story: string) => void;
+  storyId?: string; // Saved stories get persisted saves and revision history
 }
 
 export const StoryEditor: React.FC<StoryEditorProps> = ({ 
   initialStory, 
-  onStoryChange 
+  onStoryChange,
+  storyId
 }) => {
   const [story, setStory] = useState(initialStory);
   const [isPreviewMode, setIsPreviewMode] = useState(false);
   const [wordCount, setWordCount] = useState(0);
   const [estimatedReadTime, setEstimatedReadTime] = useState(0);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const { updateStory, recordRevision } = useStoryStore();
 
   useEffect(() => {
     setStory(initialStory);
@@ -34,9 +41,20 @@ export const StoryEditor: React.FC<StoryEditorProps> = ({
     setHasUnsavedChanges(true);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     onStoryChange(story);
     setHasUnsavedChanges(false);
+
+    if (storyId) {
+      await updateStory(storyId, { content: story });
+      await recordRevision(storyId, story, 'manual');
+    }
+  };
+
+  const handleRestore = (content: string) => {
+    setStory(content);
+    onStoryChange(content);
+    setHasUnsavedChanges(false);
   };
 
   const handleReset = () => {
@@ -45,38 +63,65 @@ export const StoryEditor: React.FC<StoryEditorProps> = ({
   };
 
   const renderPreview = () => {
+    const screenplay = parseStoryText(story);
+    // Prose stories come out as plain action, so only scripts get the centred screenplay styling
+    const isScript = screenplay.elements.some(element => element.type === 'scene_heading' || element.type === 'character');
+
     return (
       <div className="prose prose-lg dark:prose-invert max-w-none">
-        {story.split('\n').map((paragraph, index) => {
-          if (paragraph.trim().startsWith('#')) {
-            const level = paragraph.match(/^#+/)?.[0].length || 1;
-            const text = paragraph.replace(/^#+\s*/, '');
-            const HeadingTag = `h${Math.min(level, 6)}` as keyof JSX.IntrinsicElements;
-            return (
-              <HeadingTag key={index} className="font-bold text-gray-900 dark:text-gray-100 mb-4">
-                {text}
-              </HeadingTag>
-            );
-          } else if (paragraph.trim().startsWith('**') && paragraph.trim().endsWith('**')) {
-            return (
-              <div key={index} className="font-semibold text-gray-800 dark:text-gray-200 mb-2 text-center">
-                {paragraph.replace(/\*\*/g, '')}
-              </div>
-            );
-          } else if (paragraph.trim().startsWith('*') && paragraph.trim().endsWith('*')) {
-            return (
-              <div key={index} className="italic text-gray-600 dark:text-gray-400 mb-2 text-center">
-                {paragraph.replace(/\*/g, '')}
-              </div>
-            );
-          } else if (paragraph.trim()) {
-            return (
-              <p key={index} className="mb-4 leading-relaxed">
-                {paragraph}
-              </p>
-            );
-          } else {
-            return <br key={index} />;
+        {screenplay.title && (
+          <h1 className="font-bold text-gray-900 dark:text-gray-100 mb-4">{screenplay.title}</h1>
+        )}
+        {screenplay.elements.map((element, index) => {
+          switch (element.type) {
+            case 'section': {
+              const HeadingTag = `h${Math.min(element.depth + 1, 6)}` as keyof JSX.IntrinsicElements;
+              return (
+                <HeadingTag key={index} className="font-bold text-gray-900 dark:text-gray-100 mb-4">
+                  {element.text}
+                </HeadingTag>
+              );
+            }
+            case 'scene_heading':
+            case 'transition':
+              return (
+                <div key={index} className="font-semibold text-gray-800 dark:text-gray-200 mb-2 text-center">
+                  {element.text}
+                </div>
+              );
+            case 'character':
+              return (
+                <div key={index} className="font-semibold text-gray-800 dark:text-gray-200 mt-4 text-center">
+                  {element.name}{element.extension && ` (${element.extension})`}
+                </div>
+              );
+            case 'parenthetical':
+              return (
+                <div key={index} className="italic text-gray-500 dark:text-gray-400 text-sm text-center">
+                  ({element.text})
+                </div>
+              );
+            case 'dialogue':
+              return (
+                <p key={index} className="mb-4 leading-relaxed text-center whitespace-pre-line">
+                  {element.text}
+                </p>
+              );
+            case 'action':
+              return element.centered ? (
+                <div key={index} className="font-semibold text-gray-800 dark:text-gray-200 mb-2 text-center">
+                  {element.text}
+                </div>
+              ) : (
+                <p
+                  key={index}
+                  className={`mb-4 leading-relaxed whitespace-pre-line ${isScript ? 'italic text-gray-600 dark:text-gray-400 text-center' : ''}`}
+                >
+                  {element.text}
+                </p>
+              );
+            case 'page_break':
+              return <hr key={index} />;
           }
         })}
       </div>
@@ -97,6 +142,17 @@ export const StoryEditor: React.FC<StoryEditorProps> = ({
         </div>
         
         <div className="flex items-center space-x-2">
+          {storyId && (
+            <Button
+              variant={showHistory ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => setShowHistory(!showHistory)}
+            >
+              <History className="w-4 h-4 mr-2" />
+              History
+            </Button>
+          )}
+
           <Button
             variant="outline"
             size="sm"
@@ -169,6 +225,15 @@ export const StoryEditor: React.FC<StoryEditorProps> = ({
         </Card>
       </div>
 
+      {/* Revision History */}
+      {storyId && showHistory && (
+        <StoryRevisionHistory
+          storyId={storyId}
+          currentContent={story}
+          onRestore={handleRestore}
+        />
+      )}
+
       {/* Editor/Preview */}
       <Card className="min-h-[500px]">
         <CardHeader>
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { History, RotateCcw, Loader, User, Wand2, MessageCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { useStoryStore } from '../../store/storyStore';
+import { diffLines, summarizeDiff } from '../../lib/textDiff';
+import { RevisionSource, StoryRevision } from '../../types';
+import toast from 'react-hot-toast';
+
+interface StoryRevisionHistoryProps {
+  storyId: string;
+  currentContent: string;
+  onRestore: (content: string) => void;
+}
+
+const CURRENT_DRAFT = 'current';
+
+const sourceLabels: Record<RevisionSource, { label: string; icon: React.ElementType; className: string }> = {
+  manual: { label: 'Manual save', icon: User, className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+  copilot_rewrite: { label: 'Copilot rewrite', icon: Wand2, className: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300' },
+  ai_chat: { label: 'AI chat', icon: MessageCircle, className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' },
+};
+
+export const StoryRevisionHistory: React.FC<StoryRevisionHistoryProps> = ({
+  storyId,
+  currentContent,
+  onRestore
+}) => {
+  const { revisions, fetchRevisions, restoreRevision } = useStoryStore();
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState(CURRENT_DRAFT);
+
+  const storyRevisions = useMemo(() => revisions[storyId] || [], [revisions, storyId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchRevisions(storyId)
+      .catch(error => {
+        console.error('❌ Failed to load revisions:', error);
+        toast.error('Could not load revision history');
+      })
+      .finally(() => setIsLoading(false));
+  }, [storyId, fetchRevisions]);
+
+  // Compare the current draft against the latest snapshot until the user picks otherwise
+  const baseId = fromId ?? storyRevisions[0]?.id ?? null;
+
+  const getContent = (id: string | null) => {
+    if (id === CURRENT_DRAFT) return currentContent;
+    return storyRevisions.find(revision => revision.id === id)?.content ?? '';
+  };
+
+  const fromContent = getContent(baseId);
+  const toContent = getContent(toId);
+  const diff = useMemo(() => diffLines(fromContent, toContent), [fromContent, toContent]);
+  const { added, removed } = summarizeDiff(diff);
+
+  const handleRestore = async (revision: StoryRevision) => {
+    try {
+      setRestoringId(revision.id);
+      const content = await restoreRevision(storyId, revision.id);
+      onRestore(content);
+    } catch (error) {
+      console.error('❌ Failed to restore revision:', error);
+      toast.error('Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+  const renderOption = (revision: StoryRevision, index: number) => (
+    <option key={revision.id} value={revision.id}>
+      #{storyRevisions.length - index} · {sourceLabels[revision.source].label} · {formatTime(revision.created_at)}
+    </option>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <History className="w-5 h-5 text-primary-500" />
+          <span className="font-medium text-gray-900 dark:text-gray-100">Revision History</span>
+          <span className="text-sm text-gray-500 dark:text-gray-400">({storyRevisions.length})</span>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-4">
+        {isLoading && storyRevisions.length === 0 ? (
+          <div className="flex items-center justify-center py-8 text-gray-500">
+            <Loader className="w-5 h-5 animate-spin mr-2" />
+            Loading history...
+          </div>
+        ) : storyRevisions.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400 text-center py-6">
+            No revisions yet. Saving the story or applying an AI rewrite creates one.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {/* Revision list */}
+            <div className="space-y-2 max-h-[420px] overflow-y-auto pr-1">
+              {storyRevisions.map((revision, index) => {
+                const source = sourceLabels[revision.source];
+                const SourceIcon = source.icon;
+
+                return (
+                  <motion.div
+                    key={revision.id}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    className={`p-3 rounded-lg border transition-colors ${
+                      revision.id === baseId
+                        ? 'border-primary-300 bg-primary-50 dark:border-primary-700 dark:bg-primary-900/20'
+                        : 'border-gray-200 dark:border-gray-700'
+                    }`}
+                  >
+                    <button
+                      onClick={() => setFromId(revision.id)}
+                      className="w-full text-left"
+                    >
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                          #{storyRevisions.length - index}
+                        </span>
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${source.className}`}>
+                          <SourceIcon className="w-3 h-3 mr-1" />
+                          {source.label}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatTime(revision.created_at)}
+                        {revision.metadata?.restored_from && ' · restored'}
+                      </div>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoringId !== null || revision.content === currentContent}
+                      isLoading={restoringId === revision.id}
+                      className="mt-2 w-full"
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Restore
+                    </Button>
+                  </motion.div>
+                );
+              })}
+            </div>
+
+            {/* Diff view */}
+            <div className="lg:col-span-2 space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <select
+                  value={baseId ?? ''}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-gray-900 dark:text-gray-100"
+                >
+                  {storyRevisions.map(renderOption)}
+                </select>
+                <span className="text-gray-500">→</span>
+                <select
+                  value={toId}
+                  onChange={(e) => setToId(e.target.value)}
+                  className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-gray-900 dark:text-gray-100"
+                >
+                  <option value={CURRENT_DRAFT}>Current draft</option>
+                  {storyRevisions.map(renderOption)}
+                </select>
+                <span className="text-green-600 dark:text-green-400">+{added}</span>
+                <span className="text-red-600 dark:text-red-400">-{removed}</span>
+              </div>
+
+              <div className="max-h-[380px] overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 font-mono text-xs">
+                {added === 0 && removed === 0 ? (
+                  <p className="p-4 text-gray-500 dark:text-gray-400 font-sans text-sm text-center">
+                    No differences between these versions
+                  </p>
+                ) : (
+                  diff.map((line, index) => (
+                    <div
+                      key={index}
+                      className={`flex ${
+                        line.type === 'added'
+                          ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300'
+                          : line.type === 'removed'
+                            ? 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300'
+                            : 'text-gray-700 dark:text-gray-300'
+                      }`}
+                    >
+                      <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-400 select-none">
+                        {line.oldLine ?? ''}
+                      </span>
+                      <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-400 select-none">
+                        {line.newLine ?? ''}
+                      </span>
+                      <span className="w-4 flex-shrink-0 select-none">
+                        {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                      </span>
+                      <span className="whitespace-pre-wrap break-words">{line.text || ' '}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
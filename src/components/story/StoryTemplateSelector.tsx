@@ -21,7 +21,7 @@ import {
   Loader2,
   Zap
 } from 'lucide-react';
-import { geminiService } from '../../lib/geminiService';
+import { aiService } from '../../lib/aiService';
 
 interface StoryTemplate {
   id: string;
@@ -184,11 +184,11 @@ export const StoryTemplateSelector: React.FC<StoryTemplateSelectorProps> = ({
     setIsGeneratingAI(true);
     
     try {
-      // Try to generate with Gemini if available
-      if (geminiService.isConfigured()) {
-        console.log('🤖 Generating AI story templates with Gemini...');
+      // Try to generate with the configured AI provider if available
+      if (aiService.isConfigured()) {
+        console.log('🤖 Generating AI story templates with', aiService.getProviderName('ideas'));
         
-        const aiTemplates = await geminiService.generateStoryIdeas('creative', 3);
+        const aiTemplates = await aiService.generateStoryIdeas('creative', 3);
         
         const formattedTemplates: StoryTemplate[] = aiTemplates.map((idea, index) => ({
           id: `ai-${Date.now()}-${index}`,
@@ -431,8 +431,8 @@ export const StoryTemplateSelector: React.FC<StoryTemplateSelectorProps> = ({
             </span>
           </div>
           <p className="text-sm text-purple-700 dark:text-purple-300">
-            {geminiService.isConfigured() 
-              ? 'Our Gemini AI has created unique story concepts based on current trends and creative patterns.'
+            {aiService.isConfigured() 
+              ? `${aiService.getProviderName('ideas')} has created unique story concepts based on current trends and creative patterns.`
               : 'Curated AI-inspired story concepts have been added to spark your creativity.'
             }
           </p>
@@ -7,8 +7,11 @@ import { StoryEditor } from './StoryEditor';
 import { CharacterExtractor } from './CharacterExtractor';
 import { SceneSegmenter } from './SceneSegmenter';
 import { AudioGenerator } from './AudioGenerator';
+import { PronunciationLexicon } from './PronunciationLexicon';
+import { Storyboard } from './Storyboard';
 import { VideoGenerator } from '../video/VideoGenerator';
-import { useStoryStore } from '../../store/storyStore';
+import { useStoryStore, segmentToScene, characterToExtracted, audioFileToClip } from '../../store/storyStore';
+import { Scene, ExtractedCharacter, AudioClip, AudioMixdown, PronunciationEntry } from '../../types';
 import toast from 'react-hot-toast';
 import { ConversationalVideoChat } from './ConversationalVideoChat';
 
@@ -16,6 +19,7 @@ interface StoryWorkflowContinuationProps {
   story: any;
   startStep: string;
   onComplete: () => void;
+  onStepChange?: (step: string) => void;
 }
 
 const stepMapping: Record<string, number> = {
@@ -40,33 +44,37 @@ const steps = [
 export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps> = ({ 
   story, 
   startStep, 
-  onComplete 
+  onComplete,
+  onStepChange
 }) => {
   const [currentStep, setCurrentStep] = useState(stepMapping[startStep] || 0);
   const [editedStory, setEditedStory] = useState(story.content || '');
-  const [extractedCharacters, setExtractedCharacters] = useState(story.characters || []);
-  const [storySegments, setStorySegments] = useState(story.segments || []);
-  const [generatedAudio, setGeneratedAudio] = useState(story.audio || []);
+  const [extractedCharacters, setExtractedCharacters] = useState<ExtractedCharacter[]>((story.characters || []).map(characterToExtracted));
+  const [storySegments, setStorySegments] = useState<Scene[]>((story.segments || []).map(segmentToScene));
+  const [generatedAudio, setGeneratedAudio] = useState<AudioClip[]>((story.audio || []).map(audioFileToClip));
+  const [audioMix, setAudioMix] = useState<AudioMixdown | null>(null);
+  const [pronunciations, setPronunciations] = useState<PronunciationEntry[]>(story.pronunciations || []);
   const [generatedVideo, setGeneratedVideo] = useState(story.videos?.[0] || null);
   const [isGenerating, setIsGenerating] = useState(false);
   
-  const { updateStory } = useStoryStore();
+  const { updateStory, recordRevision, saveSegments, saveCharacters, saveAudioFiles } = useStoryStore();
 
   useEffect(() => {
     console.log('🔄 StoryWorkflowContinuation: Component mounted with:', {
       storyTitle: story.title,
-      startStep,
-      mappedStep: stepMapping[startStep],
       storyId: story.id
     });
     
     // Set initial data based on story
     setEditedStory(story.content || '');
-    setExtractedCharacters(story.characters || []);
-    setStorySegments(story.segments || []);
-    setGeneratedAudio(story.audio || []);
-    
-    // Set the correct step
+    setExtractedCharacters((story.characters || []).map(characterToExtracted));
+    setStorySegments((story.segments || []).map(segmentToScene));
+    setGeneratedAudio((story.audio || []).map(audioFileToClip));
+    setPronunciations(story.pronunciations || []);
+  }, [story]);
+
+  // Follow the step in the URL, e.g. when using the browser's back button
+  useEffect(() => {
     const mappedStepIndex = stepMapping[startStep];
     if (mappedStepIndex !== undefined) {
       setCurrentStep(mappedStepIndex);
@@ -75,7 +83,13 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
       console.warn('⚠️ StoryWorkflowContinuation: Unknown start step:', startStep);
       setCurrentStep(0);
     }
-  }, [story, startStep]);
+  }, [startStep]);
+
+  const goToStep = (index: number) => {
+    setCurrentStep(index);
+    const stepId = Object.keys(stepMapping).find(key => stepMapping[key] === index);
+    if (stepId) onStepChange?.(stepId);
+  };
 
   const handleNext = async () => {
     console.log('🔄 StoryWorkflowContinuation: handleNext called, current step:', currentStep);
@@ -111,8 +125,9 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
           length: story.length,
           status: 'processing'
         });
+        await recordRevision(story.id, editedStory, 'manual');
         toast.success('Story updated successfully!');
-        setCurrentStep(1);
+        goToStep(1);
       } catch (error) {
         console.error('❌ Error updating story:', error);
         const errorMessage = error instanceof Error ? error.message : 'Failed to update story';
@@ -135,15 +150,20 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
       }
       
       try {
+        setIsGenerating(true);
+        const savedCharacters = await saveCharacters(story.id, extractedCharacters);
+        setExtractedCharacters(savedCharacters.map(characterToExtracted));
         await updateStory(story.id, { 
-          characters: extractedCharacters,
-          status: 'processing'
+          status: 'processing',
+          pronunciations
         });
         toast.success('Characters saved successfully!');
-        setCurrentStep(2);
+        goToStep(2);
       } catch (error) {
         console.error('❌ Error saving characters:', error);
-        toast.error('Failed to save characters');
+        toast.error(error instanceof Error ? error.message : 'Failed to save characters');
+      } finally {
+        setIsGenerating(false);
       }
     } else if (currentStep === 2) {
       // Scene segmentation step
@@ -153,39 +173,46 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
       }
       
       try {
+        setIsGenerating(true);
+        const savedSegments = await saveSegments(story.id, storySegments);
+        setStorySegments(savedSegments.map(segmentToScene));
         await updateStory(story.id, { 
-          status: 'processing'  // Only update status, segments are handled separately
+          status: 'processing'
         });
         toast.success('Story segments saved!');
-        setCurrentStep(3);
+        goToStep(3);
       } catch (error) {
         console.error('❌ Error saving segments:', error);
-        toast.error('Failed to save segments');
+        toast.error(error instanceof Error ? error.message : 'Failed to save segments');
+      } finally {
+        setIsGenerating(false);
       }
     } else if (currentStep === 3) {
-      // Audio generation step (optional) - only update status
+      // Audio generation step (optional)
       try {
-        await updateStory(story.id, { 
-          status: 'processing'  // Only update status, audio is handled separately
-        });
+        setIsGenerating(true);
         if (generatedAudio.length > 0) {
+          const savedAudio = await saveAudioFiles(story.id, generatedAudio);
+          setGeneratedAudio(savedAudio.map(audioFileToClip));
           toast.success('Audio saved successfully!');
         }
-        setCurrentStep(4);
+        await updateStory(story.id, { 
+          status: 'processing'
+        });
+        goToStep(4);
       } catch (error) {
-        console.error('❌ Error updating story:', error);
-        toast.error('Failed to update story');
+        console.error('❌ Error saving audio:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to save audio');
+      } finally {
+        setIsGenerating(false);
       }
     } else if (currentStep === 4) {
       // Video generation step - check if video exists, if not, stay on this step
       if (generatedVideo) {
         try {
-          await updateStory(story.id, { 
-            videos: [generatedVideo],
-            status: 'completed'
-          });
+          await updateStory(story.id, { status: 'completed' });
           toast.success('Story creation completed!');
-          setCurrentStep(5);
+          goToStep(5);
         } catch (error) {
           console.error('❌ Error updating story status:', error);
           toast.error('Failed to update story status');
@@ -202,22 +229,32 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
 
   const handleBack = () => {
     if (currentStep > 0) {
-      setCurrentStep(currentStep - 1);
+      goToStep(currentStep - 1);
     }
   };
 
   const handleVideoGenerated = (video: any) => {
     console.log('🎬 StoryWorkflowContinuation: Video generated:', video);
     setGeneratedVideo(video);
-    updateStory(story.id, { 
-      videos: [video],
-      status: 'completed'
-    });
+    updateStory(story.id, { status: 'completed' });
     toast.success('Video generated successfully!');
     // Don't auto-advance, let user manually proceed to see the final result
   };
 
-  const handleAudioGenerated = (audioFiles: any[]) => {
+  // The cast is stored on the character records so every later narration reuses it
+  const handleCastSaved = async (characters: ExtractedCharacter[]) => {
+    setExtractedCharacters(characters);
+    try {
+      const savedCharacters = await saveCharacters(story.id, characters);
+      setExtractedCharacters(savedCharacters.map(characterToExtracted));
+      toast.success('Voice cast saved');
+    } catch (error) {
+      console.error('Failed to save voice cast:', error);
+      toast.error('Failed to save voice cast');
+    }
+  };
+
+  const handleAudioGenerated = (audioFiles: AudioClip[]) => {
     setGeneratedAudio(audioFiles);
     toast.success(`Generated ${audioFiles.length} audio files!`);
   };
@@ -252,7 +289,7 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
       case 3:
         return 'Generate professional voiceovers for your characters (optional)';
       case 4:
-        return 'Generate your final animated video with AI';
+        return 'Preview each scene as a storyboard, then generate your final animated video with AI';
       case 5:
         return 'Your story is complete and ready to share!';
       default:
@@ -355,22 +392,33 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
         <CardContent className="p-6">
           {currentStep === 0 && (
             <StoryEditor
+              storyId={story.id}
               initialStory={editedStory}
               onStoryChange={setEditedStory}
             />
           )}
 
           {currentStep === 1 && (
-            <CharacterExtractor
-              story={editedStory}
-              onCharactersExtracted={setExtractedCharacters}
-            />
+            <div className="space-y-6">
+              <CharacterExtractor
+                story={editedStory}
+                initialCharacters={extractedCharacters}
+                onCharactersExtracted={setExtractedCharacters}
+              />
+              <PronunciationLexicon
+                entries={pronunciations}
+                characters={extractedCharacters}
+                theme={story.theme}
+                onChange={setPronunciations}
+              />
+            </div>
           )}
 
           {currentStep === 2 && (
             <SceneSegmenter
               story={editedStory}
               characters={extractedCharacters}
+              initialScenes={storySegments}
               onSegmentsCreated={setStorySegments}
             />
           )}
@@ -379,16 +427,36 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
             <AudioGenerator
               storySegments={storySegments}
               characters={extractedCharacters}
+              initialAudio={generatedAudio}
+              theme={story.theme}
+              pronunciations={pronunciations}
               onAudioGenerated={handleAudioGenerated}
+              onMixdownRendered={setAudioMix}
+              onCastSaved={handleCastSaved}
             />
           )}
 
           {currentStep === 4 && (
-            <VideoGenerator
-              storySegments={storySegments}
-              characters={extractedCharacters}
-              onVideoGenerated={handleVideoGenerated}
-            />
+            <div className="space-y-6">
+              <Storyboard
+                storyId={story.id}
+                storyTitle={story.title}
+                scenes={storySegments}
+                characters={extractedCharacters}
+                onScenesChange={setStorySegments}
+              />
+              <VideoGenerator
+                storyId={story.id}
+                storyTitle={story.title}
+                theme={story.theme}
+                storySegments={storySegments}
+                characters={extractedCharacters}
+                audioMix={audioMix}
+                audioClips={generatedAudio}
+                pronunciations={pronunciations}
+                onVideoGenerated={handleVideoGenerated}
+              />
+            </div>
           )}
 
           {currentStep === 5 && (
@@ -415,7 +483,7 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
                           className="w-full aspect-video"
                           poster={generatedVideo.thumbnail_url || "https://images.pexels.com/photos/1261728/pexels-photo-1261728.jpeg?auto=compress&cs=tinysrgb&w=800"}
                         >
-                          <source src={generatedVideo.video_url} type="video/mp4" />
+                          <source src={generatedVideo.video_url} type={generatedVideo.metadata?.mimeType || 'video/mp4'} />
                           Your browser does not support the video tag.
                         </video>
                         
@@ -439,7 +507,7 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
                         <Button
                           variant="outline"
                           className="mt-4"
-                          onClick={() => setCurrentStep(4)}
+                          onClick={() => goToStep(4)}
                         >
                           Generate Again
                         </Button>
@@ -455,7 +523,7 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
                           onClick={() => {
                             const link = document.createElement('a');
                             link.href = generatedVideo.video_url;
-                            link.download = `${story.title}-video.mp4`;
+                            link.download = `${story.title}-video.${generatedVideo.metadata?.mimeType?.includes('webm') ? 'webm' : 'mp4'}`;
                             document.body.appendChild(link);
                             link.click();
                             document.body.removeChild(link);
@@ -498,7 +566,7 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
                   <p className="text-gray-600 dark:text-gray-400 mb-4">
                     Please go back to the video generation step and create your video.
                   </p>
-                  <Button onClick={() => setCurrentStep(4)}>
+                  <Button onClick={() => goToStep(4)}>
                     Generate Video
                   </Button>
                 </div>
@@ -547,13 +615,13 @@ export const StoryWorkflowContinuation: React.FC<StoryWorkflowContinuationProps>
                 <div className="flex justify-center space-x-3">
                   <Button
                     variant="outline"
-                    onClick={() => setCurrentStep(4)}
+                    onClick={() => goToStep(4)}
                   >
                     Generate Another Video
                   </Button>
                   <Button
                     variant="outline"
-                    onClick={() => setCurrentStep(1)}
+                    onClick={() => goToStep(1)}
                   >
                     Edit Characters
                   </Button>
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { Loader, AlertCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { StoryWorkflowContinuation } from './StoryWorkflowContinuation';
+import { useStoryStore } from '../../store/storyStore';
+import { paths, segmentToStep } from '../../routes';
+import { Story } from '../../types';
+
+// Loads the story for /stories/:id/:step so workflow links survive a refresh
+export const StoryWorkflowRoute: React.FC = () => {
+  const { id, step } = useParams();
+  const navigate = useNavigate();
+  const { fetchStory } = useStoryStore();
+  const [story, setStory] = useState<Story | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+
+    // Only hand the workflow a new object when the story itself changes, so in-progress edits stay put
+    const cached = useStoryStore.getState().stories.find(s => s.id === id);
+    if (cached) {
+      setStory(cached);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchStory(id)
+      .then(found => {
+        if (!cancelled) setStory(found);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, fetchStory]);
+
+  const startStep = segmentToStep(step);
+
+  if (!id) {
+    return <Navigate to={paths.stories} replace />;
+  }
+
+  if (!startStep) {
+    return <Navigate to={paths.storyStep(id)} replace />;
+  }
+
+  if (isLoading || (story && story.id !== id)) {
+    return (
+      <div className="flex items-center justify-center py-24 text-gray-500 dark:text-gray-400">
+        <Loader className="w-6 h-6 animate-spin mr-2" />
+        Loading story...
+      </div>
+    );
+  }
+
+  if (!story) {
+    return (
+      <div className="max-w-md mx-auto text-center py-24">
+        <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
+          Story not found
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400 mb-6">
+          It may have been deleted, or it belongs to another account.
+        </p>
+        <Button onClick={() => navigate(paths.stories)}>
+          Back to My Stories
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <StoryWorkflowContinuation
+      key={story.id}
+      story={story}
+      startStep={startStep}
+      onStepChange={(stepId) => navigate(paths.storyStep(story.id, stepId))}
+      onComplete={() => navigate(paths.stories)}
+    />
+  );
+};
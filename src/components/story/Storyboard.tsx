@@ -0,0 +1,335 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LayoutGrid, Wand2, Check, RefreshCw, Upload, Trash2, FileDown, Image as ImageIcon, Loader } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { useStoryStore } from '../../store/storyStore';
+import { storyboardService, StoryboardStyle } from '../../lib/storyboardService';
+import { buildStoryboardPdf, renderContactSheet } from '../../lib/storyboardExport';
+import { ExtractedCharacter, Scene, StoryboardFrame } from '../../types';
+import toast from 'react-hot-toast';
+
+interface StoryboardProps {
+  storyId: string;
+  storyTitle: string;
+  scenes: Scene[];
+  characters: ExtractedCharacter[];
+  onScenesChange: (scenes: Scene[]) => void;
+}
+
+const STYLES: { value: StoryboardStyle; label: string }[] = [
+  { value: 'cinematic', label: 'Cinematic' },
+  { value: 'illustrated', label: 'Illustrated' },
+  { value: 'comic', label: 'Comic' },
+  { value: 'pencil sketch', label: 'Pencil Sketch' },
+];
+
+export const Storyboard: React.FC<StoryboardProps> = ({
+  storyId,
+  storyTitle,
+  scenes,
+  characters,
+  onScenesChange
+}) => {
+  const { updateSegment } = useStoryStore();
+  const [stillsPerScene, setStillsPerScene] = useState(1);
+  const [style, setStyle] = useState<StoryboardStyle>('cinematic');
+  const [busy, setBusy] = useState<Record<string, boolean>>({}); // Keyed by scene or frame id
+  const [isExporting, setIsExporting] = useState(false);
+  const replaceInput = useRef<HTMLInputElement | null>(null);
+  const replacing = useRef<{ sceneId: string; frame: StoryboardFrame } | null>(null);
+
+  // Generation takes a while, so each change applies to the scenes as they are when it lands
+  const scenesRef = useRef(scenes);
+  useEffect(() => {
+    scenesRef.current = scenes;
+  }, [scenes]);
+
+  const approvedScenes = scenes.filter(scene => scene.storyboard?.some(frame => frame.approved)).length;
+  const isBusy = Object.values(busy).some(Boolean);
+
+  const setBusyFor = (id: string, value: boolean) => {
+    setBusy(current => ({ ...current, [id]: value }));
+  };
+
+  // Resolves false when the scene couldn't be saved, so the stills it replaced must be kept
+  const saveFrames = async (sceneId: string, update: (frames: StoryboardFrame[]) => StoryboardFrame[]) => {
+    const scene = scenesRef.current.find(s => s.id === sceneId);
+    if (!scene) return false;
+
+    const storyboard = update(scene.storyboard || []);
+    const updated = scenesRef.current.map(s => s.id === sceneId ? { ...s, storyboard } : s);
+    scenesRef.current = updated;
+    onScenesChange(updated);
+
+    try {
+      await updateSegment(storyId, sceneId, { storyboard });
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to save storyboard:', error);
+      toast.error('Failed to save the storyboard');
+      return false;
+    }
+  };
+
+  const generateScene = async (scene: Scene) => {
+    setBusyFor(scene.id, true);
+    try {
+      const frames: StoryboardFrame[] = [];
+      for (const shot of storyboardService.shotsFor(scene, stillsPerScene)) {
+        frames.push(await storyboardService.generateFrame(storyId, scene, shot, characters, style));
+      }
+      if (await saveFrames(scene.id, () => frames)) {
+        await storyboardService.removeFrames(scene.storyboard || []);
+      }
+    } catch (error) {
+      console.error('❌ Storyboard generation failed:', error);
+      toast.error(error instanceof Error ? error.message : `Failed to generate stills for ${scene.title}`);
+    } finally {
+      setBusyFor(scene.id, false);
+    }
+  };
+
+  const generateMissing = async () => {
+    const missing = scenesRef.current.filter(scene => !scene.storyboard?.length);
+    for (const scene of missing) {
+      await generateScene(scene);
+    }
+    if (missing.length > 0) {
+      toast.success(`Storyboarded ${missing.length} scenes`);
+    }
+  };
+
+  const regenerateFrame = async (scene: Scene, frame: StoryboardFrame) => {
+    setBusyFor(frame.id, true);
+    try {
+      const shot = frame.shot || storyboardService.shotsFor(scene, 1)[0];
+      const regenerated = await storyboardService.generateFrame(storyId, scene, shot, characters, style);
+      if (await saveFrames(scene.id, frames => frames.map(f => f.id === frame.id ? regenerated : f))) {
+        await storyboardService.removeFrames([frame]);
+      }
+    } catch (error) {
+      console.error('❌ Still regeneration failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to regenerate this still');
+    } finally {
+      setBusyFor(frame.id, false);
+    }
+  };
+
+  const toggleApproved = (scene: Scene, frame: StoryboardFrame) => {
+    saveFrames(scene.id, frames => frames.map(f => f.id === frame.id ? { ...f, approved: !f.approved } : f));
+  };
+
+  const removeFrame = async (scene: Scene, frame: StoryboardFrame) => {
+    if (await saveFrames(scene.id, frames => frames.filter(f => f.id !== frame.id))) {
+      await storyboardService.removeFrames([frame]);
+    }
+  };
+
+  const chooseReplacement = (scene: Scene, frame: StoryboardFrame) => {
+    replacing.current = { sceneId: scene.id, frame };
+    replaceInput.current?.click();
+  };
+
+  const handleReplacementFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const target = replacing.current;
+    e.target.value = '';
+    if (!file || !target) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Choose an image file');
+      return;
+    }
+
+    setBusyFor(target.frame.id, true);
+    try {
+      const uploaded = await storyboardService.uploadFrame(storyId, file, target.frame);
+      if (await saveFrames(target.sceneId, frames => frames.map(f => f.id === target.frame.id ? uploaded : f))) {
+        await storyboardService.removeFrames([target.frame]);
+      }
+    } catch (error) {
+      console.error('❌ Still upload failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upload the image');
+    } finally {
+      setBusyFor(target.frame.id, false);
+    }
+  };
+
+  const handleExport = async (format: 'pdf' | 'sheet') => {
+    setIsExporting(true);
+    try {
+      const blob = format === 'pdf'
+        ? await buildStoryboardPdf(storyTitle, scenes)
+        : await renderContactSheet(storyTitle, scenes);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${storyTitle}-storyboard.${format === 'pdf' ? 'pdf' : 'jpg'}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('❌ Storyboard export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export the storyboard');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const hasStills = scenes.some(scene => scene.storyboard?.length);
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center space-x-2">
+            <LayoutGrid className="w-5 h-5 text-primary-500" />
+            <h4 className="font-medium text-gray-900 dark:text-gray-100">Storyboard</h4>
+            <span className="text-sm text-gray-500">
+              {approvedScenes} of {scenes.length} scenes approved
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={stillsPerScene}
+              onChange={(e) => setStillsPerScene(Number(e.target.value))}
+              className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+              aria-label="Stills per scene"
+            >
+              {[1, 2, 3].map(count => (
+                <option key={count} value={count}>{count} still{count > 1 ? 's' : ''} per scene</option>
+              ))}
+            </select>
+            <select
+              value={style}
+              onChange={(e) => setStyle(e.target.value as StoryboardStyle)}
+              className="rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+              aria-label="Still style"
+            >
+              {STYLES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <Button size="sm" onClick={generateMissing} disabled={isBusy || scenes.length === 0}>
+              <Wand2 className="w-4 h-4 mr-2" />
+              {hasStills ? 'Generate Missing' : 'Generate Storyboard'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleExport('pdf')} disabled={!hasStills || isExporting}>
+              <FileDown className="w-4 h-4 mr-2" />
+              PDF
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleExport('sheet')} disabled={!hasStills || isExporting}>
+              <ImageIcon className="w-4 h-4 mr-2" />
+              Contact Sheet
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Preview each scene as still frames before spending video credits. Approve the stills you like, and regenerate or replace the rest.
+          {!storyboardService.hasImageProvider() && ' No image provider is configured, so stills are sketched from the scene descriptions.'}
+        </p>
+
+        <input
+          ref={replaceInput}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={handleReplacementFile}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {scenes.map((scene, index) => (
+            <div key={scene.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 space-y-3">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <h5 className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {index + 1}. {scene.title}
+                  </h5>
+                  {scene.setting && (
+                    <p className="text-xs text-gray-500 truncate">{scene.setting}</p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => generateScene(scene)}
+                  disabled={busy[scene.id]}
+                  title={scene.storyboard?.length ? 'Regenerate all stills' : 'Generate stills'}
+                >
+                  {busy[scene.id] ? <Loader className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+                </Button>
+              </div>
+
+              {scene.storyboard?.length ? (
+                <div className={`grid gap-2 ${scene.storyboard.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                  {scene.storyboard.map(frame => (
+                    <div key={frame.id}>
+                      <div className={`relative rounded overflow-hidden group ${frame.approved ? 'ring-2 ring-green-500' : ''}`}>
+                        <img
+                          src={frame.url}
+                          alt={frame.shot || scene.title}
+                          className={`w-full aspect-video object-cover bg-gray-100 dark:bg-gray-800 ${busy[frame.id] ? 'opacity-40' : ''}`}
+                        />
+                        {frame.approved && (
+                          <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded text-xs bg-green-500 text-white">
+                            Approved
+                          </span>
+                        )}
+                        {busy[frame.id] && (
+                          <Loader className="absolute inset-0 m-auto w-6 h-6 animate-spin text-white" />
+                        )}
+                        <div className="absolute bottom-0 inset-x-0 flex justify-end space-x-1 p-1 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            onClick={() => toggleApproved(scene, frame)}
+                            className="p-1 rounded text-white hover:bg-white/20"
+                            title={frame.approved ? 'Unapprove' : 'Approve'}
+                          >
+                            <Check className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => regenerateFrame(scene, frame)}
+                            disabled={busy[frame.id]}
+                            className="p-1 rounded text-white hover:bg-white/20"
+                            title="Regenerate"
+                          >
+                            <RefreshCw className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => chooseReplacement(scene, frame)}
+                            disabled={busy[frame.id]}
+                            className="p-1 rounded text-white hover:bg-white/20"
+                            title="Replace with your own image"
+                          >
+                            <Upload className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => removeFrame(scene, frame)}
+                            className="p-1 rounded text-white hover:bg-white/20"
+                            title="Remove"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                      {frame.shot && (
+                        <p className="text-xs text-gray-500 truncate mt-1" title={frame.prompt}>{frame.shot}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="aspect-video rounded bg-gray-100 dark:bg-gray-800 flex items-center justify-center text-sm text-gray-500">
+                  {busy[scene.id] ? 'Generating stills...' : 'No stills yet'}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
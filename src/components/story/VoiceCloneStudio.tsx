@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Mic, Square, Trash2, Crown, AlertCircle, Loader2, Wand2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Modal } from '../ui/Modal';
+import { elevenLabsService, ElevenLabsVoice } from '../../lib/elevenlabsService';
+import { revenueCatService } from '../../lib/revenueCatService';
+import { trimSilence, getLevel, VoiceSample } from '../../lib/voiceSamples';
+import { useAuthStore } from '../../store/authStore';
+import toast from 'react-hot-toast';
+
+interface VoiceCloneStudioProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onVoiceCloned: (voice: ElevenLabsVoice) => void;
+}
+
+const MIN_TOTAL_SECONDS = 30;
+const MAX_SAMPLES = 10;
+const READING_PROMPT = 'The old lighthouse keeper climbed the spiral stairs each evening, counting every step. ' +
+  'Some nights the sea was calm as glass; on others the wind howled and rattled the windows. ' +
+  'Either way, he lit the lamp and watched the ships find their way home.';
+
+export const VoiceCloneStudio: React.FC<VoiceCloneStudioProps> = ({ isOpen, onClose, onVoiceCloned }) => {
+  const { user } = useAuthStore();
+  const [access, setAccess] = useState<'checking' | 'allowed' | 'upgrade'>('checking');
+  const [samples, setSamples] = useState<VoiceSample[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isCloning, setIsCloning] = useState(false);
+  const [level, setLevel] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [removeNoise, setRemoveNoise] = useState(true);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const samplesRef = useRef<VoiceSample[]>([]);
+  samplesRef.current = samples;
+
+  const totalSeconds = samples.reduce((total, sample) => total + sample.duration, 0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setAccess('checking');
+    revenueCatService.checkUsageLimits(user?.id || 'demo', 'use_premium_voice')
+      .then(allowed => setAccess(allowed ? 'allowed' : 'upgrade'))
+      .catch(() => setAccess('upgrade'));
+  }, [isOpen, user?.id]);
+
+  // Release the microphone and any takes nobody cloned when the studio closes
+  useEffect(() => {
+    if (isOpen) return;
+
+    // A take still recording when the studio closes is dropped
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.onstop = null;
+      recorderRef.current.stop();
+    }
+    recorderRef.current = null;
+    setIsRecording(false);
+    stopCapture();
+    samplesRef.current.forEach(sample => URL.revokeObjectURL(sample.url));
+    setSamples([]);
+  }, [isOpen]);
+
+  useEffect(() => stopCapture, []);
+
+  const stopCapture = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    contextRef.current?.close();
+    contextRef.current = null;
+    setLevel(0);
+  };
+
+  const startRecording = async () => {
+    if (samples.length >= MAX_SAMPLES) {
+      toast.error(`Use at most ${MAX_SAMPLES} samples per voice`);
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true }
+      });
+      const context = new AudioContext();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 2048;
+      context.createMediaStreamSource(stream).connect(analyser);
+
+      const chunks: Blob[] = [];
+      const recorder = new MediaRecorder(stream);
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => processRecording(new Blob(chunks, { type: recorder.mimeType }));
+
+      streamRef.current = stream;
+      contextRef.current = context;
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsRecording(true);
+
+      const startedAt = performance.now();
+      const data = new Uint8Array(analyser.fftSize);
+      const draw = () => {
+        analyser.getByteTimeDomainData(data);
+        setLevel(getLevel(data));
+        setElapsed((performance.now() - startedAt) / 1000);
+        drawWaveform(data);
+        frameRef.current = requestAnimationFrame(draw);
+      };
+      draw();
+    } catch (error) {
+      console.error('❌ Microphone access failed:', error);
+      stopCapture();
+      toast.error('Allow microphone access to record voice samples');
+    }
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    setIsRecording(false);
+    stopCapture();
+  };
+
+  const processRecording = async (recording: Blob) => {
+    setIsProcessing(true);
+    try {
+      const sample = await trimSilence(recording);
+      setSamples(prev => [...prev, sample]);
+    } catch (error) {
+      console.error('❌ Sample processing failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to process the recording');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const removeSample = (sampleId: string) => {
+    const sample = samples.find(s => s.id === sampleId);
+    if (sample) URL.revokeObjectURL(sample.url);
+    setSamples(prev => prev.filter(s => s.id !== sampleId));
+  };
+
+  const drawWaveform = (data: Uint8Array) => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.lineWidth = 2;
+    context.strokeStyle = '#8b5cf6';
+    context.beginPath();
+    for (let i = 0; i < data.length; i++) {
+      const x = (i / (data.length - 1)) * canvas.width;
+      const y = (data[i] / 255) * canvas.height;
+      if (i === 0) context.moveTo(x, y);
+      else context.lineTo(x, y);
+    }
+    context.stroke();
+  };
+
+  const cloneVoice = async () => {
+    if (!name.trim()) {
+      toast.error('Give the voice a name');
+      return;
+    }
+
+    // The plan may have changed since the studio opened
+    const allowed = await revenueCatService.checkUsageLimits(user?.id || 'demo', 'use_premium_voice');
+    if (!allowed) {
+      setAccess('upgrade');
+      return;
+    }
+
+    setIsCloning(true);
+    try {
+      const voiceId = await elevenLabsService.cloneVoice({
+        name: name.trim(),
+        description: description.trim(),
+        files: samples.map((sample, index) => new File([sample.blob], `sample_${index + 1}.wav`, { type: 'audio/wav' })),
+        remove_background_noise: removeNoise
+      });
+
+      // The first take stays alive as the voice's preview
+      samples.slice(1).forEach(sample => URL.revokeObjectURL(sample.url));
+      onVoiceCloned({
+        voice_id: voiceId,
+        name: name.trim(),
+        samples: [],
+        category: 'cloned',
+        description: description.trim() || 'Your cloned voice',
+        preview_url: samples[0]?.url || '',
+        use_speaker_boost: true,
+        fine_tuning: { model_id: 'eleven_turbo_v2' }
+      });
+
+      samplesRef.current = [];
+      setSamples([]);
+      setName('');
+      setDescription('');
+      toast.success(`🧬 ${name.trim()} is ready to cast`);
+      onClose();
+    } catch (error) {
+      console.error('❌ Voice cloning failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to clone the voice');
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  const formatSeconds = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Voice Cloning Studio" maxWidth="2xl">
+      {access === 'checking' && (
+        <div className="flex items-center justify-center py-12 text-gray-500">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          Checking your plan...
+        </div>
+      )}
+
+      {access === 'upgrade' && (
+        <div className="text-center py-8 space-y-4">
+          <Crown className="w-12 h-12 text-yellow-500 mx-auto" />
+          <div>
+            <h4 className="font-semibold text-gray-900 dark:text-gray-100">Voice cloning is a premium feature</h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Upgrade to a Creator or Studio plan to cast your own voice in your stories.
+            </p>
+          </div>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </div>
+      )}
+
+      {access === 'allowed' && (
+        <div className="space-y-5">
+          {!elevenLabsService.isConfigured() && (
+            <div className="flex items-start space-x-2 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700 text-sm text-yellow-800 dark:text-yellow-200">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>Cloning needs an ElevenLabs API key. You can record samples now and clone once a key is set.</span>
+            </div>
+          )}
+
+          <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300">
+            <div className="font-medium mb-1">Read aloud in your natural voice:</div>
+            <p className="italic">{READING_PROMPT}</p>
+          </div>
+
+          <div className="space-y-2">
+            <canvas
+              ref={canvasRef}
+              width={640}
+              height={96}
+              className="w-full h-24 rounded-lg bg-gray-900"
+            />
+            <div className="flex items-center space-x-3">
+              <div className="flex-1 h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-75 ${level > 0.5 ? 'bg-red-500' : level > 0.25 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                  style={{ width: `${Math.min(100, level * 200)}%` }}
+                />
+              </div>
+              <span className="text-sm font-mono text-gray-600 dark:text-gray-400 w-12 text-right">
+                {formatSeconds(isRecording ? elapsed : 0)}
+              </span>
+              {isRecording ? (
+                <Button size="sm" onClick={stopRecording} className="bg-red-600 hover:bg-red-700">
+                  <Square className="w-4 h-4 mr-2" />
+                  Stop
+                </Button>
+              ) : (
+                <Button size="sm" onClick={startRecording} disabled={isProcessing || isCloning}>
+                  <Mic className="w-4 h-4 mr-2" />
+                  Record
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-700 dark:text-gray-300">
+                Samples ({samples.length}/{MAX_SAMPLES})
+              </span>
+              <span className={totalSeconds >= MIN_TOTAL_SECONDS ? 'text-green-600' : 'text-gray-500'}>
+                {formatSeconds(totalSeconds)} of at least {formatSeconds(MIN_TOTAL_SECONDS)}
+              </span>
+            </div>
+
+            {isProcessing && (
+              <div className="flex items-center text-sm text-gray-500">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Trimming silence...
+              </div>
+            )}
+
+            {samples.map((sample, index) => (
+              <div key={sample.id} className="flex items-center space-x-3 p-2 rounded-lg border border-gray-200 dark:border-gray-700">
+                <span className="text-xs text-gray-500 w-6">#{index + 1}</span>
+                <div className="flex-1 flex items-center h-8 space-x-px">
+                  {sample.peaks.map((peak, bar) => (
+                    <div
+                      key={bar}
+                      className="flex-1 bg-primary-400 rounded-sm"
+                      style={{ height: `${Math.max(4, peak * 100)}%` }}
+                    />
+                  ))}
+                </div>
+                <span className="text-xs font-mono text-gray-500">{formatSeconds(sample.duration)}</span>
+                <audio src={sample.url} controls className="h-8 w-32" />
+                <Button variant="ghost" size="sm" onClick={() => removeSample(sample.id)} title="Remove sample">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Voice name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. My narrator voice"
+            />
+            <Input
+              label="Description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Warm, calm, slight accent"
+            />
+          </div>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={removeNoise}
+              onChange={(e) => setRemoveNoise(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span className="text-sm text-gray-700 dark:text-gray-300">Remove background noise</span>
+          </label>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button
+              onClick={cloneVoice}
+              isLoading={isCloning}
+              disabled={
+                isRecording ||
+                isProcessing ||
+                totalSeconds < MIN_TOTAL_SECONDS ||
+                !elevenLabsService.isConfigured()
+              }
+            >
+              <Wand2 className="w-4 h-4 mr-2" />
+              Clone Voice
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
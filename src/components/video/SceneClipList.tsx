@@ -0,0 +1,96 @@
+import React, { useEffect, useMemo } from 'react';
+import { Play, RefreshCw, RotateCcw, AlertCircle, CheckCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { useVideoJobStore } from '../../store/videoJobStore';
+import { videoService } from '../../lib/videoService';
+import { VideoSegment } from '../../types';
+import toast from 'react-hot-toast';
+
+interface SceneClipListProps {
+  videoId: string;
+  onRegenerated?: () => void;
+}
+
+// The scene clips of a segmented video, each of which can be rendered again
+export const SceneClipList: React.FC<SceneClipListProps> = ({ videoId, onRegenerated }) => {
+  const { loadSegments, regenerateSegment } = useVideoJobStore();
+  const allSegments = useVideoJobStore(state => state.segments);
+  const clips = useMemo(
+    () => allSegments.filter(clip => clip.video_id === videoId).sort((a, b) => a.segment_order - b.segment_order),
+    [allSegments, videoId]
+  );
+
+  // Videos from an earlier session have their clips in the database
+  useEffect(() => {
+    loadSegments(videoId).catch(error => {
+      toast.error(error instanceof Error ? error.message : 'Failed to load scene clips');
+    });
+  }, [loadSegments, videoId]);
+
+  const regenerateScene = async (segmentId: string) => {
+    try {
+      await regenerateSegment(segmentId);
+      onRegenerated?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to regenerate scene');
+    }
+  };
+
+  const getClipStatusText = (clip: VideoSegment) => {
+    const backend = clip.provider ? videoService.getBackend(clip.provider)?.label || clip.provider : 'the video provider';
+    switch (clip.status) {
+      case 'completed':
+        return `Made with ${backend}`;
+      case 'failed':
+        return clip.error || 'Failed to render';
+      case 'processing':
+        return `Rendering with ${backend}...`;
+      default:
+        return 'Waiting to render';
+    }
+  };
+
+  if (clips.length === 0) return null;
+
+  return (
+    <div className="text-left space-y-2">
+      <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">
+        Scenes ({clips.filter(clip => clip.status === 'completed').length}/{clips.length} rendered)
+      </h4>
+      {clips.map(clip => (
+        <div key={clip.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <div className="flex items-center space-x-3 min-w-0">
+            {clip.status === 'completed' ? (
+              <CheckCircle className="w-4 h-4 flex-shrink-0 text-green-500" />
+            ) : clip.status === 'failed' ? (
+              <AlertCircle className="w-4 h-4 flex-shrink-0 text-red-500" />
+            ) : (
+              <RefreshCw className="w-4 h-4 flex-shrink-0 text-primary-500 animate-spin" />
+            )}
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                {clip.segment_order + 1}. {clip.metadata?.title || 'Scene'}
+              </div>
+              <div className={`text-xs truncate ${clip.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-gray-500'}`}>
+                {getClipStatusText(clip)}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            {clip.video_url && (
+              <Button variant="ghost" size="sm" onClick={() => window.open(clip.video_url, '_blank')} title="Watch clip">
+                <Play className="w-4 h-4" />
+              </Button>
+            )}
+            {(clip.status === 'completed' || clip.status === 'failed') && (
+              <Button variant="outline" size="sm" onClick={() => regenerateScene(clip.id)}>
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Regenerate
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
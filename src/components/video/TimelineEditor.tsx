@@ -0,0 +1,599 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Film, Mic, MessageSquare, Music, ZoomIn, ZoomOut, Save, Download, RotateCcw, Clapperboard, Trash2, Loader } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { useVideoJobStore } from '../../store/videoJobStore';
+import { audioFileToClip } from '../../store/storyStore';
+import { audioMixService, DEFAULT_MIXDOWN_SETTINGS } from '../../lib/audioMixService';
+import { audioStorageService } from '../../lib/audioStorageService';
+import {
+  TRACK_KINDS,
+  MIN_CLIP_SECONDS,
+  clipEnd,
+  clipLength,
+  createEditList,
+  editDuration,
+  editSubtitleCues,
+  layoutSequence,
+  renderEditList,
+  storeSessionSources,
+  trackClips,
+} from '../../lib/timeline';
+import { EditList, SceneTransitionType, Story, TimelineClip, TimelineTrackKind, Video } from '../../types';
+import toast from 'react-hot-toast';
+
+interface TimelineEditorProps {
+  video: Video;
+  story: Story;
+  onClose: () => void;
+  onRendered: (videoId: string) => void;
+}
+
+interface DragState {
+  kind: TimelineTrackKind;
+  clip: TimelineClip; // As it was when the drag started
+  mode: 'move' | 'trim-in' | 'trim-out';
+  originX: number;
+}
+
+const TRACKS: Record<TimelineTrackKind, { label: string; icon: React.ElementType; color: string }> = {
+  video: { label: 'Video', icon: Film, color: 'bg-primary-500' },
+  narration: { label: 'Narration', icon: Mic, color: 'bg-blue-500' },
+  dialogue: { label: 'Dialogue', icon: MessageSquare, color: 'bg-purple-500' },
+  music: { label: 'Music', icon: Music, color: 'bg-green-500' },
+};
+
+const TRANSITIONS: { value: SceneTransitionType; label: string }[] = [
+  { value: 'cut', label: 'Cut' },
+  { value: 'dissolve', label: 'Crossfade' },
+  { value: 'fade', label: 'Dip to black' },
+];
+
+const MIN_ZOOM = 10; // Pixels per second
+const MAX_ZOOM = 160;
+
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({ video, story, onClose, onRendered }) => {
+  const { loadSegments, saveEditList, submitJob } = useVideoJobStore();
+  const [editList, setEditList] = useState<EditList | null>(video.edit_list || null);
+  const [isLoading, setIsLoading] = useState(!video.edit_list);
+  const [isDirty, setIsDirty] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(40);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAddingMusic, setIsAddingMusic] = useState(false);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const loadedFor = useRef<string | null>(null);
+
+  // Builds a fresh edit from the video's scene clips and the story's audio
+  const buildFromSources = useCallback(async () => {
+    const segments = await loadSegments(video.id);
+    return createEditList(video, segments, (story.audio || []).map(audioFileToClip));
+  }, [loadSegments, video, story.audio]);
+
+  // Built once per video; saving the edit updates the video but keeps the timeline as it is
+  useEffect(() => {
+    if (loadedFor.current === video.id || video.edit_list) return;
+    const videoId = video.id;
+    loadedFor.current = videoId;
+
+    setIsLoading(true);
+    buildFromSources()
+      .then(edit => {
+        if (loadedFor.current === videoId) setEditList(edit);
+      })
+      .catch(error => {
+        console.error('❌ Failed to build the timeline:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load the timeline');
+      })
+      .finally(() => setIsLoading(false));
+  }, [video.id, video.edit_list, buildFromSources]);
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMove = (event: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      setEditList(previous => previous && dragClip(previous, drag, (event.clientX - drag.originX) / zoom));
+      setIsDirty(true);
+    };
+    const handleUp = () => {
+      dragRef.current = null;
+      setIsDragging(false);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [isDragging, zoom]);
+
+  const changeClips = (kind: TimelineTrackKind, update: (clips: TimelineClip[]) => TimelineClip[]) => {
+    setEditList(previous => previous && withClips(previous, kind, update));
+    setIsDirty(true);
+  };
+
+  const updateClip = (kind: TimelineTrackKind, clipId: string, changes: Partial<TimelineClip>) => {
+    changeClips(kind, clips => clips.map(clip => clip.id === clipId ? { ...clip, ...changes } : clip));
+  };
+
+  const removeClip = (kind: TimelineTrackKind, clipId: string) => {
+    changeClips(kind, clips => clips.filter(clip => clip.id !== clipId));
+    setSelectedId(null);
+  };
+
+  const beginDrag = (event: React.PointerEvent, kind: TimelineTrackKind, clip: TimelineClip, mode: DragState['mode']) => {
+    event.preventDefault();
+    event.stopPropagation();
+    dragRef.current = { kind, clip, mode, originX: event.clientX };
+    setSelectedId(clip.id);
+    setIsDragging(true);
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Discard this edit and start again from the original clips?')) return;
+
+    setIsLoading(true);
+    try {
+      setEditList(await buildFromSources());
+      setSelectedId(null);
+      setIsDirty(true);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to rebuild the timeline');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async (): Promise<EditList | null> => {
+    if (!editList) return null;
+
+    setIsSaving(true);
+    try {
+      // Sources from this tab are stored first, so the edit still renders in a later session
+      const { editList: storable, sessionOnly } = await storeSessionSources(editList, story.id);
+      if (sessionOnly.length > 0) {
+        toast(`${sessionOnly.length} clip${sessionOnly.length === 1 ? '' : 's'} could not be stored and will be missing after a reload: ${sessionOnly.map(clip => clip.label).join(', ')}`, { duration: 8000 });
+      }
+
+      const saved = { ...storable, updatedAt: new Date().toISOString() };
+      await saveEditList(video, saved);
+      setEditList(saved);
+      setIsDirty(false);
+      return saved;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the edit');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!editList) return;
+
+    const url = URL.createObjectURL(new Blob([JSON.stringify(editList, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${story.title}-edit.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // The bed is uploaded so the saved edit can still play it after a reload
+  const handleAddMusic = async () => {
+    if (!editList) return;
+
+    setIsAddingMusic(true);
+    try {
+      const duration = Math.max(editDuration(editList), 1);
+      const bed = await audioMixService.renderMusicBed(story.theme, duration);
+      let source = bed.url;
+      try {
+        source = (await audioStorageService.uploadClip(story.id, `music-${Date.now()}`, bed.url)).url;
+        URL.revokeObjectURL(bed.url);
+      } catch (error) {
+        console.warn('⚠️ Could not store the music bed, keeping it for this session:', error);
+      }
+
+      const clip: TimelineClip = {
+        id: `music-${Date.now()}`,
+        label: `${story.theme} theme`,
+        source,
+        sourceDuration: duration,
+        start: 0,
+        in: 0,
+        out: duration,
+        volume: DEFAULT_MIXDOWN_SETTINGS.musicGain,
+      };
+      changeClips('music', clips => [...clips, clip]);
+      setSelectedId(clip.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add music');
+    } finally {
+      setIsAddingMusic(false);
+    }
+  };
+
+  // Renders the saved edit as a new video, leaving the original untouched
+  const handleRender = async () => {
+    const saved = await handleSave();
+    if (!saved) return;
+
+    setRenderProgress(0);
+    try {
+      const result = await renderEditList(
+        saved,
+        { title: story.title, theme: story.theme },
+        progress => setRenderProgress(Math.round(progress * 100))
+      );
+
+      const rendered = await submitJob(story.id, {
+        id: `edit-${Date.now()}`,
+        status: 'completed',
+        video_url: result.url,
+        thumbnail_url: result.thumbnailUrl,
+        mime_type: result.mimeType,
+        provider: 'ai-generated-canvas',
+      }, {
+        mimeType: result.mimeType,
+        subtitles: saved.subtitles ? editSubtitleCues(saved) : undefined,
+        aspectRatio: saved.aspectRatio,
+        editOf: video.id,
+      });
+
+      if (rendered.video_url?.startsWith('blob:')) {
+        toast('The edited video could not be stored, so it is only available until you leave this page', { duration: 8000 });
+      } else {
+        toast.success('Edited video rendered');
+      }
+      onRendered(rendered.id);
+    } catch (error) {
+      console.error('❌ Edit render failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to render the edit');
+    } finally {
+      setRenderProgress(null);
+    }
+  };
+
+  const duration = editList ? editDuration(editList) : 0;
+  const width = (duration + 5) * zoom;
+  const tickStep = [1, 2, 5, 10, 30, 60].find(step => step * zoom >= 60) || 120;
+  const selectedKind = editList && TRACK_KINDS.find(kind => trackClips(editList, kind).some(clip => clip.id === selectedId));
+  const selected = selectedKind ? trackClips(editList!, selectedKind).find(clip => clip.id === selectedId)! : null;
+  const selectedIndex = selectedKind && selected ? trackClips(editList!, selectedKind).indexOf(selected) : -1;
+  const isRendering = renderProgress !== null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Edit Video</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              {story.title}{isDirty && ' · unsaved changes'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="ghost" size="sm" onClick={handleReset} disabled={isLoading || isRendering}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!editList}>
+            <Download className="w-4 h-4 mr-2" />
+            Export JSON
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleSave} isLoading={isSaving} disabled={!editList || isRendering}>
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+          <Button size="sm" onClick={handleRender} disabled={!editList || isRendering || isSaving}>
+            {isRendering ? (
+              <Loader className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Clapperboard className="w-4 h-4 mr-2" />
+            )}
+            {isRendering ? `Rendering ${renderProgress}%` : 'Render'}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !editList ? (
+        <Card>
+          <CardContent className="p-12 text-center text-gray-600 dark:text-gray-400">
+            {isLoading ? (
+              <>
+                <Loader className="w-8 h-8 mx-auto mb-3 animate-spin" />
+                Loading clips and audio...
+              </>
+            ) : (
+              'This video has nothing to edit yet'
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Timeline */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Button variant="ghost" size="sm" onClick={() => setZoom(z => Math.max(MIN_ZOOM, z / 1.5))} title="Zoom out">
+                    <ZoomOut className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setZoom(z => Math.min(MAX_ZOOM, z * 1.5))} title="Zoom in">
+                    <ZoomIn className="w-4 h-4" />
+                  </Button>
+                  <span className="text-sm text-gray-500">{formatSeconds(duration)}</span>
+                </div>
+                <div className="flex items-center space-x-4">
+                  <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={editList.subtitles}
+                      onChange={(e) => {
+                        setEditList({ ...editList, subtitles: e.target.checked });
+                        setIsDirty(true);
+                      }}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span>Burn In Subtitles</span>
+                  </label>
+                  <Button variant="outline" size="sm" onClick={handleAddMusic} isLoading={isAddingMusic}>
+                    <Music className="w-4 h-4 mr-2" />
+                    Add Theme Music
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="flex">
+                <div className="w-32 flex-shrink-0 pt-6 space-y-2">
+                  {TRACK_KINDS.map(kind => {
+                    const Icon = TRACKS[kind].icon;
+                    return (
+                      <div key={kind} className="h-14 flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                        <Icon className="w-4 h-4" />
+                        <span>{TRACKS[kind].label}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="flex-1 overflow-x-auto">
+                  <div style={{ width }} className="relative">
+                    {/* Ruler */}
+                    <div className="h-6 relative border-b border-gray-200 dark:border-gray-700">
+                      {Array.from({ length: Math.floor(duration / tickStep) + 2 }, (_, index) => (
+                        <span
+                          key={index}
+                          style={{ left: index * tickStep * zoom }}
+                          className="absolute top-0 text-xs text-gray-500 border-l border-gray-300 dark:border-gray-600 pl-1"
+                        >
+                          {formatSeconds(index * tickStep)}
+                        </span>
+                      ))}
+                    </div>
+
+                    <div className="space-y-2 pt-2">
+                      {TRACK_KINDS.map(kind => (
+                        <div key={kind} className="h-14 relative rounded bg-gray-100 dark:bg-gray-800">
+                          {trackClips(editList, kind).map((clip, index) => (
+                            <div
+                              key={clip.id}
+                              style={{ left: clip.start * zoom, width: Math.max(clipLength(clip) * zoom, 12) }}
+                              onPointerDown={(e) => beginDrag(e, kind, clip, 'move')}
+                              className={`absolute top-1 bottom-1 rounded ${TRACKS[kind].color} text-white select-none touch-none cursor-grab flex items-center overflow-hidden ${
+                                clip.id === selectedId ? 'ring-2 ring-offset-1 ring-yellow-400' : ''
+                              } ${isDragging && clip.id === selectedId ? 'opacity-80 cursor-grabbing' : ''}`}
+                              title={clip.text || clip.label}
+                            >
+                              <div
+                                onPointerDown={(e) => beginDrag(e, kind, clip, 'trim-in')}
+                                className="absolute left-0 top-0 bottom-0 w-2 bg-white/40 hover:bg-white/70 cursor-ew-resize"
+                              />
+                              <span className="px-3 text-xs truncate">
+                                {kind === 'video' && index > 0 && clip.transition && clip.transition !== 'cut' && (
+                                  <span className="mr-1 px-1 rounded bg-black/30">
+                                    {TRANSITIONS.find(t => t.value === clip.transition)?.label}
+                                  </span>
+                                )}
+                                {clip.label}
+                              </span>
+                              <div
+                                onPointerDown={(e) => beginDrag(e, kind, clip, 'trim-out')}
+                                className="absolute right-0 top-0 bottom-0 w-2 bg-white/40 hover:bg-white/70 cursor-ew-resize"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                Drag a clip to move it, or drag its edges to trim. Video clips play back to back, so dragging one changes the order.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Inspector */}
+          {selected && selectedKind && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium text-gray-900 dark:text-gray-100">
+                    {TRACKS[selectedKind].label}: {selected.label}
+                  </h4>
+                  <Button variant="ghost" size="sm" onClick={() => removeClip(selectedKind, selected.id)} title="Remove clip">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-3 gap-3">
+                      <Input
+                        label="Start"
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={selected.start.toFixed(1)}
+                        disabled={selectedKind === 'video'}
+                        onChange={(e) => updateClip(selectedKind, selected.id, { start: Math.max(0, Number(e.target.value)) })}
+                      />
+                      <Input
+                        label="In"
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={selected.in.toFixed(1)}
+                        onChange={(e) => updateClip(selectedKind, selected.id, {
+                          in: clamp(Number(e.target.value), 0, selected.out - MIN_CLIP_SECONDS),
+                        })}
+                      />
+                      <Input
+                        label="Out"
+                        type="number"
+                        step="0.1"
+                        value={selected.out.toFixed(1)}
+                        onChange={(e) => updateClip(selectedKind, selected.id, {
+                          out: clamp(Number(e.target.value), selected.in + MIN_CLIP_SECONDS, selected.sourceDuration),
+                        })}
+                      />
+                    </div>
+
+                    {selectedKind === 'video' ? (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          Transition In
+                        </label>
+                        <select
+                          value={selected.transition || 'cut'}
+                          disabled={selectedIndex === 0}
+                          onChange={(e) => updateClip(selectedKind, selected.id, { transition: e.target.value as SceneTransitionType })}
+                          className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-gray-900 dark:text-gray-100"
+                        >
+                          {TRANSITIONS.map(transition => (
+                            <option key={transition.value} value={transition.value}>{transition.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ) : (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          Volume: {Math.round(selected.volume * 100)}%
+                        </label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="2"
+                          step="0.05"
+                          value={selected.volume}
+                          onChange={(e) => updateClip(selectedKind, selected.id, { volume: Number(e.target.value) })}
+                          className="w-full"
+                        />
+                      </div>
+                    )}
+
+                    <p className="text-xs text-gray-500">
+                      Plays {formatSeconds(clipLength(selected))} of {formatSeconds(selected.sourceDuration)}, ending at {formatSeconds(clipEnd(selected))}
+                    </p>
+                  </div>
+
+                  {/* Media fragments limit the preview to the trimmed part */}
+                  {selectedKind === 'video' ? (
+                    <video
+                      key={`${selected.id}-${selected.in}-${selected.out}`}
+                      src={`${selected.source}#t=${selected.in},${selected.out}`}
+                      controls
+                      muted
+                      className="w-full max-h-56 rounded bg-black"
+                    />
+                  ) : (
+                    <div className="space-y-2">
+                      {selected.text && (
+                        <p className="text-sm text-gray-700 dark:text-gray-300 italic line-clamp-4">"{selected.text}"</p>
+                      )}
+                      <audio
+                        key={`${selected.id}-${selected.in}-${selected.out}`}
+                        src={`${selected.source}#t=${selected.in},${selected.out}`}
+                        controls
+                        className="w-full"
+                      />
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+function withClips(editList: EditList, kind: TimelineTrackKind, update: (clips: TimelineClip[]) => TimelineClip[]): EditList {
+  return {
+    ...editList,
+    tracks: editList.tracks.map(track => track.kind !== kind ? track : {
+      ...track,
+      clips: kind === 'video' ? layoutSequence(update(track.clips)) : update(track.clips),
+    }),
+  };
+}
+
+// Applies a drag measured from where it started, so repeated moves don't accumulate rounding
+function dragClip(editList: EditList, { kind, clip, mode }: DragState, delta: number): EditList {
+  return withClips(editList, kind, clips => {
+    const current = clips.find(c => c.id === clip.id);
+    if (!current) return clips;
+
+    if (mode === 'trim-in') {
+      // Audio keeps its out point in place on the timeline, so the start moves with the trim
+      const lowest = kind === 'video' ? 0 : Math.max(0, clip.in - clip.start);
+      const trimmed = clamp(clip.in + delta, lowest, clip.out - MIN_CLIP_SECONDS);
+      const start = kind === 'video' ? current.start : clip.start + trimmed - clip.in;
+      return clips.map(c => c.id === clip.id ? { ...c, in: trimmed, start } : c);
+    }
+
+    if (mode === 'trim-out') {
+      const trimmed = clamp(clip.out + delta, clip.in + MIN_CLIP_SECONDS, clip.sourceDuration);
+      return clips.map(c => c.id === clip.id ? { ...c, out: trimmed } : c);
+    }
+
+    if (kind !== 'video') {
+      return clips.map(c => c.id === clip.id ? { ...c, start: Math.max(0, clip.start + delta) } : c);
+    }
+
+    // The dragged clip drops in before the first clip whose middle it hasn't passed
+    const others = layoutSequence(clips.filter(c => c.id !== clip.id));
+    const middle = clip.start + delta + clipLength(current) / 2;
+    const index = others.filter(other => other.start + clipLength(other) / 2 < middle).length;
+    return [...others.slice(0, index), current, ...others.slice(index)];
+  });
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Number.isFinite(value) ? value : min, min), max);
+}
+
+function formatSeconds(time: number): string {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -1,16 +1,30 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Video, Play, Download, RefreshCw, AlertCircle, CheckCircle, Clock, Settings, Mic, Subtitles, ExternalLink, Key, Lightbulb, Zap, Star, Gift } from 'lucide-react';
+import { Video, Play, Download, RefreshCw, AlertCircle, CheckCircle, Clock, Settings, Mic, Subtitles, UserCheck, LayoutGrid, ExternalLink, Key, Lightbulb, Zap, Star, Gift } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader } from '../ui/Card';
-import { videoService } from '../../lib/videoService';
+import { videoService, VideoBackend, withReferenceImages } from '../../lib/videoService';
+import { useVideoJobStore, onVideoJobUpdate } from '../../store/videoJobStore';
+import { SceneClipList } from './SceneClipList';
 import { elevenLabsService } from '../../lib/elevenlabsService';
 import { tavusService } from '../../lib/tavusService';
+import { buildSceneGraph } from '../../lib/sceneSegmentationService';
+import { parseStoryText, extractDialogue } from '../../lib/screenplay';
+import { buildSubtitleCues, placeClips } from '../../lib/subtitles';
+import { timeScenes } from '../../lib/videoCompositor';
+import { storyboardService } from '../../lib/storyboardService';
+import { AudioClip, AudioMixdown, ExtractedCharacter, PronunciationEntry, Scene, StoryTheme } from '../../types';
 import toast from 'react-hot-toast';
 
 interface VideoGeneratorProps {
+  storyId: string;
+  storyTitle?: string;
+  theme?: StoryTheme;
   storySegments: any[];
   characters: any[];
+  audioMix?: AudioMixdown | null; // Rendered by the audio step; replaces generating narration here
+  audioClips?: AudioClip[]; // Word timings for the subtitle track
+  pronunciations?: PronunciationEntry[];
   onVideoGenerated: (video: any) => void;
 }
 
@@ -21,29 +35,52 @@ interface GenerationStatus {
   provider: string;
   video_url?: string;
   thumbnail_url?: string;
+  mime_type?: string;
   estimated_time?: number;
   instructions?: string;
+  error?: string;
 }
 
-interface SegmentVideo {
-  segmentId: string;
-  segmentTitle: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  video_url?: string;
-  thumbnail_url?: string;
-  progress: number;
+// The photo picked in the character step, or the first one when none was picked
+function selectedPhotoUrl(character: ExtractedCharacter): string | undefined {
+  return (character.photos?.find(photo => photo.isSelected) || character.photos?.[0])?.url;
+}
+
+// Length a scene is rendered at when there is no narration to time it to
+function plannedSceneSeconds(scene: Scene): number {
+  return Math.max(5, Math.min(10, scene.duration || 8));
 }
 
 export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
+  storyId,
+  storyTitle,
+  theme,
   storySegments,
   characters,
+  audioMix,
+  audioClips = [],
+  pronunciations = [],
   onVideoGenerated
 }) => {
   const [isGenerating, setIsGenerating] = useState(false);
+  // Ordered scenes with their act and transition structure, as produced by the segmenter
+  const sceneGraph = useMemo(() => buildSceneGraph(storySegments as Scene[]), [storySegments]);
+  // Subtitles follow the mixdown's clip placements when the audio step rendered one
+  const subtitleCues = useMemo(
+    () => buildSubtitleCues(audioClips, audioMix?.cues || placeClips(audioClips)),
+    [audioClips, audioMix]
+  );
   const [generationStatus, setGenerationStatus] = useState<GenerationStatus | null>(null);
-  const [segmentVideos, setSegmentVideos] = useState<SegmentVideo[]>([]);
+  const [renderJobId, setRenderJobId] = useState<string | null>(null);
+  // The segmented video whose scene clips are listed, so single scenes can be regenerated
+  const [finalCutId, setFinalCutId] = useState<string | null>(null);
+  const allSegments = useVideoJobStore(state => state.segments);
+  const sceneClips = useMemo(
+    () => allSegments.filter(clip => clip.video_id === finalCutId).sort((a, b) => a.segment_order - b.segment_order),
+    [allSegments, finalCutId]
+  );
   const [generationMode, setGenerationMode] = useState<'single' | 'segments'>('single');
-  const [availableProviders, setAvailableProviders] = useState<any[]>([]);
+  const [availableProviders, setAvailableProviders] = useState<VideoBackend[]>([]);
   const [selectedProvider, setSelectedProvider] = useState<string>('');
   const [showInstructions, setShowInstructions] = useState(false);
   const [videoSettings, setVideoSettings] = useState({
@@ -52,15 +89,41 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
     includeNarration: true,
     includeSubtitles: true,
     voiceStyle: 'professional' as 'professional' | 'casual' | 'dramatic',
-    duration: 30
+    duration: 30,
+    consistentCharacters: true,
+    useStoryboard: true
   });
 
+  // Narration is only left out when it is switched off or there is no way to make it
+  const needsNarrationAudio = videoSettings.includeNarration && (!!audioMix || elevenLabsService.isConfigured());
+
+  // Scenes start from the selected character photos, so only image-to-video backends qualify
+  const hasCharacterPhotos = characters.some(char => selectedPhotoUrl(char));
+  const usesCharacterPhotos = videoSettings.consistentCharacters && hasCharacterPhotos;
+
+  // Scenes with an approved still start from it instead, so the clip keeps the planned shot
+  const approvedStills = useMemo(() => sceneGraph.scenes.map(scene => storyboardService.approvedStillUrl(scene.storyboard)), [sceneGraph]);
+  const approvedStillCount = approvedStills.filter(Boolean).length;
+  const usesStoryboard = videoSettings.useStoryboard && approvedStillCount > 0;
+
+  // Which backends can make this video, and why the others can't. Segmented videos ask
+  // for one scene at a time, and the narration goes over the stitched cut instead
+  const backendAssessments = useMemo(() => videoService.assessBackends({
+    prompt: '',
+    duration: generationMode === 'segments'
+      ? Math.max(...sceneGraph.scenes.map(plannedSceneSeconds))
+      : audioMix ? Math.ceil(audioMix.duration) : videoSettings.duration,
+    aspectRatio: videoSettings.aspectRatio,
+    characters: characters.map(char => ({ name: char.name, description: char.description })),
+    needs: { audio: generationMode === 'single' && needsNarrationAudio, imageToVideo: usesCharacterPhotos || usesStoryboard }
+  }, selectedProvider), [generationMode, sceneGraph, audioMix, videoSettings.duration, videoSettings.aspectRatio, characters, needsNarrationAudio, usesCharacterPhotos, usesStoryboard, selectedProvider]);
+
   useEffect(() => {
-    const providers = videoService.getAvailableProviders();
+    const providers = videoService.getBackends();
     setAvailableProviders(providers);
     if (providers.length > 0) {
-      // Prefer free providers first
-      const freeProvider = providers.find(p => p.cost === 'free' || p.cost === 'freemium');
+      // Prefer free providers that are set up
+      const freeProvider = providers.find(p => p.isConfigured() && (p.cost === 'free' || p.cost === 'freemium'));
       const preferredProvider = freeProvider || providers[0];
       setSelectedProvider(preferredProvider.name);
     }
@@ -100,6 +163,7 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
     toast.success('🔇 Audio stopped - Starting video generation...');
 
     setIsGenerating(true);
+    setFinalCutId(null);
     setGenerationStatus({
       id: '',
       status: 'pending',
@@ -111,58 +175,81 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
       console.log('🎬 Starting enhanced video generation with character photos and premium audio...');
       
       // Enhanced video generation with character integration
-      if (selectedProvider === 'tavus' && tavusService.isConfigured()) {
+      if (generationMode === 'single' && selectedProvider === 'tavus' && tavusService.isConfigured()) {
         const enhancedVideo = await generateEnhancedVideoWithTavus();
-        onVideoGenerated(enhancedVideo);
+        onVideoGenerated(await useVideoJobStore.getState().submitJob(storyId, {
+          id: enhancedVideo.id,
+          status: 'completed',
+          video_url: enhancedVideo.video_url,
+          provider: 'tavus'
+        }, enhancedVideo.metadata));
         return;
       }
       
-      // Generate professional narration first
-      const audioData = await generateProfessionalAudio();
+      // Use the audio step's mixdown when there is one, otherwise generate narration first
+      const audioData = !videoSettings.includeNarration ? null : audioMix
+        ? { audioUrl: audioMix.url, segments: [], cues: audioMix.cues }
+        : await generateProfessionalAudio();
       
       const videoRequest = await buildEnhancedVideoRequest(audioData);
-      const provider = availableProviders.find(p => p.name === selectedProvider);
-      
-      if (provider?.cost === 'free' || provider?.cost === 'freemium') {
-        toast.success(`🎬 Generating video with ${selectedProvider.toUpperCase()} (${provider.cost})`);
-      } else {
-        toast.success(`🎬 Starting professional video generation with ${selectedProvider.toUpperCase()}`);
+      const videoMetadata = {
+        hasNarration: videoSettings.includeNarration,
+        hasSubtitles: videoSettings.includeSubtitles,
+        subtitles: videoSettings.includeSubtitles ? subtitleCues : undefined,
+        style: videoSettings.style,
+        aspectRatio: videoSettings.aspectRatio,
+        characterPhotos: characters.map(selectedPhotoUrl).filter(Boolean),
+        audioSegments: audioData?.segments || []
+      };
+
+      // Each scene becomes its own clip job; the job store stitches them once all are done
+      if (generationMode === 'segments') {
+        const video = await useVideoJobStore.getState().submitSegmentedVideo(storyId, videoRequest, {
+          preferredBackend: selectedProvider,
+          metadata: videoMetadata
+        });
+        setFinalCutId(video.id);
+        setRenderJobId(video.id);
+        setGenerationStatus({ id: video.id, status: 'processing', progress: 0, provider: video.provider });
+        toast.success(`🎬 Rendering ${sceneGraph.scenes.length} scenes. They will be stitched into one video when all are done.`);
+        return;
       }
       
-      const result = await videoService.generateVideo(videoRequest);
+      const result = await videoService.generateVideo(videoRequest, {
+        preferredBackend: selectedProvider,
+        // The browser compositor reports its own progress while it renders
+        onProgress: progress => {
+          setGenerationStatus(prev => prev && ({
+            ...prev,
+            status: 'processing',
+            provider: 'ai-generated-canvas',
+            progress: Math.round(progress * 100)
+          }));
+        }
+      });
 
-      setGenerationStatus({
-        ...result,
-        progress: result.status === 'completed' ? 100 : 25
+      const skippedChoice = result.skipped?.find(skip => skip.backend === selectedProvider);
+      if (skippedChoice) {
+        const used = videoService.getBackend(result.provider)?.label || result.provider;
+        toast(`${videoService.getBackend(selectedProvider)?.label} was skipped (${skippedChoice.reason}). Made with ${used} instead.`, { duration: 8000 });
+      }
+
+      const video = await useVideoJobStore.getState().submitJob(storyId, result, {
+        ...videoMetadata,
+        mimeType: result.mime_type,
+        instructions: result.instructions
       });
 
-      if (result.status === 'completed') {
-        const video = {
-          id: result.id,
-          video_url: result.video_url,
-          thumbnail_url: result.thumbnail_url,
-          provider: result.provider,
-          status: 'completed',
-          created_at: new Date().toISOString(),
-          metadata: {
-            hasNarration: videoSettings.includeNarration,
-            hasSubtitles: videoSettings.includeSubtitles,
-            style: videoSettings.style,
-            aspectRatio: videoSettings.aspectRatio,
-            instructions: result.instructions,
-            characterPhotos: characters.map(c => c.photo_url).filter(Boolean),
-            audioSegments: audioData?.segments || []
-          }
-        };
-        
+      if (video.status === 'completed') {
         // Update generationStatus to show the video player immediately
         setGenerationStatus({
-          id: result.id,
+          id: video.id,
           status: 'completed',
           progress: 100,
-          provider: result.provider,
-          video_url: result.video_url,
-          thumbnail_url: result.thumbnail_url,
+          provider: video.provider,
+          video_url: video.video_url,
+          thumbnail_url: video.thumbnail_url,
+          mime_type: result.mime_type,
           instructions: result.instructions
         });
         
@@ -175,23 +262,92 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
           toast.success('🎉 Professional video with character photos and premium audio generated!');
         }
       } else {
-        await pollVideoStatus(result.id, result.provider);
+        // The job poller keeps checking on the render even if this page is closed
+        setRenderJobId(video.id);
+        setGenerationStatus({
+          id: video.id,
+          status: video.status,
+          progress: 25,
+          provider: video.provider
+        });
+        toast.success('🎬 Your video is rendering. It will appear in My Videos when it is done.');
       }
 
     } catch (error: any) {
       console.error('❌ Video generation error:', error);
-      toast.error(error.message || 'Video generation failed');
+      const message = error.message || 'Video generation failed';
+      toast.error(message);
       setGenerationStatus({
         id: '',
         status: 'failed',
         progress: 0,
-        provider: selectedProvider
+        provider: selectedProvider,
+        error: message
+      });
+      // Kept as a failed video so the attempt shows up in My Videos
+      await useVideoJobStore.getState().submitJob(storyId, {
+        id: '',
+        status: 'failed',
+        provider: selectedProvider,
+        error: message
+      }, {
+        style: videoSettings.style,
+        aspectRatio: videoSettings.aspectRatio
       });
     } finally {
       setIsGenerating(false);
     }
   };
 
+  // Follow a provider render while the job poller checks on it
+  useEffect(() => {
+    if (!renderJobId) return;
+
+    return onVideoJobUpdate(video => {
+      if (video.id !== renderJobId) return;
+
+      if (video.status === 'completed') {
+        setRenderJobId(null);
+        setGenerationStatus({
+          id: video.id,
+          status: 'completed',
+          progress: 100,
+          provider: video.provider,
+          video_url: video.video_url,
+          thumbnail_url: video.thumbnail_url,
+          mime_type: video.metadata?.mimeType
+        });
+        onVideoGenerated(video);
+        toast.success('🎉 Video generated successfully!');
+      } else if (video.status === 'failed') {
+        setRenderJobId(null);
+        setGenerationStatus(prev => prev && ({ ...prev, status: 'failed', error: video.error }));
+        toast.error(video.error || 'Video generation failed');
+      } else {
+        // Segmented videos report progress scene by scene instead
+        setGenerationStatus(prev => prev && ({ ...prev, status: video.status, progress: video.metadata?.finalCut ? prev.progress : 50 }));
+      }
+    });
+  }, [renderJobId, onVideoGenerated]);
+
+  // Finished scenes fill the progress bar; stitching takes the rest
+  useEffect(() => {
+    if (!renderJobId || renderJobId !== finalCutId || sceneClips.length === 0) return;
+    const done = sceneClips.filter(clip => clip.status === 'completed').length;
+    setGenerationStatus(prev => prev && ({ ...prev, progress: Math.round(done / sceneClips.length * 90) }));
+  }, [sceneClips, renderJobId, finalCutId]);
+
+  // The regenerated scene is followed like the first render, until the cut is stitched again
+  const handleSceneRegenerated = () => {
+    setRenderJobId(finalCutId);
+    setGenerationStatus(prev => ({
+      id: finalCutId || '',
+      status: 'processing',
+      progress: prev?.progress || 0,
+      provider: prev?.provider || selectedProvider
+    }));
+  };
+
   // Generate enhanced video with Tavus conversational AI
   const generateEnhancedVideoWithTavus = async () => {
     try {
@@ -276,7 +432,8 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
       const narrationResult = await elevenLabsService.generateStoryNarration(
         storyText,
         theme,
-        characterVoices
+        characterVoices,
+        pronunciations
       );
       
       return narrationResult;
@@ -289,49 +446,72 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
 
   // Build enhanced video request with character photos and audio
   const buildEnhancedVideoRequest = async (audioData: any) => {
-    const scenes = storySegments.map((segment, index) => ({
-      description: segment.content,
-      duration: Math.max(5, Math.min(10, segment.duration || 8)),
+    const timing = timeScenes(
+      sceneGraph.scenes.map(scene => toVideoScene(scene).duration),
+      audioMix ? narratedSpans(audioMix.cues) : [],
+      audioMix?.duration
+    );
+
+    const scenes = sceneGraph.scenes.map((segment, index) => ({
+      ...toVideoScene(segment),
+      ...timing[index],
+      title: segment.title,
+      characters: segment.characters,
       narration: audioData?.segments?.[index]?.audioUrl || undefined,
-      dialogue: extractDialogueFromSegment(segment),
-      visualPrompt: `${segment.content}. ${videoSettings.style} cinematography with character photos.`,
-      characterPhotos: characters.map(char => ({
-        name: char.name,
-        photo_url: char.photo_url || char.image_url,
-        description: char.description
-      })).filter(char => char.photo_url)
+      referenceImage: usesStoryboard && approvedStills[index] ? { url: approvedStills[index]! } : undefined,
+      visualPrompt: `${segment.visualPrompt || segment.content}. ${videoSettings.style} cinematography with character photos.`
     }));
 
-    return {
+    const request = {
       prompt: createEnhancedMasterPrompt(),
-      duration: videoSettings.duration,
+      title: storyTitle,
+      theme: theme || storySegments[0]?.theme,
+      duration: audioMix ? Math.ceil(audioMix.duration) : videoSettings.duration,
       aspectRatio: videoSettings.aspectRatio,
       style: videoSettings.style,
       narration: audioData ? {
         audio_url: audioData.audioUrl,
         segments: audioData.segments,
+        cues: audioData.cues,
         voice_style: videoSettings.voiceStyle
       } : undefined,
       subtitles: videoSettings.includeSubtitles,
+      subtitleCues: audioMix ? subtitleCues : undefined,
       characters: characters.map(char => ({
         name: char.name,
         description: char.description,
-        photo_url: char.photo_url || char.image_url,
-        voice: char.voice || 'default'
+        photo_url: selectedPhotoUrl(char),
+        voice: char.voice?.voiceId || 'default'
       })),
       scenes: scenes,
       enhanced_features: {
-        character_photos: true,
+        character_photos: hasCharacterPhotos,
         premium_audio: !!audioData,
         synchronized_timing: true
       }
     };
+
+    // Character photos only fill the scenes that have no approved still
+    return usesCharacterPhotos ? withReferenceImages(request) : request;
   };
 
+  // The stretch of the mixdown each scene's clips are heard in, or null when the scene has none
+  const narratedSpans = (placements: AudioMixdown['cues']) => sceneGraph.scenes.map(scene => {
+    const placed = placements.filter(placement => {
+      const clip = audioClips.find(c => c.id === placement.clipId);
+      return clip?.scene !== undefined && storySegments[clip.scene]?.id === scene.id;
+    });
+    if (placed.length === 0) return null;
+    return {
+      start: Math.min(...placed.map(p => p.start)),
+      end: Math.max(...placed.map(p => p.end))
+    };
+  });
+
   const createEnhancedMasterPrompt = (): string => {
     const storyTheme = storySegments[0]?.theme || videoSettings.style;
     const characterList = characters.map(char => 
-      `${char.name} (${char.role}): ${char.description}${char.photo_url ? ' [Photo provided]' : ''}`
+      `${char.name} (${char.role}): ${char.description}${selectedPhotoUrl(char) ? ' [Photo provided]' : ''}`
     ).join('. ');
 
     const sceneDescriptions = storySegments.map((segment, index) => 
@@ -348,12 +528,9 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
   };
 
   const buildVideoRequest = async () => {
-    const scenes = storySegments.map((segment, index) => ({
-      description: segment.content,
-      duration: Math.max(5, Math.min(10, segment.duration || 8)),
+    const scenes = sceneGraph.scenes.map(segment => ({
+      ...toVideoScene(segment),
       narration: videoSettings.includeNarration ? segment.content.substring(0, 200) : undefined,
-      dialogue: extractDialogueFromSegment(segment),
-      visualPrompt: segment.visualPrompt || `${segment.content}. ${videoSettings.style} cinematography, professional lighting, high quality.`
     }));
 
     return {
@@ -369,7 +546,7 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
       characters: characters.map(char => ({
         name: char.name,
         description: char.description,
-        voice: char.voice || 'default'
+        voice: char.voice?.voiceId || 'default'
       })),
       scenes: scenes
     };
@@ -392,88 +569,33 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
     ${videoSettings.aspectRatio} aspect ratio, broadcast quality.`;
   };
 
-  const extractDialogueFromSegment = (segment: any) => {
-    const dialogue = [];
-    const lines = segment.content.split('\n');
-    
-    for (const line of lines) {
-      const dialogueMatch = line.match(/^\*\*([A-Z][A-Z\s]+)\*\*:?\s*(.+)/);
-      if (dialogueMatch) {
-        const characterName = dialogueMatch[1].trim();
-        const text = dialogueMatch[2].trim();
-        
-        if (characters.some(char => char.name.toUpperCase() === characterName)) {
-          dialogue.push({
-            character: characterName,
-            text: text
-          });
-        }
-      }
-    }
-    
-    return dialogue;
-  };
-
-  const pollVideoStatus = async (id: string, provider: string) => {
-    const maxAttempts = 60;
-    let attempts = 0;
+  const toVideoScene = (scene: Scene) => {
+    const transition = sceneGraph.transitions.find(t => t.to === scene.id);
 
-    const poll = async () => {
-      try {
-        const status = await videoService.checkVideoStatus(id, provider);
-        
-        setGenerationStatus(prev => ({
-          ...prev!,
-          ...status,
-          progress: Math.min(95, 25 + (attempts / maxAttempts) * 70)
-        }));
-
-        if (status.status === 'completed') {
-          setGenerationStatus(prev => ({
-            ...prev!,
-            progress: 100
-          }));
-          
-          const video = {
-            id: status.id,
-            video_url: status.video_url,
-            provider: status.provider,
-            status: 'completed',
-            created_at: new Date().toISOString(),
-            metadata: {
-              hasNarration: videoSettings.includeNarration,
-              hasSubtitles: videoSettings.includeSubtitles,
-              style: videoSettings.style,
-              aspectRatio: videoSettings.aspectRatio
-            }
-          };
-          
-          onVideoGenerated(video);
-          toast.success('🎉 Video generated successfully!');
-          return;
-        } else if (status.status === 'failed') {
-          throw new Error('Video generation failed');
-        }
-
-        attempts++;
-        if (attempts < maxAttempts) {
-          setTimeout(poll, 3000);
-        } else {
-          throw new Error('Video generation timeout');
-        }
-      } catch (error: any) {
-        console.error('Polling error:', error);
-        toast.error(error.message || 'Video generation failed');
-        setGenerationStatus(prev => ({
-          ...prev!,
-          status: 'failed'
-        }));
-      }
+    return {
+      description: scene.content,
+      duration: plannedSceneSeconds(scene),
+      dialogue: extractDialogueFromSegment(scene),
+      visualPrompt: scene.visualPrompt || `${scene.content}. ${videoSettings.style} cinematography, professional lighting, high quality.`,
+      setting: scene.setting,
+      mood: scene.plan?.mood,
+      camera: scene.plan?.camera,
+      transition: transition?.type,
+      shots: scene.plan?.shots,
     };
+  };
 
-    poll();
+  const extractDialogueFromSegment = (segment: Scene) => {
+    return extractDialogue(parseStoryText(segment.content))
+      .filter(line => isKnownCharacter(line.character))
+      .map(({ character, text }) => ({ character, text }));
   };
 
+  const isKnownCharacter = (name: string) => characters.some(char =>
+    char.name.toUpperCase() === name ||
+    char.aliases?.some((alias: string) => alias.toUpperCase() === name)
+  );
+
   const getStatusIcon = () => {
     if (!generationStatus) return <Video className="w-5 h-5" />;
     
@@ -504,25 +626,28 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
       case 'completed':
         return isFree ? 'Free video generated! Upgrade for premium features.' : 'Professional video generated successfully!';
       case 'failed':
-        return 'Video generation failed. Please try again.';
+        return generationStatus.error
+          ? `Video generation failed: ${generationStatus.error}`
+          : 'Video generation failed. Please try again.';
       default:
         return 'Ready to generate video';
     }
   };
 
-  const getProviderDescription = (providerName: string) => {
-    const descriptions = {
-      kapwing: 'Free script-to-video with AI narration and subtitles (3 videos/month)',
-      krikey: 'Free character animation with motion capture (5 minutes/month)',
-      'canva-video': 'Free video templates with animations (720p quality)',
-      shotstack: 'Professional video editing API with premium features',
-      runway: 'AI-powered text-to-video generation (premium quality)',
-      demo: 'Demo video generation (no limits)'
-    };
-    return descriptions[providerName] || 'Video generation service';
+  const getCapabilityLabels = (provider: VideoBackend) => {
+    const { capabilities } = provider;
+    return [
+      capabilities.maxDuration >= 3600 ? 'any length' : `up to ${capabilities.maxDuration}s`,
+      capabilities.aspectRatios.join(' · '),
+      capabilities.textToVideo && 'text to video',
+      capabilities.imageToVideo && 'image to video',
+      capabilities.audio && 'narration audio'
+    ].filter(Boolean) as string[];
   };
 
-  const getProviderCostBadge = (provider: any) => {
+  const formatCost = (cost: number) => cost === 0 ? 'FREE' : `~$${cost.toFixed(2)}`;
+
+  const getProviderCostBadge = (provider: VideoBackend) => {
     const badges = {
       free: { color: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200', icon: Gift, text: 'FREE' },
       freemium: { color: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200', icon: Zap, text: 'FREEMIUM' },
@@ -597,7 +722,7 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
               Choose Your Video Generation Tool
             </label>
             <div className="grid grid-cols-1 gap-3">
-              {availableProviders.map(provider => (
+              {backendAssessments.map(({ backend: provider, reasons, estimatedCost }) => (
                 <div
                   key={provider.name}
                   className={`p-4 rounded-lg border-2 cursor-pointer transition-all ${
@@ -610,27 +735,33 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
                   <div className="flex items-center justify-between">
                     <div className="flex-1">
                       <div className="flex items-center space-x-3 mb-2">
-                        <div className="font-medium text-gray-900 dark:text-gray-100 capitalize">
-                          {provider.name.replace('-', ' ')}
+                        <div className="font-medium text-gray-900 dark:text-gray-100">
+                          {provider.label}
                         </div>
                         {getProviderCostBadge(provider)}
-                        {!provider.configured && provider.cost === 'paid' && (
-                          <div className="text-xs text-gray-500">(Not configured)</div>
+                        {estimatedCost > 0 && (
+                          <div className="text-xs text-gray-500">{formatCost(estimatedCost)} for this video</div>
                         )}
                       </div>
                       <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                        {getProviderDescription(provider.name)}
+                        {provider.description}
                       </div>
                       <div className="flex flex-wrap gap-1">
-                        {provider.capabilities.map((cap, index) => (
+                        {getCapabilityLabels(provider).map(label => (
                           <span
-                            key={index}
+                            key={label}
                             className="px-2 py-1 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 rounded text-xs"
                           >
-                            {cap.replace('-', ' ')}
+                            {label}
                           </span>
                         ))}
                       </div>
+                      {reasons.length > 0 && (
+                        <div className="flex items-start space-x-1 mt-2 text-xs text-amber-600 dark:text-amber-400">
+                          <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          <span>Can't make this video: {reasons.join('; ')}</span>
+                        </div>
+                      )}
                     </div>
                     <div className="ml-4">
                       <div className={`w-4 h-4 rounded-full border-2 ${
@@ -689,9 +820,9 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
                       : 'border-gray-300'
                   }`} />
                   <div>
-                    <div className="font-medium text-gray-900 dark:text-gray-100">Segmented Videos</div>
+                    <div className="font-medium text-gray-900 dark:text-gray-100">Scene by Scene</div>
                     <div className="text-sm text-gray-600 dark:text-gray-400">
-                      Generate separate videos for each scene ({storySegments.length} segments)
+                      Render each of the {sceneGraph.scenes.length} scenes as its own clip, then stitch them into one video. Bad scenes can be regenerated on their own.
                     </div>
                   </div>
                 </div>
@@ -766,6 +897,46 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
                 <span>Include Subtitles</span>
               </label>
             </div>
+
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id="consistentCharacters"
+                checked={usesCharacterPhotos}
+                onChange={(e) => setVideoSettings(prev => ({ ...prev, consistentCharacters: e.target.checked }))}
+                disabled={isGenerating || !hasCharacterPhotos}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <label htmlFor="consistentCharacters" className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <UserCheck className="w-4 h-4" />
+                <span>Start Scenes From Character Photos</span>
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 ml-7">
+              {hasCharacterPhotos
+                ? 'Each scene begins from its lead character\'s selected photo, so faces stay the same from clip to clip. Needs an image-to-video provider.'
+                : 'Select character photos in the character step to keep faces consistent between scenes.'}
+            </p>
+
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id="useStoryboard"
+                checked={usesStoryboard}
+                onChange={(e) => setVideoSettings(prev => ({ ...prev, useStoryboard: e.target.checked }))}
+                disabled={isGenerating || approvedStillCount === 0}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <label htmlFor="useStoryboard" className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <LayoutGrid className="w-4 h-4" />
+                <span>Start Scenes From Approved Storyboard Stills</span>
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 ml-7">
+              {approvedStillCount > 0
+                ? `${approvedStillCount} of ${sceneGraph.scenes.length} scenes have an approved still and begin from it${approvedStillCount < sceneGraph.scenes.length ? '; the others start from character photos or the prompt alone' : ''}. Needs an image-to-video provider.`
+                : 'No storyboard stills are approved yet, so scenes are rendered from their prompts. Approve stills in the storyboard to set each shot.'}
+            </p>
           </div>
 
           {/* Project Summary */}
@@ -785,8 +956,7 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
             <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
               <div className="font-semibold text-gray-900 dark:text-gray-100">Cost</div>
               <div className="text-gray-600 dark:text-gray-400">
-                {availableProviders.find(p => p.name === selectedProvider)?.cost === 'free' ? 'FREE' : 
-                 availableProviders.find(p => p.name === selectedProvider)?.cost === 'freemium' ? 'FREEMIUM' : 'PREMIUM'}
+                {formatCost(backendAssessments.find(a => a.reasons.length === 0)?.estimatedCost ?? 0)}
               </div>
             </div>
           </div>
@@ -822,6 +992,12 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
               </div>
             )}
 
+            {finalCutId && (
+              <div className="max-w-2xl mx-auto">
+                <SceneClipList videoId={finalCutId} onRegenerated={handleSceneRegenerated} />
+              </div>
+            )}
+
             {generationStatus?.status === 'completed' && generationStatus.video_url && (
               <div className="space-y-6 p-6 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg">
                 <div className="text-center">
@@ -840,7 +1016,7 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
                   className="w-full max-w-3xl mx-auto rounded-lg shadow-xl border-2 border-green-200 dark:border-green-700"
                   poster={generationStatus.thumbnail_url || "https://images.pexels.com/photos/1261728/pexels-photo-1261728.jpeg?auto=compress&cs=tinysrgb&w=800"}
                 >
-                  <source src={generationStatus.video_url} type="video/mp4" />
+                  <source src={generationStatus.video_url} type={generationStatus.mime_type || 'video/mp4'} />
                   Your browser does not support the video tag.
                 </video>
                 
@@ -862,7 +1038,7 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
                     onClick={() => {
                       const link = document.createElement('a');
                       link.href = generationStatus.video_url || '';
-                      link.download = 'animato-generated-video.mp4';
+                      link.download = `animato-generated-video.${generationStatus.mime_type?.includes('webm') ? 'webm' : 'mp4'}`;
                       document.body.appendChild(link);
                       link.click();
                       document.body.removeChild(link);
@@ -927,7 +1103,7 @@ export const VideoGenerator: React.FC<VideoGeneratorProps> = ({
               ) : (
                 <div className="flex items-center space-x-2">
                   <Video className="w-5 h-5" />
-                  <span>{generationMode === 'segments' ? `Generate ${storySegments.length} Videos` : 'Generate Video'}</span>
+                  <span>{generationMode === 'segments' ? `Generate ${sceneGraph.scenes.length} Scenes` : 'Generate Video'}</span>
                 </div>
               )}
             </Button>
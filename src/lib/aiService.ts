@@ -1,13 +1,15 @@
-import { geminiService } from './geminiService';
+import { llmService, LLMFeature, LLMMessage, LLMRequest } from './llmService';
+
+export interface StoryIdea {
+  title: string;
+  description: string;
+  prompt: string;
+}
 
 export class AIService {
   private static instance: AIService;
-  private openaiApiKey: string | null = null;
-  private baseURL = 'https://api.openai.com/v1';
 
-  private constructor() {
-    this.openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY || null;
-  }
+  private constructor() {}
 
   public static getInstance(): AIService {
     if (!AIService.instance) {
@@ -17,7 +19,12 @@ export class AIService {
   }
 
   public isConfigured(): boolean {
-    return geminiService.isConfigured() || (!!this.openaiApiKey && this.openaiApiKey.length > 20);
+    return llmService.isConfigured();
+  }
+
+  // Display name of the provider that will answer first for a feature, e.g. "Gemini AI"
+  public getProviderName(feature: LLMFeature = 'chat'): string | null {
+    return llmService.getActiveProvider(feature)?.name || null;
   }
 
   public async generateStoryResponse(
@@ -25,24 +32,21 @@ export class AIService {
     theme: string, 
     conversationHistory: any[]
   ): Promise<string> {
-    // Try Gemini first, then fallback to OpenAI
-    if (geminiService.isConfigured()) {
-      try {
-        return await geminiService.generateStoryResponse(userMessage, theme, conversationHistory);
-      } catch (error) {
-        console.error('Gemini failed, trying OpenAI:', error);
-      }
+    if (!this.isConfigured()) {
+      return this.getFallbackResponse(userMessage, theme, conversationHistory.length);
     }
 
-    if (this.openaiApiKey) {
-      try {
-        return await this.generateWithOpenAI(userMessage, theme, conversationHistory);
-      } catch (error) {
-        console.error('OpenAI failed:', error);
-      }
+    try {
+      const response = await llmService.generate('chat', {
+        messages: this.buildChatMessages(userMessage, theme, conversationHistory),
+        maxTokens: 1500,
+        temperature: 0.8,
+      });
+      return response.text;
+    } catch (error) {
+      console.error('❌ Story response failed, using fallback:', error);
+      return this.getFallbackResponse(userMessage, theme, conversationHistory.length);
     }
-
-    return this.getFallbackResponse(userMessage, theme, conversationHistory.length);
   }
 
   public async generateCompleteStory(
@@ -50,52 +54,124 @@ export class AIService {
     storyIdea: string, 
     conversationContext?: string
   ): Promise<string> {
-    // Try Gemini first, then fallback to OpenAI
-    if (geminiService.isConfigured()) {
-      try {
-        return await geminiService.generateCompleteStory(theme, storyIdea, conversationContext);
-      } catch (error) {
-        console.error('Gemini failed, trying OpenAI:', error);
-      }
+    if (!this.isConfigured()) {
+      return this.getFallbackStory(theme, storyIdea);
     }
 
-    if (this.openaiApiKey) {
-      try {
-        return await this.generateCompleteStoryWithOpenAI(theme, storyIdea, conversationContext);
-      } catch (error) {
-        console.error('OpenAI failed:', error);
-      }
+    try {
+      const response = await llmService.generate('story', {
+        messages: this.buildCompleteStoryMessages(theme, storyIdea, conversationContext),
+        maxTokens: 2000,
+        temperature: 0.8,
+      });
+      return response.text;
+    } catch (error) {
+      console.error('❌ Story generation failed, using fallback:', error);
+      return this.getFallbackStory(theme, storyIdea);
     }
+  }
 
-    return this.getFallbackStory(theme, storyIdea);
+  // Token-by-token variant of generateStoryResponse; pass a signal to stop mid-answer
+  public async *streamStoryResponse(
+    userMessage: string,
+    theme: string,
+    conversationHistory: { type: string; content: string }[],
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    yield* this.streamWithFallback(
+      'chat',
+      {
+        messages: this.buildChatMessages(userMessage, theme, conversationHistory),
+        maxTokens: 1500,
+        temperature: 0.8,
+        signal,
+      },
+      () => this.getFallbackResponse(userMessage, theme, conversationHistory.length)
+    );
   }
 
-  public async generateStoryIdeas(theme: string, count: number = 5): Promise<Array<{title: string, description: string, prompt: string}>> {
-    // Try Gemini first, then fallback to OpenAI
-    if (geminiService.isConfigured()) {
-      try {
-        return await geminiService.generateStoryIdeas(theme, count);
-      } catch (error) {
-        console.error('Gemini failed, trying OpenAI:', error);
-      }
+  public async *streamCompleteStory(
+    theme: string,
+    storyIdea: string,
+    conversationContext?: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    yield* this.streamWithFallback(
+      'story',
+      {
+        messages: this.buildCompleteStoryMessages(theme, storyIdea, conversationContext),
+        maxTokens: 2000,
+        temperature: 0.8,
+        signal,
+      },
+      () => this.getFallbackStory(theme, storyIdea)
+    );
+  }
+
+  public async generateStoryIdeas(theme: string, count: number = 5): Promise<StoryIdea[]> {
+    if (!this.isConfigured()) {
+      return this.getFallbackStoryIdeas(theme, count);
     }
 
-    if (this.openaiApiKey) {
-      try {
-        return await this.generateStoryIdeasWithOpenAI(theme, count);
-      } catch (error) {
-        console.error('OpenAI failed:', error);
+    try {
+      const prompt = `Generate ${count} unique and creative ${theme} story ideas. For each idea, provide:
+1. A compelling title
+2. A brief description (1-2 sentences)
+3. A conversation starter prompt to help develop the idea
+
+Respond with a JSON object of the form {"ideas": [{"title": "...", "description": "...", "prompt": "..."}]}.`;
+
+      const { data } = await llmService.generateJSON<{ ideas?: StoryIdea[] } | StoryIdea[]>('ideas', {
+        messages: [
+          { role: 'system', content: `You are a creative story consultant specializing in ${theme} genre. Generate original, engaging story concepts.` },
+          { role: 'user', content: prompt }
+        ],
+        maxTokens: 1000,
+        temperature: 0.9,
+      });
+
+      const ideas = (Array.isArray(data) ? data : data.ideas || []).filter(idea =>
+        typeof idea?.title === 'string' && typeof idea?.description === 'string' && typeof idea?.prompt === 'string'
+      );
+
+      if (ideas.length === 0) {
+        console.log('⚠️ No usable story ideas in response, using fallback');
+        return this.getFallbackStoryIdeas(theme, count);
       }
+
+      return ideas.slice(0, count);
+    } catch (error) {
+      console.error('❌ Story ideas failed, using fallback:', error);
+      return this.getFallbackStoryIdeas(theme, count);
+    }
+  }
+
+  private async *streamWithFallback(
+    feature: LLMFeature,
+    request: LLMRequest,
+    getFallback: () => string
+  ): AsyncGenerator<string> {
+    if (!this.isConfigured()) {
+      yield getFallback();
+      return;
     }
 
-    return this.getFallbackStoryIdeas(theme, count);
+    let emitted = false;
+    try {
+      for await (const token of llmService.stream(feature, request)) {
+        emitted = true;
+        yield token;
+      }
+    } catch (error) {
+      // A stopped or half-finished answer is the caller's to handle; the fallback only replaces a failed start
+      if (request.signal?.aborted || emitted) throw error;
+
+      console.error(`❌ ${feature} stream failed, using fallback:`, error);
+      yield getFallback();
+    }
   }
 
-  private async generateWithOpenAI(
-    userMessage: string, 
-    theme: string, 
-    conversationHistory: any[]
-  ): Promise<string> {
+  private buildChatMessages(userMessage: string, theme: string, conversationHistory: any[]): LLMMessage[] {
     const systemPrompt = `You are a professional story writer and creative assistant specializing in ${theme} stories. 
 
 Your role is to:
@@ -106,30 +182,17 @@ Your role is to:
 
 Keep responses conversational, creative, and focused on ${theme} genre elements. When generating a complete story, format it as a proper screenplay with scene headings, character names, dialogue, and action descriptions.`;
 
-    const messages = [
+    return [
       { role: 'system', content: systemPrompt },
-      ...conversationHistory.slice(-6).map(msg => ({
+      ...conversationHistory.slice(-6).map((msg): LLMMessage => ({
         role: msg.type === 'user' ? 'user' : 'assistant',
         content: msg.content
       })),
       { role: 'user', content: userMessage }
     ];
-
-    const response = await this.makeOpenAIRequest('/chat/completions', {
-      model: 'gpt-3.5-turbo',
-      messages,
-      max_tokens: 1500,
-      temperature: 0.8,
-    });
-
-    return response.choices[0].message.content;
   }
 
-  private async generateCompleteStoryWithOpenAI(
-    theme: string, 
-    storyIdea: string, 
-    conversationContext?: string
-  ): Promise<string> {
+  private buildCompleteStoryMessages(theme: string, storyIdea: string, conversationContext?: string): LLMMessage[] {
     const prompt = `Create a complete ${theme} story screenplay based on this concept: "${storyIdea}"
 
 ${conversationContext ? `Additional context from our conversation: ${conversationContext}` : ''}
@@ -143,71 +206,10 @@ Please format the story as a professional screenplay with:
 
 The story should be engaging, well-structured, and approximately 1000-1500 words long.`;
 
-    const response = await this.makeOpenAIRequest('/chat/completions', {
-      model: 'gpt-3.5-turbo',
-      messages: [
-        { role: 'system', content: `You are a professional screenplay writer specializing in ${theme} stories. Create engaging, well-structured stories with compelling characters and clear narrative arcs.` },
-        { role: 'user', content: prompt }
-      ],
-      max_tokens: 2000,
-      temperature: 0.8,
-    });
-
-    return response.choices[0].message.content;
-  }
-
-  private async generateStoryIdeasWithOpenAI(theme: string, count: number): Promise<Array<{title: string, description: string, prompt: string}>> {
-    const prompt = `Generate ${count} unique and creative ${theme} story ideas. For each idea, provide:
-1. A compelling title
-2. A brief description (1-2 sentences)
-3. A conversation starter prompt to help develop the idea
-
-Format as JSON array with objects containing "title", "description", and "prompt" fields.`;
-
-    const response = await this.makeOpenAIRequest('/chat/completions', {
-      model: 'gpt-3.5-turbo',
-      messages: [
-        { role: 'system', content: `You are a creative story consultant specializing in ${theme} genre. Generate original, engaging story concepts.` },
-        { role: 'user', content: prompt }
-      ],
-      max_tokens: 1000,
-      temperature: 0.9,
-    });
-
-    const content = response.choices[0].message.content;
-    
-    try {
-      return JSON.parse(content);
-    } catch {
-      return this.getFallbackStoryIdeas(theme, count);
-    }
-  }
-
-  private async makeOpenAIRequest(endpoint: string, body: any): Promise<any> {
-    const response = await fetch(`${this.baseURL}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.openaiApiKey}`,
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }));
-      
-      if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again in a moment.');
-      } else if (response.status === 401) {
-        throw new Error('Invalid API key. Please check your OpenAI API key.');
-      } else if (response.status === 403) {
-        throw new Error('API access forbidden. Please check your OpenAI account status.');
-      } else {
-        throw new Error(error.error?.message || `API request failed with status ${response.status}`);
-      }
-    }
-
-    return response.json();
+    return [
+      { role: 'system', content: `You are a professional screenplay writer specializing in ${theme} stories. Create engaging, well-structured stories with compelling characters and clear narrative arcs.` },
+      { role: 'user', content: prompt }
+    ];
   }
 
   private getFallbackResponse(userMessage: string, theme: string, messageCount: number): string {
@@ -403,7 +405,7 @@ Control, this is Dr. Chen. The future just got a little brighter.
     return storyTemplates[theme as keyof typeof storyTemplates] || storyTemplates.fantasy;
   }
 
-  private getFallbackStoryIdeas(theme: string, count: number) {
+  private getFallbackStoryIdeas(theme: string, count: number): StoryIdea[] {
     const fallbackIdeas = {
       fantasy: [
         {
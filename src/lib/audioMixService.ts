@@ -0,0 +1,418 @@
+import { AudioClip, AudioMixdown, MixdownSettings, StoryTheme, TimelineClip } from '../types';
+import { encodeWav } from './wav';
+
+const SAMPLE_RATE = 44100;
+const CHANNELS = 2;
+const TAIL = 1.5; // Seconds of bed left after the last line
+const DUCK_LEVEL = 0.35; // Share of the bed volume kept under speech
+const MIN_DUCK_GAP = 1.2; // Pauses shorter than this keep the bed ducked
+const EDGE_RAMP = 0.01; // Seconds of fade at trim points so cut words don't click
+
+export const DEFAULT_MIXDOWN_SETTINGS: MixdownSettings = {
+  clipPause: 0.4,
+  scenePause: 1.2,
+  fadeIn: 1,
+  fadeOut: 2,
+  narrationGain: 1,
+  characterGains: {},
+  music: false,
+  ambience: false,
+  musicGain: 0.12,
+  ambienceGain: 0.08,
+};
+
+// Beds are synthesised so every theme has music and ambience without shipping audio assets
+interface ThemeBed {
+  chords: number[][]; // MIDI notes, one chord per bar
+  wave: OscillatorType;
+  barLength: number; // Seconds
+  ambience: { filter: BiquadFilterType; frequency: number; q: number };
+}
+
+const THEME_BEDS: Record<StoryTheme, ThemeBed> = {
+  fantasy: {
+    chords: [[62, 66, 69], [59, 62, 66], [55, 59, 62], [57, 61, 64]],
+    wave: 'triangle',
+    barLength: 4,
+    ambience: { filter: 'bandpass', frequency: 900, q: 0.6 }, // Wind through trees
+  },
+  'sci-fi': {
+    chords: [[57, 64, 71], [53, 60, 67], [55, 62, 69], [52, 59, 66]],
+    wave: 'sawtooth',
+    barLength: 6,
+    ambience: { filter: 'lowpass', frequency: 180, q: 6 }, // Engine hum
+  },
+  romance: {
+    chords: [[65, 69, 72], [62, 65, 69], [58, 62, 65], [60, 64, 67]],
+    wave: 'sine',
+    barLength: 5,
+    ambience: { filter: 'highpass', frequency: 2500, q: 0.4 }, // Soft room air
+  },
+  adventure: {
+    chords: [[60, 64, 67], [55, 59, 62], [57, 60, 64], [53, 57, 60]],
+    wave: 'sawtooth',
+    barLength: 3,
+    ambience: { filter: 'bandpass', frequency: 600, q: 0.8 }, // Open landscape
+  },
+  mystery: {
+    chords: [[57, 60, 64], [53, 57, 60], [52, 56, 59], [57, 60, 64]],
+    wave: 'triangle',
+    barLength: 5,
+    ambience: { filter: 'lowpass', frequency: 400, q: 1.5 }, // Rain on a window
+  },
+  comedy: {
+    chords: [[60, 64, 67], [62, 65, 69], [64, 67, 71], [65, 69, 72]],
+    wave: 'square',
+    barLength: 2,
+    ambience: { filter: 'bandpass', frequency: 1500, q: 0.5 }, // Busy street
+  },
+  drama: {
+    chords: [[57, 60, 64], [53, 57, 60], [48, 52, 55], [55, 59, 62]],
+    wave: 'sine',
+    barLength: 6,
+    ambience: { filter: 'lowpass', frequency: 700, q: 0.7 }, // Quiet interior
+  },
+  horror: {
+    chords: [[45, 46, 52], [44, 50, 51], [45, 48, 51], [43, 44, 50]],
+    wave: 'sawtooth',
+    barLength: 8,
+    ambience: { filter: 'lowpass', frequency: 110, q: 8 }, // Low rumble
+  },
+};
+
+// A rendered WAV with no clip timings, for edits and beds
+export interface RenderedAudio {
+  url: string;
+  blob: Blob;
+  duration: number;
+}
+
+interface Placement {
+  clip: AudioClip;
+  buffer: AudioBuffer;
+  start: number;
+}
+
+export class AudioMixService {
+  private static instance: AudioMixService;
+
+  private constructor() {}
+
+  public static getInstance(): AudioMixService {
+    if (!AudioMixService.instance) {
+      AudioMixService.instance = new AudioMixService();
+    }
+    return AudioMixService.instance;
+  }
+
+  public isSupported(): boolean {
+    return typeof window !== 'undefined' && 'OfflineAudioContext' in window;
+  }
+
+  // Clips that have audio the mixer can fetch; browser speech previews have none
+  public hasRenderedAudio(clip: AudioClip): boolean {
+    return !!clip.audioUrl && /^(https?:|blob:|data:audio\/)/.test(clip.audioUrl);
+  }
+
+  // Length in seconds of any audio the browser can decode
+  public async measureDuration(audioUrl: string): Promise<number> {
+    const response = await fetch(audioUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to load audio: HTTP ${response.status}`);
+    }
+    const decoder = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+    const buffer = await decoder.decodeAudioData(await response.arrayBuffer());
+    return buffer.duration;
+  }
+
+  /**
+   * Lays the clips end to end in the given order, pausing longer between
+   * scenes, and renders them with the optional theme beds into one WAV file.
+   */
+  public async mixdown(
+    clips: AudioClip[],
+    theme: StoryTheme | string,
+    settings: Partial<MixdownSettings> = {}
+  ): Promise<AudioMixdown> {
+    if (!this.isSupported()) {
+      throw new Error('Audio mixing is not supported in this browser');
+    }
+
+    const options = { ...DEFAULT_MIXDOWN_SETTINGS, ...settings };
+    console.log('🔄 Mixing', clips.length, 'audio clips');
+
+    const decoded = await this.decodeClips(clips);
+    if (decoded.length === 0) {
+      throw new Error('None of the clips have rendered audio to mix');
+    }
+
+    // Speech starts once the fade in has finished, so only the beds fade up
+    const placements: Placement[] = [];
+    let cursor = options.fadeIn;
+    decoded.forEach(({ clip, buffer }, index) => {
+      const previous = decoded[index - 1];
+      if (previous) {
+        cursor += previous.clip.scene !== clip.scene ? options.scenePause : options.clipPause;
+      }
+      placements.push({ clip, buffer, start: cursor });
+      cursor += buffer.duration;
+    });
+
+    const duration = cursor + Math.max(options.fadeOut, TAIL);
+    const context = new OfflineAudioContext(CHANNELS, Math.ceil(duration * SAMPLE_RATE), SAMPLE_RATE);
+
+    const master = context.createGain();
+    master.connect(context.destination);
+    applyFades(master.gain, duration, options);
+
+    placements.forEach(({ clip, buffer, start }) => {
+      const source = context.createBufferSource();
+      const gain = context.createGain();
+      source.buffer = buffer;
+      gain.gain.value = this.getClipGain(clip, options);
+      source.connect(gain).connect(master);
+      source.start(start);
+    });
+
+    const bed = THEME_BEDS[theme as StoryTheme] || THEME_BEDS.fantasy;
+    const spans = speechSpans(placements);
+    if (options.music) {
+      this.addMusicBed(context, master, bed, duration, options.musicGain, spans);
+    }
+    if (options.ambience) {
+      this.addAmbienceBed(context, master, bed, duration, options.ambienceGain, spans);
+    }
+
+    const blob = this.toWav(await context.startRendering());
+
+    console.log(`✅ Mixdown rendered: ${duration.toFixed(1)}s from ${placements.length} clips`);
+
+    return {
+      url: URL.createObjectURL(blob),
+      blob,
+      duration,
+      cues: placements.map(({ clip, buffer, start }) => ({ clipId: clip.id, start, end: start + buffer.duration })),
+    };
+  }
+
+  /**
+   * Renders timeline clips into one WAV file as long as the edit, each trimmed
+   * to its in and out points and played at its own volume where it sits.
+   */
+  public async mixTimeline(clips: TimelineClip[], duration: number): Promise<RenderedAudio> {
+    if (!this.isSupported()) {
+      throw new Error('Audio mixing is not supported in this browser');
+    }
+
+    console.log('🔄 Mixing', clips.length, 'timeline clips');
+    const context = new OfflineAudioContext(CHANNELS, Math.ceil(duration * SAMPLE_RATE), SAMPLE_RATE);
+    const decoder = new OfflineAudioContext(CHANNELS, 1, SAMPLE_RATE);
+    let placed = 0;
+
+    for (const clip of clips) {
+      let buffer: AudioBuffer;
+      try {
+        buffer = await this.fetchBuffer(decoder, clip.source);
+      } catch (error) {
+        console.warn('⚠️ Skipping timeline clip that could not be decoded:', clip.id, error);
+        continue;
+      }
+
+      const length = Math.min(clip.out, buffer.duration) - clip.in;
+      if (length <= 0 || clip.start >= duration) continue;
+      const end = clip.start + length;
+      const ramp = Math.min(EDGE_RAMP, length / 2);
+
+      const source = context.createBufferSource();
+      const gain = context.createGain();
+      source.buffer = buffer;
+      gain.gain.setValueAtTime(0, clip.start);
+      gain.gain.linearRampToValueAtTime(clip.volume, clip.start + ramp);
+      gain.gain.setValueAtTime(clip.volume, end - ramp);
+      gain.gain.linearRampToValueAtTime(0, end);
+      source.connect(gain).connect(context.destination);
+      source.start(clip.start, clip.in, length);
+      placed++;
+    }
+
+    if (placed === 0) {
+      throw new Error('None of the timeline clips have audio to mix');
+    }
+
+    const rendered = await context.startRendering();
+    const blob = this.toWav(rendered);
+    console.log(`✅ Timeline audio rendered: ${duration.toFixed(1)}s from ${placed} clips`);
+    return { url: URL.createObjectURL(blob), blob, duration };
+  }
+
+  // The theme's music bed on its own at full level, faded in and out, for laying under an edit
+  public async renderMusicBed(theme: StoryTheme | string, duration: number): Promise<RenderedAudio> {
+    if (!this.isSupported()) {
+      throw new Error('Audio mixing is not supported in this browser');
+    }
+
+    const context = new OfflineAudioContext(CHANNELS, Math.ceil(duration * SAMPLE_RATE), SAMPLE_RATE);
+    const master = context.createGain();
+    master.connect(context.destination);
+    applyFades(master.gain, duration, DEFAULT_MIXDOWN_SETTINGS);
+    this.addMusicBed(context, master, THEME_BEDS[theme as StoryTheme] || THEME_BEDS.fantasy, duration, 1, []);
+
+    const blob = this.toWav(await context.startRendering());
+    return { url: URL.createObjectURL(blob), blob, duration };
+  }
+
+  private async decodeClips(clips: AudioClip[]): Promise<{ clip: AudioClip; buffer: AudioBuffer }[]> {
+    // decodeAudioData resamples to the context rate, so every buffer lines up with the render
+    const decoder = new OfflineAudioContext(CHANNELS, 1, SAMPLE_RATE);
+    const decoded: { clip: AudioClip; buffer: AudioBuffer }[] = [];
+
+    for (const clip of clips) {
+      if (!this.hasRenderedAudio(clip)) continue;
+
+      try {
+        decoded.push({ clip, buffer: await this.fetchBuffer(decoder, clip.audioUrl!) });
+      } catch (error) {
+        console.warn('⚠️ Skipping clip that could not be decoded:', clip.id, error);
+      }
+    }
+
+    return decoded;
+  }
+
+  private async fetchBuffer(decoder: OfflineAudioContext, url: string): Promise<AudioBuffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return decoder.decodeAudioData(await response.arrayBuffer());
+  }
+
+  private toWav(rendered: AudioBuffer): Blob {
+    return encodeWav(
+      Array.from({ length: rendered.numberOfChannels }, (_, channel) => rendered.getChannelData(channel)),
+      rendered.sampleRate
+    );
+  }
+
+  private getClipGain(clip: AudioClip, options: MixdownSettings): number {
+    if (clip.type === 'dialogue' && clip.character) {
+      return options.characterGains[clip.character.toUpperCase()] ?? 1;
+    }
+    return options.narrationGain;
+  }
+
+  // A soft chord pad that changes once per bar
+  private addMusicBed(
+    context: OfflineAudioContext,
+    destination: AudioNode,
+    bed: ThemeBed,
+    duration: number,
+    level: number,
+    spans: [number, number][]
+  ) {
+    const bus = context.createGain();
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 1400;
+    filter.connect(bus).connect(destination);
+    duckUnderSpeech(bus.gain, level, spans);
+
+    const voices = bed.chords[0].length;
+    for (let voice = 0; voice < voices; voice++) {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = bed.wave;
+      gain.gain.value = 1 / voices;
+
+      for (let bar = 0; bar * bed.barLength < duration; bar++) {
+        const note = bed.chords[bar % bed.chords.length][voice];
+        oscillator.frequency.setValueAtTime(midiToFrequency(note), bar * bed.barLength);
+      }
+
+      oscillator.connect(gain).connect(filter);
+      oscillator.start(0);
+      oscillator.stop(duration);
+    }
+  }
+
+  // Filtered noise with a slow sweep so it breathes instead of hissing
+  private addAmbienceBed(
+    context: OfflineAudioContext,
+    destination: AudioNode,
+    bed: ThemeBed,
+    duration: number,
+    level: number,
+    spans: [number, number][]
+  ) {
+    const noise = context.createBuffer(1, SAMPLE_RATE * 2, SAMPLE_RATE);
+    const samples = noise.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.random() * 2 - 1;
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = noise;
+    source.loop = true;
+
+    const filter = context.createBiquadFilter();
+    filter.type = bed.ambience.filter;
+    filter.frequency.value = bed.ambience.frequency;
+    filter.Q.value = bed.ambience.q;
+
+    const sweep = context.createOscillator();
+    const sweepDepth = context.createGain();
+    sweep.frequency.value = 0.08;
+    sweepDepth.gain.value = bed.ambience.frequency * 0.3;
+    sweep.connect(sweepDepth).connect(filter.frequency);
+
+    const bus = context.createGain();
+    duckUnderSpeech(bus.gain, level, spans);
+
+    source.connect(filter).connect(bus).connect(destination);
+    source.start(0);
+    source.stop(duration);
+    sweep.start(0);
+    sweep.stop(duration);
+  }
+}
+
+function applyFades(gain: AudioParam, duration: number, options: MixdownSettings) {
+  gain.setValueAtTime(options.fadeIn > 0 ? 0 : 1, 0);
+  if (options.fadeIn > 0) {
+    gain.linearRampToValueAtTime(1, options.fadeIn);
+  }
+  if (options.fadeOut > 0) {
+    gain.setValueAtTime(1, duration - options.fadeOut);
+    gain.linearRampToValueAtTime(0, duration);
+  }
+}
+
+// Merges clips separated by short pauses so the beds don't pump between lines
+function speechSpans(placements: Placement[]): [number, number][] {
+  const spans: [number, number][] = [];
+
+  placements.forEach(({ buffer, start }) => {
+    const last = spans[spans.length - 1];
+    if (last && start - last[1] < MIN_DUCK_GAP) {
+      last[1] = start + buffer.duration;
+    } else {
+      spans.push([start, start + buffer.duration]);
+    }
+  });
+
+  return spans;
+}
+
+function duckUnderSpeech(gain: AudioParam, level: number, spans: [number, number][]) {
+  gain.setValueAtTime(level, 0);
+  spans.forEach(([start, end]) => {
+    gain.setTargetAtTime(level * DUCK_LEVEL, Math.max(0, start - 0.2), 0.05);
+    gain.setTargetAtTime(level, end + 0.1, 0.3);
+  });
+}
+
+function midiToFrequency(note: number): number {
+  return 440 * 2 ** ((note - 69) / 12);
+}
+
+export const audioMixService = AudioMixService.getInstance();
@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+
+const AUDIO_BUCKET = 'story-audio';
+
+interface StoredAudio {
+  url: string;
+  path: string;
+}
+
+export class AudioStorageService {
+  private static instance: AudioStorageService;
+
+  private constructor() {
+    console.log('🗄️ Audio Storage Service initialized');
+  }
+
+  public static getInstance(): AudioStorageService {
+    if (!AudioStorageService.instance) {
+      AudioStorageService.instance = new AudioStorageService();
+    }
+    return AudioStorageService.instance;
+  }
+
+  // Remote URLs are already stored; blob: and data: URLs only live in this tab
+  public needsUpload(audioUrl: string): boolean {
+    return audioUrl.startsWith('blob:') || audioUrl.startsWith('data:');
+  }
+
+  // Upload a generated clip to Supabase Storage under the owner's folder
+  public async uploadClip(storyId: string, clipId: string, audioUrl: string): Promise<StoredAudio> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await fetch(audioUrl);
+    if (!response.ok) {
+      throw new Error(`Could not read generated audio: ${response.status}`);
+    }
+
+    const blob = await response.blob();
+    const contentType = blob.type || 'audio/mpeg';
+    const path = `${user.id}/${storyId}/${clipId}.${this.getExtension(contentType)}`;
+
+    const { error } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .upload(path, blob, { contentType, upsert: true });
+
+    if (error) {
+      console.error('❌ Audio upload error:', error);
+      throw new Error(error.message || 'Failed to upload audio');
+    }
+
+    const { data } = supabase.storage.from(AUDIO_BUCKET).getPublicUrl(path);
+
+    return { url: data.publicUrl, path };
+  }
+
+  public async removeClips(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage.from(AUDIO_BUCKET).remove(paths);
+
+    if (error) {
+      // Orphaned objects are harmless, so only log
+      console.warn('⚠️ Failed to remove stored audio:', error.message);
+    }
+  }
+
+  private getExtension(contentType: string): string {
+    if (contentType.includes('wav')) return 'wav';
+    if (contentType.includes('ogg')) return 'ogg';
+    if (contentType.includes('webm')) return 'webm';
+    return 'mp3';
+  }
+}
+
+export const audioStorageService = AudioStorageService.getInstance();
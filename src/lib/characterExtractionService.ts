@@ -0,0 +1,348 @@
+import { llmService, LLMMessage } from './llmService';
+import { ExtractedCharacter } from '../types';
+import { parseStoryText, getSpeakers, extractDialogue, DialogueLine } from './screenplay';
+
+export interface CharacterExtractionResult {
+  characters: ExtractedCharacter[];
+  source: 'llm' | 'heuristic';
+  provider?: string;
+}
+
+// Shape the model is asked for; every field is checked before it reaches the UI
+interface RawCharacter {
+  name?: unknown;
+  role?: unknown;
+  aliases?: unknown;
+  description?: unknown;
+  personality?: unknown;
+  appearance?: Record<string, unknown>;
+  evidence?: unknown;
+}
+
+type Appearance = ExtractedCharacter['appearance'];
+
+const ROLES: ExtractedCharacter['role'][] = ['protagonist', 'antagonist', 'supporting'];
+const REQUIRED_APPEARANCE_FIELDS = ['age', 'gender', 'ethnicity', 'hairColor', 'eyeColor', 'style'] as const;
+const OPTIONAL_APPEARANCE_FIELDS = ['bodyType', 'height', 'facialFeatures'] as const;
+const MAX_CHARACTERS = 8;
+const MAX_EVIDENCE_LINES = 5;
+const MAX_STORY_LENGTH = 24000; // Keeps long screenplays inside smaller context windows
+
+export class CharacterExtractionService {
+  private static instance: CharacterExtractionService;
+
+  private constructor() {}
+
+  public static getInstance(): CharacterExtractionService {
+    if (!CharacterExtractionService.instance) {
+      CharacterExtractionService.instance = new CharacterExtractionService();
+    }
+    return CharacterExtractionService.instance;
+  }
+
+  // Asks the configured LLM for structured characters; the name-matching heuristic is only an offline fallback
+  public async extractCharacters(story: string, signal?: AbortSignal): Promise<CharacterExtractionResult> {
+    if (!llmService.isConfigured()) {
+      console.log('⚠️ No AI provider configured, using heuristic character extraction');
+      return { characters: this.extractWithHeuristics(story), source: 'heuristic' };
+    }
+
+    try {
+      console.log('🔄 Extracting characters with AI...');
+      const { data, response } = await llmService.generateJSON<{ characters?: RawCharacter[] } | RawCharacter[]>('characters', {
+        messages: this.buildMessages(story),
+        maxTokens: 3000,
+        temperature: 0.2,
+        signal,
+      });
+
+      const characters = this.validateCharacters(Array.isArray(data) ? data : data.characters, story);
+      if (characters.length === 0) {
+        console.log('⚠️ No usable characters in AI response, using heuristics');
+        return { characters: this.extractWithHeuristics(story), source: 'heuristic' };
+      }
+
+      console.log(`✅ Extracted ${characters.length} characters with ${response.provider}`);
+      return { characters, source: 'llm', provider: response.provider };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      console.error('❌ AI character extraction failed, using heuristics:', error);
+      return { characters: this.extractWithHeuristics(story), source: 'heuristic' };
+    }
+  }
+
+  // Blank character for manual additions in the extractor
+  public createCharacter(name: string, id: string = `char-${Date.now()}`): ExtractedCharacter {
+    return {
+      id,
+      name,
+      role: 'supporting',
+      description: 'A new character in the story.',
+      personality: ['mysterious'],
+      appearance: this.generateAppearance(name),
+      aliases: [],
+      dialogueLines: [],
+      evidence: [],
+      photos: []
+    };
+  }
+
+  private buildMessages(story: string): LLMMessage[] {
+    const storyText = story.length > MAX_STORY_LENGTH ? `${story.slice(0, MAX_STORY_LENGTH)}\n[...]` : story;
+
+    const prompt = `Identify the characters in the story below (at most ${MAX_CHARACTERS}, most important first).
+
+Respond with a JSON object of the form:
+{"characters": [{
+  "name": "Name as used most often in the story",
+  "role": "protagonist" | "antagonist" | "supporting",
+  "aliases": ["other names, titles or nicknames used for this character"],
+  "description": "1-2 sentences about who they are and what they do in the story",
+  "personality": ["3-5 single-word traits"],
+  "appearance": {
+    "age": "approximate age in years, e.g. \\"30\\"",
+    "gender": "male" | "female" | "non-binary",
+    "ethnicity": "...",
+    "hairColor": "...",
+    "eyeColor": "...",
+    "style": "clothing style, e.g. casual, professional, elegant",
+    "bodyType": "optional",
+    "height": "optional",
+    "facialFeatures": "optional"
+  },
+  "evidence": ["exact lines copied from the story that support the traits above"]
+}]}
+
+Rules:
+- Only include people or beings that act or speak in the story, not places or groups.
+- Never contradict the story. Where it says nothing about a detail, pick something plausible for the setting.
+- Evidence lines must be copied word for word from the story.
+
+STORY:
+${storyText}`;
+
+    return [
+      { role: 'system', content: 'You are a script supervisor who breaks stories down into accurate character sheets. You only report what the text supports.' },
+      { role: 'user', content: prompt }
+    ];
+  }
+
+  private validateCharacters(raw: RawCharacter[] | undefined, story: string): ExtractedCharacter[] {
+    if (!Array.isArray(raw)) return [];
+
+    const dialogue = extractDialogue(parseStoryText(story));
+    const seenNames = new Set<string>();
+    const characters: ExtractedCharacter[] = [];
+
+    for (const item of raw) {
+      if (!item || typeof item !== 'object') continue;
+
+      const name = toCleanString(item.name);
+      if (!name || name.length > 60 || seenNames.has(name.toLowerCase())) continue;
+
+      const aliases = toStringList(item.aliases)
+        .filter(alias => alias.toLowerCase() !== name.toLowerCase() && !seenNames.has(alias.toLowerCase()));
+
+      seenNames.add(name.toLowerCase());
+      aliases.forEach(alias => seenNames.add(alias.toLowerCase()));
+
+      const role = toCleanString(item.role).toLowerCase() as ExtractedCharacter['role'];
+      const personality = toStringList(item.personality).map(trait => trait.toLowerCase()).slice(0, 5);
+
+      characters.push({
+        id: `char-${characters.length}`,
+        name,
+        role: ROLES.includes(role) ? role : 'supporting',
+        description: toCleanString(item.description) || `${name} appears in the story.`,
+        personality: personality.length > 0 ? personality : this.generatePersonalityTraits(name),
+        appearance: this.validateAppearance(item.appearance, name),
+        aliases,
+        dialogueLines: spokenLines(dialogue, [name, ...aliases]),
+        // Drop quotes the model paraphrased or invented
+        evidence: toStringList(item.evidence)
+          .filter(quote => containsQuote(story, quote))
+          .slice(0, MAX_EVIDENCE_LINES),
+        photos: []
+      });
+
+      if (characters.length >= MAX_CHARACTERS) break;
+    }
+
+    return characters;
+  }
+
+  private validateAppearance(raw: Record<string, unknown> | undefined, name: string): Appearance {
+    // Photo generation needs every required field, so gaps get the heuristic guess
+    const fallback = this.generateAppearance(name);
+    const source = raw && typeof raw === 'object' ? raw : {};
+    const appearance: Appearance = { ...fallback };
+
+    REQUIRED_APPEARANCE_FIELDS.forEach(field => {
+      const value = toCleanString(source[field]);
+      if (value) appearance[field] = field === 'gender' ? value.toLowerCase() : value;
+    });
+
+    OPTIONAL_APPEARANCE_FIELDS.forEach(field => {
+      const value = toCleanString(source[field]);
+      if (value && value.toLowerCase() !== 'optional') appearance[field] = value;
+    });
+
+    const age = appearance.age.match(/\d+/);
+    if (age) appearance.age = age[0];
+
+    return appearance;
+  }
+
+  private extractWithHeuristics(storyText: string): ExtractedCharacter[] {
+    // Extract character names from dialogue and descriptions
+    const screenplay = parseStoryText(storyText);
+    const dialogue = extractDialogue(screenplay);
+    const characterNames = new Set<string>(getSpeakers(screenplay));
+    const actionLines = screenplay.elements.flatMap(element => element.type === 'action' ? element.text.split('\n') : []);
+
+    actionLines.forEach(line => {
+      // Look for character names in descriptions - be more selective
+      const descriptionMatches = line.match(/\b([A-Z][a-z]+(?:\s[A-Z][a-z]+)?)\b/g);
+      if (descriptionMatches) {
+        descriptionMatches.forEach(name => {
+          // Only add names that appear in character-like contexts
+          if (name.length > 2 &&
+              !['The', 'And', 'But', 'For', 'With', 'Scene', 'Act', 'Chapter', 'Then', 'When', 'Where', 'Why', 'How'].includes(name) &&
+              (line.toLowerCase().includes('said') ||
+               line.toLowerCase().includes('replied') ||
+               line.toLowerCase().includes('asked') ||
+               line.toLowerCase().includes('whispered') ||
+               line.toLowerCase().includes('shouted') ||
+               line.toLowerCase().includes('thought') ||
+               line.includes(name + ' was') ||
+               line.includes(name + ' had') ||
+               line.includes(name + ' could') ||
+               line.includes(name + ' would') ||
+               line.includes(name + "'s"))) {
+            characterNames.add(name);
+          }
+        });
+      }
+    });
+
+    // Filter out very common words and keep only meaningful character names;
+    // a described "Aria" is the same person as the speaker ARIA
+    const seen = new Set<string>();
+    const filteredNames = Array.from(characterNames).filter(name => {
+      if (seen.has(name.toUpperCase())) return false;
+      seen.add(name.toUpperCase());
+
+      const lowerName = name.toLowerCase();
+      return !['chapter', 'scene', 'part', 'book', 'story', 'tale', 'end', 'beginning',
+               'morning', 'evening', 'night', 'day', 'time', 'place', 'world', 'life',
+               'death', 'love', 'hope', 'fear', 'joy', 'pain', 'voice', 'eyes', 'hand',
+               'face', 'heart', 'mind', 'soul', 'body', 'room', 'house', 'door', 'window'].includes(lowerName);
+    });
+
+    // If we found fewer than 2 characters, add some default main characters
+    if (filteredNames.length < 2) {
+      if (!filteredNames.includes('Protagonist')) {
+        filteredNames.unshift('Protagonist');
+      }
+      if (filteredNames.length < 2 && !filteredNames.includes('Supporting Character')) {
+        filteredNames.push('Supporting Character');
+      }
+    }
+
+    // Generate character profiles - limit to what we actually found
+    return filteredNames.slice(0, MAX_CHARACTERS).map((name, index) => ({
+      id: `char-${index}`,
+      name,
+      role: index === 0 ? 'protagonist' : 'supporting',
+      description: this.generateCharacterDescription(name),
+      personality: this.generatePersonalityTraits(name),
+      appearance: this.generateAppearance(name),
+      aliases: [],
+      dialogueLines: spokenLines(dialogue, [name]),
+      evidence: [],
+      photos: []
+    }));
+  }
+
+  private generateCharacterDescription(name: string): string {
+    const descriptions = [
+      `${name} is a complex character whose journey drives much of the story's emotional core.`,
+      `${name} brings unique perspective and depth to the narrative through their actions and decisions.`,
+      `${name} serves as a catalyst for important plot developments and character growth.`,
+      `${name} represents key themes in the story through their personal struggles and triumphs.`
+    ];
+
+    return descriptions[Math.floor(seededRandom(name, 0) * descriptions.length)];
+  }
+
+  private generatePersonalityTraits(name: string): string[] {
+    const allTraits = [
+      'brave', 'intelligent', 'compassionate', 'determined', 'loyal', 'creative',
+      'ambitious', 'mysterious', 'charismatic', 'resilient', 'wise', 'adventurous',
+      'cautious', 'optimistic', 'analytical', 'empathetic', 'independent', 'curious'
+    ];
+
+    // Use seeded random to select 4 consistent traits
+    const selectedTraits: string[] = [];
+    const shuffledTraits = [...allTraits];
+
+    for (let i = 0; i < 4; i++) {
+      const randomIndex = Math.floor(seededRandom(name, i + 10) * shuffledTraits.length);
+      selectedTraits.push(shuffledTraits.splice(randomIndex, 1)[0]);
+    }
+
+    return selectedTraits;
+  }
+
+  private generateAppearance(name: string): Appearance {
+    const appearances = {
+      ages: ['25', '30', '35', '40', '28', '32'],
+      genders: ['male', 'female'],
+      ethnicities: ['caucasian', 'african', 'asian', 'hispanic', 'middle-eastern', 'mixed'],
+      hairColors: ['brown', 'black', 'blonde', 'red', 'gray', 'auburn'],
+      eyeColors: ['brown', 'blue', 'green', 'hazel', 'gray', 'amber'],
+      styles: ['casual', 'professional', 'artistic', 'athletic', 'elegant', 'bohemian']
+    };
+
+    return {
+      age: appearances.ages[Math.floor(seededRandom(name, 1) * appearances.ages.length)],
+      gender: appearances.genders[Math.floor(seededRandom(name, 2) * appearances.genders.length)],
+      ethnicity: appearances.ethnicities[Math.floor(seededRandom(name, 3) * appearances.ethnicities.length)],
+      hairColor: appearances.hairColors[Math.floor(seededRandom(name, 4) * appearances.hairColors.length)],
+      eyeColor: appearances.eyeColors[Math.floor(seededRandom(name, 5) * appearances.eyeColors.length)],
+      style: appearances.styles[Math.floor(seededRandom(name, 6) * appearances.styles.length)]
+    };
+  }
+}
+
+// Deterministic per-name random so heuristic traits stay stable between runs
+function seededRandom(name: string, index: number): number {
+  const seed = name.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
+  const x = Math.sin(seed + index) * 10000;
+  return x - Math.floor(x);
+}
+
+// Lines the character speaks under their own cue; prose that only mentions them doesn't count
+function spokenLines(dialogue: DialogueLine[], names: string[]): string[] {
+  const cues = new Set(names.map(name => name.toUpperCase()));
+  return dialogue.filter(line => cues.has(line.character)).map(line => line.text).slice(0, 3);
+}
+
+function toCleanString(value: unknown): string {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.map(toCleanString).filter(Boolean)));
+}
+
+function containsQuote(story: string, quote: string): boolean {
+  const normalize = (text: string) => text.replace(/[*_"“”]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+  const needle = normalize(quote);
+  return needle.length > 0 && normalize(story).includes(needle);
+}
+
+export const characterExtractionService = CharacterExtractionService.getInstance();
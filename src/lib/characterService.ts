@@ -25,6 +25,14 @@ interface CharacterGenerationRequest {
   setting?: string;
 }
 
+// An image from one of the diffusion providers, before it is checked or stored
+export interface GeneratedImage {
+  url: string;
+  provider: string;
+}
+
+const NEGATIVE_PROMPT = 'blurry, low quality, distorted, deformed, low resolution, watermark, text, signature, logo, username, grainy, pixelated';
+
 interface CharacterPhoto {
   url: string;
   provider: string;
@@ -230,56 +238,14 @@ export class CharacterService {
       
       const prompt = this.buildProfessionalCharacterPrompt(request);
       
-      const response = await fetch('https://api.replicate.com/v1/predictions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Token ${this.replicateToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          version: 'ac732df83cea7fff18b8472768c88ad041fa750ff7682a21affe81863cbe77e45', // SDXL model
-          input: {
-            prompt: prompt,
-            negative_prompt: 'blurry, low quality, distorted, deformed, low resolution, watermark, text, signature, logo, username, grainy, pixelated',
-            width: 768,
-            height: 768,
-            num_inference_steps: 50,
-            guidance_scale: 7.5,
-            scheduler: 'DPMSolverMultistep'
-          }
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Replicate API error: ${response.status}`);
-      }
-
-      const prediction = await response.json();
-      
-      // Poll for completion
-      let result = prediction;
-      while (result.status === 'starting' || result.status === 'processing') {
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        const statusResponse = await fetch(`https://api.replicate.com/v1/predictions/${result.id}`, {
-          headers: {
-            'Authorization': `Token ${this.replicateToken}`,
-          },
-        });
-        
-        result = await statusResponse.json();
-      }
+      const url = await this.replicateImage(prompt, 768, 768);
 
-      if (result.status === 'succeeded' && result.output && result.output.length > 0) {
-        return {
-          url: result.output[0],
-          provider: 'replicate-sdxl',
-          style: 'premium AI generated',
-          prompt: prompt
-        };
-      } else {
-        throw new Error('Replicate generation failed or no output');
-      }
+      return {
+        url,
+        provider: 'replicate-sdxl',
+        style: 'premium AI generated',
+        prompt: prompt
+      };
       
     } catch (error) {
       console.error('❌ Replicate character generation error:', error);
@@ -293,30 +259,7 @@ export class CharacterService {
       
       const prompt = this.buildProfessionalCharacterPrompt(request);
       
-      const response = await fetch('https://api-inference.huggingface.co/models/stabilityai/stable-diffusion-xl-base-1.0', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.huggingFaceToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: prompt,
-          parameters: {
-            negative_prompt: 'blurry, low quality, distorted, deformed, low resolution, watermark, text',
-            num_inference_steps: 50,
-            guidance_scale: 7.5,
-            width: 768,
-            height: 768
-          }
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`HuggingFace API error: ${response.status}`);
-      }
-
-      const blob = await response.blob();
-      const imageUrl = URL.createObjectURL(blob);
+      const imageUrl = await this.huggingFaceImage(prompt, 768, 768);
       
       return {
         url: imageUrl,
@@ -331,6 +274,109 @@ export class CharacterService {
     }
   }
 
+  public hasImageProvider(): boolean {
+    return !!this.replicateToken || !!this.huggingFaceToken;
+  }
+
+  /**
+   * Any image from a text prompt, through the same diffusion providers as
+   * character photos: Replicate SDXL first, then HuggingFace Stable Diffusion.
+   */
+  public async generateImage(prompt: string, width = 1024, height = 576): Promise<GeneratedImage> {
+    let lastError: unknown = null;
+
+    if (this.replicateToken) {
+      try {
+        return { url: await this.replicateImage(prompt, width, height), provider: 'replicate-sdxl' };
+      } catch (error) {
+        console.error('❌ Replicate image failed, trying HuggingFace:', error);
+        lastError = error;
+      }
+    }
+
+    if (this.huggingFaceToken) {
+      try {
+        return { url: await this.huggingFaceImage(prompt, width, height), provider: 'huggingface-sdxl' };
+      } catch (error) {
+        console.error('❌ HuggingFace image failed:', error);
+        lastError = error;
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('No image provider is configured');
+  }
+
+  private async replicateImage(prompt: string, width: number, height: number): Promise<string> {
+    const response = await fetch('https://api.replicate.com/v1/predictions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Token ${this.replicateToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        version: 'ac732df83cea7fff18b8472768c88ad041fa750ff7682a21affe81863cbe77e45', // SDXL model
+        input: {
+          prompt: prompt,
+          negative_prompt: NEGATIVE_PROMPT,
+          width,
+          height,
+          num_inference_steps: 50,
+          guidance_scale: 7.5,
+          scheduler: 'DPMSolverMultistep'
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Replicate API error: ${response.status}`);
+    }
+
+    // Poll for completion
+    let result = await response.json();
+    while (result.status === 'starting' || result.status === 'processing') {
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      const statusResponse = await fetch(`https://api.replicate.com/v1/predictions/${result.id}`, {
+        headers: {
+          'Authorization': `Token ${this.replicateToken}`,
+        },
+      });
+
+      result = await statusResponse.json();
+    }
+
+    if (result.status !== 'succeeded' || !result.output || result.output.length === 0) {
+      throw new Error('Replicate generation failed or no output');
+    }
+    return result.output[0];
+  }
+
+  private async huggingFaceImage(prompt: string, width: number, height: number): Promise<string> {
+    const response = await fetch('https://api-inference.huggingface.co/models/stabilityai/stable-diffusion-xl-base-1.0', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.huggingFaceToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        inputs: prompt,
+        parameters: {
+          negative_prompt: NEGATIVE_PROMPT,
+          num_inference_steps: 50,
+          guidance_scale: 7.5,
+          width,
+          height
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`HuggingFace API error: ${response.status}`);
+    }
+
+    return URL.createObjectURL(await response.blob());
+  }
+
   private async generateWithGemini(request: CharacterGenerationRequest): Promise<CharacterPhoto> {
     try {
       console.log('🤖 Using Gemini AI for character image generation...');
@@ -1,4 +1,11 @@
-interface ElevenLabsVoice {
+import { parseStoryText, toSpeechSegments, SpeechSegment } from './screenplay';
+import { audioMixService } from './audioMixService';
+import { offlineTtsService } from './offlineTtsService';
+import { alignmentToWords, timeSpeech, CharacterAlignment } from './subtitles';
+import { applyPronunciations, toPronunciationRules, PronunciationRule } from './pronunciation';
+import { CharacterVoice, PronunciationEntry, VoiceSettings, WordTiming } from '../types';
+
+export interface ElevenLabsVoice {
   voice_id: string;
   name: string;
   samples: string[];
@@ -11,11 +18,43 @@ interface ElevenLabsVoice {
   };
 }
 
-interface VoiceSettings {
-  stability: number;
-  similarity_boost: number;
-  style: number;
-  use_speaker_boost: boolean;
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  stability: 0.6,
+  similarity_boost: 0.8,
+  style: 0.3,
+  use_speaker_boost: true
+};
+
+// The premade voices the casting heuristics choose from, listed when no API key is set
+const VOICE_CATALOG: { voice_id: string; name: string; description: string }[] = [
+  { voice_id: 'pNInz6obpgDQGcFmaJgB', name: 'Adam', description: 'Young male, friendly and upbeat' },
+  { voice_id: 'EXAVITQu4vr4xnSDxMaL', name: 'Bella', description: 'Young female, warm storyteller' },
+  { voice_id: '29vD33N1CtxCmqQRPOHJ', name: 'Drew', description: 'Mature male, well-rounded' },
+  { voice_id: 'MF3mGyEYCl7XYWbV9V6O', name: 'Elli', description: 'Mature female, soft and whispery' },
+  { voice_id: 'VR6AewLTigWG4xSOukaG', name: 'Arnold', description: 'Elderly male, crisp' },
+  { voice_id: 'oWAxZDx7w5VEj9dCyTzz', name: 'Grace', description: 'Elderly female, gentle' },
+  { voice_id: 'pqHfZKP75CvOlQylNhV4', name: 'Bill', description: 'Professional narrator' },
+  { voice_id: 'nPczCjzI2devNBz1zQrb', name: 'Brian', description: 'Child-like' },
+  { voice_id: 'g5CIjZEefAph4nQFvHAz', name: 'Gigi', description: 'Dramatic female' },
+  { voice_id: 'cgSgspJ2msm6clMCkdW9', name: 'Jessica', description: 'Mysterious female' },
+  { voice_id: 'ErXwobaYiN019PkySvjV', name: 'Antoni', description: 'Crisp male, futuristic' },
+  { voice_id: 'ThT5KcBeYPX3keUQqHPh', name: 'Dorothy', description: 'Soft and emotional female' },
+  { voice_id: 'AZnzlk1XvdvUeBnXmlld', name: 'Domi', description: 'Expressive female' },
+  { voice_id: 'XB0fDUnXU5powFXDhCwa', name: 'Charlotte', description: 'Energetic female' },
+  { voice_id: 'onwK4e9ZLuTAKqWW03F9', name: 'Daniel', description: 'Deep male, mysterious' }
+];
+
+// A voiced line of the story, in the voice it was cast
+export interface NarrationSegment extends SpeechSegment {
+  audioUrl: string;
+  words: WordTiming[];
+  duration: number;
+  voiceId: string;
+}
+
+export interface PronunciationDictionaryLocator {
+  pronunciation_dictionary_id: string;
+  version_id: string;
 }
 
 interface TextToSpeechRequest {
@@ -23,7 +62,8 @@ interface TextToSpeechRequest {
   voice_id: string;
   model_id?: string;
   voice_settings?: VoiceSettings;
-  pronunciation_dictionary_locators?: any[];
+  pronunciation_dictionary_locators?: PronunciationDictionaryLocator[];
+  pronunciations?: PronunciationEntry[]; // The story's lexicon, turned into a dictionary on first use
 }
 
 interface VoiceCloneRequest {
@@ -37,6 +77,8 @@ export class ElevenLabsService {
   private static instance: ElevenLabsService;
   private apiKey: string | null = null;
   private baseURL = 'https://api.elevenlabs.io/v1';
+  // One dictionary per distinct lexicon, so repeated requests reuse it
+  private pronunciationDictionaries = new Map<string, Promise<PronunciationDictionaryLocator | null>>();
 
   private constructor() {
     this.apiKey = (import.meta as any).env?.VITE_ELEVENLABS_API_KEY || null;
@@ -90,12 +132,13 @@ export class ElevenLabsService {
 
   public async generateSpeech(request: TextToSpeechRequest): Promise<string> {
     if (!this.isConfigured()) {
-      return this.getDemoAudio(request.text);
+      return offlineTtsService.generateSpeech(request);
     }
 
     try {
       console.log('🎙️ Generating premium speech with ElevenLabs Creator Tier...');
       
+      const { text, locators } = await this.applyLexicon(request);
       const response = await fetch(`${this.baseURL}/text-to-speech/${request.voice_id}`, {
         method: 'POST',
         headers: {
@@ -104,14 +147,15 @@ export class ElevenLabsService {
           'xi-api-key': this.apiKey!,
         },
         body: JSON.stringify({
-          text: request.text,
+          text,
           model_id: request.model_id || 'eleven_turbo_v2', // Creator Tier model
           voice_settings: {
             stability: request.voice_settings?.stability || 0.5,
             similarity_boost: request.voice_settings?.similarity_boost || 0.8,
             style: request.voice_settings?.style || 0.0,
             use_speaker_boost: request.voice_settings?.use_speaker_boost || true
-          }
+          },
+          pronunciation_dictionary_locators: locators
         }),
       });
 
@@ -127,7 +171,122 @@ export class ElevenLabsService {
       return audioUrl;
     } catch (error) {
       console.error('ElevenLabs speech generation failed:', error);
-      return this.getDemoAudio(request.text);
+      console.warn('⚠️ Falling back to offline speech synthesis');
+      return offlineTtsService.generateSpeech(request);
+    }
+  }
+
+  /**
+   * Speech plus when each word is spoken. ElevenLabs aligns the words itself;
+   * offline or fallback audio is measured and the words spread over it.
+   */
+  public async generateSpeechWithTimings(
+    request: TextToSpeechRequest
+  ): Promise<{ audioUrl: string; words: WordTiming[]; duration: number }> {
+    if (this.isConfigured()) {
+      try {
+        const { text, locators } = await this.applyLexicon(request);
+        const response = await fetch(`${this.baseURL}/text-to-speech/${request.voice_id}/with-timestamps`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'xi-api-key': this.apiKey!,
+          },
+          body: JSON.stringify({
+            text,
+            model_id: request.model_id || 'eleven_turbo_v2',
+            voice_settings: request.voice_settings,
+            pronunciation_dictionary_locators: locators
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`ElevenLabs timestamps error: ${response.status}`);
+        }
+
+        const data: { audio_base64: string; alignment: CharacterAlignment | null } = await response.json();
+        const bytes = Uint8Array.from(atob(data.audio_base64), char => char.charCodeAt(0));
+        const audioUrl = URL.createObjectURL(new Blob([bytes], { type: 'audio/mpeg' }));
+
+        // Respelled text no longer lines up with the story's words, so only a dictionary keeps the alignment
+        if (data.alignment && text === request.text) {
+          const words = alignmentToWords(data.alignment);
+          return { audioUrl, words, duration: words[words.length - 1]?.end || 0 };
+        }
+        return { audioUrl, ...await timeSpeech(audioUrl, request.text) };
+      } catch (error) {
+        console.warn('⚠️ Timed speech failed, generating untimed audio:', error);
+      }
+    }
+
+    const audioUrl = await this.generateSpeech(request);
+    return { audioUrl, ...await timeSpeech(audioUrl, request.text) };
+  }
+
+  /**
+   * Sends the story's lexicon as a pronunciation dictionary. When the dictionary
+   * can't be created the terms are respelled in the text instead.
+   */
+  private async applyLexicon(
+    request: TextToSpeechRequest
+  ): Promise<{ text: string; locators?: PronunciationDictionaryLocator[] }> {
+    if (request.pronunciation_dictionary_locators?.length || !request.pronunciations?.length) {
+      return { text: request.text, locators: request.pronunciation_dictionary_locators };
+    }
+
+    const locator = await this.getPronunciationDictionary(request.pronunciations);
+    return locator
+      ? { text: request.text, locators: [locator] }
+      : { text: applyPronunciations(request.text, request.pronunciations) };
+  }
+
+  public getPronunciationDictionary(entries: PronunciationEntry[]): Promise<PronunciationDictionaryLocator | null> {
+    const rules = toPronunciationRules(entries);
+    if (rules.length === 0 || !this.isConfigured()) return Promise.resolve(null);
+
+    const key = JSON.stringify(rules);
+    const cached = this.pronunciationDictionaries.get(key);
+    if (cached) return cached;
+
+    // A failure is forgotten so a later request can try again
+    const created = this.createPronunciationDictionary(key, rules).then(locator => {
+      if (!locator) this.pronunciationDictionaries.delete(key);
+      return locator;
+    });
+    this.pronunciationDictionaries.set(key, created);
+    return created;
+  }
+
+  private async createPronunciationDictionary(
+    key: string,
+    rules: PronunciationRule[]
+  ): Promise<PronunciationDictionaryLocator | null> {
+    try {
+      console.log('🔄 Creating pronunciation dictionary:', rules.length, 'terms');
+
+      const hash = Array.from(key).reduce((total, char) => (total * 31 + char.charCodeAt(0)) >>> 0, 7);
+      const response = await fetch(`${this.baseURL}/pronunciation-dictionaries/add-from-rules`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'xi-api-key': this.apiKey!,
+        },
+        body: JSON.stringify({
+          name: `story-lexicon-${hash.toString(36)}`,
+          rules
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`ElevenLabs dictionary error: ${response.status}`);
+      }
+
+      const data: { id: string; version_id: string } = await response.json();
+      console.log('✅ Pronunciation dictionary ready:', data.id);
+      return { pronunciation_dictionary_id: data.id, version_id: data.version_id };
+    } catch (error) {
+      console.warn('⚠️ Pronunciation dictionary failed, respelling terms instead:', error);
+      return null;
     }
   }
 
@@ -239,53 +398,47 @@ export class ElevenLabsService {
     }
   }
 
+  // The voice a character was cast with, or the heuristic pick if nobody has cast them yet
+  public getCharacterVoice(character: { voice?: CharacterVoice | null; personality?: string[] }): CharacterVoice {
+    if (character.voice?.voiceId) {
+      return character.voice;
+    }
+
+    const voiceId = this.getOptimalVoiceForCharacter(character);
+    return {
+      voiceId,
+      voiceName: VOICE_CATALOG.find(voice => voice.voice_id === voiceId)?.name,
+      settings: {
+        ...DEFAULT_VOICE_SETTINGS,
+        style: character.personality?.includes('dramatic') ? 0.3 : 0.0
+      }
+    };
+  }
+
   // Enhanced audio generation with Creator Tier features
   public async generateCharacterSpeech(text: string, character: any): Promise<string> {
-    const voiceId = this.getOptimalVoiceForCharacter(character);
+    const voice = this.getCharacterVoice(character);
     
     return await this.generateSpeech({
       text: text,
-      voice_id: voiceId,
+      voice_id: voice.voiceId,
       model_id: 'eleven_turbo_v2', // Creator Tier model
-      voice_settings: {
-        stability: 0.5,
-        similarity_boost: 0.8,
-        style: character.personality?.includes('dramatic') ? 0.3 : 0.0,
-        use_speaker_boost: true // Creator Tier feature
-      }
+      voice_settings: voice.settings
     });
   }
 
   private getDemoVoices(): ElevenLabsVoice[] {
-    return [
-      {
-        voice_id: 'demo-adam',
-        name: 'Adam (Demo)',
-        samples: [],
-        category: 'premade',
-        description: 'Young male voice - Demo mode',
-        preview_url: '',
-        use_speaker_boost: false,
-        fine_tuning: { model_id: 'demo' }
-      },
-      {
-        voice_id: 'demo-bella',
-        name: 'Bella (Demo)', 
-        samples: [],
-        category: 'premade',
-        description: 'Young female voice - Demo mode',
-        preview_url: '',
-        use_speaker_boost: false,
-        fine_tuning: { model_id: 'demo' }
-      }
-    ];
-  }
-
-  private getDemoAudio(text: string): string {
-    // Return a demo audio blob URL for development
-    const utterance = new SpeechSynthesisUtterance(text);
-    speechSynthesis.speak(utterance);
-    return 'demo-audio-url';
+    // Demo voices have no preview clips; they are spoken by the offline synthesiser instead
+    return VOICE_CATALOG.map(voice => ({
+      ...voice,
+      name: `${voice.name} (Demo)`,
+      description: `${voice.description} - Demo mode`,
+      samples: [],
+      category: 'premade' as const,
+      preview_url: '',
+      use_speaker_boost: false,
+      fine_tuning: { model_id: 'demo' }
+    }));
   }
 
   public getCreatorTierFeatures(): string[] {
@@ -341,59 +494,71 @@ export class ElevenLabsService {
     return themeVoices[theme] || themeVoices.fantasy;
   }
 
+  // Voice each narration and dialogue segment on its own, without mixing them into one track
+  public async generateNarrationSegments(
+    storyText: string,
+    theme: string,
+    characterVoices?: Map<string, CharacterVoice>,
+    pronunciations: PronunciationEntry[] = []
+  ): Promise<NarrationSegment[]> {
+    // Split story into narration and dialogue segments
+    const segments = this.parseStorySegments(storyText);
+    const audioSegments: NarrationSegment[] = [];
+
+    for (const segment of segments) {
+      // Dialogue uses the speaker's cast voice; narration and uncast speakers use the theme voice
+      const cast = segment.type === 'dialogue' && segment.character
+        ? characterVoices?.get(segment.character)
+        : undefined;
+      const voiceConfig = cast
+        ? { voice_id: cast.voiceId, settings: cast.settings }
+        : this.getThemeOptimizedVoice(theme);
+
+      const { audioUrl, words, duration } = await this.generateSpeechWithTimings({
+        text: segment.text,
+        voice_id: voiceConfig.voice_id,
+        voice_settings: voiceConfig.settings,
+        model_id: 'eleven_turbo_v2', // Creator Tier model
+        pronunciations
+      });
+
+      audioSegments.push({
+        ...segment,
+        audioUrl,
+        words,
+        duration,
+        voiceId: voiceConfig.voice_id
+      });
+    }
+
+    return audioSegments;
+  }
+
   // NEW: Generate story-specific narration with Creator Tier
   public async generateStoryNarration(
     storyText: string, 
     theme: string,
-    characterVoices?: Map<string, string>
+    characterVoices?: Map<string, CharacterVoice>,
+    pronunciations: PronunciationEntry[] = []
   ): Promise<{ audioUrl: string; segments: any[] }> {
-    if (!this.isConfigured()) {
-      return {
-        audioUrl: this.getDemoAudio(storyText),
-        segments: [{ text: storyText, type: 'narration', audioUrl: this.getDemoAudio(storyText) }]
-      };
-    }
-
     try {
+      // Without an API key generateSpeech renders each segment offline
       console.log('🎙️ Generating Creator Tier story narration...');
       
-      // Split story into narration and dialogue segments
-      const segments = this.parseStorySegments(storyText);
-      const audioSegments = [];
-
-      for (const segment of segments) {
-        let voiceConfig;
-        
-        if (segment.type === 'narration') {
-          voiceConfig = this.getThemeOptimizedVoice(theme);
-        } else if (segment.type === 'dialogue' && characterVoices?.has(segment.character)) {
-          const characterVoiceId = characterVoices.get(segment.character);
-          voiceConfig = {
-            voice_id: characterVoiceId,
-            settings: { stability: 0.6, similarity_boost: 0.8, style: 0.3, use_speaker_boost: true }
-          };
-        } else {
-          voiceConfig = this.getThemeOptimizedVoice(theme);
-        }
-
-        const audioUrl = await this.generateSpeech({
-          text: segment.text,
-          voice_id: voiceConfig.voice_id,
-          voice_settings: voiceConfig.settings,
-          model_id: 'eleven_turbo_v2' // Creator Tier model
-        });
-
-        audioSegments.push({
-          ...segment,
-          audioUrl,
-          voiceId: voiceConfig.voice_id
-        });
+      const audioSegments = await this.generateNarrationSegments(storyText, theme, characterVoices, pronunciations);
+
+      // Stitch every segment into one narration track; a single clip is the fallback
+      let primaryAudio = audioSegments[0]?.audioUrl || '';
+      try {
+        const mixdown = await audioMixService.mixdown(
+          audioSegments.map((segment, index) => ({ ...segment, id: `segment-${index}` })),
+          theme
+        );
+        primaryAudio = mixdown.url;
+      } catch (error) {
+        console.warn('⚠️ Narration mixdown failed, using the first segment:', error);
       }
 
-      // For now, return the first segment's audio as primary
-      // In a full implementation, you'd concatenate all segments
-      const primaryAudio = audioSegments[0]?.audioUrl || this.getDemoAudio(storyText);
-
       return {
         audioUrl: primaryAudio,
         segments: audioSegments
@@ -401,94 +566,37 @@ export class ElevenLabsService {
 
     } catch (error) {
       console.error('Story narration generation failed:', error);
+      const audioUrl = await offlineTtsService.generateSpeech({
+        text: storyText,
+        voice_id: this.getThemeOptimizedVoice(theme).voice_id,
+        pronunciations
+      });
       return {
-        audioUrl: this.getDemoAudio(storyText),
-        segments: [{ text: storyText, type: 'narration', audioUrl: this.getDemoAudio(storyText) }]
+        audioUrl,
+        segments: [{ text: storyText, type: 'narration', audioUrl }]
       };
     }
   }
 
-  // NEW: Parse story into narration and dialogue segments
-  private parseStorySegments(storyText: string): Array<{
-    text: string;
-    type: 'narration' | 'dialogue';
-    character?: string;
-  }> {
-    const segments = [];
-    const lines = storyText.split('\n');
-    let currentNarration = '';
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-
-      // Check for dialogue (format: **CHARACTER**: text or "text" - Character)
-      const dialogueMatch = trimmed.match(/^\*\*([A-Z][A-Z\s]+)\*\*:?\s*(.+)/) || 
-                           trimmed.match(/"([^"]+)"\s*-\s*([A-Z][A-Za-z\s]+)/);
-
-      if (dialogueMatch) {
-        // Save any accumulated narration first
-        if (currentNarration.trim()) {
-          segments.push({
-            text: currentNarration.trim(),
-            type: 'narration'
-          });
-          currentNarration = '';
-        }
+  // Narration and dialogue come from the shared screenplay parser so speakers match the other steps
+  private parseStorySegments(storyText: string): SpeechSegment[] {
+    return toSpeechSegments(parseStoryText(storyText));
+  }
 
-        // Add dialogue segment
-        const character = dialogueMatch[1] || dialogueMatch[2];
-        const dialogue = dialogueMatch[2] || dialogueMatch[1];
-        
-        if (character && dialogue) {
-          segments.push({
-            text: dialogue.trim(),
-            type: 'dialogue' as const,
-            character: character.trim().toUpperCase()
-          });
-        }
-      } else {
-        // Accumulate narration
-        currentNarration += (currentNarration ? ' ' : '') + trimmed;
-      }
-    }
+  // Cast voices keyed by every name a character is cued under; saved casting wins over the heuristics
+  public async generateCharacterVoices(characters: any[]): Promise<Map<string, CharacterVoice>> {
+    const characterVoices = new Map<string, CharacterVoice>();
 
-    // Add any remaining narration
-    if (currentNarration.trim()) {
-      segments.push({
-        text: currentNarration.trim(),
-        type: 'narration' as const
-      });
-    }
+    console.log('🎭 Casting character voices...');
 
-    return segments;
-  }
-
-  // NEW: Generate voices for extracted characters using Creator Tier
-  public async generateCharacterVoices(characters: any[]): Promise<Map<string, string>> {
-    const characterVoices = new Map<string, string>();
-    
-    if (!this.isConfigured()) {
-      // Return demo voice mappings
-      characters.forEach(char => {
-        characterVoices.set(char.name.toUpperCase(), this.getOptimalVoiceForCharacter(char));
+    characters.forEach(character => {
+      const voice = this.getCharacterVoice(character);
+      [character.name, ...(character.aliases || [])].forEach((name: string) => {
+        characterVoices.set(name.toUpperCase(), voice);
       });
-      return characterVoices;
-    }
-
-    try {
-      console.log('🎭 Generating character voices with Creator Tier...');
-      
-      for (const character of characters) {
-        const voiceId = this.getOptimalVoiceForCharacter(character);
-        characterVoices.set(character.name.toUpperCase(), voiceId);
-      }
+    });
 
-      return characterVoices;
-    } catch (error) {
-      console.error('Character voice generation failed:', error);
-      return characterVoices;
-    }
+    return characterVoices;
   }
 }
 
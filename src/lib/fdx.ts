@@ -0,0 +1,157 @@
+import { Screenplay, ScreenplayElement } from '../types';
+import { parseCharacterCue, formatCharacterCue, stripParentheses } from './screenplay';
+
+// Final Draft XML (.fdx): a FinalDraft root whose Content holds typed Paragraph elements
+
+export function parseFDX(xml: string): Screenplay {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = document.documentElement;
+
+  if (document.getElementsByTagName('parsererror').length > 0 || root.nodeName !== 'FinalDraft') {
+    throw new Error('This file is not a valid Final Draft document');
+  }
+
+  const content = childElement(root, 'Content');
+  if (!content) {
+    throw new Error('The Final Draft document has no script content');
+  }
+
+  const elements: ScreenplayElement[] = [];
+
+  // getElementsByTagName also reaches paragraphs nested in DualDialogue blocks, in document order
+  Array.from(content.getElementsByTagName('Paragraph')).forEach(paragraph => {
+    const text = paragraphText(paragraph);
+    if (!text) return;
+
+    if (paragraph.getAttribute('StartsNewPage') === 'Yes' && elements.length > 0) {
+      elements.push({ type: 'page_break' });
+    }
+
+    switch (paragraph.getAttribute('Type')) {
+      case 'Scene Heading':
+        elements.push({ type: 'scene_heading', text });
+        break;
+      case 'Character':
+        elements.push({ type: 'character', ...parseCharacterCue(text) });
+        break;
+      case 'Parenthetical':
+        elements.push({ type: 'parenthetical', text: stripParentheses(text) });
+        break;
+      case 'Dialogue':
+        elements.push({ type: 'dialogue', text });
+        break;
+      case 'Transition':
+        elements.push({ type: 'transition', text });
+        break;
+      case 'New Act':
+        elements.push({ type: 'section', text, depth: 1 });
+        break;
+      case 'End of Act':
+        break;
+      default:
+        // Action, General, Shot and any custom paragraph styles read as action
+        elements.push({ type: 'action', text, centered: paragraph.getAttribute('Alignment') === 'Center' || undefined });
+    }
+  });
+
+  return { ...parseTitlePage(root), elements };
+}
+
+export function toFDX(screenplay: Screenplay): string {
+  const paragraphs: string[] = [];
+  let startsNewPage = false;
+
+  screenplay.elements.forEach(element => {
+    if (element.type === 'page_break') {
+      startsNewPage = true;
+      return;
+    }
+
+    const [type, text, alignment] = describeElement(element);
+    const attributes = [
+      `Type="${type}"`,
+      alignment && `Alignment="${alignment}"`,
+      startsNewPage && 'StartsNewPage="Yes"',
+    ].filter(Boolean).join(' ');
+
+    paragraphs.push(paragraphXML(attributes, text, '    '));
+    startsNewPage = false;
+  });
+
+  const titlePage = [
+    screenplay.title && paragraphXML('Alignment="Center"', screenplay.title, '      '),
+    screenplay.author && paragraphXML('Alignment="Center"', 'Written by', '      '),
+    screenplay.author && paragraphXML('Alignment="Center"', screenplay.author, '      '),
+  ].filter(Boolean);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+    '  <Content>',
+    ...paragraphs,
+    '  </Content>',
+    ...(titlePage.length ? ['  <TitlePage>', '    <Content>', ...titlePage, '    </Content>', '  </TitlePage>'] : []),
+    '</FinalDraft>',
+    '',
+  ].join('\n');
+}
+
+function describeElement(element: Exclude<ScreenplayElement, { type: 'page_break' }>): [string, string, string?] {
+  switch (element.type) {
+    case 'section':
+      return ['New Act', element.text];
+    case 'scene_heading':
+      return ['Scene Heading', element.text.toUpperCase()];
+    case 'action':
+      return ['Action', element.text, element.centered ? 'Center' : undefined];
+    case 'character':
+      return ['Character', formatCharacterCue(element.name, element.extension).toUpperCase()];
+    case 'parenthetical':
+      return ['Parenthetical', `(${element.text})`];
+    case 'dialogue':
+      return ['Dialogue', element.text];
+    case 'transition':
+      return ['Transition', element.text.toUpperCase()];
+  }
+}
+
+function paragraphXML(attributes: string, text: string, indent: string): string {
+  return `${indent}<Paragraph ${attributes}>\n${indent}  <Text>${escapeXML(text)}</Text>\n${indent}</Paragraph>`;
+}
+
+// The title page has no paragraph types, so the first line is the title and the line after "by" the author
+function parseTitlePage(root: Element): Pick<Screenplay, 'title' | 'author'> {
+  const titleContent = childElement(childElement(root, 'TitlePage'), 'Content');
+  if (!titleContent) return {};
+
+  const lines = Array.from(titleContent.getElementsByTagName('Paragraph'))
+    .map(paragraphText)
+    .filter(Boolean);
+  const byIndex = lines.findIndex(line => /^(written )?by$/i.test(line));
+
+  return {
+    title: lines[0],
+    author: byIndex >= 0 ? lines[byIndex + 1] : undefined,
+  };
+}
+
+function paragraphText(paragraph: Element): string {
+  return Array.from(paragraph.getElementsByTagName('Text'))
+    .map(text => text.textContent || '')
+    .join('')
+    .trim();
+}
+
+function childElement(parent: Element | null, name: string): Element | null {
+  if (!parent) return null;
+  return Array.from(parent.children).find(child => child.nodeName === name) || null;
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
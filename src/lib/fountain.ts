@@ -0,0 +1,183 @@
+import { Screenplay, ScreenplayElement } from '../types';
+import {
+  isSceneHeading,
+  isTransition,
+  isCharacterCue,
+  parseCharacterCue,
+  formatCharacterCue,
+  stripParentheses,
+  stripEmphasis,
+  isDialogueElement,
+  groupBlocks,
+} from './screenplay';
+
+// Fountain plain-text screenplay format: https://fountain.io/syntax
+
+const TITLE_PAGE_KEYS = ['title', 'credit', 'author', 'authors', 'source', 'draft date', 'date', 'contact', 'copyright', 'notes', 'revision'];
+
+export function parseFountain(text: string): Screenplay {
+  const cleaned = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\/\*[\s\S]*?\*\//g, '') // Boneyard
+    .replace(/\[\[[\s\S]*?\]\]/g, ''); // Notes
+
+  const { fields, body } = splitTitlePage(cleaned);
+  const screenplay: Screenplay = {
+    title: fields.title,
+    author: fields.author || fields.authors,
+    elements: [],
+  };
+  const elements = screenplay.elements;
+  const lines = body.split('\n');
+  let inDialogue = false;
+
+  const push = (element: ScreenplayElement) => {
+    elements.push(element);
+    inDialogue = isDialogueElement(element);
+  };
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const previousBlank = index === 0 || !lines[index - 1].trim();
+    const nextBlank = index === lines.length - 1 || !lines[index + 1].trim();
+
+    if (!line) {
+      inDialogue = false;
+      return;
+    }
+
+    if (inDialogue) {
+      if (/^\(.*\)$/.test(line)) {
+        push({ type: 'parenthetical', text: stripParentheses(line) });
+      } else {
+        const previous = elements[elements.length - 1];
+        if (previous.type === 'dialogue') {
+          previous.text += `\n${stripEmphasis(line)}`;
+        } else {
+          push({ type: 'dialogue', text: stripEmphasis(line) });
+        }
+      }
+      return;
+    }
+
+    if (/^={3,}$/.test(line)) {
+      push({ type: 'page_break' });
+    } else if (line.startsWith('#')) {
+      const depth = line.match(/^#+/)![0].length;
+      push({ type: 'section', text: line.slice(depth).trim(), depth });
+    } else if (line.startsWith('=')) {
+      // Synopses are outline notes and never reach the page
+    } else if (/^\.[^.]/.test(line)) {
+      push({ type: 'scene_heading', text: stripSceneNumber(line.slice(1)) });
+    } else if (line.startsWith('!')) {
+      appendAction(elements, stripEmphasis(line.slice(1)), previousBlank);
+    } else if (line.startsWith('@')) {
+      push({ type: 'character', ...parseCharacterCue(line.slice(1)) });
+    } else if (line.startsWith('>') && line.endsWith('<')) {
+      push({ type: 'action', text: stripEmphasis(line.slice(1, -1)), centered: true });
+    } else if (line.startsWith('>')) {
+      push({ type: 'transition', text: line.slice(1).trim() });
+    } else if (line.startsWith('~')) {
+      appendAction(elements, stripEmphasis(line.slice(1)), previousBlank);
+    } else if (previousBlank && isSceneHeading(line)) {
+      push({ type: 'scene_heading', text: stripSceneNumber(line) });
+    } else if (previousBlank && nextBlank && isTransition(line)) {
+      push({ type: 'transition', text: line });
+    } else if (previousBlank && !nextBlank && isCharacterCue(line)) {
+      push({ type: 'character', ...parseCharacterCue(line) });
+    } else {
+      appendAction(elements, stripEmphasis(line), previousBlank);
+    }
+  });
+
+  return screenplay;
+}
+
+export function toFountain(screenplay: Screenplay): string {
+  const titlePage = [
+    screenplay.title && `Title: ${screenplay.title}`,
+    screenplay.author && `Author: ${screenplay.author}`,
+  ].filter(Boolean);
+
+  const blocks = groupBlocks(screenplay.elements).map(group =>
+    group.map(element => {
+      switch (element.type) {
+        case 'section':
+          return `${'#'.repeat(element.depth)} ${element.text}`;
+        case 'scene_heading': {
+          const heading = element.text.toUpperCase();
+          return isSceneHeading(heading) ? heading : `.${heading}`;
+        }
+        case 'transition': {
+          const transition = element.text.toUpperCase();
+          return transition.endsWith('TO:') ? transition : `>${transition}`;
+        }
+        case 'action':
+          if (element.centered) return `>${element.text}<`;
+          return needsForcedAction(element.text) ? `!${element.text}` : element.text;
+        case 'character': {
+          const cue = formatCharacterCue(element.name, element.extension);
+          return cue === cue.toUpperCase() ? cue : `@${cue}`;
+        }
+        case 'parenthetical':
+          return `(${element.text})`;
+        case 'dialogue':
+          return element.text;
+        case 'page_break':
+          return '===';
+      }
+    }).join('\n')
+  );
+
+  return [...(titlePage.length ? [titlePage.join('\n')] : []), ...blocks].join('\n\n') + '\n';
+}
+
+function splitTitlePage(text: string): { fields: Record<string, string>; body: string } {
+  const fields: Record<string, string> = {};
+  const firstKey = text.trimStart().match(/^([^:\n]+):/)?.[1].trim().toLowerCase();
+
+  if (!firstKey || !TITLE_PAGE_KEYS.includes(firstKey)) {
+    return { fields, body: text };
+  }
+
+  const trimmed = text.trimStart();
+  const end = trimmed.search(/\n\s*\n/);
+  const header = end === -1 ? trimmed : trimmed.slice(0, end);
+  let currentKey = '';
+
+  header.split('\n').forEach(line => {
+    const field = line.match(/^([^:\s][^:]*):\s*(.*)$/);
+    if (field && !/^\s/.test(line)) {
+      currentKey = field[1].trim().toLowerCase();
+      fields[currentKey] = stripEmphasis(field[2]);
+    } else if (currentKey && line.trim()) {
+      // Indented continuation lines belong to the previous key
+      fields[currentKey] = [fields[currentKey], stripEmphasis(line)].filter(Boolean).join(' ');
+    }
+  });
+
+  return { fields, body: end === -1 ? '' : trimmed.slice(end) };
+}
+
+// Lines of one paragraph form a single action element
+function appendAction(elements: ScreenplayElement[], text: string, startsParagraph: boolean) {
+  const previous = elements[elements.length - 1];
+  if (!startsParagraph && previous?.type === 'action' && !previous.centered) {
+    previous.text += `\n${text}`;
+  } else {
+    elements.push({ type: 'action', text });
+  }
+}
+
+function stripSceneNumber(heading: string): string {
+  return heading.replace(/\s*#[\w.-]+#\s*$/, '').trim();
+}
+
+// Action whose first line would otherwise read as a heading, cue or transition
+function needsForcedAction(text: string): boolean {
+  const firstLine = text.split('\n')[0].trim();
+  return isSceneHeading(firstLine) ||
+    isTransition(firstLine) ||
+    (isCharacterCue(firstLine) && text.includes('\n')) ||
+    /^[.!@#=>~]/.test(firstLine);
+}
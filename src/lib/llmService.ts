@@ -0,0 +1,528 @@
+export type LLMProviderId = 'gemini' | 'openai' | 'local';
+
+// Each feature can be pinned to a provider; otherwise the priority order applies
+export type LLMFeature = 'chat' | 'story' | 'ideas' | 'characters' | 'scenes';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask the provider for a JSON object response
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: LLMProviderId;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  name: string;
+  isConfigured(): boolean;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  // Yields text tokens as they arrive and returns the full response when done
+  stream(request: LLMRequest): AsyncGenerator<string, LLMResponse>;
+}
+
+interface LLMConfig {
+  priority: LLMProviderId[];
+  features: Partial<Record<LLMFeature, LLMProviderId>>;
+}
+
+interface GeminiResponseChunk {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}
+
+interface OpenAIUsage {
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+const CONFIG_STORAGE_KEY = 'animato-llm-config';
+const DEFAULT_PRIORITY: LLMProviderId[] = ['gemini', 'openai', 'local'];
+
+// Google Gemini (generateContent / streamGenerateContent)
+class GeminiProvider implements LLMProvider {
+  public id: LLMProviderId = 'gemini';
+  public name = 'Gemini AI';
+  private apiKey: string | null = import.meta.env.VITE_GEMINI_API_KEY || null;
+  private model: string = import.meta.env.VITE_GEMINI_MODEL || 'gemini-1.5-flash';
+  private baseURL = 'https://generativelanguage.googleapis.com/v1beta';
+
+  public isConfigured(): boolean {
+    return !!this.apiKey && this.apiKey.length > 20 && !this.apiKey.includes('your_');
+  }
+
+  public async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.request('generateContent', request);
+    const data = await response.json();
+
+    return {
+      text: this.extractText(data),
+      provider: this.id,
+      model: this.model,
+      usage: this.extractUsage(data),
+    };
+  }
+
+  public async *stream(request: LLMRequest): AsyncGenerator<string, LLMResponse> {
+    const response = await this.request('streamGenerateContent', request, '&alt=sse');
+    let text = '';
+    let usage: TokenUsage | undefined;
+
+    for await (const data of readServerSentEvents(response)) {
+      const chunk = JSON.parse(data);
+      const token = this.extractText(chunk);
+      if (token) {
+        text += token;
+        yield token;
+      }
+      usage = this.extractUsage(chunk) || usage;
+    }
+
+    return { text, provider: this.id, model: this.model, usage };
+  }
+
+  private async request(method: string, request: LLMRequest, query = ''): Promise<Response> {
+    // Gemini takes the system prompt separately and calls the assistant "model"
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const contents = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+    const response = await fetch(`${this.baseURL}/models/${this.model}:${method}?key=${this.apiKey}${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents,
+        ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+        generationConfig: {
+          temperature: request.temperature ?? 0.8,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: request.maxTokens ?? 1500,
+          ...(request.json && { responseMimeType: 'application/json' }),
+        },
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await toProviderError(response, 'Gemini');
+    }
+
+    return response;
+  }
+
+  private extractText(data: GeminiResponseChunk): string {
+    return (data.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('');
+  }
+
+  private extractUsage(data: GeminiResponseChunk): TokenUsage | undefined {
+    const usage = data.usageMetadata;
+    if (!usage) return undefined;
+
+    return {
+      promptTokens: usage.promptTokenCount || 0,
+      completionTokens: usage.candidatesTokenCount || 0,
+      totalTokens: usage.totalTokenCount || 0,
+    };
+  }
+}
+
+// OpenAI chat completions; also used for local OpenAI-compatible servers
+class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    public id: LLMProviderId,
+    public name: string,
+    private baseURL: string,
+    private model: string,
+    private apiKey: string | null,
+    private requiresKey: boolean
+  ) {}
+
+  public isConfigured(): boolean {
+    if (!this.baseURL) return false;
+    return !this.requiresKey || (!!this.apiKey && this.apiKey.length > 20);
+  }
+
+  public async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.request(request, false);
+    const data = await response.json();
+
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      provider: this.id,
+      model: data.model || this.model,
+      usage: this.extractUsage(data),
+    };
+  }
+
+  public async *stream(request: LLMRequest): AsyncGenerator<string, LLMResponse> {
+    const response = await this.request(request, true);
+    let text = '';
+    let usage: TokenUsage | undefined;
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data);
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        text += token;
+        yield token;
+      }
+      usage = this.extractUsage(chunk) || usage;
+    }
+
+    return { text, provider: this.id, model: this.model, usage };
+  }
+
+  private async request(request: LLMRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens ?? 1500,
+        temperature: request.temperature ?? 0.8,
+        ...(request.json && { response_format: { type: 'json_object' } }),
+        ...(stream && { stream: true, stream_options: { include_usage: true } }),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await toProviderError(response, this.name);
+    }
+
+    return response;
+  }
+
+  private extractUsage(data: OpenAIUsage): TokenUsage | undefined {
+    const usage = data.usage;
+    if (!usage) return undefined;
+
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0,
+    };
+  }
+}
+
+export class LLMService {
+  private static instance: LLMService;
+  private providers = new Map<LLMProviderId, LLMProvider>();
+  private config: LLMConfig;
+  private lastUsage: Partial<Record<LLMFeature, LLMResponse>> = {};
+
+  private constructor() {
+    this.register(new GeminiProvider());
+    this.register(new OpenAICompatibleProvider(
+      'openai',
+      'OpenAI',
+      'https://api.openai.com/v1',
+      import.meta.env.VITE_OPENAI_MODEL || 'gpt-3.5-turbo',
+      import.meta.env.VITE_OPENAI_API_KEY || null,
+      true
+    ));
+    this.register(new OpenAICompatibleProvider(
+      'local',
+      'Local model',
+      (import.meta.env.VITE_LOCAL_LLM_URL || '').replace(/\/$/, ''),
+      import.meta.env.VITE_LOCAL_LLM_MODEL || 'llama3.1',
+      import.meta.env.VITE_LOCAL_LLM_API_KEY || null,
+      false
+    ));
+
+    this.config = this.loadConfig();
+    console.log('🧠 LLM providers configured:', this.getConfiguredProviders().map(p => p.id));
+  }
+
+  public static getInstance(): LLMService {
+    if (!LLMService.instance) {
+      LLMService.instance = new LLMService();
+    }
+    return LLMService.instance;
+  }
+
+  public register(provider: LLMProvider) {
+    this.providers.set(provider.id, provider);
+  }
+
+  public getProviders(): LLMProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  public getConfiguredProviders(): LLMProvider[] {
+    return this.getProviders().filter(provider => provider.isConfigured());
+  }
+
+  public isConfigured(): boolean {
+    return this.getConfiguredProviders().length > 0;
+  }
+
+  public getConfig(): LLMConfig {
+    return { priority: [...this.config.priority], features: { ...this.config.features } };
+  }
+
+  public setPriority(priority: LLMProviderId[]) {
+    this.config = { ...this.config, priority };
+    this.saveConfig();
+  }
+
+  // Pin a feature to one provider, or pass null to follow the priority order
+  public setFeatureProvider(feature: LLMFeature, providerId: LLMProviderId | null) {
+    const features = { ...this.config.features };
+    if (providerId) {
+      features[feature] = providerId;
+    } else {
+      delete features[feature];
+    }
+    this.config = { ...this.config, features };
+    this.saveConfig();
+  }
+
+  // Providers to try for a feature, in order; the pinned provider (if configured) goes first
+  public getProviderChain(feature: LLMFeature): LLMProvider[] {
+    const pinned = this.config.features[feature];
+    const order = pinned
+      ? [pinned, ...this.config.priority.filter(id => id !== pinned)]
+      : this.config.priority;
+
+    return order
+      .map(id => this.providers.get(id))
+      .filter((provider): provider is LLMProvider => !!provider && provider.isConfigured());
+  }
+
+  public getActiveProvider(feature: LLMFeature): LLMProvider | null {
+    return this.getProviderChain(feature)[0] || null;
+  }
+
+  // Response metadata (provider, model, token usage) of the last call per feature
+  public getLastUsage(feature: LLMFeature): LLMResponse | undefined {
+    return this.lastUsage[feature];
+  }
+
+  public async generate(feature: LLMFeature, request: LLMRequest): Promise<LLMResponse> {
+    return this.runWithFallback(feature, provider => provider.generate(request), request.signal);
+  }
+
+  // Async iterator of tokens; falls through to the next provider only if nothing was streamed yet
+  public async *stream(feature: LLMFeature, request: LLMRequest): AsyncGenerator<string, LLMResponse> {
+    let lastError: unknown;
+
+    for (const provider of this.requireProviderChain(feature)) {
+      let emitted = false;
+
+      try {
+        console.log(`🚀 ${feature}: streaming from ${provider.name}`);
+        const tokens = provider.stream(request);
+
+        try {
+          for (;;) {
+            const { value, done } = await tokens.next();
+            if (done) {
+              this.recordUsage(feature, value);
+              return value;
+            }
+            emitted = true;
+            yield value;
+          }
+        } finally {
+          // Runs when the caller breaks out of the loop, releasing the provider's connection
+          await tokens.return(undefined as never);
+        }
+      } catch (error) {
+        // Once tokens reached the caller, switching providers would garble the output
+        if (request.signal?.aborted || emitted) {
+          throw error;
+        }
+        console.error(`❌ ${provider.name} stream failed for ${feature}:`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('All AI providers failed');
+  }
+
+  // JSON mode plus parsing; providers without native JSON support still get the object extracted
+  public async generateJSON<T>(feature: LLMFeature, request: LLMRequest): Promise<{ data: T; response: LLMResponse }> {
+    const response = await this.generate(feature, { ...request, json: true });
+    return { data: parseJSONResponse<T>(response.text), response };
+  }
+
+  private async runWithFallback(
+    feature: LLMFeature,
+    run: (provider: LLMProvider) => Promise<LLMResponse>,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    let lastError: unknown;
+    for (const provider of this.requireProviderChain(feature)) {
+      try {
+        console.log(`🚀 ${feature}: using ${provider.name}`);
+        const response = await run(provider);
+        this.recordUsage(feature, response);
+        return response;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        console.error(`❌ ${provider.name} failed for ${feature}:`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('All AI providers failed');
+  }
+
+  private requireProviderChain(feature: LLMFeature): LLMProvider[] {
+    const chain = this.getProviderChain(feature);
+    if (chain.length === 0) {
+      throw new Error('No AI provider configured. Add a Gemini, OpenAI or local model setting to your .env file.');
+    }
+    return chain;
+  }
+
+  private recordUsage(feature: LLMFeature, response: LLMResponse) {
+    this.lastUsage[feature] = response;
+    if (response.usage) {
+      console.log(`📊 ${response.provider} tokens:`, response.usage.totalTokens);
+    }
+  }
+
+  private loadConfig(): LLMConfig {
+    const envPriority = (import.meta.env.VITE_LLM_PROVIDER_ORDER || '')
+      .split(',')
+      .map((id: string) => id.trim())
+      .filter((id: string): id is LLMProviderId => this.providers.has(id as LLMProviderId));
+
+    // e.g. VITE_LLM_FEATURE_PROVIDERS=chat:local,story:openai
+    const envFeatures = Object.fromEntries(
+      (import.meta.env.VITE_LLM_FEATURE_PROVIDERS || '')
+        .split(',')
+        .map((pair: string) => pair.split(':').map(part => part.trim()))
+        .filter(([, id]: string[]) => this.providers.has(id as LLMProviderId))
+    ) as LLMConfig['features'];
+
+    const config: LLMConfig = {
+      priority: envPriority.length > 0 ? envPriority : DEFAULT_PRIORITY,
+      features: envFeatures,
+    };
+
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(CONFIG_STORAGE_KEY) : null;
+      if (stored) {
+        const parsed = JSON.parse(stored) as Partial<LLMConfig>;
+        return {
+          priority: parsed.priority?.length ? parsed.priority : config.priority,
+          features: { ...config.features, ...parsed.features },
+        };
+      }
+    } catch (error) {
+      console.warn('⚠️ Ignoring invalid stored LLM config:', error);
+    }
+
+    return config;
+  }
+
+  private saveConfig() {
+    try {
+      localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(this.config));
+    } catch (error) {
+      console.warn('⚠️ Could not save LLM config:', error);
+    }
+  }
+}
+
+// Pull the first JSON object or array out of a model response (tolerates code fences and prose)
+export function parseJSONResponse<T>(text: string): T {
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch {
+    const match = cleaned.match(/[[{][\s\S]*[\]}]/);
+    if (!match) {
+      throw new Error('AI response did not contain JSON');
+    }
+    return JSON.parse(match[0]) as T;
+  }
+}
+
+// Yields the data payload of each server-sent event (OpenAI-compatible and Gemini alt=sse)
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported in this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) {
+          yield trimmed.slice(5).trim();
+        }
+      }
+    }
+    finished = true;
+  } finally {
+    // The consumer stopped early, so close the connection instead of draining it
+    if (!finished) {
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  const last = buffer.trim();
+  if (last.startsWith('data:')) {
+    yield last.slice(5).trim();
+  }
+}
+
+async function toProviderError(response: Response, providerName: string): Promise<Error> {
+  const body = await response.json().catch(() => ({}));
+  const message = body.error?.message || (Array.isArray(body) && body[0]?.error?.message);
+
+  if (response.status === 429) {
+    return new Error(`${providerName} rate limit exceeded. Please try again in a moment.`);
+  } else if (response.status === 401) {
+    return new Error(`Invalid API key. Please check your ${providerName} API key.`);
+  } else if (response.status === 403) {
+    return new Error(`API access forbidden. Please check your ${providerName} account status.`);
+  }
+
+  return new Error(message || `${providerName} request failed with status ${response.status}`);
+}
+
+export const llmService = LLMService.getInstance();
@@ -0,0 +1,131 @@
+import { Story } from '../types';
+
+const DB_NAME = 'animato-local';
+const DB_VERSION = 1;
+const STORIES_STORE = 'stories';
+const OUTBOX_STORE = 'outbox';
+
+export type MutationKind = 'story.update' | 'story.delete' | 'segments.save' | 'characters.save' | 'revision.create';
+
+export interface PendingMutation {
+  id?: number; // Assigned by IndexedDB
+  kind: MutationKind;
+  storyId: string;
+  payload: Record<string, unknown>;
+  baseUpdatedAt?: string; // Server updated_at the change was made against
+  attempts: number;
+  nextAttemptAt: number;
+  status: 'pending' | 'conflict' | 'failed';
+  remote?: Record<string, unknown>; // Server copy that caused a conflict
+  lastError?: string;
+  createdAt: string;
+}
+
+// Thin promise wrapper over IndexedDB holding cached stories and the sync outbox
+export class LocalDatabase {
+  private static instance: LocalDatabase;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): LocalDatabase {
+    if (!LocalDatabase.instance) {
+      LocalDatabase.instance = new LocalDatabase();
+    }
+    return LocalDatabase.instance;
+  }
+
+  public isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  // Stories (with their characters, segments and audio embedded)
+  public async getStories(userId: string): Promise<Story[]> {
+    const stories = await this.request<Story[]>(STORIES_STORE, 'readonly', store =>
+      store.index('user_id').getAll(userId)
+    );
+    return stories.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  public async getStory(storyId: string): Promise<Story | undefined> {
+    return this.request<Story | undefined>(STORIES_STORE, 'readonly', store => store.get(storyId));
+  }
+
+  public async putStories(stories: Story[]): Promise<void> {
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORIES_STORE, 'readwrite');
+      const store = tx.objectStore(STORIES_STORE);
+      stories.forEach(story => store.put(story));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  public async putStory(story: Story): Promise<void> {
+    await this.request(STORIES_STORE, 'readwrite', store => store.put(story));
+  }
+
+  public async deleteStory(storyId: string): Promise<void> {
+    await this.request(STORIES_STORE, 'readwrite', store => store.delete(storyId));
+  }
+
+  // Outbox
+  public async getMutations(): Promise<PendingMutation[]> {
+    const mutations = await this.request<PendingMutation[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+    return mutations.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  }
+
+  public async addMutation(mutation: PendingMutation): Promise<number> {
+    return this.request<number>(OUTBOX_STORE, 'readwrite', store => store.add(mutation) as IDBRequest<number>);
+  }
+
+  public async putMutation(mutation: PendingMutation): Promise<void> {
+    await this.request(OUTBOX_STORE, 'readwrite', store => store.put(mutation));
+  }
+
+  public async deleteMutation(id: number): Promise<void> {
+    await this.request(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORIES_STORE)) {
+            const stories = db.createObjectStore(STORIES_STORE, { keyPath: 'id' });
+            stories.createIndex('user_id', 'user_id');
+          }
+          if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+            db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const localDatabase = LocalDatabase.getInstance();
@@ -0,0 +1,103 @@
+import { encodeWav } from './wav';
+import { splitSentences, renderSentence, joinSentences, SynthVoice, SYNTH_SAMPLE_RATE } from './speechSynth';
+import { applyPronunciations } from './pronunciation';
+import { PronunciationEntry } from '../types';
+
+export interface OfflineSpeechRequest {
+  text: string;
+  voice_id: string;
+  speed?: number;
+  pitch?: number; // Multiplier on the voice's own pitch
+  pronunciations?: PronunciationEntry[];
+}
+
+const SILENT_CLIP_SECONDS = 0.5;
+
+const VOICE_PRESETS: Record<string, SynthVoice> = {
+  male: { pitch: 115, formantScale: 1, rate: 1, breathiness: 0.1 },
+  female: { pitch: 205, formantScale: 1.15, rate: 1.05, breathiness: 0.2 },
+  elderly_male: { pitch: 100, formantScale: 0.97, rate: 0.9, breathiness: 0.3 },
+  elderly_female: { pitch: 180, formantScale: 1.1, rate: 0.9, breathiness: 0.35 },
+  child: { pitch: 270, formantScale: 1.25, rate: 1.1, breathiness: 0.15 },
+  narrator: { pitch: 105, formantScale: 0.98, rate: 0.92, breathiness: 0.1 },
+};
+
+// The ElevenLabs voices the app picks from, so offline clips keep the same casting
+const VOICE_IDS: Record<string, string> = {
+  pNInz6obpgDQGcFmaJgB: 'male',
+  ErXwobaYiN019PkySvjV: 'male',
+  '29vD33N1CtxCmqQRPOHJ': 'male',
+  onwK4e9ZLuTAKqWW03F9: 'narrator',
+  pqHfZKP75CvOlQylNhV4: 'narrator',
+  VR6AewLTigWG4xSOukaG: 'elderly_male',
+  oWAxZDx7w5VEj9dCyTzz: 'elderly_female',
+  nPczCjzI2devNBz1zQrb: 'child',
+  EXAVITQu4vr4xnSDxMaL: 'female',
+  MF3mGyEYCl7XYWbV9V6O: 'female',
+  g5CIjZEefAph4nQFvHAz: 'female',
+  cgSgspJ2msm6clMCkdW9: 'female',
+  ThT5KcBeYPX3keUQqHPh: 'female',
+  AZnzlk1XvdvUeBnXmlld: 'female',
+  XB0fDUnXU5powFXDhCwa: 'female',
+  'demo-adam': 'male',
+  'demo-bella': 'female',
+};
+
+export class OfflineTtsService {
+  private static instance: OfflineTtsService;
+
+  private constructor() {}
+
+  public static getInstance(): OfflineTtsService {
+    if (!OfflineTtsService.instance) {
+      OfflineTtsService.instance = new OfflineTtsService();
+    }
+    return OfflineTtsService.instance;
+  }
+
+  /**
+   * Synthesises speech in the browser with no network and resolves with a blob
+   * URL to a WAV file, matching what elevenLabsService.generateSpeech returns.
+   */
+  public async generateSpeech(request: OfflineSpeechRequest): Promise<string> {
+    const sentences = splitSentences(applyPronunciations(request.text, request.pronunciations));
+    if (sentences.length === 0) {
+      // A line like "…" has nothing to say, but the clip still has to exist for the mixdown
+      console.warn('⚠️ Nothing speakable, rendering a pause instead:', request.text);
+      const silence = new Float32Array(Math.round(SILENT_CLIP_SECONDS * SYNTH_SAMPLE_RATE));
+      return URL.createObjectURL(encodeWav([silence], SYNTH_SAMPLE_RATE));
+    }
+
+    const preset = this.getVoice(request.voice_id);
+    const voice: SynthVoice = {
+      ...preset,
+      pitch: preset.pitch * (request.pitch || 1),
+      rate: preset.rate * (request.speed || 1),
+    };
+
+    console.log('🔄 Synthesising offline speech:', sentences.length, 'sentences');
+
+    const rendered: Float32Array[] = [];
+    for (const sentence of sentences) {
+      rendered.push(renderSentence(sentence, voice));
+      // Let the page repaint between sentences; long narration takes a moment to render
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    const blob = encodeWav([joinSentences(rendered)], SYNTH_SAMPLE_RATE);
+    console.log('✅ Offline speech ready:', (blob.size / 1024).toFixed(0), 'KB');
+
+    return URL.createObjectURL(blob);
+  }
+
+  // Voices nobody mapped (cloned or custom) still get a stable, distinct pitch
+  private getVoice(voiceId: string): SynthVoice {
+    const known = VOICE_IDS[voiceId];
+    if (known) return VOICE_PRESETS[known];
+
+    const hash = Array.from(voiceId).reduce((total, char) => (total * 31 + char.charCodeAt(0)) % 1000, 7);
+    return { ...VOICE_PRESETS.narrator, pitch: VOICE_PRESETS.narrator.pitch * (0.9 + hash / 1000 * 0.3) };
+  }
+}
+
+export const offlineTtsService = OfflineTtsService.getInstance();
@@ -0,0 +1,129 @@
+// A JPEG placed on pages as is; PDF readers decode DCT data natively
+export interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Page coordinates are in points from the top left, and converted to PDF's bottom left origin
+export interface PdfPage {
+  width: number;
+  height: number;
+  rects: { x: number; y: number; width: number; height: number; gray: number }[];
+  images: { image: number; x: number; y: number; width: number; height: number }[]; // image indexes into the shared list
+  texts: { text: string; x: number; y: number; size: number; bold?: boolean }[];
+}
+
+const FIXED_OBJECTS = 4; // Catalog, page tree and the two fonts
+
+// Typographic punctuation outside Latin-1 that story text commonly has
+const PLAIN_PUNCTUATION: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"', '–': '-', '—': '-', '…': '...',
+};
+
+/**
+ * Writes pages of text, filled boxes and JPEG images as a PDF using the
+ * built-in Helvetica fonts, so nothing has to be embedded but the images.
+ */
+export function buildPdf(pages: PdfPage[], images: PdfImage[]): Blob {
+  const imageIds = images.map((_, index) => FIXED_OBJECTS + 1 + index);
+  const firstPageId = FIXED_OBJECTS + images.length + 1;
+  const pageIds = pages.map((_, index) => firstPageId + index * 2);
+
+  const objects: Uint8Array[] = [
+    latin1('<< /Type /Catalog /Pages 2 0 R >>'),
+    latin1(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`),
+    latin1('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'),
+    latin1('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'),
+    ...images.map(image => stream(
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+      image.data
+    )),
+  ];
+
+  pages.forEach((page, index) => {
+    const xObjects = imageIds.map((id, image) => `/Im${image} ${id} 0 R`).join(' ');
+    objects.push(latin1(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    ));
+    objects.push(stream('', latin1(pageContent(page))));
+  });
+
+  const parts: Uint8Array[] = [latin1('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')];
+  const offsets: number[] = [];
+  let offset = parts[0].length;
+
+  objects.forEach((object, index) => {
+    const part = concat([latin1(`${index + 1} 0 obj\n`), object, latin1('\nendobj\n')]);
+    offsets.push(offset);
+    parts.push(part);
+    offset += part.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(position => `${String(position).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  parts.push(latin1(`${xref}\n`));
+
+  return new Blob(parts, { type: 'application/pdf' });
+}
+
+function pageContent(page: PdfPage): string {
+  const flip = (y: number, height: number) => num(page.height - y - height);
+
+  return [
+    ...page.rects.map(rect =>
+      `${num(rect.gray)} g ${num(rect.x)} ${flip(rect.y, rect.height)} ${num(rect.width)} ${num(rect.height)} re f`
+    ),
+    ...page.images.map(placed =>
+      `q ${num(placed.width)} 0 0 ${num(placed.height)} ${num(placed.x)} ${flip(placed.y, placed.height)} cm /Im${placed.image} Do Q`
+    ),
+    '0 g',
+    ...page.texts.map(text =>
+      `BT /${text.bold ? 'F2' : 'F1'} ${num(text.size)} Tf ${num(text.x)} ${flip(text.y, text.size)} Td (${escapeText(text.text)}) Tj ET`
+    ),
+  ].join('\n');
+}
+
+function stream(dictionary: string, data: Uint8Array): Uint8Array {
+  return concat([
+    latin1(`<< ${dictionary} /Length ${data.length} >>\nstream\n`),
+    data,
+    latin1('\nendstream'),
+  ]);
+}
+
+// Characters WinAnsi can't show are replaced rather than dropped, so the text keeps its shape
+function escapeText(text: string): string {
+  return Array.from(text, char => PLAIN_PUNCTUATION[char] ?? (char.charCodeAt(0) > 0xFF ? '?' : char))
+    .join('')
+    .replace(/[\\()]/g, match => `\\${match}`)
+    .replace(/[\r\n]+/g, ' ');
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0) & 0xFF);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
@@ -0,0 +1,116 @@
+import { PronunciationEntry } from '../types';
+
+// A rule in the shape ElevenLabs' pronunciation dictionaries accept
+export type PronunciationRule =
+  | { type: 'alias'; string_to_replace: string; alias: string }
+  | { type: 'phoneme'; string_to_replace: string; phoneme: string; alphabet: 'ipa' };
+
+// Longest symbols first so diphthongs and affricates win over their parts
+const IPA_RESPELLING: [string, string][] = [
+  ['tʃ', 'ch'], ['dʒ', 'j'],
+  ['aɪ', 'igh'], ['eɪ', 'ay'], ['ɔɪ', 'oy'], ['aʊ', 'ow'], ['oʊ', 'oh'], ['əʊ', 'oh'],
+  ['ɪə', 'eer'], ['ɛə', 'air'], ['eə', 'air'], ['ʊə', 'oor'], ['ɜr', 'ur'],
+  ['ɝ', 'ur'], ['ɜ', 'ur'], ['ɚ', 'er'],
+  ['ɪ', 'i'], ['ɛ', 'e'], ['e', 'e'], ['æ', 'a'], ['ɒ', 'o'], ['ʌ', 'u'],
+  ['i', 'ee'], ['ɑ', 'ah'], ['a', 'ah'], ['ɔ', 'aw'], ['o', 'oh'], ['ʊ', 'uu'], ['u', 'oo'],
+  ['ə', 'uh'], ['ɐ', 'uh'], ['y', 'ew'], ['ø', 'ur'], ['œ', 'ur'],
+  ['ʃ', 'sh'], ['ʒ', 'zh'], ['θ', 'th'], ['ð', 'th'], ['ŋ', 'ng'], ['j', 'y'],
+  ['ɹ', 'r'], ['ɾ', 'r'], ['ʁ', 'r'], ['x', 'kh'], ['χ', 'kh'], ['ç', 'h'],
+  ['ɡ', 'g'], ['ɫ', 'l'], ['ʍ', 'wh'], ['ɲ', 'ny'], ['ʎ', 'ly'], ['β', 'v'], ['ɣ', 'g'],
+  ['c', 'k'], ['q', 'k'],
+  ...Array.from('bdfhklmnprstvwzg', (letter): [string, string] => [letter, letter]),
+];
+
+const VOWEL = /^[aeiouyøœɪɛæɒʌɑɔʊəɐɜɝɚ]/;
+const SHORT_VOWELS = new Set(['ɪ', 'ɛ', 'e', 'æ', 'ɒ', 'ʌ']);
+
+// Strips the slashes or brackets IPA is usually quoted in
+export function cleanIpa(ipa: string): string {
+  return ipa.trim().replace(/^[/[]+|[/\]]+$/g, '').trim();
+}
+
+/**
+ * Turns an IPA transcription into an English-style respelling ("ˈθɔːrɪn" →
+ * "thaw-rin") for speech engines that only read plain text.
+ */
+export function ipaToRespelling(ipa: string): string {
+  return cleanIpa(ipa)
+    .replace(/[ːˑ]/g, '')
+    .split(/\s+/)
+    .map(word => syllabify(word).map(respellSyllable).filter(Boolean).join('-'))
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Splits at stress marks and dots, and otherwise hands each new vowel the consonant before it
+function syllabify(word: string): string[][] {
+  const syllables: string[][] = [[]];
+  let rest = word;
+
+  while (rest) {
+    const current = syllables[syllables.length - 1];
+    if (/^[ˈˌ.]/.test(rest)) {
+      if (current.length) syllables.push([]);
+      rest = rest.slice(1);
+      continue;
+    }
+
+    const match = IPA_RESPELLING.find(([symbol]) => rest.startsWith(symbol));
+    // Tone marks and other diacritics have no respelling and are dropped
+    const symbol = match ? match[0] : rest[0];
+    rest = rest.slice(symbol.length);
+    if (!match) continue;
+
+    if (VOWEL.test(symbol) && current.some(unit => VOWEL.test(unit))) {
+      const onset = VOWEL.test(current[current.length - 1]) ? [] : [current.pop()!];
+      syllables.push([...onset, symbol]);
+    } else {
+      current.push(symbol);
+    }
+  }
+
+  return syllables.filter(syllable => syllable.length);
+}
+
+function respellSyllable(units: string[]): string {
+  return units.map((unit, index) => {
+    const spelling = IPA_RESPELLING.find(([symbol]) => symbol === unit)![1];
+    // "igh" reads wrongly on its own, and a short vowel ending a syllable needs an h to stay short
+    if (unit === 'aɪ' && index === 0) return 'eye';
+    if (SHORT_VOWELS.has(unit) && index === units.length - 1) return `${spelling}h`;
+    return spelling;
+  }).join('');
+}
+
+// What a speech engine without dictionary support should read in place of the term
+export function spokenForm(entry: PronunciationEntry): string {
+  return entry.type === 'ipa' ? ipaToRespelling(entry.value) : entry.value.trim();
+}
+
+function usableEntries(entries: PronunciationEntry[]): PronunciationEntry[] {
+  return entries
+    .filter(entry => entry.term.trim() && entry.value.trim())
+    .sort((a, b) => b.term.trim().length - a.term.trim().length);
+}
+
+/**
+ * Swaps every lexicon term in the text for its spoken form. Terms match whole
+ * words, ignoring case, and longer terms win ("Thorin Ironforge" before "Thorin").
+ */
+export function applyPronunciations(text: string, entries: PronunciationEntry[] = []): string {
+  const usable = usableEntries(entries);
+  if (usable.length === 0) return text;
+
+  const spoken = new Map(usable.map(entry => [entry.term.trim().toLowerCase(), spokenForm(entry)]));
+  const terms = usable.map(entry => entry.term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+
+  return text.replace(pattern, match => spoken.get(match.toLowerCase()) ?? match);
+}
+
+export function toPronunciationRules(entries: PronunciationEntry[]): PronunciationRule[] {
+  return usableEntries(entries).map(entry => entry.type === 'ipa'
+    ? { type: 'phoneme', string_to_replace: entry.term.trim(), phoneme: cleanIpa(entry.value), alphabet: 'ipa' }
+    : { type: 'alias', string_to_replace: entry.term.trim(), alias: entry.value.trim() }
+  );
+}
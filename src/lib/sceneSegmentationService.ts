@@ -0,0 +1,531 @@
+import { llmService, LLMMessage } from './llmService';
+import { parseStoryText } from './screenplay';
+import { Scene, SceneGraph, SceneHeading, ScenePlan, ScreenplayElement, SceneTransitionType, ShotPlan } from '../types';
+
+export interface SegmentationOptions {
+  planShots?: boolean; // Ask the LLM for a shot plan per scene when a provider is configured
+  signal?: AbortSignal;
+}
+
+// Shapes the planner is asked for; every field is checked before it reaches a scene
+interface RawShot {
+  description?: unknown;
+  camera?: unknown;
+  duration?: unknown;
+  characters?: unknown;
+}
+
+interface RawScenePlan {
+  index?: unknown;
+  setting?: unknown;
+  characters?: unknown;
+  camera?: unknown;
+  mood?: unknown;
+  targetDuration?: unknown;
+  shots?: RawShot[];
+}
+
+interface DraftScene {
+  title: string;
+  content: string;
+  heading?: SceneHeading;
+  act?: number;
+  actTitle?: string;
+  transitionIn?: SceneTransitionType;
+}
+
+interface ParsedScene extends Omit<DraftScene, 'content'> {
+  elements: ScreenplayElement[];
+}
+
+const SLUGLINE = /^(INT\.?\s*\/\s*EXT\.?|EXT\.?\s*\/\s*INT\.?|I\/E\.?|INT\.?|EXT\.?|EST\.?)\s+(.+)$/i;
+const ACT_MARKER = /^ACT\s+([IVX]+|\d+|ONE|TWO|THREE|FOUR|FIVE|SIX)\b[\s:.\-–—]*(.*)$/i;
+const ACT_WORDS: Record<string, number> = { ONE: 1, TWO: 2, THREE: 3, FOUR: 4, FIVE: 5, SIX: 6 };
+const ROMAN: Record<string, number> = { I: 1, V: 5, X: 10 };
+
+const MIN_SCENE_DURATION = 15;
+const MAX_SCENE_DURATION = 60;
+const WORDS_PER_SECOND = 3;
+const MAX_PLANNED_CONTENT = 1500; // Characters of each scene sent to the planner
+
+export class SceneSegmentationService {
+  private static instance: SceneSegmentationService;
+
+  private constructor() {}
+
+  public static getInstance(): SceneSegmentationService {
+    if (!SceneSegmentationService.instance) {
+      SceneSegmentationService.instance = new SceneSegmentationService();
+    }
+    return SceneSegmentationService.instance;
+  }
+
+  public canPlanShots(): boolean {
+    return llmService.isConfigured();
+  }
+
+  // Deterministic parse first, then an optional LLM pass that only adds shot plans on top
+  public async segmentStory(
+    story: string,
+    characterNames: string[],
+    options: SegmentationOptions = {}
+  ): Promise<SceneGraph> {
+    const scenes = this.parseScreenplay(story, characterNames);
+
+    if (options.planShots && this.canPlanShots() && scenes.length > 0) {
+      try {
+        return buildSceneGraph(await this.planShots(scenes, characterNames, options.signal));
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.error('❌ Shot planning failed, keeping heuristic plans:', error);
+      }
+    }
+
+    return buildSceneGraph(scenes);
+  }
+
+  // Splits on the shared parser's scene headings and act markers; stories without sluglines fall back to paragraph groups
+  public parseScreenplay(story: string, characterNames: string[]): Scene[] {
+    const drafts: ParsedScene[] = [];
+    let current: ParsedScene | null = null;
+    let act: number | undefined;
+    let actTitle: string | undefined;
+    let pendingTransition: SceneTransitionType | undefined;
+
+    for (const element of parseStoryText(story).elements) {
+      const actMatch = isActMarker(element) ? element.text.match(ACT_MARKER) : null;
+      if (actMatch) {
+        act = parseActNumber(actMatch[1]) ?? (act ?? 0) + 1;
+        actTitle = actMatch[2].trim() || undefined;
+        continue;
+      }
+
+      if (element.type === 'action' && element.centered && /^THE END\.?$/i.test(element.text)) break;
+
+      if (element.type === 'transition') {
+        const marker = element.text.toUpperCase().replace(/[:.]$/, '');
+        if (marker !== 'FADE OUT' && marker !== 'FADE TO BLACK') {
+          pendingTransition = marker === 'FADE IN' ? 'fade' : marker.startsWith('DISSOLVE') ? 'dissolve' : 'cut';
+        }
+        continue;
+      }
+
+      if (element.type === 'scene_heading') {
+        const heading = parseSlugline(element.text);
+        current = {
+          title: formatHeading(heading),
+          elements: [],
+          heading,
+          act,
+          actTitle,
+          transitionIn: pendingTransition,
+        };
+        drafts.push(current);
+        pendingTransition = undefined;
+        continue;
+      }
+
+      // Outline headings that aren't act markers are document chrome, not scene content
+      if (element.type === 'section' || element.type === 'page_break') continue;
+
+      current?.elements.push(element);
+    }
+
+    const scenes = drafts
+      .filter(draft => draft.elements.length > 0)
+      .map(({ elements, ...draft }, index) => this.createScene({ ...draft, content: sliceSource(story, elements) }, characterNames, index));
+
+    if (scenes.length === 0) {
+      console.log('⚠️ No sluglines found, grouping paragraphs into scenes');
+      return this.segmentByParagraphs(story, characterNames);
+    }
+
+    return scenes;
+  }
+
+  // Asks the planner for setting, cast, camera, mood and shots for every parsed scene
+  public async planShots(scenes: Scene[], characterNames: string[], signal?: AbortSignal): Promise<Scene[]> {
+    console.log('🔄 Planning shots for', scenes.length, 'scenes');
+
+    const { data, response } = await llmService.generateJSON<{ scenes?: RawScenePlan[] } | RawScenePlan[]>('scenes', {
+      messages: this.buildPlannerMessages(scenes, characterNames),
+      maxTokens: 4000,
+      temperature: 0.4,
+      signal,
+    });
+
+    const plans = Array.isArray(data) ? data : data.scenes;
+    if (!Array.isArray(plans)) {
+      throw new Error('Shot plan response did not contain scenes');
+    }
+
+    const planned = scenes.map((scene, index) => {
+      const raw = plans.find(plan => Number(plan?.index) === index) ?? plans[index];
+      return raw ? this.applyPlan(scene, raw, characterNames) : scene;
+    });
+
+    console.log(`✅ Planned shots with ${response.provider}`);
+    return planned;
+  }
+
+  private segmentByParagraphs(story: string, characterNames: string[]): Scene[] {
+    const paragraphs = story
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.split('\n').filter(line => stripMarkup(line) && !line.trim().startsWith('#')))
+      .filter(lines => lines.length > 0);
+
+    if (paragraphs.length === 0) return [];
+
+    // Group whole paragraphs into 3-6 scenes of similar length
+    const words = paragraphs.map(lines => countWords(lines.map(stripMarkup).join(' ')));
+    const totalWords = words.reduce((sum, count) => sum + count, 0);
+    const sceneCount = Math.min(paragraphs.length, 6, Math.max(3, Math.round(totalWords / 150)));
+
+    const groups: string[][] = [];
+    let group: string[] = [];
+    let wordsSoFar = 0;
+
+    paragraphs.forEach((lines, index) => {
+      group.push(...lines, '');
+      wordsSoFar += words[index];
+
+      if (groups.length < sceneCount - 1 && wordsSoFar >= (totalWords * (groups.length + 1)) / sceneCount) {
+        groups.push(group);
+        group = [];
+      }
+    });
+    if (group.length > 0) groups.push(group);
+
+    return groups.map((lines, index) => this.createScene(
+      {
+        title: `${determineSceneType(index, groups.length)} - Scene ${index + 1}`,
+        content: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+      },
+      characterNames,
+      index
+    ));
+  }
+
+  private createScene(draft: DraftScene, characterNames: string[], order: number): Scene {
+    const content = draft.content;
+    const plainText = stripMarkup(content);
+    const characters = findCharacters(plainText, characterNames);
+    const setting = draft.heading ? describeHeading(draft.heading) : extractSetting(plainText);
+    const plan = this.buildHeuristicPlan(content, characters);
+    const duration = Math.round(Math.max(MIN_SCENE_DURATION, Math.min(MAX_SCENE_DURATION, countWords(plainText) / WORDS_PER_SECOND)));
+
+    return {
+      id: `scene-${order}`,
+      title: draft.title,
+      content,
+      characters,
+      setting,
+      duration,
+      visualPrompt: buildVisualPrompt(setting, characters, plan),
+      order,
+      heading: draft.heading,
+      act: draft.act,
+      actTitle: draft.actTitle,
+      transitionIn: draft.transitionIn,
+      plan: scaleShots(plan, duration),
+    };
+  }
+
+  // One establishing shot, then a shot per dialogue block or action beat
+  private buildHeuristicPlan(content: string, characters: string[]): ScenePlan {
+    const elements = parseStoryText(content).elements;
+    const opening = elements.find(element => element.type === 'action');
+    const shots: ShotPlan[] = [{
+      description: opening?.type === 'action' ? flatten(opening.text) : 'The scene opens',
+      camera: 'wide establishing shot',
+      duration: 4,
+      characters,
+    }];
+
+    elements.forEach((element, index) => {
+      if (shots.length >= 6 || element === opening) return;
+
+      if (element.type === 'character') {
+        const speaker = toTitleCase(element.name);
+        const next = elements.slice(index + 1).find(candidate => candidate.type !== 'parenthetical');
+        shots.push({
+          description: next?.type === 'dialogue' ? `${speaker}: "${flatten(next.text)}"` : `${speaker} speaks`,
+          camera: `medium close-up on ${speaker}`,
+          duration: 5,
+          characters: characters.filter(name => name.toUpperCase() === element.name.toUpperCase()),
+        });
+      } else if (element.type === 'action' && !element.centered) {
+        shots.push({
+          description: flatten(element.text),
+          camera: 'tracking shot',
+          duration: 5,
+          characters: findCharacters(element.text, characters),
+        });
+      }
+    });
+
+    return {
+      mood: extractMood(stripMarkup(content)),
+      camera: 'cinematic, steady coverage',
+      shots,
+      source: 'heuristic',
+    };
+  }
+
+  private buildPlannerMessages(scenes: Scene[], characterNames: string[]): LLMMessage[] {
+    const sceneList = scenes.map((scene, index) => {
+      const content = scene.content.length > MAX_PLANNED_CONTENT
+        ? `${scene.content.slice(0, MAX_PLANNED_CONTENT)}\n[...]`
+        : scene.content;
+      return `SCENE ${index}: ${scene.title}\n${content}`;
+    }).join('\n\n---\n\n');
+
+    const prompt = `Plan the shots for an animated video of the screenplay scenes below.
+
+Known characters: ${characterNames.length > 0 ? characterNames.join(', ') : 'none listed'}
+
+Respond with a JSON object of the form:
+{"scenes": [{
+  "index": 0,
+  "setting": "where and when the scene takes place, in a few words",
+  "characters": ["known characters who appear in the scene"],
+  "camera": "overall camera approach for the scene",
+  "mood": "one or two words",
+  "targetDuration": 30,
+  "shots": [{"description": "what is on screen", "camera": "shot type and movement", "duration": 5, "characters": ["..."]}]
+}]}
+
+Rules:
+- Return one entry per scene, using the scene index given.
+- 2-6 shots per scene; shot durations are seconds between 3 and 10 and should add up to targetDuration.
+- Only describe what the scene text supports.
+
+${sceneList}`;
+
+    return [
+      { role: 'system', content: 'You are a storyboard artist and director of photography. You turn screenplay scenes into concise, filmable shot lists.' },
+      { role: 'user', content: prompt }
+    ];
+  }
+
+  private applyPlan(scene: Scene, raw: RawScenePlan, characterNames: string[]): Scene {
+    const known = [...new Set([...scene.characters, ...characterNames])];
+    const matchKnown = (value: unknown) => toStringList(value)
+      .map(name => known.find(knownName => knownName.toLowerCase() === name.toLowerCase()))
+      .filter((name): name is string => !!name);
+
+    const shots: ShotPlan[] = (Array.isArray(raw.shots) ? raw.shots : [])
+      .map(shot => ({
+        description: toCleanString(shot?.description),
+        camera: toCleanString(shot?.camera) || 'medium shot',
+        duration: clamp(Number(shot?.duration) || 5, 3, 10),
+        characters: matchKnown(shot?.characters),
+      }))
+      .filter(shot => shot.description)
+      .slice(0, 8);
+
+    if (shots.length === 0) return scene;
+
+    const characters = matchKnown(raw.characters);
+    const setting = toCleanString(raw.setting) || scene.setting;
+    const plan: ScenePlan = {
+      mood: toCleanString(raw.mood).toLowerCase() || scene.plan?.mood || 'dramatic',
+      camera: toCleanString(raw.camera) || 'cinematic coverage',
+      shots,
+      source: 'llm',
+    };
+
+    return {
+      ...scene,
+      setting,
+      characters: characters.length > 0 ? characters : scene.characters,
+      duration: Math.round(shots.reduce((total, shot) => total + shot.duration, 0)),
+      visualPrompt: buildVisualPrompt(setting, characters.length > 0 ? characters : scene.characters, plan),
+      plan,
+    };
+  }
+}
+
+// Rebuilds act groupings and transitions from ordered scenes, so edits in the segmenter stay consistent
+export function buildSceneGraph(scenes: Scene[]): SceneGraph {
+  const ordered = [...scenes].sort((a, b) => a.order - b.order);
+  const acts: SceneGraph['acts'] = [];
+
+  ordered.forEach(scene => {
+    const number = scene.act ?? 1;
+    const last = acts[acts.length - 1];
+    if (last && last.number === number) {
+      last.sceneIds.push(scene.id);
+    } else {
+      acts.push({ number, title: scene.actTitle, sceneIds: [scene.id] });
+    }
+  });
+
+  const transitions = ordered.slice(1).map((scene, index) => {
+    const previous = ordered[index];
+    const sameLocation = !!scene.heading && !!previous.heading &&
+      scene.heading.location.toLowerCase() === previous.heading.location.toLowerCase();
+
+    return {
+      from: previous.id,
+      to: scene.id,
+      // Act breaks default to a fade; everything else cuts unless the screenplay says otherwise
+      type: scene.transitionIn ?? ((scene.act ?? 1) !== (previous.act ?? 1) ? 'fade' : 'cut'),
+      sameLocation,
+      sharedCharacters: scene.characters.filter(name => previous.characters.includes(name)),
+    } as SceneGraph['transitions'][number];
+  });
+
+  return {
+    scenes: ordered,
+    acts,
+    transitions,
+    totalDuration: ordered.reduce((total, scene) => total + scene.duration, 0),
+  };
+}
+
+// Headings that skip the INT./EXT. prefix (Fountain's forced ".THE VAULT") are treated as interiors
+function parseSlugline(text: string): SceneHeading {
+  const match = text.match(SLUGLINE);
+  const prefix = match ? match[1].toUpperCase().replace(/\s+/g, '') : 'INT.';
+  const rest = match ? match[2] : text;
+  const placement: SceneHeading['placement'] = prefix.includes('/') ? 'INT/EXT' : /^(EXT|EST)/.test(prefix) ? 'EXT' : 'INT';
+  const [location, ...timeParts] = rest.split(/\s+[-–—]\s+/);
+
+  return {
+    placement,
+    location: location.trim(),
+    time: timeParts.join(' - ').trim() || undefined,
+  };
+}
+
+// Act markers arrive as outline headings ("## Act II") or as bold title cards ("**ACT TWO**")
+function isActMarker(element: ScreenplayElement): element is Extract<ScreenplayElement, { type: 'section' | 'action' }> {
+  return element.type === 'section' || (element.type === 'action' && element.text === element.text.toUpperCase());
+}
+
+// Scene text copied from the story itself, keeping its markup and paragraph breaks
+function sliceSource(story: string, elements: ScreenplayElement[]): string {
+  let content = '';
+  let end = 0;
+
+  elements.forEach(element => {
+    const range = element.range!;
+    if (content && range.start < end) return; // Inline dialogue shares its cue's line
+    if (content) content += /\n\s*\n/.test(story.slice(end, range.start)) ? '\n\n' : '\n';
+    content += story.slice(range.start, range.end);
+    end = range.end;
+  });
+
+  return content;
+}
+
+function parseActNumber(value: string): number | undefined {
+  const upper = value.toUpperCase();
+  if (/^\d+$/.test(upper)) return Number(upper);
+  if (ACT_WORDS[upper]) return ACT_WORDS[upper];
+  if (!/^[IVX]+$/.test(upper)) return undefined;
+
+  let total = 0;
+  for (let i = 0; i < upper.length; i++) {
+    const value = ROMAN[upper[i]];
+    const next = ROMAN[upper[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+}
+
+function formatHeading(heading: SceneHeading): string {
+  const prefix = heading.placement === 'INT/EXT' ? 'INT./EXT.' : `${heading.placement}.`;
+  return `${prefix} ${heading.location}${heading.time ? ` - ${heading.time}` : ''}`;
+}
+
+function describeHeading(heading: SceneHeading): string {
+  const place = toTitleCase(heading.location);
+  const inside = heading.placement === 'EXT' ? 'exterior' : heading.placement === 'INT' ? 'interior' : 'interior/exterior';
+  return `${place} (${inside}${heading.time ? `, ${heading.time.toLowerCase()}` : ''})`;
+}
+
+function buildVisualPrompt(setting: string, characters: string[], plan: ScenePlan): string {
+  const cast = characters.length > 0 ? characters.join(' and ') : 'characters';
+  const opening = plan.shots[0]?.description;
+  return `${cast} in ${setting}${opening ? `, ${opening.replace(/[.\s]+$/, '')}` : ''}. ${plan.mood} mood, ${plan.camera}. Cinematic lighting, detailed animation.`;
+}
+
+// Stretches heuristic shot lengths so they fill the scene's target duration
+function scaleShots(plan: ScenePlan, duration: number): ScenePlan {
+  const total = plan.shots.reduce((sum, shot) => sum + shot.duration, 0);
+  if (total === 0) return plan;
+
+  const factor = duration / total;
+  return { ...plan, shots: plan.shots.map(shot => ({ ...shot, duration: Math.round(shot.duration * factor * 10) / 10 })) };
+}
+
+function determineSceneType(sceneIndex: number, totalScenes: number): string {
+  const sceneTypes = ['Opening', 'Development', 'Conflict', 'Climax', 'Resolution'];
+
+  if (totalScenes <= 3) {
+    return ['Opening', 'Climax', 'Resolution'][sceneIndex] || 'Scene';
+  } else if (totalScenes === 4) {
+    return ['Opening', 'Development', 'Climax', 'Resolution'][sceneIndex] || 'Scene';
+  }
+  const typeIndex = Math.floor((sceneIndex / totalScenes) * sceneTypes.length);
+  return sceneTypes[Math.min(typeIndex, sceneTypes.length - 1)];
+}
+
+function extractSetting(content: string): string {
+  const settings = [
+    'forest', 'castle', 'city', 'home', 'office', 'school', 'park', 'beach',
+    'mountain', 'space station', 'laboratory', 'restaurant', 'street', 'room'
+  ];
+
+  const contentLower = content.toLowerCase();
+  return settings.find(setting => contentLower.includes(setting)) || 'indoor scene';
+}
+
+function extractMood(content: string): string {
+  const contentLower = content.toLowerCase();
+
+  if (/\b(fight|chase|run|explod|attack)/.test(contentLower)) return 'tense';
+  if (/\b(laugh|joke|grin|funny)/.test(contentLower)) return 'playful';
+  if (/\b(tear|cry|grief|loss|sad)/.test(contentLower)) return 'melancholic';
+  if (/\b(dark|shadow|scream|fear|terr)/.test(contentLower)) return 'ominous';
+  if (/\b(discover|reveal|wonder|magic|shimmer)/.test(contentLower)) return 'wondrous';
+  if (/\b(love|kiss|embrace)/.test(contentLower)) return 'romantic';
+  return 'dramatic';
+}
+
+function findCharacters(text: string, characterNames: string[]): string[] {
+  const lower = text.toLowerCase();
+  return characterNames.filter(name => name && lower.includes(name.toLowerCase()));
+}
+
+function stripMarkup(line: string): string {
+  return line.replace(/^#+\s*/, '').replace(/[*_]/g, '').trim();
+}
+
+function flatten(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ');
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function toTitleCase(text: string): string {
+  return text.toLowerCase().replace(/\b\w/g, char => char.toUpperCase());
+}
+
+function toCleanString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(toCleanString).filter(Boolean) : [];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+export const sceneSegmentationService = SceneSegmentationService.getInstance();
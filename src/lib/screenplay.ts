@@ -0,0 +1,313 @@
+import { Screenplay, ScreenplayElement, SourceRange } from '../types';
+
+// Shared screenplay rules plus the markdown-flavoured text stories are stored as:
+//   # Title / ## Act I: ... / **EXT. FOREST - DAWN** / **ARIA** (V.O.) / (beat) / *action*
+
+const SCENE_HEADING_PATTERN = /^(INT\.?\/EXT|EXT\.?\/INT|INT|EXT|EST|I\/E)[.\s]/i;
+const TRANSITION_PATTERN = /^(FADE (IN|OUT|TO BLACK)|[A-Z ]+ TO:$|CUT TO BLACK|SMASH CUT|MATCH CUT|JUMP CUT)/;
+const CHARACTER_CUE_PATTERN = /^[A-Z][A-Z0-9 .'&-]*?(\s*\([^)]*\))*\s*\^?$/;
+const MAX_CUE_LENGTH = 40;
+
+export function isSceneHeading(text: string): boolean {
+  return SCENE_HEADING_PATTERN.test(text.trim());
+}
+
+export function isTransition(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed === trimmed.toUpperCase() && TRANSITION_PATTERN.test(trimmed);
+}
+
+export function isCharacterCue(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed.length <= MAX_CUE_LENGTH &&
+    /[A-Z]/.test(trimmed) &&
+    CHARACTER_CUE_PATTERN.test(trimmed) &&
+    !isSceneHeading(trimmed) &&
+    !isTransition(trimmed);
+}
+
+// "ARIA (CONT'D)" -> { name: 'ARIA', extension: "CONT'D" }
+export function parseCharacterCue(cue: string): { name: string; extension?: string } {
+  const cleaned = cue.trim().replace(/\s*\^$/, '');
+  const match = cleaned.match(/^(.*?)\s*\(([^)]*)\)\s*$/);
+  if (!match || !match[1]) return { name: cleaned };
+  return { name: match[1].trim(), extension: match[2].trim() };
+}
+
+export function formatCharacterCue(name: string, extension?: string): string {
+  return extension ? `${name} (${extension})` : name;
+}
+
+// Parenthetical text is stored without its brackets
+export function stripParentheses(text: string): string {
+  return text.trim().replace(/^\(\s*/, '').replace(/\s*\)$/, '');
+}
+
+export function isDialogueElement(element: ScreenplayElement): boolean {
+  return element.type === 'character' || element.type === 'parenthetical' || element.type === 'dialogue';
+}
+
+export interface DialogueLine {
+  character: string;
+  text: string;
+  parenthetical?: string;
+  range?: SourceRange;
+}
+
+export interface SpeechSegment {
+  type: 'narration' | 'dialogue';
+  text: string;
+  character?: string;
+}
+
+/**
+ * Parses story text into the screenplay model. Bold markers carry most of the
+ * structure, but plain sluglines and upper-case cues are recognised too so
+ * hand-typed stories import the same way. Every element records the range of
+ * text it came from.
+ */
+export function parseStoryText(text: string): Screenplay {
+  const sourceLines = splitLines(text);
+  const lines = sourceLines.map(line => line.text);
+  const screenplay: Screenplay = { elements: [] };
+  const elements = screenplay.elements;
+  let inDialogue = false;
+  let range: SourceRange = { start: 0, end: 0 };
+
+  const push = (element: ScreenplayElement) => {
+    elements.push({ ...element, range });
+    inDialogue = isDialogueElement(element);
+  };
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineStart = sourceLines[index].start;
+    range = {
+      start: lineStart + (rawLine.length - rawLine.trimStart().length),
+      end: lineStart + rawLine.trimEnd().length,
+    };
+
+    if (!line) {
+      inDialogue = false;
+      return;
+    }
+
+    const heading = line.match(/^(#+)\s*(.*)$/);
+    if (heading) {
+      if (heading[1].length === 1 && !screenplay.title && elements.length === 0) {
+        screenplay.title = heading[2].trim();
+      } else {
+        push({ type: 'section', text: heading[2].trim(), depth: Math.max(1, heading[1].length - 1) });
+      }
+      return;
+    }
+
+    const bold = line.match(/^\*\*(.+?)\*\*\s*(.*)$/);
+    if (bold) {
+      const inner = bold[1].trim();
+      const rest = bold[2].trim();
+
+      // "**ARIA:** Hello" and "**ARIA**: Hello" put the line on the same row as the cue
+      const inlineDialogue = inner.endsWith(':') && rest ? rest : rest.startsWith(':') ? rest.slice(1).trim() : '';
+      const cueText = inlineDialogue ? inner.replace(/:$/, '') : `${inner} ${rest}`.trim();
+
+      if (!inlineDialogue && isSceneHeading(inner)) {
+        push({ type: 'scene_heading', text: inner });
+      } else if (!inlineDialogue && isTransition(inner)) {
+        push({ type: 'transition', text: inner });
+      } else if (
+        isCharacterCue(cueText) &&
+        (inlineDialogue || ((!rest || /^\(.*\)$/.test(rest)) && lines[index + 1]?.trim()))
+      ) {
+        push({ type: 'character', ...parseCharacterCue(cueText) });
+        if (inlineDialogue) push({ type: 'dialogue', text: inlineDialogue });
+      } else {
+        // A bold upper-case line nobody speaks after ("THE END") is a title card
+        push({ type: 'action', text: stripEmphasis(line), centered: inner === inner.toUpperCase() && !rest });
+      }
+      return;
+    }
+
+    if (/^\*[^*].*\*$/.test(line)) {
+      push({ type: 'action', text: stripEmphasis(line) });
+      return;
+    }
+
+    if (inDialogue) {
+      if (/^\(.*\)$/.test(line)) {
+        push({ type: 'parenthetical', text: stripParentheses(line) });
+      } else {
+        const previous = elements[elements.length - 1];
+        if (previous.type === 'dialogue') {
+          previous.text += `\n${line}`;
+          previous.range = { start: previous.range?.start ?? range.start, end: range.end };
+        } else {
+          push({ type: 'dialogue', text: line });
+        }
+      }
+      return;
+    }
+
+    if (isSceneHeading(line)) {
+      push({ type: 'scene_heading', text: line });
+    } else if (/^\.[A-Z0-9]/.test(line)) {
+      // Fountain-style forced heading, e.g. ".THE VAULT"
+      push({ type: 'scene_heading', text: line.slice(1) });
+    } else if (isTransition(line)) {
+      push({ type: 'transition', text: line });
+    } else if (isCharacterCue(line) && lines[index + 1]?.trim()) {
+      push({ type: 'character', ...parseCharacterCue(line) });
+    } else {
+      push({ type: 'action', text: stripEmphasis(line) });
+    }
+  });
+
+  return screenplay;
+}
+
+// Dialogue attributed to the cue it follows; names drop extensions so "ARIA (V.O.)" is still ARIA
+export function extractDialogue(screenplay: Screenplay): DialogueLine[] {
+  const lines: DialogueLine[] = [];
+  let speaker: string | undefined;
+  let parenthetical: string | undefined;
+
+  screenplay.elements.forEach(element => {
+    if (element.type === 'character') {
+      speaker = element.name.toUpperCase();
+      parenthetical = undefined;
+    } else if (element.type === 'parenthetical') {
+      parenthetical = element.text;
+    } else if (element.type === 'dialogue' && speaker) {
+      lines.push({ character: speaker, text: element.text, parenthetical, range: element.range });
+      parenthetical = undefined;
+    } else {
+      speaker = undefined;
+    }
+  });
+
+  return lines;
+}
+
+// Everyone with a character cue, in order of first appearance
+export function getSpeakers(screenplay: Screenplay): string[] {
+  const speakers = screenplay.elements
+    .filter((element): element is Extract<ScreenplayElement, { type: 'character' }> => element.type === 'character')
+    .map(element => element.name.toUpperCase());
+  return Array.from(new Set(speakers));
+}
+
+// What a narrator or voice actor reads aloud: action runs become narration, headings and transitions are skipped
+export function toSpeechSegments(screenplay: Screenplay): SpeechSegment[] {
+  const segments: SpeechSegment[] = [];
+  let narration: string[] = [];
+  let speaker: string | undefined;
+
+  const flushNarration = () => {
+    if (narration.length > 0) {
+      segments.push({ type: 'narration', text: narration.join(' ') });
+      narration = [];
+    }
+  };
+
+  screenplay.elements.forEach(element => {
+    if (element.type === 'character') {
+      flushNarration();
+      speaker = element.name.toUpperCase();
+    } else if (element.type === 'dialogue') {
+      if (speaker) segments.push({ type: 'dialogue', text: joinLines(element.text), character: speaker });
+    } else if (element.type !== 'parenthetical') {
+      speaker = undefined;
+      if (element.type === 'action' && !element.centered) {
+        narration.push(joinLines(element.text));
+      } else {
+        flushNarration();
+      }
+    }
+  });
+
+  flushNarration();
+  return segments;
+}
+
+export function toStoryText(screenplay: Screenplay): string {
+  const blocks: string[] = [];
+
+  if (screenplay.title) blocks.push(`# ${screenplay.title}`);
+
+  groupBlocks(screenplay.elements).forEach(group => {
+    const lines = group.map(element => {
+      switch (element.type) {
+        case 'section':
+          return `${'#'.repeat(element.depth + 1)} ${element.text}`;
+        case 'scene_heading':
+          return `**${element.text.toUpperCase()}**`;
+        case 'transition':
+          return `**${element.text.toUpperCase()}**`;
+        case 'action':
+          return element.centered
+            ? `**${element.text}**`
+            : element.text.split('\n').map(line => line.trim() ? `*${line.trim()}*` : '').join('\n');
+        case 'character':
+          return element.extension ? `**${element.name}** (${element.extension})` : `**${element.name}**`;
+        case 'parenthetical':
+          return `(${element.text})`;
+        case 'dialogue':
+          return element.text;
+        case 'page_break':
+          return '';
+      }
+    });
+
+    const block = lines.filter(Boolean).join('\n');
+    if (block) blocks.push(block);
+  });
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Groups elements into the blocks every text format separates with a blank
+ * line: a character cue keeps its parentheticals and dialogue together.
+ */
+export function groupBlocks(elements: ScreenplayElement[]): ScreenplayElement[][] {
+  const groups: ScreenplayElement[][] = [];
+
+  elements.forEach(element => {
+    const current = groups[groups.length - 1];
+    if (current && element.type !== 'character' && isDialogueElement(element) && isDialogueElement(current[0])) {
+      current.push(element);
+    } else {
+      groups.push([element]);
+    }
+  });
+
+  return groups;
+}
+
+function joinLines(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ');
+}
+
+function splitLines(text: string): { text: string; start: number }[] {
+  const lines: { text: string; start: number }[] = [];
+  const breaks = /\r\n?|\n/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = breaks.exec(text))) {
+    lines.push({ text: text.slice(start, match.index), start });
+    start = match.index + match[0].length;
+  }
+  lines.push({ text: text.slice(start), start });
+
+  return lines;
+}
+
+// Removes markdown/Fountain emphasis markers; the model keeps plain text only
+export function stripEmphasis(text: string): string {
+  return text
+    .replace(/\*{1,3}([^*\n]+?)\*{1,3}/g, '$1')
+    .replace(/(^|\W)_([^_\n]+)_(?=\W|$)/g, '$1$2')
+    .replace(/\\([*_])/g, '$1')
+    .trim();
+}
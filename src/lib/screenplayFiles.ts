@@ -0,0 +1,40 @@
+import { Screenplay, ScreenplayFormat } from '../types';
+import { parseStoryText, toStoryText } from './screenplay';
+import { parseFountain, toFountain } from './fountain';
+import { parseFDX, toFDX } from './fdx';
+
+export const SCREENPLAY_FILE_TYPES = '.fountain,.spmd,.fdx,.txt';
+
+const MIME_TYPES: Record<ScreenplayFormat, string> = {
+  fountain: 'text/plain;charset=utf-8',
+  fdx: 'application/xml;charset=utf-8',
+};
+
+// Reads a script written in another tool; anything that isn't Final Draft XML is treated as Fountain
+export function importScreenplay(fileName: string, contents: string): { screenplay: Screenplay; story: string } {
+  const isFDX = /\.fdx$/i.test(fileName) || /<FinalDraft[\s>]/.test(contents);
+  const screenplay = isFDX ? parseFDX(contents) : parseFountain(contents);
+
+  if (!screenplay.elements.some(element => element.type !== 'page_break')) {
+    throw new Error('No screenplay content found in this file');
+  }
+
+  if (!screenplay.title) {
+    screenplay.title = fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || undefined;
+  }
+
+  return { screenplay, story: toStoryText(screenplay) };
+}
+
+export function exportScreenplay(
+  story: { title: string; content: string },
+  format: ScreenplayFormat
+): { fileName: string; contents: string; mimeType: string } {
+  const screenplay = parseStoryText(story.content);
+  screenplay.title = screenplay.title || story.title;
+
+  const fileName = `${story.title.replace(/[\\/:*?"<>|]+/g, '').trim() || 'story'}.${format}`;
+  const contents = format === 'fdx' ? toFDX(screenplay) : toFountain(screenplay);
+
+  return { fileName, contents, mimeType: MIME_TYPES[format] };
+}
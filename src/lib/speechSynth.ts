@@ -0,0 +1,444 @@
+// A small formant speech synthesiser: English letter-to-sound rules pick phonemes, which
+// drive three cascaded vocal-tract resonators excited by a glottal pulse and a noise source
+
+export const SYNTH_SAMPLE_RATE = 16000;
+
+export interface SynthVoice {
+  pitch: number; // Base fundamental in Hz
+  formantScale: number; // Vocal tract size; above 1 sounds smaller
+  rate: number; // 1 is normal speaking speed
+  breathiness: number; // 0-1 share of aspiration mixed into voicing
+}
+
+type Formants = [number, number, number];
+
+interface Phoneme {
+  kind: 'vowel' | 'approximant' | 'nasal' | 'fricative' | 'stop' | 'aspirate';
+  formants: Formants;
+  duration: number; // ms
+  voiced?: boolean;
+  glide?: Formants; // Where a diphthong ends up
+  noise?: number; // Frication or burst centre frequency
+  noiseGain?: number;
+}
+
+// Vowel formants follow Peterson & Barney; consonants carry their locus so neighbouring vowels bend towards them
+const PHONEMES: Record<string, Phoneme> = {
+  AA: { kind: 'vowel', formants: [730, 1090, 2440], duration: 140 },
+  AE: { kind: 'vowel', formants: [660, 1720, 2410], duration: 130 },
+  AH: { kind: 'vowel', formants: [640, 1190, 2390], duration: 100 },
+  AO: { kind: 'vowel', formants: [570, 840, 2410], duration: 140 },
+  AX: { kind: 'vowel', formants: [500, 1500, 2500], duration: 60 },
+  EH: { kind: 'vowel', formants: [530, 1840, 2480], duration: 110 },
+  ER: { kind: 'vowel', formants: [490, 1350, 1690], duration: 130 },
+  IH: { kind: 'vowel', formants: [390, 1990, 2550], duration: 90 },
+  IY: { kind: 'vowel', formants: [270, 2290, 3010], duration: 130 },
+  UH: { kind: 'vowel', formants: [440, 1020, 2240], duration: 90 },
+  UW: { kind: 'vowel', formants: [300, 870, 2240], duration: 130 },
+  EY: { kind: 'vowel', formants: [530, 1840, 2480], glide: [300, 2200, 2900], duration: 160 },
+  AY: { kind: 'vowel', formants: [730, 1090, 2440], glide: [330, 2100, 2800], duration: 180 },
+  OW: { kind: 'vowel', formants: [570, 840, 2410], glide: [330, 800, 2250], duration: 160 },
+  AW: { kind: 'vowel', formants: [730, 1090, 2440], glide: [440, 1020, 2240], duration: 180 },
+  OY: { kind: 'vowel', formants: [570, 840, 2410], glide: [330, 2100, 2800], duration: 190 },
+  L: { kind: 'approximant', formants: [360, 1300, 2700], duration: 70, voiced: true },
+  R: { kind: 'approximant', formants: [420, 1300, 1600], duration: 70, voiced: true },
+  W: { kind: 'approximant', formants: [290, 610, 2150], duration: 60, voiced: true },
+  Y: { kind: 'approximant', formants: [260, 2070, 3020], duration: 60, voiced: true },
+  M: { kind: 'nasal', formants: [480, 1270, 2130], duration: 80, voiced: true },
+  N: { kind: 'nasal', formants: [480, 1340, 2470], duration: 80, voiced: true },
+  NG: { kind: 'nasal', formants: [480, 2000, 2700], duration: 80, voiced: true },
+  F: { kind: 'fricative', formants: [340, 1100, 2080], duration: 100, noise: 4500, noiseGain: 0.4 },
+  TH: { kind: 'fricative', formants: [320, 1290, 2540], duration: 100, noise: 5000, noiseGain: 0.3 },
+  S: { kind: 'fricative', formants: [320, 1390, 2530], duration: 110, noise: 6000, noiseGain: 0.9 },
+  SH: { kind: 'fricative', formants: [300, 1840, 2750], duration: 110, noise: 2800, noiseGain: 1.8 },
+  V: { kind: 'fricative', formants: [220, 1100, 2080], duration: 70, voiced: true, noise: 4500, noiseGain: 0.12 },
+  DH: { kind: 'fricative', formants: [270, 1290, 2540], duration: 60, voiced: true, noise: 5000, noiseGain: 0.1 },
+  Z: { kind: 'fricative', formants: [240, 1390, 2530], duration: 80, voiced: true, noise: 6000, noiseGain: 0.45 },
+  ZH: { kind: 'fricative', formants: [300, 1840, 2750], duration: 80, voiced: true, noise: 2800, noiseGain: 0.9 },
+  HH: { kind: 'aspirate', formants: [500, 1500, 2500], duration: 60 },
+  P: { kind: 'stop', formants: [400, 900, 2100], duration: 70, noise: 1000 },
+  T: { kind: 'stop', formants: [400, 1700, 2600], duration: 60, noise: 4000 },
+  K: { kind: 'stop', formants: [300, 1990, 2850], duration: 70, noise: 2000 },
+  B: { kind: 'stop', formants: [200, 900, 2100], duration: 60, voiced: true, noise: 1000 },
+  D: { kind: 'stop', formants: [200, 1700, 2600], duration: 50, voiced: true, noise: 4000 },
+  G: { kind: 'stop', formants: [200, 1990, 2850], duration: 60, voiced: true, noise: 2000 },
+};
+
+const AFFRICATES: Record<string, string[]> = { CH: ['T', 'SH'], JH: ['D', 'ZH'] };
+
+// Common words the spelling rules get wrong; these are also left unstressed
+const WORDS: Record<string, string> = {
+  a: 'AX', an: 'AE N', the: 'DH AX', of: 'AH V', to: 'T UW', do: 'D UW', does: 'D AH Z', done: 'D AH N',
+  you: 'Y UW', your: 'Y AO R', i: 'AY', is: 'IH Z', was: 'W AA Z', as: 'AE Z', has: 'HH AE Z', his: 'HH IH Z',
+  are: 'AA R', were: 'W ER', he: 'HH IY', she: 'SH IY', we: 'W IY', me: 'M IY', be: 'B IY', been: 'B IH N',
+  they: 'DH EY', them: 'DH EH M', their: 'DH EH R', there: 'DH EH R', where: 'W EH R', here: 'HH IY R',
+  what: 'W AH T', who: 'HH UW', said: 'S EH D', says: 'S EH Z', one: 'W AH N', once: 'W AH N S', two: 'T UW',
+  have: 'HH AE V', give: 'G IH V', live: 'L IH V', love: 'L AH V', come: 'K AH M', some: 'S AH M',
+  none: 'N AH N', eye: 'AY', eyes: 'AY Z', through: 'TH R UW', though: 'DH OW', could: 'K UH D',
+  would: 'W UH D', should: 'SH UH D', this: 'DH IH S', that: 'DH AE T', these: 'DH IY Z', those: 'DH OW Z',
+  then: 'DH EH N', than: 'DH AE N', with: 'W IH DH', know: 'N OW', now: 'N AW', how: 'HH AW', down: 'D AW N',
+  own: 'OW N', only: 'OW N L IY', any: 'EH N IY', many: 'M EH N IY', by: 'B AY', my: 'M AY', why: 'W AY',
+  oh: 'OW', o: 'OW', mr: 'M IH S T ER', mrs: 'M IH S IH Z', dr: 'D AA K T ER', and: 'AE N D', or: 'AO R',
+  in: 'IH N', on: 'AA N', at: 'AE T', it: 'IH T', for: 'F AO R', from: 'F R AH M', but: 'B AH T', not: 'N AA T',
+};
+
+interface SpellingRule {
+  match: string;
+  phonemes: string;
+  before?: RegExp; // Tested against the letters already read
+  after?: RegExp; // Tested against the letters still to come
+}
+
+const CONSONANT = '[bcdfghjklmnpqrstvwxz]';
+const MAGIC_E = new RegExp(`^${CONSONANT}e[sd]?$`);
+
+// First match wins at each position, so longer spellings come first
+const SPELLING_RULES: SpellingRule[] = [
+  { match: 'ation', phonemes: 'EY SH AX N' },
+  { match: 'tion', phonemes: 'SH AX N' },
+  { match: 'sion', phonemes: 'ZH AX N' },
+  { match: 'ture', phonemes: 'CH ER' },
+  { match: 'ough', phonemes: 'AO' },
+  { match: 'augh', phonemes: 'AO' },
+  { match: 'eigh', phonemes: 'EY' },
+  { match: 'igh', phonemes: 'AY' },
+  { match: 'tch', phonemes: 'CH' },
+  { match: 'dge', phonemes: 'JH' },
+  { match: 'ies', phonemes: 'IY Z', after: /^$/ },
+  { match: 'ear', phonemes: 'IY R' },
+  { match: 'all', phonemes: 'AO L' },
+  { match: 'th', phonemes: 'TH' },
+  { match: 'sh', phonemes: 'SH' },
+  { match: 'ch', phonemes: 'CH' },
+  { match: 'ph', phonemes: 'F' },
+  { match: 'wh', phonemes: 'W' },
+  { match: 'ck', phonemes: 'K' },
+  { match: 'ng', phonemes: 'NG' },
+  { match: 'qu', phonemes: 'K W' },
+  { match: 'gh', phonemes: '' },
+  { match: 'kn', phonemes: 'N', before: /^$/ },
+  { match: 'wr', phonemes: 'R', before: /^$/ },
+  { match: 'mb', phonemes: 'M', after: /^$/ },
+  { match: 'ee', phonemes: 'IY' },
+  { match: 'ea', phonemes: 'IY' },
+  { match: 'oo', phonemes: 'UW' },
+  { match: 'ou', phonemes: 'AW' },
+  { match: 'ow', phonemes: 'OW' },
+  { match: 'oi', phonemes: 'OY' },
+  { match: 'oy', phonemes: 'OY' },
+  { match: 'ai', phonemes: 'EY' },
+  { match: 'ay', phonemes: 'EY' },
+  { match: 'au', phonemes: 'AO' },
+  { match: 'aw', phonemes: 'AO' },
+  { match: 'ie', phonemes: 'IY' },
+  { match: 'ei', phonemes: 'EY' },
+  { match: 'oa', phonemes: 'OW' },
+  { match: 'oe', phonemes: 'OW' },
+  { match: 'ue', phonemes: 'UW' },
+  { match: 'ew', phonemes: 'UW' },
+  { match: 'ey', phonemes: 'IY', after: /^$/ },
+  { match: 'ey', phonemes: 'EY' },
+  { match: 'ar', phonemes: 'AA R' },
+  { match: 'or', phonemes: 'AO R' },
+  { match: 'er', phonemes: 'ER' },
+  { match: 'ir', phonemes: 'ER' },
+  { match: 'ur', phonemes: 'ER' },
+  { match: 'ed', phonemes: 'IH D', before: /[td]$/, after: /^$/ },
+  { match: 'ed', phonemes: 'T', before: /(p|k|f|s|x|sh|ch)$/, after: /^$/ },
+  { match: 'ed', phonemes: 'D', before: /[a-z]{2}$/, after: /^$/ },
+  { match: 'es', phonemes: 'IH Z', before: /(s|x|z|ch|sh|g|c)$/, after: /^$/ },
+  { match: 'es', phonemes: 'Z', before: /[a-z]{2}$/, after: /^$/ },
+  { match: 'a', phonemes: 'EY', after: MAGIC_E },
+  { match: 'e', phonemes: 'IY', after: MAGIC_E },
+  { match: 'i', phonemes: 'AY', after: MAGIC_E },
+  { match: 'o', phonemes: 'OW', after: MAGIC_E },
+  { match: 'u', phonemes: 'UW', after: MAGIC_E },
+  { match: 'le', phonemes: 'AX L', before: /[^aeiou]$/, after: /^$/ },
+  { match: 'e', phonemes: '', before: /[a-z]{2}$/, after: /^$/ },
+  { match: 'a', phonemes: 'AX', before: /[a-z]$/, after: /^$/ },
+  { match: 'o', phonemes: 'OW', after: /^$/ },
+  { match: 'a', phonemes: 'AE' },
+  { match: 'e', phonemes: 'EH' },
+  { match: 'i', phonemes: 'IH' },
+  { match: 'o', phonemes: 'AA' },
+  { match: 'u', phonemes: 'AH' },
+  { match: 'y', phonemes: 'Y', before: /^$/ },
+  { match: 'y', phonemes: 'AY', before: /^[^aeiou]{1,2}$/, after: /^$/ },
+  { match: 'y', phonemes: 'IY', after: /^$/ },
+  { match: 'y', phonemes: 'IH' },
+  { match: 'c', phonemes: 'S', after: /^[eiy]/ },
+  { match: 'c', phonemes: 'K' },
+  { match: 'g', phonemes: 'JH', before: /.$/, after: /^[eiy]/ },
+  { match: 'g', phonemes: 'G' },
+  { match: 's', phonemes: 'Z', before: /[aeiou]$/, after: /^[aeiou]/ },
+  { match: 's', phonemes: 'Z', before: /[bdglmnrvw]$/, after: /^$/ },
+  { match: 's', phonemes: 'S' },
+  { match: 'x', phonemes: 'K S' },
+  { match: 'j', phonemes: 'JH' },
+  { match: 'q', phonemes: 'K' },
+  { match: 'b', phonemes: 'B' },
+  { match: 'd', phonemes: 'D' },
+  { match: 'f', phonemes: 'F' },
+  { match: 'h', phonemes: 'HH' },
+  { match: 'k', phonemes: 'K' },
+  { match: 'l', phonemes: 'L' },
+  { match: 'm', phonemes: 'M' },
+  { match: 'n', phonemes: 'N' },
+  { match: 'p', phonemes: 'P' },
+  { match: 'r', phonemes: 'R' },
+  { match: 't', phonemes: 'T' },
+  { match: 'v', phonemes: 'V' },
+  { match: 'w', phonemes: 'W' },
+  { match: 'z', phonemes: 'Z' },
+];
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven',
+  'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const COMMA_PAUSE = 180; // ms
+const SENTENCE_PAUSE = 420; // ms
+
+// A sentence is the unit the pitch contour is shaped over
+export function splitSentences(text: string): string[] {
+  return (text.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]*["')\]]*/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => /[a-z0-9]/i.test(sentence));
+}
+
+export function renderSentence(sentence: string, voice: SynthVoice): Float32Array {
+  const targets = planSentence(sentence, voice);
+  const sampleCount = targets.reduce((total, target) => total + target.samples, 0);
+  const output = new Float32Array(sampleCount);
+  const isQuestion = sentence.trim().replace(/["')\]]+$/, '').endsWith('?');
+
+  const resonators = [createResonator(), createResonator(), createResonator()];
+  const fricationFilter = createResonator();
+  const state = { formants: [...targets[0].formants] as Formants, voicing: 0, aspiration: 0, frication: 0 };
+  const formantSmoothing = 1 - Math.exp(-1 / (0.018 * SYNTH_SAMPLE_RATE));
+  const levelSmoothing = 1 - Math.exp(-1 / (0.006 * SYNTH_SAMPLE_RATE));
+
+  let phase = 0;
+  let previousPulse = 0;
+  let position = 0;
+
+  targets.forEach(target => {
+    for (let i = 0; i < target.samples; i++, position++) {
+      const progress = i / target.samples;
+      const goal = target.glide ? mixFormants(target.formants, target.glide, progress) : target.formants;
+      for (let f = 0; f < 3; f++) {
+        state.formants[f] += (goal[f] - state.formants[f]) * formantSmoothing;
+      }
+      state.voicing += (target.voicing - state.voicing) * levelSmoothing;
+      state.aspiration += (target.aspiration - state.aspiration) * levelSmoothing;
+      state.frication += (target.frication - state.frication) * levelSmoothing;
+
+      // Declining pitch over the sentence, rising at the end of questions, with a touch of vibrato
+      const time = position / sampleCount;
+      const contour = isQuestion && time > 0.75 ? 0.9 + (time - 0.75) * 1.4 : 1.1 - time * 0.25;
+      const f0 = voice.pitch * contour * target.pitch * (1 + 0.006 * Math.sin(2 * Math.PI * 5 * position / SYNTH_SAMPLE_RATE));
+
+      phase = (phase + f0 / SYNTH_SAMPLE_RATE) % 1;
+      const pulse = glottalPulse(phase);
+      const source = (pulse - previousPulse) * (SYNTH_SAMPLE_RATE / f0) * 0.25;
+      previousPulse = pulse;
+
+      const noise = Math.random() * 2 - 1;
+      let tract = source * state.voicing * (1 - voice.breathiness * 0.5) +
+        noise * (state.aspiration + state.voicing * voice.breathiness * 0.3);
+      resonators.forEach((resonator, f) => {
+        tract = resonator(tract, state.formants[f], [60, 90, 150][f]);
+      });
+
+      const frication = fricationFilter(noise * state.frication, target.noise, target.noise * 0.35);
+      output[position] = tract * 0.1 + frication * 0.04;
+    }
+  });
+
+  return output;
+}
+
+// Joins rendered sentences with a pause between each and scales the result to a safe peak
+export function joinSentences(sentences: Float32Array[]): Float32Array {
+  const pause = Math.round(SENTENCE_PAUSE / 1000 * SYNTH_SAMPLE_RATE);
+  const length = sentences.reduce((total, sentence) => total + sentence.length + pause, 0);
+  const output = new Float32Array(length);
+
+  let offset = 0;
+  sentences.forEach(sentence => {
+    output.set(sentence, offset);
+    offset += sentence.length + pause;
+  });
+
+  let peak = 0;
+  for (let i = 0; i < output.length; i++) peak = Math.max(peak, Math.abs(output[i]));
+  if (peak > 0) {
+    const scale = 0.9 / peak;
+    for (let i = 0; i < output.length; i++) output[i] *= scale;
+  }
+
+  return output;
+}
+
+// Letter-to-sound for one word, exposed so callers can check how a name will be read
+export function wordToPhonemes(word: string): string[] {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (WORDS[cleaned]) return WORDS[cleaned].split(' ');
+
+  const letters = cleaned.replace(/([bcdfgklmnprstvz])\1/g, '$1');
+  const phonemes: string[] = [];
+  let index = 0;
+
+  while (index < letters.length) {
+    const before = letters.slice(0, index);
+    const rule = SPELLING_RULES.find(candidate =>
+      letters.startsWith(candidate.match, index) &&
+      (!candidate.before || candidate.before.test(before)) &&
+      (!candidate.after || candidate.after.test(letters.slice(index + candidate.match.length)))
+    );
+
+    if (rule) {
+      if (rule.phonemes) phonemes.push(...rule.phonemes.split(' '));
+      index += rule.match.length;
+    } else {
+      index++;
+    }
+  }
+
+  return phonemes;
+}
+
+interface Target {
+  samples: number;
+  formants: Formants;
+  glide?: Formants;
+  voicing: number;
+  aspiration: number;
+  frication: number;
+  noise: number;
+  pitch: number;
+}
+
+function planSentence(sentence: string, voice: SynthVoice): Target[] {
+  const tokens = normaliseText(sentence).match(/[a-z']+|[,;:]/g) || [];
+  const sequence: { phoneme: string; stressed: boolean }[] = [];
+
+  tokens.forEach(token => {
+    if (/^[,;:]$/.test(token)) {
+      sequence.push({ phoneme: ',', stressed: false });
+      return;
+    }
+
+    const phonemes = wordToPhonemes(token).flatMap(phoneme => AFFRICATES[phoneme] || [phoneme]);
+    const stressIndex = WORDS[token] ? -1 : phonemes.findIndex(phoneme => PHONEMES[phoneme]?.kind === 'vowel');
+    phonemes.forEach((phoneme, index) => sequence.push({ phoneme, stressed: index === stressIndex }));
+  });
+
+  const scale = (formants: Formants) => formants.map(f => f * voice.formantScale) as Formants;
+  const ms = (duration: number) => Math.max(1, Math.round(duration / voice.rate / 1000 * SYNTH_SAMPLE_RATE));
+  const silence = (duration: number, formants: Formants): Target => ({
+    samples: ms(duration), formants, voicing: 0, aspiration: 0, frication: 0, noise: 1000, pitch: 1,
+  });
+
+  const targets: Target[] = [silence(40, scale(PHONEMES.AX.formants))];
+
+  sequence.forEach(({ phoneme, stressed }, index) => {
+    if (phoneme === ',') {
+      targets.push(silence(COMMA_PAUSE, targets[targets.length - 1].formants));
+      return;
+    }
+
+    const spec = PHONEMES[phoneme];
+    if (!spec) return;
+
+    const formants = scale(spec.formants);
+    const next = PHONEMES[sequence[index + 1]?.phoneme];
+    const base = { formants, voicing: 0, aspiration: 0, frication: 0, noise: spec.noise || 1000, pitch: stressed ? 1.15 : 1 };
+
+    switch (spec.kind) {
+      case 'vowel':
+        targets.push({
+          ...base,
+          samples: ms(spec.duration * (stressed ? 1.3 : 1)),
+          glide: spec.glide && scale(spec.glide),
+          voicing: 1,
+        });
+        break;
+      case 'approximant':
+        targets.push({ ...base, samples: ms(spec.duration), voicing: 0.8 });
+        break;
+      case 'nasal':
+        targets.push({ ...base, samples: ms(spec.duration), voicing: 0.55 });
+        break;
+      case 'fricative':
+        targets.push({ ...base, samples: ms(spec.duration), voicing: spec.voiced ? 0.5 : 0, frication: spec.noiseGain || 0.3 });
+        break;
+      case 'aspirate':
+        // The breath takes the shape of the vowel it leads into
+        targets.push({ ...base, formants: next ? scale(next.formants) : formants, samples: ms(spec.duration), aspiration: 0.5 });
+        break;
+      case 'stop':
+        targets.push({ ...base, samples: ms(spec.duration), voicing: spec.voiced ? 0.15 : 0 });
+        targets.push({ ...base, samples: ms(15), voicing: spec.voiced ? 0.3 : 0, frication: 0.6 });
+        if (!spec.voiced && next?.kind === 'vowel') {
+          targets.push({ ...base, samples: ms(35), aspiration: 0.35 });
+        }
+        break;
+    }
+  });
+
+  targets.push(silence(60, targets[targets.length - 1].formants));
+  return targets;
+}
+
+function normaliseText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/%/g, ' percent ')
+    .replace(/\d+/g, digits => ` ${numberToWords(parseInt(digits, 10))} `)
+    // A hyphen inside a word joins syllables ("thaw-rin"); anywhere else it is a pause
+    .replace(/([a-z])-(?=[a-z])/g, '$1 ')
+    .replace(/[—–-]+/g, ', ');
+}
+
+function numberToWords(value: number): string {
+  if (value < 20) return ONES[value];
+  if (value < 100) return `${TENS[Math.floor(value / 10)]}${value % 10 ? ` ${ONES[value % 10]}` : ''}`;
+  if (value < 1000) {
+    return `${ONES[Math.floor(value / 100)]} hundred${value % 100 ? ` and ${numberToWords(value % 100)}` : ''}`;
+  }
+  if (value < 1000000) {
+    return `${numberToWords(Math.floor(value / 1000))} thousand${value % 1000 ? ` ${numberToWords(value % 1000)}` : ''}`;
+  }
+  // Longer figures are read digit by digit
+  return String(value).split('').map(digit => ONES[Number(digit)]).join(' ');
+}
+
+function mixFormants(from: Formants, to: Formants, amount: number): Formants {
+  return from.map((f, i) => f + (to[i] - f) * amount) as Formants;
+}
+
+// Rosenberg pulse: a smooth opening, a faster close, then the glottis stays shut
+function glottalPulse(phase: number): number {
+  if (phase < 0.4) return 0.5 * (1 - Math.cos(Math.PI * phase / 0.4));
+  if (phase < 0.56) return Math.cos(Math.PI * (phase - 0.4) / 0.32);
+  return 0;
+}
+
+// Two-pole resonator with unity gain at DC (Klatt 1980)
+function createResonator(): (input: number, frequency: number, bandwidth: number) => number {
+  let y1 = 0;
+  let y2 = 0;
+
+  return (input, frequency, bandwidth) => {
+    const period = 1 / SYNTH_SAMPLE_RATE;
+    const c = -Math.exp(-2 * Math.PI * bandwidth * period);
+    const b = 2 * Math.exp(-Math.PI * bandwidth * period) * Math.cos(2 * Math.PI * Math.min(frequency, SYNTH_SAMPLE_RATE * 0.45) * period);
+    const a = 1 - b - c;
+    const output = a * input + b * y1 + c * y2;
+    y2 = y1;
+    y1 = output;
+    return output;
+  };
+}
@@ -0,0 +1,229 @@
+import { Scene, StoryboardFrame } from '../types';
+import { buildPdf, PdfImage, PdfPage } from './pdf';
+
+const STILL_WIDTH = 960;
+const STILL_HEIGHT = 540;
+
+// A4 landscape in points, with six stills to a page
+const PAGE = { width: 842, height: 595, margin: 36, columns: 3, rows: 2, gap: 18 };
+
+interface BoardEntry {
+  label: string; // Scene number, with a letter when the scene has several stills
+  scene: Scene;
+  frame: StoryboardFrame;
+}
+
+// The stills a scene contributes to an export: the approved ones, or its first until one is approved
+export function boardFrames(scene: Scene): StoryboardFrame[] {
+  const frames = scene.storyboard || [];
+  const approved = frames.filter(frame => frame.approved);
+  return approved.length > 0 ? approved : frames.slice(0, 1);
+}
+
+function boardEntries(scenes: Scene[]): BoardEntry[] {
+  const entries = scenes.flatMap((scene, index) => boardFrames(scene).map((frame, shot, frames) => ({
+    label: frames.length > 1 ? `${index + 1}${String.fromCharCode(97 + shot)}` : `${index + 1}`,
+    scene,
+    frame,
+  })));
+
+  if (entries.length === 0) {
+    throw new Error('Generate stills for at least one scene first');
+  }
+  return entries;
+}
+
+// One image with every still and its caption, for a quick look or sharing in chat
+export async function renderContactSheet(title: string, scenes: Scene[]): Promise<Blob> {
+  const entries = boardEntries(scenes);
+  const columns = Math.min(4, entries.length);
+  const rows = Math.ceil(entries.length / columns);
+  const cell = { width: 400, image: 225, caption: 64 };
+  const gap = 24;
+  const header = 96;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = gap + columns * (cell.width + gap);
+  canvas.height = header + rows * (cell.image + cell.caption + gap);
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 36px sans-serif';
+  ctx.fillText(fitText(ctx, title, canvas.width - gap * 2), gap, 56);
+  ctx.fillStyle = '#6b7280';
+  ctx.font = '18px sans-serif';
+  ctx.fillText(`Storyboard · ${scenes.length} scenes · ${entries.length} stills`, gap, 84);
+
+  const images = await Promise.all(entries.map(entry => loadImage(entry.frame.url)));
+
+  entries.forEach((entry, index) => {
+    const x = gap + (index % columns) * (cell.width + gap);
+    const y = header + Math.floor(index / columns) * (cell.image + cell.caption + gap);
+
+    drawStill(ctx, images[index], x, y, cell.width, cell.image);
+
+    ctx.fillStyle = '#111827';
+    ctx.font = 'bold 18px sans-serif';
+    ctx.fillText(fitText(ctx, `${entry.label}. ${entry.scene.title}`, cell.width), x, y + cell.image + 26);
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '15px sans-serif';
+    ctx.fillText(fitText(ctx, entry.frame.shot || entry.scene.setting || '', cell.width), x, y + cell.image + 50);
+  });
+
+  return canvasBlob(canvas, 'image/jpeg', 0.9);
+}
+
+/**
+ * A printable storyboard: six stills to a landscape page, each captioned with
+ * its scene, shot and what happens.
+ */
+export async function buildStoryboardPdf(title: string, scenes: Scene[]): Promise<Blob> {
+  const entries = boardEntries(scenes);
+  const images: PdfImage[] = [];
+  for (const entry of entries) {
+    images.push(await toJpeg(entry.frame.url));
+  }
+
+  const perPage = PAGE.columns * PAGE.rows;
+  const pageCount = Math.ceil(entries.length / perPage);
+  const cellWidth = (PAGE.width - PAGE.margin * 2 - PAGE.gap * (PAGE.columns - 1)) / PAGE.columns;
+  const imageHeight = cellWidth * STILL_HEIGHT / STILL_WIDTH;
+  const rowHeight = imageHeight + 70;
+  const top = PAGE.margin + 36;
+
+  const pages: PdfPage[] = Array.from({ length: pageCount }, (_, pageIndex) => {
+    const page: PdfPage = {
+      width: PAGE.width,
+      height: PAGE.height,
+      rects: [],
+      images: [],
+      texts: [
+        { text: title, x: PAGE.margin, y: PAGE.margin, size: 18, bold: true },
+        { text: `Page ${pageIndex + 1} of ${pageCount}`, x: PAGE.width - PAGE.margin - 60, y: PAGE.margin + 6, size: 9 },
+      ],
+    };
+
+    entries.slice(pageIndex * perPage, (pageIndex + 1) * perPage).forEach((entry, index) => {
+      const x = PAGE.margin + (index % PAGE.columns) * (cellWidth + PAGE.gap);
+      const y = top + Math.floor(index / PAGE.columns) * (rowHeight + PAGE.gap);
+      const captionY = y + imageHeight + 6;
+
+      page.rects.push({ x: x - 0.5, y: y - 0.5, width: cellWidth + 1, height: imageHeight + 1, gray: 0.2 });
+      page.images.push({ image: pageIndex * perPage + index, x, y, width: cellWidth, height: imageHeight });
+      page.texts.push({ text: clip(`${entry.label}. ${entry.scene.title}`, cellWidth, 10), x, y: captionY, size: 10, bold: true });
+      if (entry.frame.shot) {
+        page.texts.push({ text: clip(entry.frame.shot, cellWidth, 8), x, y: captionY + 14, size: 8 });
+      }
+      wrapChars(entry.scene.content, cellWidth, 8, 3).forEach((line, lineIndex) => {
+        page.texts.push({ text: line, x, y: captionY + 26 + lineIndex * 10, size: 8 });
+      });
+    });
+
+    return page;
+  });
+
+  return buildPdf(pages, images);
+}
+
+// Stills are redrawn at one size as JPEG, which PDF can hold without re-encoding
+async function toJpeg(url: string): Promise<PdfImage> {
+  const canvas = document.createElement('canvas');
+  canvas.width = STILL_WIDTH;
+  canvas.height = STILL_HEIGHT;
+  drawStill(canvas.getContext('2d')!, await loadImage(url), 0, 0, STILL_WIDTH, STILL_HEIGHT);
+
+  const blob = await canvasBlob(canvas, 'image/jpeg', 0.85);
+  return { data: new Uint8Array(await blob.arrayBuffer()), width: STILL_WIDTH, height: STILL_HEIGHT };
+}
+
+// Cross-origin stills only export when served with CORS, so a missing one is drawn as a blank panel
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => {
+      console.warn('⚠️ Storyboard still could not be loaded:', url);
+      resolve(null);
+    };
+    image.src = url;
+  });
+}
+
+function drawStill(ctx: CanvasRenderingContext2D, image: HTMLImageElement | null, x: number, y: number, width: number, height: number) {
+  ctx.fillStyle = '#e5e7eb';
+  ctx.fillRect(x, y, width, height);
+
+  if (!image) {
+    ctx.fillStyle = '#9ca3af';
+    ctx.font = `${Math.round(height / 10)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.fillText('Still unavailable', x + width / 2, y + height / 2);
+    ctx.textAlign = 'left';
+    return;
+  }
+
+  // Cover the panel, cropping whatever doesn't fit its shape
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const sourceWidth = width / scale;
+  const sourceHeight = height / scale;
+  ctx.drawImage(
+    image,
+    (image.naturalWidth - sourceWidth) / 2,
+    (image.naturalHeight - sourceHeight) / 2,
+    sourceWidth,
+    sourceHeight,
+    x,
+    y,
+    width,
+    height
+  );
+}
+
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+}
+
+// Helvetica averages about half an em per character, which is close enough for captions
+function clip(text: string, width: number, size: number): string {
+  const maxChars = Math.floor(width / (size * 0.5));
+  return text.length > maxChars ? `${text.slice(0, maxChars - 3).trimEnd()}...` : text;
+}
+
+function wrapChars(text: string, width: number, size: number, maxLines: number): string[] {
+  const maxChars = Math.floor(width / (size * 0.5));
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      line = candidate;
+      continue;
+    }
+    if (lines.length === maxLines - 1) {
+      lines.push(clip(`${candidate}...`, width, size));
+      return lines;
+    }
+    if (line) lines.push(line);
+    line = word;
+  }
+  if (line) lines.push(line);
+
+  return lines.slice(0, maxLines);
+}
+
+function canvasBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => canvas.toBlob(
+    blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')),
+    type,
+    quality
+  ));
+}
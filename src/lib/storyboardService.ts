@@ -0,0 +1,200 @@
+import { supabase } from './supabase';
+import { characterService } from './characterService';
+import { ExtractedCharacter, Scene, StoryboardFrame } from '../types';
+
+const STORYBOARD_BUCKET = 'storyboards';
+const FRAME_WIDTH = 1024;
+const FRAME_HEIGHT = 576;
+
+// Framings used when a scene has no shot plan, so a scene's stills differ from each other
+const DEFAULT_SHOTS = ['wide establishing shot', 'medium shot', 'close-up'];
+
+export type StoryboardStyle = 'cinematic' | 'illustrated' | 'comic' | 'pencil sketch';
+
+interface StoredImage {
+  url: string;
+  path: string;
+}
+
+export class StoryboardService {
+  private static instance: StoryboardService;
+
+  private constructor() {}
+
+  public static getInstance(): StoryboardService {
+    if (!StoryboardService.instance) {
+      StoryboardService.instance = new StoryboardService();
+    }
+    return StoryboardService.instance;
+  }
+
+  // Without a diffusion provider, stills are sketched in the browser from the scene text
+  public hasImageProvider(): boolean {
+    return characterService.hasImageProvider();
+  }
+
+  // The first approved still a video provider can fetch; sketches only exist in this tab
+  public approvedStillUrl(frames?: StoryboardFrame[]): string | undefined {
+    return frames?.find(frame =>
+      frame.approved && frame.provider !== 'sketch' && /^https?:/.test(frame.url)
+    )?.url;
+  }
+
+  // What each of a scene's stills is framed as, following its shot plan when it has one
+  public shotsFor(scene: Scene, count: number): string[] {
+    const planned = (scene.plan?.shots || []).map(shot => `${shot.camera}, ${shot.description}`);
+    const shots = planned.length > 0 ? planned : DEFAULT_SHOTS;
+    return Array.from({ length: count }, (_, index) => shots[index % shots.length]);
+  }
+
+  public buildPrompt(scene: Scene, shot: string, characters: ExtractedCharacter[], style: StoryboardStyle): string {
+    const cast = characters
+      .filter(character => scene.characters.some(name => name.toUpperCase() === character.name.toUpperCase()))
+      .map(character => `${character.name}, ${character.description}`)
+      .join('; ');
+
+    return [
+      `Storyboard keyframe, ${shot}`,
+      scene.visualPrompt || scene.content.slice(0, 300),
+      scene.setting && `Setting: ${scene.setting}`,
+      scene.plan?.mood && `${scene.plan.mood} mood`,
+      cast && `Characters: ${cast}`,
+      `${style} style, cinematic composition, 16:9 film still`,
+    ].filter(Boolean).join('. ');
+  }
+
+  /**
+   * Generates a still of the scene through the character image providers and
+   * copies it into storage, since provider URLs expire and blob URLs only live
+   * in this tab.
+   */
+  public async generateFrame(
+    storyId: string,
+    scene: Scene,
+    shot: string,
+    characters: ExtractedCharacter[],
+    style: StoryboardStyle = 'cinematic'
+  ): Promise<StoryboardFrame> {
+    const prompt = this.buildPrompt(scene, shot, characters, style);
+    console.log('🎨 Generating storyboard still:', scene.title, '-', shot);
+
+    const image = this.hasImageProvider()
+      ? await characterService.generateImage(prompt, FRAME_WIDTH, FRAME_HEIGHT)
+      : { url: sketchFrame(scene, shot), provider: 'sketch' };
+
+    const frame: StoryboardFrame = {
+      id: `frame-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      url: image.url,
+      prompt,
+      provider: image.provider,
+      shot,
+      approved: false,
+      created_at: new Date().toISOString(),
+    };
+
+    try {
+      const blob = await (await fetch(frame.url)).blob();
+      const stored = await this.upload(storyId, frame.id, blob);
+      if (frame.url.startsWith('blob:')) URL.revokeObjectURL(frame.url);
+      return { ...frame, url: stored.url, storage_path: stored.path };
+    } catch (error) {
+      console.warn('⚠️ Could not store storyboard still, keeping its original URL:', error);
+      return frame;
+    }
+  }
+
+  // A picture the user chose in place of a generated still, which counts as approved
+  public async uploadFrame(storyId: string, file: File, replacing: StoryboardFrame): Promise<StoryboardFrame> {
+    const id = `frame-${Date.now()}`;
+    const stored = await this.upload(storyId, id, file);
+
+    return {
+      id,
+      url: stored.url,
+      prompt: replacing.prompt,
+      provider: 'upload',
+      shot: replacing.shot,
+      approved: true,
+      storage_path: stored.path,
+      created_at: new Date().toISOString(),
+    };
+  }
+
+  public async removeFrames(frames: StoryboardFrame[]): Promise<void> {
+    const paths = frames.map(frame => frame.storage_path).filter((path): path is string => !!path);
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage.from(STORYBOARD_BUCKET).remove(paths);
+
+    if (error) {
+      // Orphaned objects are harmless, so only log
+      console.warn('⚠️ Failed to remove stored stills:', error.message);
+    }
+  }
+
+  private async upload(storyId: string, frameId: string, blob: Blob): Promise<StoredImage> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const contentType = blob.type || 'image/png';
+    const extension = contentType.includes('jpeg') ? 'jpg' : contentType.includes('webp') ? 'webp' : 'png';
+    const path = `${user.id}/${storyId}/${frameId}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from(STORYBOARD_BUCKET)
+      .upload(path, blob, { contentType, upsert: true });
+
+    if (error) {
+      console.error('❌ Storyboard upload error:', error);
+      throw new Error(error.message || 'Failed to upload still');
+    }
+
+    const { data } = supabase.storage.from(STORYBOARD_BUCKET).getPublicUrl(path);
+
+    return { url: data.publicUrl, path };
+  }
+}
+
+// A plain card with the shot and scene description, as a PNG data URL
+function sketchFrame(scene: Scene, shot: string): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = FRAME_WIDTH;
+  canvas.height = FRAME_HEIGHT;
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.fillStyle = '#f5f1e8';
+  ctx.fillRect(0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+  ctx.strokeStyle = '#2d2d2d';
+  ctx.lineWidth = 6;
+  ctx.strokeRect(24, 24, FRAME_WIDTH - 48, FRAME_HEIGHT - 48);
+
+  ctx.fillStyle = '#2d2d2d';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.fillText(shot.toUpperCase().slice(0, 60), 56, 84);
+  ctx.font = 'bold 44px serif';
+  ctx.fillText(scene.title.slice(0, 40), 56, 150);
+
+  ctx.font = '26px serif';
+  const words = (scene.visualPrompt || scene.content).split(/\s+/).filter(Boolean);
+  let line = '';
+  let y = 210;
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > FRAME_WIDTH - 112) {
+      ctx.fillText(line, 56, y);
+      line = word;
+      y += 38;
+      if (y > FRAME_HEIGHT - 80) break;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line && y <= FRAME_HEIGHT - 80) ctx.fillText(line, 56, y);
+
+  return canvas.toDataURL('image/png');
+}
+
+export const storyboardService = StoryboardService.getInstance();
@@ -0,0 +1,180 @@
+import { AudioClip, MixdownSettings, SubtitleCue, WordTiming } from '../types';
+import { audioMixService, DEFAULT_MIXDOWN_SETTINGS } from './audioMixService';
+
+const MAX_LINE_LENGTH = 42;
+const MAX_CUE_LENGTH = MAX_LINE_LENGTH * 2;
+const MAX_CUE_SECONDS = 6;
+const MIN_CUE_SECONDS = 1;
+
+// Character-level alignment as returned by ElevenLabs' with-timestamps endpoint
+export interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+export function alignmentToWords(alignment: CharacterAlignment): WordTiming[] {
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+
+  alignment.characters.forEach((char, index) => {
+    if (/\s/.test(char)) {
+      current = null;
+      return;
+    }
+
+    if (!current) {
+      current = { word: '', start: alignment.character_start_times_seconds[index], end: 0 };
+      words.push(current);
+    }
+    current.word += char;
+    current.end = alignment.character_end_times_seconds[index];
+  });
+
+  return words;
+}
+
+/**
+ * Spreads a clip's known duration over its words. Longer words take longer and
+ * punctuation adds a pause, which lands close enough for subtitles when the
+ * voice provider returns no alignment.
+ */
+export function estimateWordTimings(text: string, duration: number): WordTiming[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const weights = words.map(word => {
+    const letters = word.replace(/[^\p{L}\p{N}]/gu, '').length || 1;
+    const pause = /[.!?…]["')\]]*$/.test(word) ? 6 : /[,;:—]["')\]]*$/.test(word) ? 3 : 0;
+    return { speech: letters + 2, pause };
+  });
+
+  const total = weights.reduce((sum, weight) => sum + weight.speech + weight.pause, 0);
+  const secondsPerUnit = total > 0 ? duration / total : 0;
+  let cursor = 0;
+
+  return words.map((word, index) => {
+    const start = cursor;
+    const end = start + weights[index].speech * secondsPerUnit;
+    cursor = end + weights[index].pause * secondsPerUnit;
+    return { word, start, end };
+  });
+}
+
+// Timings for audio that came back without them: measure the real length, then estimate
+export async function timeSpeech(audioUrl: string, text: string): Promise<{ words: WordTiming[]; duration: number }> {
+  const duration = await audioMixService.measureDuration(audioUrl);
+  return { words: estimateWordTimings(text, duration), duration };
+}
+
+/**
+ * Where each clip starts on the story timeline when no mixdown has been
+ * rendered, following the same pauses and fade-in the mixer uses.
+ */
+export function placeClips(
+  clips: AudioClip[],
+  settings: Partial<MixdownSettings> = {}
+): { clipId: string; start: number; end: number }[] {
+  const options = { ...DEFAULT_MIXDOWN_SETTINGS, ...settings };
+  const timed = clips.filter(clip => clip.duration);
+  let cursor = options.fadeIn;
+
+  return timed.map((clip, index) => {
+    const previous = timed[index - 1];
+    if (previous) {
+      cursor += previous.scene !== clip.scene ? options.scenePause : options.clipPause;
+    }
+    const start = cursor;
+    cursor += clip.duration!;
+    return { clipId: clip.id, start, end: cursor };
+  });
+}
+
+// Subtitle cues for the whole story: each placed clip's words, grouped into readable lines
+export function buildSubtitleCues(
+  clips: AudioClip[],
+  placements: { clipId: string; start: number; end: number }[]
+): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  placements.forEach(placement => {
+    const clip = clips.find(c => c.id === placement.clipId);
+    if (!clip?.text) return;
+
+    const words = clip.words?.length
+      ? clip.words
+      : estimateWordTimings(clip.text, placement.end - placement.start);
+    const speaker = clip.type === 'dialogue' ? clip.character : undefined;
+    let group: WordTiming[] = [];
+
+    const flush = () => {
+      if (group.length === 0) return;
+      cues.push({
+        start: placement.start + group[0].start,
+        end: placement.start + group[group.length - 1].end,
+        text: group.map(w => w.word).join(' '),
+        speaker,
+      });
+      group = [];
+    };
+
+    words.forEach(word => {
+      const text = [...group, word].map(w => w.word).join(' ');
+      if (group.length > 0 && (text.length > MAX_CUE_LENGTH || word.end - group[0].start > MAX_CUE_SECONDS)) {
+        flush();
+      }
+      group.push(word);
+      if (/[.!?…]["')\]]*$/.test(word.word)) flush();
+    });
+    flush();
+  });
+
+  // Hold short cues on screen a little longer, without running into the next one
+  return cues.map((cue, index) => {
+    const next = cues[index + 1];
+    const end = Math.max(cue.end, cue.start + MIN_CUE_SECONDS);
+    return { ...cue, end: next ? Math.min(end, next.start) : end };
+  });
+}
+
+export function toSRT(cues: SubtitleCue[]): string {
+  return cues.map((cue, index) => [
+    String(index + 1),
+    `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+    wrapLines(cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text),
+  ].join('\n')).join('\n\n') + '\n';
+}
+
+export function toWebVTT(cues: SubtitleCue[]): string {
+  const body = cues.map(cue => [
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+    cue.speaker ? `<v ${escapeVTT(cue.speaker)}>${escapeVTT(wrapLines(cue.text))}` : escapeVTT(wrapLines(cue.text)),
+  ].join('\n'));
+
+  return ['WEBVTT', ...body].join('\n\n') + '\n';
+}
+
+// Breaks a cue into at most two balanced lines
+function wrapLines(text: string): string {
+  if (text.length <= MAX_LINE_LENGTH) return text;
+
+  const middle = text.length / 2;
+  let split = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === ' ' && (split === -1 || Math.abs(i - middle) < Math.abs(split - middle))) split = i;
+  }
+
+  return split === -1 ? text : `${text.slice(0, split)}\n${text.slice(split + 1)}`;
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+function escapeVTT(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,84 @@
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+  oldLine?: number; // 1-based line number in the original text
+  newLine?: number; // 1-based line number in the changed text
+}
+
+// Above this many LCS cells the changed block is shown as a plain replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+// Line-level diff based on the longest common subsequence
+export function diffLines(original: string, changed: string): DiffLine[] {
+  const a = original.split('\n');
+  const b = changed.split('\n');
+
+  // Trim the common prefix and suffix so the LCS table only covers the edited block
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'unchanged', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  result.push(...diffBlock(a.slice(start, endA), b.slice(start, endB), start, start));
+
+  for (let i = endA, j = endB; i < a.length; i++, j++) {
+    result.push({ type: 'unchanged', text: a[i], oldLine: i + 1, newLine: j + 1 });
+  }
+
+  return result;
+}
+
+export function summarizeDiff(diff: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: diff.filter(line => line.type === 'added').length,
+    removed: diff.filter(line => line.type === 'removed').length,
+  };
+}
+
+function diffBlock(a: string[], b: string[], offsetA: number, offsetB: number): DiffLine[] {
+  const removed = (i: number): DiffLine => ({ type: 'removed', text: a[i], oldLine: offsetA + i + 1 });
+  const added = (j: number): DiffLine => ({ type: 'added', text: b[j], newLine: offsetB + j + 1 });
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [...a.map((_, i) => removed(i)), ...b.map((_, j) => added(j))];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'unchanged', text: a[i], oldLine: offsetA + i + 1, newLine: offsetB + j + 1 });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push(removed(i++));
+    } else {
+      result.push(added(j++));
+    }
+  }
+  while (i < a.length) result.push(removed(i++));
+  while (j < b.length) result.push(added(j++));
+
+  return result;
+}
@@ -0,0 +1,236 @@
+import { AudioClip, EditList, SubtitleCue, TimelineClip, TimelineTrackKind, Video, VideoSegment } from '../types';
+import { audioMixService } from './audioMixService';
+import { audioStorageService } from './audioStorageService';
+import { videoStorageService } from './videoStorageService';
+import { buildSubtitleCues, placeClips } from './subtitles';
+import { videoCompositor, CompositionResult, CompositionScene } from './videoCompositor';
+
+export const TRACK_KINDS: TimelineTrackKind[] = ['video', 'narration', 'dialogue', 'music'];
+export const MIN_CLIP_SECONDS = 0.5;
+
+export function clipLength(clip: TimelineClip): number {
+  return clip.out - clip.in;
+}
+
+export function clipEnd(clip: TimelineClip): number {
+  return clip.start + clipLength(clip);
+}
+
+export function trackClips(editList: EditList, kind: TimelineTrackKind): TimelineClip[] {
+  return editList.tracks.find(track => track.kind === kind)?.clips || [];
+}
+
+// Video clips play back to back, so their starts follow from their order and trims
+export function layoutSequence(clips: TimelineClip[]): TimelineClip[] {
+  let cursor = 0;
+  return clips.map(clip => {
+    const placed = { ...clip, start: cursor };
+    cursor += clipLength(clip);
+    return placed;
+  });
+}
+
+export function editDuration(editList: EditList): number {
+  return Math.max(0, ...editList.tracks.flatMap(track => track.clips.map(clipEnd)));
+}
+
+/**
+ * A first edit of a video: its scene clips in order, or the whole video when it
+ * wasn't rendered scene by scene, with the story's narration and dialogue laid
+ * out where the mixdown places them.
+ */
+export async function createEditList(video: Video, segments: VideoSegment[], audio: AudioClip[]): Promise<EditList> {
+  const sources = segments.length > 0
+    ? segments
+      .filter(segment => segment.status === 'completed' && segment.video_url)
+      .map(segment => ({
+        id: segment.id,
+        url: segment.video_url!,
+        label: segment.metadata?.title || `Scene ${segment.segment_order + 1}`,
+        planned: segment.metadata?.length ?? segment.duration,
+        transition: segment.metadata?.transition,
+      }))
+    : video.video_url
+      ? [{ id: video.id, url: video.video_url, label: 'Full video', planned: video.duration || 0, transition: undefined }]
+      : [];
+
+  const videoClips = await Promise.all(sources.map(async (source): Promise<TimelineClip> => {
+    const measured = await measureVideo(source.url).catch(() => NaN);
+    const duration = Number.isFinite(measured) && measured > 0 ? measured : source.planned;
+    return {
+      id: `clip-${source.id}`,
+      label: source.label,
+      source: source.url,
+      sourceId: source.id,
+      sourceDuration: duration,
+      start: 0,
+      in: 0,
+      out: duration,
+      volume: 1,
+      transition: source.transition,
+    };
+  }));
+
+  // Stored durations are rounded to whole seconds, so the audio is measured again
+  const timed = await Promise.all(audio
+    .filter(clip => audioMixService.hasRenderedAudio(clip))
+    .map(async clip => ({
+      ...clip,
+      duration: await audioMixService.measureDuration(clip.audioUrl!).catch(() => clip.duration),
+    })));
+
+  const audioClips = placeClips(timed).map(placement => {
+    const clip = timed.find(c => c.id === placement.clipId)!;
+    const duration = placement.end - placement.start;
+    return {
+      type: clip.type,
+      clip: {
+        id: `clip-${clip.id}`,
+        label: clip.character || clip.text.split(/\s+/).slice(0, 6).join(' '),
+        source: clip.audioUrl!,
+        sourceId: clip.id,
+        sourceDuration: duration,
+        start: placement.start,
+        in: 0,
+        out: duration,
+        volume: 1,
+        text: clip.text,
+        speaker: clip.character,
+        words: clip.words,
+      } as TimelineClip,
+    };
+  });
+
+  return {
+    version: 1,
+    videoId: video.id,
+    aspectRatio: video.metadata?.finalCut?.aspectRatio
+      || (video.metadata?.aspectRatio as EditList['aspectRatio'] | undefined)
+      || '16:9',
+    tracks: [
+      { kind: 'video', clips: layoutSequence(videoClips) },
+      { kind: 'narration', clips: audioClips.filter(a => a.type === 'narration').map(a => a.clip) },
+      { kind: 'dialogue', clips: audioClips.filter(a => a.type === 'dialogue').map(a => a.clip) },
+      { kind: 'music', clips: [] },
+    ],
+    subtitles: !!video.metadata?.subtitles?.length,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Cues for the spoken clips where they now sit, cut back to their trims
+export function editSubtitleCues(editList: EditList): SubtitleCue[] {
+  return (['narration', 'dialogue'] as const).flatMap(kind => trackClips(editList, kind).flatMap(clip => {
+    if (!clip.text) return [];
+
+    const offset = clip.start - clip.in;
+    const cues = buildSubtitleCues(
+      [{ id: clip.id, text: clip.text, character: clip.speaker, type: kind, words: clip.words }],
+      [{ clipId: clip.id, start: offset, end: offset + clip.sourceDuration }]
+    );
+
+    return cues
+      .filter(cue => cue.end > clip.start && cue.start < clipEnd(clip))
+      .map(cue => ({ ...cue, start: Math.max(cue.start, clip.start), end: Math.min(cue.end, clipEnd(clip)) }));
+  })).sort((a, b) => a.start - b.start);
+}
+
+export function toCompositionScenes(editList: EditList): CompositionScene[] {
+  return trackClips(editList, 'video').map((clip, index) => ({
+    title: clip.label,
+    start: clip.start,
+    duration: clipLength(clip),
+    photos: [],
+    clip: clip.source,
+    clipIn: clip.in,
+    clipOut: clip.out,
+    transition: index > 0 ? clip.transition : undefined,
+  }));
+}
+
+/**
+ * Renders the edit in the browser: the audio tracks are mixed with their trims
+ * and volumes, then the compositor plays the video clips over the mix.
+ */
+export async function renderEditList(
+  editList: EditList,
+  { title, theme }: { title: string; theme: string },
+  onProgress?: (progress: number) => void
+): Promise<CompositionResult> {
+  const scenes = toCompositionScenes(editList);
+  if (scenes.length === 0) {
+    throw new Error('Add at least one video clip to render');
+  }
+
+  const audioClips = editList.tracks.filter(track => track.kind !== 'video').flatMap(track => track.clips);
+  const audio = audioClips.length > 0
+    ? await audioMixService.mixTimeline(audioClips, editDuration(editList))
+    : null;
+
+  try {
+    return await videoCompositor.render({
+      title,
+      theme,
+      aspectRatio: editList.aspectRatio,
+      scenes,
+      audioUrl: audio?.url,
+      subtitles: editList.subtitles ? editSubtitleCues(editList) : undefined,
+      requireClips: true,
+    }, onProgress);
+  } finally {
+    if (audio) URL.revokeObjectURL(audio.url);
+  }
+}
+
+/**
+ * Copies sources that only live in this tab into storage, so the saved edit
+ * can be rendered again in a later session. Clips whose source couldn't be
+ * stored are returned, since they won't play after a reload.
+ */
+export async function storeSessionSources(
+  editList: EditList,
+  storyId: string
+): Promise<{ editList: EditList; sessionOnly: TimelineClip[] }> {
+  const stored = new Map<string, string>(); // A trimmed source can sit on the timeline more than once
+  const sessionOnly: TimelineClip[] = [];
+  const tracks: EditList['tracks'] = [];
+
+  for (const track of editList.tracks) {
+    const clips: TimelineClip[] = [];
+    for (const clip of track.clips) {
+      if (!videoStorageService.needsUpload(clip.source)) {
+        clips.push(clip);
+        continue;
+      }
+
+      try {
+        if (!stored.has(clip.source)) {
+          const name = `edit-${editList.videoId}-${clip.id}`;
+          const { url } = track.kind === 'video'
+            ? await videoStorageService.uploadFile(storyId, name, clip.source)
+            : await audioStorageService.uploadClip(storyId, name, clip.source);
+          stored.set(clip.source, url);
+        }
+        clips.push({ ...clip, source: stored.get(clip.source)! });
+      } catch (error) {
+        console.warn('⚠️ Could not store timeline source, it only plays this session:', clip.label, error);
+        sessionOnly.push(clip);
+        clips.push(clip);
+      }
+    }
+    tracks.push({ ...track, clips });
+  }
+
+  return { editList: { ...editList, tracks }, sessionOnly };
+}
+
+// Reads the length from the file's metadata; MediaRecorder WebM reports none, so callers fall back
+function measureVideo(url: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => resolve(video.duration);
+    video.onerror = () => reject(new Error('The clip could not be loaded'));
+    video.src = url;
+  });
+}
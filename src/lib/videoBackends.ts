@@ -0,0 +1,943 @@
+import { SceneTransitionType, ShotPlan, SubtitleCue, VideoProviderName } from '../types';
+import { videoCompositor } from './videoCompositor';
+
+export type VideoAspectRatio = '16:9' | '9:16' | '1:1';
+
+// The first frame of an image-to-video clip: a character's selected photo, or the
+// scene's approved storyboard still, which has no single character
+export interface ReferenceImage {
+  character?: string;
+  url: string;
+}
+
+export interface VideoGenerationRequest {
+  prompt: string;
+  title?: string;
+  theme?: string;
+  duration?: number;
+  aspectRatio?: VideoAspectRatio;
+  style?: 'cinematic' | 'dramatic' | 'artistic' | 'realistic';
+  narration?: {
+    text?: string;
+    voice?: string;
+    audio_url?: string; // Mixed narration the rendered scenes are timed to
+  };
+  subtitles?: boolean;
+  subtitleCues?: SubtitleCue[];
+  characters?: Array<{
+    name: string;
+    description: string;
+    voice?: string;
+    photo_url?: string; // The character's selected photo
+  }>;
+  scenes?: Array<{
+    title?: string;
+    description: string;
+    start?: number; // Seconds into the narration
+    characters?: string[];
+    duration: number;
+    narration?: string;
+    dialogue?: Array<{
+      character: string;
+      text: string;
+    }>;
+    visualPrompt?: string;
+    // Shot plan from scene segmentation
+    setting?: string;
+    mood?: string;
+    camera?: string;
+    transition?: SceneTransitionType;
+    shots?: ShotPlan[];
+    referenceImage?: ReferenceImage; // Keeps the scene looking the way it was planned in every clip
+  }>;
+  needs?: Partial<VideoNeeds>; // Overrides what is worked out from the rest of the request
+}
+
+export interface VideoGenerationResponse {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  video_url?: string;
+  thumbnail_url?: string;
+  mime_type?: string;
+  provider: string;
+  estimated_time?: number;
+  progress?: number;
+  instructions?: string;
+  error?: string; // The provider's reason when status is 'failed'
+  skipped?: SkippedBackend[];
+}
+
+type RequestCharacter = NonNullable<VideoGenerationRequest['characters']>[number];
+type RequestScene = NonNullable<VideoGenerationRequest['scenes']>[number];
+
+// What a backend can make from a single request
+export interface VideoCapabilities {
+  maxDuration: number; // Seconds
+  aspectRatios: VideoAspectRatio[];
+  textToVideo: boolean;
+  imageToVideo: boolean; // Starts clips from a reference photo
+  audio: boolean; // Puts the narration in the video file
+}
+
+// What a request asks of a backend
+export interface VideoNeeds {
+  duration: number;
+  aspectRatio: VideoAspectRatio;
+  imageToVideo: boolean;
+  audio: boolean;
+}
+
+export interface SkippedBackend {
+  backend: VideoProviderName;
+  reason: string;
+}
+
+export interface VideoBackend {
+  name: VideoProviderName;
+  label: string;
+  description: string;
+  cost: 'free' | 'freemium' | 'paid';
+  setupHint: string; // What it takes to make the backend available
+  capabilities: VideoCapabilities;
+  isConfigured(): boolean;
+  // Limits beyond the capabilities, such as needing a cast; null when the request is fine
+  checkRequest?(request: VideoGenerationRequest): string | null;
+  estimateCost(request: VideoGenerationRequest): number; // US dollars, from list prices
+  submit(request: VideoGenerationRequest, onProgress?: (progress: number) => void): Promise<VideoGenerationResponse>;
+  // Only backends that finish in the background can be polled or cancelled
+  poll?(jobId: string): Promise<VideoGenerationResponse>;
+  cancel?(jobId: string): Promise<void>;
+}
+
+const DEFAULT_DURATION = 30;
+
+export function videoNeeds(request: VideoGenerationRequest): VideoNeeds {
+  const sceneSeconds = (request.scenes || []).reduce((total, scene) => total + scene.duration, 0);
+  return {
+    duration: request.duration || sceneSeconds || DEFAULT_DURATION,
+    aspectRatio: request.aspectRatio || '16:9',
+    imageToVideo: !!referenceImageFor(request),
+    audio: !!request.narration?.audio_url,
+    ...request.needs,
+  };
+}
+
+/**
+ * Gives every scene without a reference image the selected photo of the first
+ * character it names, or of the lead character when it names none with a photo.
+ */
+export function withReferenceImages(request: VideoGenerationRequest): VideoGenerationRequest {
+  const cast = (request.characters || []).filter(character => character.photo_url);
+  if (cast.length === 0 || !request.scenes) return request;
+
+  return {
+    ...request,
+    scenes: request.scenes.map(scene => {
+      if (scene.referenceImage) return scene;
+      const lead = cast.find(character => scene.characters?.includes(character.name)) || cast[0];
+      return { ...scene, referenceImage: { character: lead.name, url: lead.photo_url! } };
+    }),
+  };
+}
+
+/**
+ * One request per scene, for rendering a story clip by clip. The clips carry no
+ * narration or subtitles; those are laid over the stitched final cut.
+ */
+export function splitByScene(request: VideoGenerationRequest): VideoGenerationRequest[] {
+  return (request.scenes || []).map(scene => ({
+    prompt: scene.visualPrompt || scene.description,
+    title: scene.title,
+    theme: request.theme,
+    duration: scene.duration,
+    aspectRatio: request.aspectRatio,
+    style: request.style,
+    characters: request.characters,
+    scenes: [{ ...scene, start: 0 }],
+  }));
+}
+
+// The photo a single clip starts from; backends that make one clip per request use the first scene's
+function referenceImageFor(request: VideoGenerationRequest): ReferenceImage | undefined {
+  return request.scenes?.find(scene => scene.referenceImage)?.referenceImage;
+}
+
+/**
+ * Every reason the backend can't make the requested video, from configuration
+ * through capabilities to its own limits. An empty list means it can.
+ */
+export function assessBackend(backend: VideoBackend, request: VideoGenerationRequest): string[] {
+  const needs = videoNeeds(request);
+  const { capabilities } = backend;
+  const reasons: string[] = [];
+
+  if (!backend.isConfigured()) {
+    reasons.push(`Not set up (${backend.setupHint})`);
+  }
+  if (needs.duration > capabilities.maxDuration) {
+    reasons.push(`Makes videos up to ${capabilities.maxDuration}s, this one is ${Math.round(needs.duration)}s`);
+  }
+  if (!capabilities.aspectRatios.includes(needs.aspectRatio)) {
+    reasons.push(`Doesn't render ${needs.aspectRatio} video`);
+  }
+  if (needs.imageToVideo && !capabilities.imageToVideo) {
+    reasons.push(`Can't start clips from character photos or storyboard stills`);
+  }
+  if (needs.audio && !capabilities.audio) {
+    reasons.push(`Can't include the narration audio`);
+  }
+
+  const limit = backend.checkRequest?.(request);
+  if (limit) reasons.push(limit);
+
+  return reasons;
+}
+
+function buildVideoPrompt(request: VideoGenerationRequest): string {
+  let prompt = request.prompt;
+  
+  // Add style modifiers
+  if (request.style) {
+    prompt += `, ${request.style} style`;
+  }
+
+  // The reference photo sets the look, so the prompt only has to keep it
+  const reference = referenceImageFor(request);
+  if (reference) {
+    prompt += reference.character
+      ? `, ${reference.character} exactly as in the reference image`
+      : ', composed exactly as in the reference image';
+  }
+  
+  // Add technical modifiers for better AI generation
+  prompt += ', high quality, professional cinematography, smooth motion, detailed animation';
+  
+  // Add aspect ratio context
+  if (request.aspectRatio === '9:16') {
+    prompt += ', vertical format, mobile-optimized';
+  } else if (request.aspectRatio === '1:1') {
+    prompt += ', square format, social media optimized';
+  } else {
+    prompt += ', widescreen format, cinematic presentation';
+  }
+  
+  return prompt;
+}
+
+class TavusBackend implements VideoBackend {
+  public name = 'tavus' as const;
+  public label = 'Tavus';
+  public description = 'A character replica narrates the story to camera';
+  public cost = 'paid' as const;
+  public setupHint = 'set VITE_TAVUS_API_KEY';
+  public capabilities: VideoCapabilities = {
+    maxDuration: 300,
+    aspectRatios: ['16:9'],
+    textToVideo: true,
+    imageToVideo: false,
+    audio: false,
+  };
+  private apiKey: string | null = import.meta.env.VITE_TAVUS_API_KEY || null;
+
+  public isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  public checkRequest(request: VideoGenerationRequest): string | null {
+    return request.characters?.length ? null : 'Needs a character to play the narrator';
+  }
+
+  public estimateCost(request: VideoGenerationRequest): number {
+    return videoNeeds(request).duration / 60; // Roughly a dollar a minute
+  }
+
+  public async submit(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
+    console.log('🎬 Generating with Tavus (conversational video agents)...');
+    
+    // Import tavusService
+    const { tavusService } = await import('./tavusService');
+    
+    try {
+      // Create video agent for first character if available
+      const firstCharacter = request.characters?.[0];
+      if (firstCharacter) {
+        console.log('🎭 Creating Tavus replica for character:', firstCharacter.name);
+        const agent = await tavusService.createVideoAgent(firstCharacter);
+        
+        // Create story narration script
+        const storyScript = this.buildStoryScript(request, firstCharacter);
+        
+        // Generate video with the character replica
+        const conversationResult = await tavusService.generateConversationalVideo({
+          message: storyScript,
+          replica_id: agent.replica_id,
+          context: request.prompt,
+          background: '#1a1a1a'
+        });
+        
+        console.log('✅ Tavus video generated successfully:', conversationResult.video_url);
+        
+        return {
+          id: conversationResult.id,
+          status: 'completed',
+          video_url: conversationResult.video_url,
+          thumbnail_url: undefined,
+          provider: 'tavus',
+          progress: 100,
+          instructions: `✅ Real Tavus video generated with ${firstCharacter.name}! Premium AI replica technology used.`
+        };
+      } else {
+        throw new Error('No characters available for Tavus video generation');
+      }
+      
+    } catch (error) {
+      console.error('❌ Tavus generation error:', error);
+      throw error;
+    }
+  }
+
+  private buildStoryScript(request: VideoGenerationRequest, character: RequestCharacter): string {
+    const scenes = request.scenes || [];
+    
+    // Create cinematic script structure
+    let script = `[CINEMATIC NARRATION]
+*The camera slowly focuses as ${character.name} appears*
+
+Hello, I'm ${character.name}. 
+
+[CHARACTER INTRODUCTION - Warm, engaging tone]
+${character.description || `Let me share an incredible story with you.`}
+
+`;
+
+    if (scenes.length > 0) {
+      scenes.forEach((scene, index) => {
+        // Add scene transition
+        script += `[SCENE ${index + 1} - ${this.getSceneMood(scene)}]
+*${this.generateSceneAction(scene)}*
+
+`;
+
+        // Add narrative introduction to scene
+        if (scene.narration) {
+          script += `[NARRATION] ${scene.narration}
+
+`;
+        }
+
+        // Add character dialogue with emotional context
+        if (scene.dialogue) {
+          scene.dialogue.forEach(dialogue => {
+            const speaker = dialogue.character;
+            const emotion = this.detectEmotion(dialogue.text);
+            
+            if (speaker.toLowerCase().includes(character.name.toLowerCase())) {
+              script += `[${character.name.toUpperCase()} - ${emotion}]
+"${dialogue.text}"
+
+`;
+            } else {
+              // Include other character dialogue as narration
+              script += `[NARRATING OTHER CHARACTER - ${speaker}]
+${speaker} ${this.convertDialogueToNarration(dialogue.text)}
+
+`;
+            }
+          });
+        }
+
+        // Add scene description as action
+        script += `[ACTION SEQUENCE]
+*${scene.description}*
+
+`;
+
+        // Add transition between scenes
+        if (index < scenes.length - 1) {
+          script += `[TRANSITION]
+*The scene transitions as our story continues...*
+
+`;
+        }
+      });
+    } else {
+      // Create dramatic storytelling from prompt
+      const storyElements = this.extractStoryElements(request.prompt);
+      
+      script += `[MAIN STORY - Dramatic narration]
+${storyElements.setup}
+
+[CHARACTER PERSPECTIVE]
+"${storyElements.characterQuote}"
+
+[STORY CLIMAX]
+*${storyElements.climax}*
+
+[RESOLUTION]
+${storyElements.resolution}
+`;
+    }
+
+    // Add cinematic conclusion
+    script += `
+[CLOSING SCENE - Reflective tone]
+*${character.name} looks thoughtfully at the camera*
+
+"And that's how our story unfolds... every ending is just a new beginning."
+
+[FADE OUT]
+*The scene slowly fades as the story concludes*`;
+
+    // Optimize script length for Tavus (around 800-1000 characters for good pacing)
+    if (script.length > 1200) {
+      script = this.optimizeScriptLength(script);
+    }
+
+    console.log('🎬 Generated cinematic script:', script.substring(0, 200) + '...');
+    return script;
+  }
+
+  private getSceneMood(scene: RequestScene): string {
+    if (scene.mood) {
+      return scene.mood.charAt(0).toUpperCase() + scene.mood.slice(1);
+    }
+
+    const description = scene.description?.toLowerCase() || '';
+    
+    if (description.includes('action') || description.includes('fight') || description.includes('chase')) {
+      return 'Action Sequence';
+    } else if (description.includes('sad') || description.includes('cry') || description.includes('tragic')) {
+      return 'Emotional Moment';
+    } else if (description.includes('funny') || description.includes('laugh') || description.includes('comedy')) {
+      return 'Comedy Beat';
+    } else if (description.includes('romantic') || description.includes('love') || description.includes('kiss')) {
+      return 'Romantic Scene';
+    } else if (description.includes('scary') || description.includes('dark') || description.includes('horror')) {
+      return 'Suspenseful';
+    } else if (description.includes('discover') || description.includes('reveal') || description.includes('surprise')) {
+      return 'Discovery';
+    }
+    
+    return 'Dramatic';
+  }
+
+  private generateSceneAction(scene: RequestScene): string {
+    const visualPrompt = scene.visualPrompt || scene.description;
+    const actions = [
+      `The camera captures ${visualPrompt.toLowerCase()}`,
+      `We see ${visualPrompt.toLowerCase()} unfolding`,
+      `The scene reveals ${visualPrompt.toLowerCase()}`,
+      `Focus shifts to ${visualPrompt.toLowerCase()}`,
+      `The story moves to ${visualPrompt.toLowerCase()}`
+    ];
+    
+    return actions[Math.floor(Math.random() * actions.length)];
+  }
+
+  private detectEmotion(text: string): string {
+    const textLower = text.toLowerCase();
+    
+    if (textLower.includes('!') || textLower.includes('amazing') || textLower.includes('incredible')) {
+      return 'Excited';
+    } else if (textLower.includes('?') || textLower.includes('confused') || textLower.includes('wonder')) {
+      return 'Curious';
+    } else if (textLower.includes('sad') || textLower.includes('sorry') || textLower.includes('tragic')) {
+      return 'Sorrowful';
+    } else if (textLower.includes('angry') || textLower.includes('mad') || textLower.includes('furious')) {
+      return 'Intense';
+    } else if (textLower.includes('love') || textLower.includes('care') || textLower.includes('heart')) {
+      return 'Tender';
+    } else if (textLower.includes('fear') || textLower.includes('scared') || textLower.includes('worried')) {
+      return 'Anxious';
+    }
+    
+    return 'Thoughtful';
+  }
+
+  private convertDialogueToNarration(dialogue: string): string {
+    // Convert direct dialogue to narrative speech
+    if (dialogue.startsWith('"') && dialogue.endsWith('"')) {
+      dialogue = dialogue.slice(1, -1);
+    }
+    
+    const narrativeStarters = [
+      'says',
+      'explains',
+      'reveals',
+      'shares',
+      'tells us',
+      'mentions',
+      'declares'
+    ];
+    
+    const starter = narrativeStarters[Math.floor(Math.random() * narrativeStarters.length)];
+    return `${starter}: "${dialogue}"`;
+  }
+
+  private extractStoryElements(prompt: string) {
+    // Extract key story elements for dramatic narration
+    const sentences = prompt.split('.').filter(s => s.trim().length > 10);
+    
+    return {
+      setup: sentences[0]?.trim() || 'Our story begins with an extraordinary moment',
+      characterQuote: this.generateCharacterQuote(prompt),
+      climax: sentences[Math.floor(sentences.length / 2)]?.trim() || 'The story reaches its pivotal moment',
+      resolution: sentences[sentences.length - 1]?.trim() || 'And so our journey comes to a meaningful conclusion'
+    };
+  }
+
+  private generateCharacterQuote(prompt: string): string {
+    const themes = prompt.toLowerCase();
+    
+    if (themes.includes('adventure')) {
+      return 'Every great adventure begins with a single step into the unknown.';
+    } else if (themes.includes('love')) {
+      return 'Love has a way of changing everything, doesn\'t it?';
+    } else if (themes.includes('mystery')) {
+      return 'Some mysteries are meant to be solved, others... are meant to be lived.';
+    } else if (themes.includes('friendship')) {
+      return 'True friendship is the greatest treasure we can find.';
+    } else if (themes.includes('family')) {
+      return 'Family isn\'t just about blood - it\'s about the bonds we choose to honor.';
+    }
+    
+    return 'Sometimes the most important stories are the ones we live ourselves.';
+  }
+
+  private optimizeScriptLength(script: string): string {
+    // Keep the most important parts while maintaining narrative flow
+    const lines = script.split('\n');
+    const importantLines = lines.filter(line => {
+      const lineLower = line.toLowerCase();
+      return (
+        line.includes('[') || // Keep direction markers
+        line.includes('"') || // Keep dialogue
+        line.includes('*') || // Keep action lines
+        lineLower.includes('story') ||
+        lineLower.includes('character') ||
+        line.trim().length > 30 // Keep substantial content
+      );
+    });
+    
+    let optimized = importantLines.join('\n');
+    
+    // If still too long, truncate with proper ending
+    if (optimized.length > 1000) {
+      optimized = optimized.substring(0, 900) + '\n\n[FADE OUT]\n*The story continues...*';
+    }
+    
+    return optimized;
+  }
+}
+
+class RunwayBackend implements VideoBackend {
+  public name = 'runway-ml' as const;
+  public label = 'Runway ML';
+  public description = 'Gen-3 text and image to video clips';
+  public cost = 'paid' as const;
+  public setupHint = 'set VITE_RUNWAY_API_KEY';
+  public capabilities: VideoCapabilities = {
+    maxDuration: 10,
+    aspectRatios: ['16:9', '9:16'],
+    textToVideo: true,
+    imageToVideo: true,
+    audio: false,
+  };
+  private apiKey: string | null = import.meta.env.VITE_RUNWAY_API_KEY || null;
+
+  public isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  public estimateCost(request: VideoGenerationRequest): number {
+    return Math.min(videoNeeds(request).duration, this.capabilities.maxDuration) * 0.05;
+  }
+
+  public async submit(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
+    console.log('🚀 Generating with Runway ML (premium AI video)...');
+    
+    const prompt = buildVideoPrompt(request);
+    const reference = referenceImageFor(request);
+    
+    try {
+      const response = await fetch('https://api.runwayml.com/v1/video_generations', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: 'gen3a_turbo',
+          prompt: prompt,
+          duration: Math.min(request.duration || 10, 10), // Max 10 seconds for demo
+          aspect_ratio: request.aspectRatio || '16:9',
+          motion_bucket_id: 127,
+          ...(reference && { promptImage: reference.url })
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Runway API error: ${response.status}`);
+      }
+
+      const result = await response.json();
+      
+      return {
+        id: result.id || `runway-${Date.now()}`,
+        status: 'processing',
+        provider: 'runway-ml',
+        estimated_time: 60,
+        progress: 10,
+        instructions: 'Professional AI video generation in progress with Runway ML...'
+      };
+      
+    } catch (error) {
+      console.error('❌ Runway generation error:', error);
+      throw error;
+    }
+  }
+
+  public async poll(id: string): Promise<VideoGenerationResponse> {
+    try {
+      const response = await fetch(`https://api.runwayml.com/v1/video_generations/${id}`, {
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Runway status check failed: ${response.status}`);
+      }
+
+      const result = await response.json();
+      
+      return {
+        id: result.id,
+        status: result.status === 'SUCCEEDED' ? 'completed'
+          : result.status === 'FAILED' || result.status === 'CANCELLED' ? 'failed'
+          : result.status === 'PENDING' ? 'pending' : 'processing',
+        video_url: result.output?.[0],
+        provider: 'runway-ml',
+        progress: result.status === 'SUCCEEDED' ? 100 : 50,
+        error: result.failure || undefined
+      };
+    } catch (error) {
+      console.error('❌ Runway status check error:', error);
+      throw error;
+    }
+  }
+
+  public async cancel(id: string): Promise<void> {
+    const response = await fetch(`https://api.runwayml.com/v1/video_generations/${id}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Runway cancel failed: ${response.status}`);
+    }
+  }
+}
+
+class ReplicateBackend implements VideoBackend {
+  public name = 'replicate-video' as const;
+  public label = 'Replicate';
+  public description = 'Stable Video Diffusion clips';
+  public cost = 'freemium' as const;
+  public setupHint = 'set VITE_REPLICATE_API_TOKEN';
+  public capabilities: VideoCapabilities = {
+    maxDuration: 5,
+    aspectRatios: ['16:9', '9:16'],
+    textToVideo: true,
+    imageToVideo: true,
+    audio: false,
+  };
+  private token: string | null = import.meta.env.VITE_REPLICATE_API_TOKEN || null;
+
+  public isConfigured(): boolean {
+    return !!this.token;
+  }
+
+  public estimateCost(): number {
+    return 0.1; // Billed per prediction, whatever its length
+  }
+
+  public async submit(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
+    console.log('🔄 Generating with Replicate Video Models...');
+    
+    const prompt = buildVideoPrompt(request);
+    const reference = referenceImageFor(request);
+    
+    try {
+      const response = await fetch('https://api.replicate.com/v1/predictions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Token ${this.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          version: 'cdb532257c2bff8c6dc96fb90da3a8a44c7a18bb0e9b0db6ce8e1b8a8ad8dca8', // Stable Video Diffusion
+          input: {
+            video_length: Math.min(request.duration || 5, 5),
+            prompt: prompt,
+            negative_prompt: 'low quality, blurry, distorted, watermark, text',
+            width: request.aspectRatio === '9:16' ? 576 : 1024,
+            height: request.aspectRatio === '9:16' ? 1024 : 576,
+            ...(reference && { input_image: reference.url })
+          }
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Replicate API error: ${response.status}`);
+      }
+
+      const prediction = await response.json();
+      
+      return {
+        id: prediction.id,
+        status: 'processing',
+        provider: 'replicate-video',
+        estimated_time: 120,
+        progress: 15,
+        instructions: 'AI video generation with Stable Video Diffusion in progress...'
+      };
+      
+    } catch (error) {
+      console.error('❌ Replicate video generation error:', error);
+      throw error;
+    }
+  }
+
+  public async poll(id: string): Promise<VideoGenerationResponse> {
+    try {
+      const response = await fetch(`https://api.replicate.com/v1/predictions/${id}`, {
+        headers: {
+          'Authorization': `Token ${this.token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Replicate status check failed: ${response.status}`);
+      }
+
+      const result = await response.json();
+      
+      return {
+        id: result.id,
+        status: result.status === 'succeeded' ? 'completed'
+          : result.status === 'failed' || result.status === 'canceled' ? 'failed'
+          : result.status === 'starting' ? 'pending' : 'processing',
+        video_url: Array.isArray(result.output) ? result.output[0] : result.output,
+        provider: 'replicate-video',
+        progress: result.status === 'succeeded' ? 100 : 75,
+        error: result.error || undefined
+      };
+    } catch (error) {
+      console.error('❌ Replicate status check error:', error);
+      throw error;
+    }
+  }
+
+  public async cancel(id: string): Promise<void> {
+    const response = await fetch(`https://api.replicate.com/v1/predictions/${id}/cancel`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Token ${this.token}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Replicate cancel failed: ${response.status}`);
+    }
+  }
+}
+
+class HuggingFaceBackend implements VideoBackend {
+  public name = 'huggingface-video' as const;
+  public label = 'HuggingFace';
+  public description = 'Short text to video clips on the free inference API';
+  public cost = 'freemium' as const;
+  public setupHint = 'set VITE_HUGGINGFACE_API_KEY';
+  public capabilities: VideoCapabilities = {
+    maxDuration: 3,
+    aspectRatios: ['16:9', '9:16'],
+    textToVideo: true,
+    imageToVideo: false,
+    audio: false,
+  };
+  private token: string | null = import.meta.env.VITE_HUGGINGFACE_API_KEY || null;
+
+  public isConfigured(): boolean {
+    return !!this.token;
+  }
+
+  public estimateCost(): number {
+    return 0;
+  }
+
+  public async submit(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
+    console.log('🤗 Generating with HuggingFace Video Models...');
+    
+    const prompt = buildVideoPrompt(request);
+    
+    try {
+      // Use HuggingFace video generation models
+      const response = await fetch('https://api-inference.huggingface.co/models/damo-vilab/text-to-video-ms-1.7b', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          inputs: prompt,
+          parameters: {
+            num_frames: Math.min((request.duration || 3) * 8, 24), // 8 fps
+            height: request.aspectRatio === '9:16' ? 320 : 256,
+            width: request.aspectRatio === '9:16' ? 256 : 320
+          }
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`HuggingFace API error: ${response.status}`);
+      }
+
+      const blob = await response.blob();
+      const videoUrl = URL.createObjectURL(blob);
+      
+      return {
+        id: `hf-${Date.now()}`,
+        status: 'completed',
+        video_url: videoUrl,
+        provider: 'huggingface-video',
+        progress: 100,
+        instructions: 'AI-generated video completed with HuggingFace models'
+      };
+      
+    } catch (error) {
+      console.error('❌ HuggingFace video generation error:', error);
+      throw error;
+    }
+  }
+}
+
+class CanvasBackend implements VideoBackend {
+  public name = 'ai-generated-canvas' as const;
+  public label = 'Animato Canvas';
+  public description = 'Renders scenes, character photos and narration in your browser';
+  public cost = 'free' as const;
+  public setupHint = 'needs a browser that can record canvas video';
+  public capabilities: VideoCapabilities = {
+    maxDuration: 3600,
+    aspectRatios: ['16:9', '9:16', '1:1'],
+    textToVideo: true,
+    imageToVideo: true,
+    audio: true,
+  };
+
+  public isConfigured(): boolean {
+    return videoCompositor.isSupported();
+  }
+
+  public estimateCost(): number {
+    return 0;
+  }
+
+  public async submit(
+    request: VideoGenerationRequest,
+    onProgress?: (progress: number) => void
+  ): Promise<VideoGenerationResponse> {
+    console.log('🎨 Generating AI Canvas video (browser compositor)...');
+
+    const characters = request.characters || [];
+    const allPhotos = characters.map(c => c.photo_url).filter((url): url is string => !!url);
+    let cursor = 0;
+
+    const scenes = (request.scenes || []).map((scene, index) => {
+      const start = scene.start ?? cursor;
+      cursor = start + scene.duration;
+      // Pan across the characters in the scene, or the whole cast when none are named
+      const scenePhotos = characters
+        .filter(c => c.photo_url && scene.characters?.includes(c.name))
+        .map(c => c.photo_url!);
+      const photos = scenePhotos.length > 0 ? scenePhotos : allPhotos;
+      // The reference photo opens the scene
+      const reference = scene.referenceImage?.url;
+
+      return {
+        title: scene.title || `Scene ${index + 1}`,
+        caption: scene.setting,
+        start,
+        duration: scene.duration,
+        photos: reference ? [reference, ...photos.filter(url => url !== reference)] : photos,
+        transition: scene.transition,
+      };
+    });
+
+    const result = await videoCompositor.render({
+      title: request.title || request.prompt.split('.')[0].slice(0, 60),
+      theme: request.theme || 'fantasy',
+      aspectRatio: request.aspectRatio || '16:9',
+      scenes: scenes.length > 0 ? scenes : [{
+        title: request.title || 'Story',
+        start: 0,
+        duration: request.duration || 30,
+        photos: allPhotos,
+      }],
+      audioUrl: request.narration?.audio_url,
+      subtitles: request.subtitles ? request.subtitleCues : undefined,
+    }, onProgress);
+
+    return {
+      id: `ai-canvas-${Date.now()}`,
+      status: 'completed',
+      video_url: result.url,
+      thumbnail_url: result.thumbnailUrl,
+      mime_type: result.mimeType,
+      provider: 'ai-generated-canvas',
+      progress: 100,
+      instructions: this.getAIVideoInstructions(request, result.mimeType, result.duration)
+    };
+  }
+
+  private getAIVideoInstructions(request: VideoGenerationRequest, mimeType: string, duration: number): string {
+    const scenes = request.scenes || [];
+    const format = mimeType.includes('mp4') ? 'MP4' : 'WebM';
+
+    return `🎬 **Story Video Rendered!**
+
+**Your Story Video Features:**
+- **Scene-by-Scene Visuals**: Character photos and titles for every scene, timed to the narration
+- **Theme-Based Backgrounds**: Animated colors and particles matched to your story genre
+- **Scene Transitions**: Cuts, dissolves and fades from your shot plan${request.subtitles && request.subtitleCues?.length ? `
+- **Burned-In Subtitles**: Every narrated line on screen` : ''}
+
+**Technical Details:**
+- **Resolution**: ${request.aspectRatio === '9:16' ? '720x1280' : request.aspectRatio === '1:1' ? '720x720' : '1280x720'}
+- **Format**: ${format}
+- **Duration**: ${Math.round(duration)} seconds
+- **Scenes**: ${scenes.length} story segments
+- **Audio**: ${request.narration?.audio_url ? 'Mixed story narration' : 'None'}
+
+**Next Steps:**
+1. **Download** your story video
+2. **Share** across social platforms
+3. **Create More** - Try different styles and themes!
+
+*Rendered in your browser by Animato*`;
+  }
+}
+
+// In the order they are tried when the user has no preference
+export function createVideoBackends(): VideoBackend[] {
+  return [
+    new TavusBackend(),
+    new RunwayBackend(),
+    new ReplicateBackend(),
+    new HuggingFaceBackend(),
+    new CanvasBackend(),
+  ];
+}
@@ -0,0 +1,853 @@
+import { SceneTransitionType, SubtitleCue } from '../types';
+import { muxWebm, opusHead, EncodedFrame } from './webm';
+
+export interface CompositionScene {
+  title: string;
+  caption?: string; // Lower third shown as the scene opens, e.g. its setting
+  start: number; // Seconds on the story timeline
+  duration: number;
+  photos: string[]; // Image URLs panned across during the scene
+  clip?: string; // Video shown instead of the photos, looping if the scene outlasts it
+  clipIn?: number; // Seconds into the clip the scene starts from
+  clipOut?: number; // Where the clip loops back to clipIn, if before its end
+  transition?: SceneTransitionType; // How the scene enters from the one before
+}
+
+export interface CompositionRequest {
+  title: string;
+  theme: string;
+  aspectRatio: '16:9' | '9:16' | '1:1';
+  scenes: CompositionScene[];
+  audioUrl?: string; // The mixed narration the scenes are timed to
+  subtitles?: SubtitleCue[];
+  requireClips?: boolean; // Fail rather than show photos when a scene's clip won't load
+}
+
+export interface CompositionResult {
+  url: string;
+  thumbnailUrl: string;
+  mimeType: string;
+  duration: number;
+  size: number;
+}
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+interface Composition extends CompositionRequest {
+  width: number;
+  height: number;
+  duration: number;
+  images: Map<string, ImageBitmap>;
+  clips: Map<string, HTMLVideoElement>;
+}
+
+// WebCodecs audio is newer than the DOM typings this project builds against
+interface EncodedAudioChunkLike {
+  byteLength: number;
+  timestamp: number;
+  copyTo(destination: Uint8Array): void;
+}
+
+interface AudioEncoderLike {
+  encodeQueueSize: number;
+  configure(config: { codec: string; sampleRate: number; numberOfChannels: number; bitrate: number }): void;
+  encode(data: AudioDataLike): void;
+  flush(): Promise<void>;
+  close(): void;
+}
+
+interface AudioDataLike {
+  close(): void;
+}
+
+interface WebCodecsAudio {
+  AudioEncoder: new (init: {
+    output: (chunk: EncodedAudioChunkLike, metadata?: { decoderConfig?: { description?: ArrayBuffer | ArrayBufferView } }) => void;
+    error: (error: Error) => void;
+  }) => AudioEncoderLike;
+  AudioData: new (init: {
+    format: 'f32-planar';
+    sampleRate: number;
+    numberOfFrames: number;
+    numberOfChannels: number;
+    timestamp: number;
+    data: Float32Array;
+  }) => AudioDataLike;
+}
+
+const FPS = 24;
+const KEYFRAME_SECONDS = 2;
+const VIDEO_BITRATE = 4000000;
+const AUDIO_BITRATE = 128000;
+const AUDIO_SAMPLE_RATE = 48000; // Opus only runs at 48kHz
+const OPUS_PRE_SKIP = 312;
+const TITLE_SECONDS = 3.5;
+const SCENE_CAPTION_SECONDS = 4;
+const PHOTO_CROSSFADE = 0.6;
+const END_FADE = 1;
+const DEFAULT_SCENE_SECONDS = 5;
+
+const RESOLUTIONS: Record<CompositionRequest['aspectRatio'], [number, number]> = {
+  '16:9': [1280, 720],
+  '9:16': [720, 1280],
+  '1:1': [720, 720],
+};
+
+const TRANSITION_SECONDS: Record<SceneTransitionType, number> = {
+  cut: 0,
+  dissolve: 0.8,
+  fade: 0.6,
+};
+
+const THEME_GRADIENTS: Record<string, [string, string]> = {
+  adventure: ['#FF6B35', '#F7931E'],
+  mystery: ['#2C3E50', '#34495E'],
+  fantasy: ['#667eea', '#764ba2'],
+  'sci-fi': ['#0F2027', '#2C5364'],
+  romance: ['#ff9a9e', '#fecfef'],
+  horror: ['#232526', '#414345'],
+  comedy: ['#ffecd2', '#fcb69f'],
+  drama: ['#3a1c71', '#d76d77'],
+};
+
+const RECORDER_TYPES = [
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+/**
+ * Where each scene sits on the narration timeline. A scene starts where its
+ * first narrated clip does and runs until the next scene starts; scenes with
+ * no narration keep their planned length.
+ */
+export function timeScenes(
+  durations: number[],
+  spans: ({ start: number; end: number } | null)[],
+  totalDuration = 0
+): { start: number; duration: number }[] {
+  const timed: { start: number; duration: number }[] = [];
+  let cursor = 0;
+
+  durations.forEach((duration, index) => {
+    const span = spans[index];
+    const start = index === 0 ? 0 : span ? Math.max(cursor, span.start) : cursor;
+    const previous = timed[index - 1];
+    if (previous) previous.duration = start - previous.start;
+
+    const end = span ? Math.max(start, span.end) : start + (duration || DEFAULT_SCENE_SECONDS);
+    timed.push({ start, duration: end - start });
+    cursor = end;
+  });
+
+  const last = timed[timed.length - 1];
+  if (last && totalDuration > cursor) last.duration += totalDuration - cursor;
+  return timed;
+}
+
+export class VideoCompositorService {
+  private static instance: VideoCompositorService;
+
+  private constructor() {}
+
+  public static getInstance(): VideoCompositorService {
+    if (!VideoCompositorService.instance) {
+      VideoCompositorService.instance = new VideoCompositorService();
+    }
+    return VideoCompositorService.instance;
+  }
+
+  public isSupported(): boolean {
+    return this.canUseWebCodecs() || (typeof MediaRecorder !== 'undefined' && typeof document !== 'undefined');
+  }
+
+  /**
+   * Renders the story to a video file in the browser. Frames are drawn from the
+   * timeline alone, so the same request always produces the same picture.
+   * WebCodecs encodes faster than real time; otherwise the canvas is recorded
+   * while the narration plays.
+   */
+  public async render(
+    request: CompositionRequest,
+    onProgress?: (progress: number) => void
+  ): Promise<CompositionResult> {
+    if (request.scenes.length === 0) {
+      throw new Error('No scenes to render');
+    }
+
+    console.log('🔄 Compositing story video:', request.scenes.length, 'scenes');
+
+    const [width, height] = RESOLUTIONS[request.aspectRatio] || RESOLUTIONS['16:9'];
+    const audio = request.audioUrl ? await this.decodeAudio(request.audioUrl) : null;
+    const images = await this.loadImages(request.scenes.flatMap(scene => scene.photos));
+    const clips = await this.loadClips(request.scenes.flatMap(scene => scene.clip ? [scene.clip] : []));
+    const lastScene = request.scenes[request.scenes.length - 1];
+    const composition: Composition = {
+      ...request,
+      width,
+      height,
+      images,
+      clips,
+      duration: Math.max(audio?.duration || 0, lastScene.start + lastScene.duration),
+    };
+
+    try {
+      const missing = request.requireClips
+        ? request.scenes.filter(scene => scene.clip && !clips.has(scene.clip))
+        : [];
+      if (missing.length > 0) {
+        throw new Error(`Could not load the clips for ${missing.map(scene => scene.title).join(', ')}`);
+      }
+
+      const { blob, mimeType } = this.canUseWebCodecs()
+        ? await this.encodeWithWebCodecs(composition, audio, onProgress)
+        : await this.recordWithMediaRecorder(composition, audio, onProgress);
+
+      await this.seekClips(composition, Math.min(1.5, composition.duration));
+      const result = {
+        url: URL.createObjectURL(blob),
+        thumbnailUrl: URL.createObjectURL(await this.renderThumbnail(composition)),
+        mimeType,
+        duration: composition.duration,
+        size: blob.size,
+      };
+
+      console.log('✅ Story video rendered:', (blob.size / 1024 / 1024).toFixed(1), 'MB', mimeType);
+      onProgress?.(1);
+      return result;
+    } finally {
+      images.forEach(image => image.close());
+      clips.forEach(video => {
+        video.pause();
+        URL.revokeObjectURL(video.src);
+        video.removeAttribute('src');
+      });
+    }
+  }
+
+  private canUseWebCodecs(): boolean {
+    return typeof VideoEncoder !== 'undefined'
+      && typeof OffscreenCanvas !== 'undefined'
+      && !!this.getAudioCodecs();
+  }
+
+  private getAudioCodecs(): WebCodecsAudio | null {
+    const scope = globalThis as unknown as Partial<WebCodecsAudio>;
+    return scope.AudioEncoder && scope.AudioData ? scope as WebCodecsAudio : null;
+  }
+
+  private async decodeAudio(audioUrl: string): Promise<AudioBuffer> {
+    const response = await fetch(audioUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to load narration: ${response.status}`);
+    }
+
+    // Decoding through a 48kHz context resamples the mix for Opus
+    const context = new OfflineAudioContext(2, 1, AUDIO_SAMPLE_RATE);
+    return context.decodeAudioData(await response.arrayBuffer());
+  }
+
+  // Photos are fetched rather than loaded as <img>, so a blocked one is skipped instead of tainting the canvas
+  private async loadImages(urls: string[]): Promise<Map<string, ImageBitmap>> {
+    const images = new Map<string, ImageBitmap>();
+
+    await Promise.all(Array.from(new Set(urls)).map(async url => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        images.set(url, await createImageBitmap(await response.blob()));
+      } catch (error) {
+        console.warn('⚠️ Skipping photo that could not be loaded:', url, error);
+      }
+    }));
+
+    return images;
+  }
+
+  // Clips are fetched for the same reason; a scene whose clip won't load falls back to its photos
+  private async loadClips(urls: string[]): Promise<Map<string, HTMLVideoElement>> {
+    const clips = new Map<string, HTMLVideoElement>();
+
+    await Promise.all(Array.from(new Set(urls)).map(async url => {
+      let objectUrl: string | null = null;
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        objectUrl = URL.createObjectURL(await response.blob());
+
+        const video = document.createElement('video');
+        video.muted = true;
+        video.loop = true;
+        video.playsInline = true;
+        video.preload = 'auto';
+        await new Promise<void>((resolve, reject) => {
+          video.onloadeddata = () => resolve();
+          video.onerror = () => reject(new Error('The clip could not be decoded'));
+          video.src = objectUrl!;
+        });
+        clips.set(url, video);
+      } catch (error) {
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+        console.warn('⚠️ Skipping clip that could not be loaded:', url, error);
+      }
+    }));
+
+    return clips;
+  }
+
+  // Clips on screen at this moment, including the outgoing one during a dissolve
+  private clipsAt(composition: Composition, time: number): { video: HTMLVideoElement; target: number }[] {
+    return composition.scenes.flatMap(scene => {
+      const video = scene.clip ? composition.clips.get(scene.clip) : undefined;
+      const local = time - scene.start;
+      if (!video || local < 0 || local >= scene.duration + TRANSITION_SECONDS.dissolve) return [];
+      const clipIn = scene.clipIn || 0;
+      const length = Math.min(scene.clipOut ?? Infinity, video.duration) - clipIn;
+      return [{ video, target: length > 0 ? clipIn + local % length : clipIn }];
+    });
+  }
+
+  // Seeks each clip on screen to the frame for this moment, so encoded frames match the timeline
+  private async seekClips(composition: Composition, time: number) {
+    await Promise.all(this.clipsAt(composition, time).map(({ video, target }) => {
+      if (Math.abs(video.currentTime - target) < 0.5 / FPS) return null;
+      return new Promise(resolve => {
+        video.onseeked = resolve;
+        video.currentTime = target;
+      });
+    }));
+  }
+
+  // While recording in real time the clips play along, and are only seeked when they drift
+  private syncClips(composition: Composition, time: number) {
+    const active = this.clipsAt(composition, time);
+    composition.clips.forEach(video => {
+      const clip = active.find(entry => entry.video === video);
+      if (!clip) {
+        if (!video.paused) video.pause();
+        return;
+      }
+      if (Math.abs(video.currentTime - clip.target) > 0.25) video.currentTime = clip.target;
+      if (video.paused) video.play().catch(() => undefined);
+    });
+  }
+
+  private async pickVideoCodec(width: number, height: number): Promise<{ codec: string; track: 'V_VP8' | 'V_VP9' }> {
+    const candidates = [
+      { codec: 'vp09.00.10.08', track: 'V_VP9' as const },
+      { codec: 'vp8', track: 'V_VP8' as const },
+    ];
+
+    for (const candidate of candidates) {
+      const { supported } = await VideoEncoder.isConfigSupported({
+        codec: candidate.codec,
+        width,
+        height,
+        bitrate: VIDEO_BITRATE,
+        framerate: FPS,
+      });
+      if (supported) return candidate;
+    }
+
+    throw new Error('This browser cannot encode WebM video');
+  }
+
+  private async encodeWithWebCodecs(
+    composition: Composition,
+    audio: AudioBuffer | null,
+    onProgress?: (progress: number) => void
+  ): Promise<{ blob: Blob; mimeType: string }> {
+    const { width, height, duration } = composition;
+    const { codec, track } = await this.pickVideoCodec(width, height);
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d')!;
+
+    const frames: EncodedFrame[] = [];
+    let failure: Error | null = null;
+    const encoder = new VideoEncoder({
+      output: chunk => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        frames.push({ data, timestamp: chunk.timestamp, keyframe: chunk.type === 'key' });
+      },
+      error: error => { failure = error; },
+    });
+    encoder.configure({ codec, width, height, bitrate: VIDEO_BITRATE, framerate: FPS });
+
+    const totalFrames = Math.ceil(duration * FPS);
+    for (let index = 0; index < totalFrames; index++) {
+      if (failure) throw failure;
+
+      await this.seekClips(composition, index / FPS);
+      this.drawFrame(ctx, composition, index / FPS);
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(index * 1e6 / FPS),
+        duration: Math.round(1e6 / FPS),
+      });
+      encoder.encode(frame, { keyFrame: index % (FPS * KEYFRAME_SECONDS) === 0 });
+      frame.close();
+
+      // Let the encoder catch up, and the page repaint, instead of queueing the whole story
+      while (encoder.encodeQueueSize > 8) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      if (index % FPS === 0) {
+        onProgress?.(index / totalFrames * 0.9);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    await encoder.flush();
+    encoder.close();
+    if (failure) throw failure;
+
+    const audioTrack = audio ? await this.encodeAudio(audio) : null;
+    onProgress?.(0.98);
+
+    const blob = muxWebm({ codec: track, width, height, fps: FPS, frames }, audioTrack, duration);
+    return { blob, mimeType: 'video/webm' };
+  }
+
+  private async encodeAudio(audio: AudioBuffer) {
+    const { AudioEncoder, AudioData } = this.getAudioCodecs()!;
+    const channels = Math.min(2, audio.numberOfChannels);
+    const frames: EncodedFrame[] = [];
+    let description: Uint8Array | null = null;
+    let failure: Error | null = null;
+
+    const encoder = new AudioEncoder({
+      output: (chunk, metadata) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        frames.push({ data, timestamp: chunk.timestamp, keyframe: true });
+
+        const config = metadata?.decoderConfig?.description;
+        if (config && !description) {
+          description = config instanceof ArrayBuffer
+            ? new Uint8Array(config)
+            : new Uint8Array(config.buffer, config.byteOffset, config.byteLength);
+        }
+      },
+      error: error => { failure = error; },
+    });
+    encoder.configure({ codec: 'opus', sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: channels, bitrate: AUDIO_BITRATE });
+
+    // Half-second planar blocks: each channel's samples one after the other
+    const blockSize = AUDIO_SAMPLE_RATE / 2;
+    for (let offset = 0; offset < audio.length; offset += blockSize) {
+      const length = Math.min(blockSize, audio.length - offset);
+      const data = new Float32Array(length * channels);
+      for (let channel = 0; channel < channels; channel++) {
+        data.set(audio.getChannelData(channel).subarray(offset, offset + length), channel * length);
+      }
+
+      const block = new AudioData({
+        format: 'f32-planar',
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfFrames: length,
+        numberOfChannels: channels,
+        timestamp: Math.round(offset / AUDIO_SAMPLE_RATE * 1e6),
+        data,
+      });
+      encoder.encode(block);
+      block.close();
+    }
+
+    await encoder.flush();
+    encoder.close();
+    if (failure) throw failure;
+
+    // An encoder-supplied OpusHead carries its real pre-skip
+    const head: Uint8Array = description || opusHead(channels, AUDIO_SAMPLE_RATE, OPUS_PRE_SKIP);
+    const preSkip = head.length >= 12 ? new DataView(head.buffer, head.byteOffset).getUint16(10, true) : OPUS_PRE_SKIP;
+
+    return { sampleRate: AUDIO_SAMPLE_RATE, channels, codecPrivate: head, preSkip, frames };
+  }
+
+  // Plays the narration into a recorder alongside the canvas; takes as long as the story
+  private async recordWithMediaRecorder(
+    composition: Composition,
+    audio: AudioBuffer | null,
+    onProgress?: (progress: number) => void
+  ): Promise<{ blob: Blob; mimeType: string }> {
+    const mimeType = RECORDER_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error('This browser cannot record video');
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = composition.width;
+    canvas.height = composition.height;
+    const ctx = canvas.getContext('2d')!;
+    this.drawFrame(ctx, composition, 0);
+
+    const stream = canvas.captureStream(FPS);
+    const audioContext = new AudioContext();
+    const source = audioContext.createBufferSource();
+    if (audio) {
+      const destination = audioContext.createMediaStreamDestination();
+      source.buffer = audio;
+      source.connect(destination);
+      destination.stream.getAudioTracks().forEach(audioTrack => stream.addTrack(audioTrack));
+    }
+
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITRATE });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+
+    try {
+      recorder.start(1000);
+      const startTime = audioContext.currentTime + 0.1;
+      if (audio) source.start(startTime);
+
+      // The audio clock drives the frames, so picture and narration stay in sync
+      await new Promise<void>(resolve => {
+        const tick = () => {
+          const time = audioContext.currentTime - startTime;
+          if (time >= composition.duration) {
+            resolve();
+            return;
+          }
+          this.syncClips(composition, Math.max(0, time));
+          this.drawFrame(ctx, composition, Math.max(0, time));
+          onProgress?.(Math.max(0, time) / composition.duration * 0.98);
+          requestAnimationFrame(tick);
+        };
+        tick();
+      });
+
+      recorder.stop();
+      await stopped;
+    } finally {
+      composition.clips.forEach(video => video.pause());
+      stream.getTracks().forEach(track => track.stop());
+      await audioContext.close();
+    }
+
+    return { blob: new Blob(chunks, { type: mimeType.split(';')[0] }), mimeType: mimeType.split(';')[0] };
+  }
+
+  // The title card over the opening scene, drawn small
+  private renderThumbnail(composition: Composition): Promise<Blob> {
+    const scale = 480 / composition.width;
+    const { ctx, toBlob } = createCanvas(480, Math.round(composition.height * scale));
+    ctx.scale(scale, scale);
+    this.drawFrame(ctx, composition, Math.min(1.5, composition.duration));
+    return toBlob('image/jpeg', 0.85);
+  }
+
+  private drawFrame(ctx: Context2D, composition: Composition, time: number) {
+    const { scenes, width, height } = composition;
+    let index = scenes.findIndex(scene => time < scene.start + scene.duration);
+    if (index === -1) index = scenes.length - 1;
+
+    const scene = scenes[index];
+    const local = time - scene.start;
+    const entering = TRANSITION_SECONDS[scene.transition || 'cut'];
+
+    if (index > 0 && scene.transition === 'dissolve' && local < entering) {
+      const previous = scenes[index - 1];
+      this.drawScene(ctx, composition, previous, index - 1, time - previous.start, 1);
+      this.drawScene(ctx, composition, scene, index, local, local / entering);
+    } else {
+      this.drawScene(ctx, composition, scene, index, local, 1);
+    }
+
+    // Fades pass through black: out of the previous scene, then into this one
+    const next = scenes[index + 1];
+    const leaving = next?.transition === 'fade' ? TRANSITION_SECONDS.fade : 0;
+    if (index > 0 && scene.transition === 'fade' && local < entering) {
+      this.fillBlack(ctx, width, height, 1 - local / entering);
+    } else if (leaving && next.start - time < leaving) {
+      this.fillBlack(ctx, width, height, 1 - (next.start - time) / leaving);
+    }
+
+    if (time < TITLE_SECONDS) {
+      this.drawTitleCard(ctx, composition, time);
+    }
+
+    const cue = composition.subtitles?.find(c => time >= c.start && time < c.end);
+    if (cue) {
+      this.drawSubtitle(ctx, width, height, cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text);
+    }
+
+    if (composition.duration - time < END_FADE) {
+      this.fillBlack(ctx, width, height, 1 - (composition.duration - time) / END_FADE);
+    }
+  }
+
+  private drawScene(ctx: Context2D, composition: Composition, scene: CompositionScene, index: number, local: number, alpha: number) {
+    const { width, height, images } = composition;
+    const photos = scene.photos.map(url => images.get(url)).filter((image): image is ImageBitmap => !!image);
+    const clip = scene.clip ? composition.clips.get(scene.clip) : undefined;
+
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    this.drawBackground(ctx, width, height, composition.theme, scene.start + local);
+
+    if (clip) {
+      this.drawClip(ctx, width, height, clip, alpha);
+      ctx.globalAlpha = alpha;
+      this.drawBottomShade(ctx, width, height);
+    } else if (photos.length > 0) {
+      // Each photo gets an equal share of the scene, crossfading into the next
+      const share = scene.duration / photos.length;
+      const current = Math.min(photos.length - 1, Math.floor(local / share));
+      const into = local - current * share;
+
+      if (current > 0 && into < PHOTO_CROSSFADE) {
+        this.drawKenBurns(ctx, width, height, photos[current - 1], 1, index * 31 + current - 1, alpha);
+      }
+      this.drawKenBurns(
+        ctx, width, height, photos[current], into / share, index * 31 + current,
+        alpha * (current > 0 ? Math.min(1, into / PHOTO_CROSSFADE) : 1)
+      );
+      ctx.globalAlpha = alpha;
+      this.drawBottomShade(ctx, width, height);
+    } else if (index > 0 || local >= TITLE_SECONDS) {
+      // With nothing to show, the scene's own title card carries it
+      this.drawCenteredText(ctx, width, height, scene.title, Math.round(height / 14), Math.min(1, local / 0.6));
+    }
+
+    if (scene.caption && local < SCENE_CAPTION_SECONDS && (index > 0 || local >= TITLE_SECONDS)) {
+      const fade = Math.min(1, local / 0.4, (SCENE_CAPTION_SECONDS - local) / 0.6);
+      this.drawLowerThird(ctx, width, height, scene.title, scene.caption, fade);
+    }
+    ctx.restore();
+  }
+
+  // Theme gradient that slowly turns, with particles that drift and twinkle
+  private drawBackground(ctx: Context2D, width: number, height: number, theme: string, time: number) {
+    const [from, to] = THEME_GRADIENTS[theme] || ['#4facfe', '#00f2fe'];
+    const angle = time * 0.05;
+    const radius = Math.hypot(width, height) / 2;
+    const gradient = ctx.createLinearGradient(
+      width / 2 - Math.cos(angle) * radius, height / 2 - Math.sin(angle) * radius,
+      width / 2 + Math.cos(angle) * radius, height / 2 + Math.sin(angle) * radius
+    );
+    gradient.addColorStop(0, from);
+    gradient.addColorStop(1, to);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    const random = seededRandom(42);
+    const baseAlpha = ctx.globalAlpha;
+    for (let i = 0; i < 30; i++) {
+      const size = random() * 4 + 2;
+      const speed = random() * 0.5 + 0.2;
+      const phase = random() * Math.PI * 2;
+      const x = random() * width + Math.sin(time * 0.5 + phase) * 20;
+      const y = ((random() - time * speed * 0.03) % 1 + 1) % 1 * height;
+
+      ctx.globalAlpha = baseAlpha * (0.45 + 0.25 * Math.sin(time * 2 + phase));
+      switch (theme) {
+        case 'fantasy':
+          ctx.fillStyle = '#FFD700';
+          this.drawStar(ctx, x, y, size);
+          break;
+        case 'sci-fi':
+          ctx.fillStyle = '#00FFFF';
+          ctx.fillRect(x, y, size, size);
+          break;
+        default:
+          ctx.fillStyle = '#FFFFFF';
+          ctx.beginPath();
+          ctx.arc(x, y, size, 0, Math.PI * 2);
+          ctx.fill();
+      }
+    }
+    ctx.globalAlpha = baseAlpha;
+  }
+
+  private drawStar(ctx: Context2D, x: number, y: number, size: number) {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.beginPath();
+    for (let i = 0; i < 5; i++) {
+      ctx.lineTo(Math.cos((18 + i * 72) * Math.PI / 180) * size,
+                Math.sin((18 + i * 72) * Math.PI / 180) * size);
+      ctx.lineTo(Math.cos((54 + i * 72) * Math.PI / 180) * size / 2,
+                Math.sin((54 + i * 72) * Math.PI / 180) * size / 2);
+    }
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+  }
+
+  // A slow zoom and pan across the photo; the seed picks the direction so every run matches
+  private drawKenBurns(ctx: Context2D, width: number, height: number, image: ImageBitmap, progress: number, seed: number, alpha: number) {
+    const random = seededRandom(seed + 1);
+    const zoomIn = random() > 0.5;
+    const panX = random() * 2 - 1;
+    const panY = random() * 2 - 1;
+    const eased = progress * progress * (3 - 2 * progress);
+
+    const zoom = zoomIn ? 1.05 + 0.15 * eased : 1.2 - 0.15 * eased;
+    const scale = Math.max(width / image.width, height / image.height) * zoom;
+    const drawWidth = image.width * scale;
+    const drawHeight = image.height * scale;
+    const travel = eased * 2 - 1;
+
+    // Portraits keep faces in frame by favouring the upper part of the photo
+    const x = (width - drawWidth) / 2 + panX * travel * (drawWidth - width) / 2;
+    const y = Math.min(0, Math.max(height - drawHeight, (height - drawHeight) * 0.3 + panY * travel * (drawHeight - height) * 0.2));
+
+    ctx.globalAlpha = alpha;
+    ctx.drawImage(image, x, y, drawWidth, drawHeight);
+  }
+
+  // Fills the frame with the clip, cropping whatever doesn't fit the aspect ratio
+  private drawClip(ctx: Context2D, width: number, height: number, video: HTMLVideoElement, alpha: number) {
+    const scale = Math.max(width / video.videoWidth, height / video.videoHeight);
+    const drawWidth = video.videoWidth * scale;
+    const drawHeight = video.videoHeight * scale;
+
+    ctx.globalAlpha = alpha;
+    ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  }
+
+  private drawBottomShade(ctx: Context2D, width: number, height: number) {
+    const shade = ctx.createLinearGradient(0, height * 0.55, 0, height);
+    shade.addColorStop(0, 'rgba(0,0,0,0)');
+    shade.addColorStop(1, 'rgba(0,0,0,0.55)');
+    ctx.fillStyle = shade;
+    ctx.fillRect(0, height * 0.55, width, height * 0.45);
+  }
+
+  private drawTitleCard(ctx: Context2D, composition: Composition, time: number) {
+    const { width, height } = composition;
+    const alpha = Math.min(1, time / 0.5, (TITLE_SECONDS - time) / 0.8);
+
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.fillStyle = 'rgba(0,0,0,0.35)';
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+
+    this.drawCenteredText(ctx, width, height, composition.title, Math.round(Math.min(width, height) / 10), alpha);
+  }
+
+  private drawCenteredText(ctx: Context2D, width: number, height: number, text: string, size: number, alpha: number) {
+    ctx.save();
+    ctx.globalAlpha *= alpha;
+    ctx.font = `bold ${size}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.shadowColor = 'rgba(0,0,0,0.5)';
+    ctx.shadowBlur = 8;
+
+    const lines = wrapText(ctx, text, width * 0.8, 3);
+    lines.forEach((line, index) => {
+      ctx.fillText(line, width / 2, height / 2 + (index - (lines.length - 1) / 2) * size * 1.2);
+    });
+    ctx.restore();
+  }
+
+  private drawLowerThird(ctx: Context2D, width: number, height: number, title: string, caption: string, alpha: number) {
+    const size = Math.round(Math.min(width, height) / 24);
+    const x = Math.round(width * 0.05);
+    const y = Math.round(height * 0.08);
+
+    ctx.save();
+    ctx.globalAlpha *= alpha;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.shadowColor = 'rgba(0,0,0,0.6)';
+    ctx.shadowBlur = 6;
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = `bold ${size}px Arial`;
+    ctx.fillText(title, x, y, width * 0.9);
+    ctx.font = `${Math.round(size * 0.75)}px Arial`;
+    ctx.fillStyle = 'rgba(255,255,255,0.85)';
+    ctx.fillText(caption, x, y + size * 1.3, width * 0.9);
+    ctx.restore();
+  }
+
+  private drawSubtitle(ctx: Context2D, width: number, height: number, text: string) {
+    const size = Math.round(Math.min(width, height) / 22);
+    ctx.save();
+    ctx.font = `${size}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const lines = wrapText(ctx, text, width * 0.84, 2);
+    const lineHeight = size * 1.3;
+    const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + size;
+    const boxHeight = lines.length * lineHeight + size * 0.4;
+    const top = height * 0.92 - boxHeight;
+
+    ctx.fillStyle = 'rgba(0,0,0,0.6)';
+    ctx.fillRect((width - boxWidth) / 2, top, boxWidth, boxHeight);
+    ctx.fillStyle = '#FFFFFF';
+    lines.forEach((line, index) => {
+      ctx.fillText(line, width / 2, top + size * 0.2 + lineHeight * (index + 0.5));
+    });
+    ctx.restore();
+  }
+
+  private fillBlack(ctx: Context2D, width: number, height: number, alpha: number) {
+    ctx.save();
+    ctx.globalAlpha = Math.max(0, Math.min(1, alpha));
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+  }
+}
+
+// An OffscreenCanvas where the browser has one, otherwise a detached <canvas>
+function createCanvas(width: number, height: number): { ctx: Context2D; toBlob: (type: string, quality: number) => Promise<Blob> } {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    return { ctx: canvas.getContext('2d')!, toBlob: (type, quality) => canvas.convertToBlob({ type, quality }) };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return {
+    ctx: canvas.getContext('2d')!,
+    toBlob: (type, quality) => new Promise((resolve, reject) => canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')),
+      type,
+      quality
+    )),
+  };
+}
+
+// Greedy word wrap; the last allowed line takes whatever is left
+function wrapText(ctx: Context2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && lines.length < maxLines - 1 && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+
+  return lines;
+}
+
+// mulberry32: small, fast and the same on every run
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const videoCompositor = VideoCompositorService.getInstance();
@@ -1,71 +1,47 @@
-interface VideoProvider {
-  name: string;
-  available: boolean;
-  priority: number;
-  capabilities: string[];
-  configured: boolean;
-  cost: 'free' | 'freemium' | 'paid';
+import {
+  assessBackend,
+  createVideoBackends,
+  SkippedBackend,
+  VideoBackend,
+  VideoGenerationRequest,
+  VideoGenerationResponse,
+} from './videoBackends';
+
+export { splitByScene, withReferenceImages } from './videoBackends';
+
+export type {
+  VideoBackend,
+  VideoCapabilities,
+  VideoGenerationRequest,
+  VideoGenerationResponse,
+  VideoNeeds,
+  SkippedBackend,
+  ReferenceImage,
+} from './videoBackends';
+
+export interface BackendAssessment {
+  backend: VideoBackend;
+  reasons: string[]; // Why it can't make this video; empty when it can
+  estimatedCost: number;
 }
 
-interface VideoGenerationRequest {
-  prompt: string;
-  duration?: number;
-  aspectRatio?: '16:9' | '9:16' | '1:1';
-  style?: 'cinematic' | 'dramatic' | 'artistic' | 'realistic';
-  narration?: {
-    text: string;
-    voice: string;
-  };
-  subtitles?: boolean;
-  characters?: Array<{
-    name: string;
-    description: string;
-    voice?: string;
-  }>;
-  scenes?: Array<{
-    description: string;
-    duration: number;
-    narration?: string;
-    dialogue?: Array<{
-      character: string;
-      text: string;
-    }>;
-    visualPrompt?: string;
-  }>;
-}
-
-interface VideoGenerationResponse {
-  id: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  video_url?: string;
-  thumbnail_url?: string;
-  provider: string;
-  estimated_time?: number;
-  progress?: number;
-  instructions?: string;
+interface GenerateVideoOptions {
+  preferredBackend?: string; // The user's pick, tried first when it can make the video
+  onProgress?: (progress: number) => void;
 }
 
 export class VideoService {
   private static instance: VideoService;
-  private providers: VideoProvider[] = [];
-  private runwayApiKey: string | null = null;
-  private replicateToken: string | null = null;
-  private huggingFaceToken: string | null = null;
-  private tavusApiKey: string | null = null;
+  private backends: VideoBackend[];
 
   private constructor() {
-    this.runwayApiKey = (import.meta as any).env?.VITE_RUNWAY_API_KEY || null;
-    this.replicateToken = (import.meta as any).env?.VITE_REPLICATE_API_TOKEN || null;
-    this.huggingFaceToken = (import.meta as any).env?.VITE_HUGGINGFACE_API_KEY || null;
-    this.tavusApiKey = (import.meta as any).env?.VITE_TAVUS_API_KEY || null;
-    
-    console.log('🎬 VideoService initialized with API keys:');
-    console.log('  - Tavus:', !!this.tavusApiKey, this.tavusApiKey?.substring(0, 8) + '...' || 'NOT SET');
-    console.log('  - Runway:', !!this.runwayApiKey);
-    console.log('  - Replicate:', !!this.replicateToken);
-    console.log('  - HuggingFace:', !!this.huggingFaceToken);
-    
-    this.initializeProviders();
+    this.backends = createVideoBackends();
+
+    console.log('🎬 Video backends initialized:', this.backends.map(backend => ({
+      name: backend.name,
+      configured: backend.isConfigured(),
+      cost: backend.cost,
+    })));
   }
 
   public static getInstance(): VideoService {
@@ -75,842 +51,95 @@ export class VideoService {
     return VideoService.instance;
   }
 
-  private initializeProviders() {
-    this.providers = [
-      {
-        name: 'tavus',
-        available: !!this.tavusApiKey,
-        configured: !!this.tavusApiKey,
-        priority: 1,
-        capabilities: ['conversational-video', 'character-agents', 'real-time-generation'],
-        cost: 'paid'
-      },
-      {
-        name: 'runway-ml',
-        available: !!this.runwayApiKey,
-        configured: !!this.runwayApiKey,
-        priority: 2,
-        capabilities: ['text-to-video', 'image-to-video', 'professional-quality'],
-        cost: 'paid'
-      },
-      {
-        name: 'replicate-video',
-        available: !!this.replicateToken,
-        configured: !!this.replicateToken,
-        priority: 3,
-        capabilities: ['ai-video-generation', 'stable-video-diffusion'],
-        cost: 'freemium'
-      },
-      {
-        name: 'huggingface-video',
-        available: !!this.huggingFaceToken,
-        configured: !!this.huggingFaceToken,
-        priority: 4,
-        capabilities: ['video-generation', 'motion-synthesis'],
-        cost: 'freemium'
-      },
-      {
-        name: 'ai-generated-canvas',
-        available: true,
-        configured: true,
-        priority: 5,
-        capabilities: ['procedural-video', 'ai-animation', 'story-visualization'],
-        cost: 'free'
-      }
-    ];
+  public getBackends(): VideoBackend[] {
+    return this.backends;
+  }
 
-    console.log('🎬 Professional AI Video providers initialized:', this.providers.map(p => ({
-      name: p.name,
-      configured: p.configured,
-      cost: p.cost,
-      capabilities: p.capabilities
-    })));
+  public getBackend(name: string): VideoBackend | undefined {
+    return this.backends.find(backend => backend.name === name);
   }
 
-  public getAvailableProviders(): VideoProvider[] {
-    return this.providers;
+  /**
+   * Every backend in the order it would be tried, with the reasons it can't
+   * make this video. The preferred backend goes first, the rest keep their order.
+   */
+  public assessBackends(request: VideoGenerationRequest, preferredBackend?: string): BackendAssessment[] {
+    const ordered = [
+      ...this.backends.filter(backend => backend.name === preferredBackend),
+      ...this.backends.filter(backend => backend.name !== preferredBackend),
+    ];
+
+    return ordered.map(backend => ({
+      backend,
+      reasons: assessBackend(backend, request),
+      estimatedCost: backend.estimateCost(request),
+    }));
   }
 
-  public async generateVideo(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
-    console.log('🎬 Starting professional AI video generation with request:', {
+  public async generateVideo(
+    request: VideoGenerationRequest,
+    { preferredBackend, onProgress }: GenerateVideoOptions = {}
+  ): Promise<VideoGenerationResponse> {
+    console.log('🎬 Starting video generation with request:', {
       duration: request.duration,
       scenes: request.scenes?.length,
       hasNarration: !!request.narration,
-      hasSubtitles: request.subtitles
+      hasSubtitles: request.subtitles,
+      preferredBackend
     });
 
-    // Try professional AI video services in order of quality
-    
-    // 1. Try Tavus (conversational video agents)
-    if (this.tavusApiKey) {
-      try {
-        console.log('🎬 Attempting video generation with Tavus');
-        return await this.generateWithTavus(request);
-      } catch (error) {
-        console.error('❌ Tavus failed:', error);
-      }
-    }
-    
-    // 2. Try Runway ML (highest quality)
-    if (this.runwayApiKey) {
-      try {
-        console.log('🚀 Attempting video generation with Runway ML');
-        return await this.generateWithRunway(request);
-      } catch (error) {
-        console.error('❌ Runway ML failed:', error);
-      }
-    }
+    const skipped: SkippedBackend[] = [];
 
-    // 2. Try Replicate Video Models
-    if (this.replicateToken) {
-      try {
-        console.log('🔄 Attempting video generation with Replicate');
-        return await this.generateWithReplicate(request);
-      } catch (error) {
-        console.error('❌ Replicate failed:', error);
+    for (const { backend, reasons } of this.assessBackends(request, preferredBackend)) {
+      if (reasons.length > 0) {
+        console.log(`⏭️ Skipping ${backend.label}:`, reasons.join('; '));
+        skipped.push({ backend: backend.name, reason: reasons.join('; ') });
+        continue;
       }
-    }
 
-    // 3. Try HuggingFace Video Models
-    if (this.huggingFaceToken) {
       try {
-        console.log('🤗 Attempting video generation with HuggingFace');
-        return await this.generateWithHuggingFace(request);
+        console.log(`🔄 Generating video with ${backend.label}`);
+        const result = await backend.submit(request, onProgress);
+        return { ...result, skipped };
       } catch (error) {
-        console.error('❌ HuggingFace failed:', error);
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ ${backend.label} failed:`, error);
+        skipped.push({ backend: backend.name, reason: `Failed: ${message}` });
       }
     }
 
-    // 4. Generate AI Canvas Video (always available)
-    console.log('🎨 Generating AI Canvas video...');
-    return await this.generateAICanvasVideo(request);
-  }
-
-  private async generateWithRunway(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
-    console.log('🚀 Generating with Runway ML (premium AI video)...');
-    
-    const prompt = this.buildVideoPrompt(request);
-    
-    try {
-      const response = await fetch('https://api.runwayml.com/v1/video_generations', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.runwayApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gen3a_turbo',
-          prompt: prompt,
-          duration: Math.min(request.duration || 10, 10), // Max 10 seconds for demo
-          aspect_ratio: request.aspectRatio || '16:9',
-          motion_bucket_id: 127
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Runway API error: ${response.status}`);
-      }
-
-      const result = await response.json();
-      
-      return {
-        id: result.id || `runway-${Date.now()}`,
-        status: 'processing',
-        provider: 'runway-ml',
-        estimated_time: 60,
-        progress: 10,
-        instructions: 'Professional AI video generation in progress with Runway ML...'
-      };
-      
-    } catch (error) {
-      console.error('❌ Runway generation error:', error);
-      throw error;
-    }
-  }
-
-  private async generateWithTavus(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
-    console.log('🎬 Generating with Tavus (conversational video agents)...');
-    
-    // Import tavusService
-    const { tavusService } = await import('./tavusService');
-    
-    try {
-      // Create video agent for first character if available
-      const firstCharacter = request.characters?.[0];
-      if (firstCharacter) {
-        console.log('🎭 Creating Tavus replica for character:', firstCharacter.name);
-        const agent = await tavusService.createVideoAgent(firstCharacter);
-        
-        // Create story narration script
-        const storyScript = this.buildStoryScript(request, firstCharacter);
-        
-        // Generate video with the character replica
-        const conversationResult = await tavusService.generateConversationalVideo({
-          message: storyScript,
-          replica_id: agent.replica_id,
-          context: request.prompt,
-          background: '#1a1a1a'
-        });
-        
-        console.log('✅ Tavus video generated successfully:', conversationResult.video_url);
-        
-        return {
-          id: conversationResult.id,
-          status: 'completed',
-          video_url: conversationResult.video_url,
-          thumbnail_url: undefined,
-          provider: 'tavus',
-          progress: 100,
-          instructions: `✅ Real Tavus video generated with ${firstCharacter.name}! Premium AI replica technology used.`
-        };
-      } else {
-        throw new Error('No characters available for Tavus video generation');
-      }
-      
-    } catch (error) {
-      console.error('❌ Tavus generation error:', error);
-      throw error;
-    }
-  }
-
-  private buildStoryScript(request: VideoGenerationRequest, character: any): string {
-    const scenes = request.scenes || [];
-    
-    // Create cinematic script structure
-    let script = `[CINEMATIC NARRATION]
-*The camera slowly focuses as ${character.name} appears*
-
-Hello, I'm ${character.name}. 
-
-[CHARACTER INTRODUCTION - Warm, engaging tone]
-${character.description || `Let me share an incredible story with you.`}
-
-`;
-
-    if (scenes.length > 0) {
-      scenes.forEach((scene, index) => {
-        // Add scene transition
-        script += `[SCENE ${index + 1} - ${this.getSceneMood(scene)}]
-*${this.generateSceneAction(scene)}*
-
-`;
-
-        // Add narrative introduction to scene
-        if (scene.narration) {
-          script += `[NARRATION] ${scene.narration}
-
-`;
-        }
-
-        // Add character dialogue with emotional context
-        if (scene.dialogue) {
-          scene.dialogue.forEach(dialogue => {
-            const speaker = dialogue.character;
-            const emotion = this.detectEmotion(dialogue.text);
-            
-            if (speaker.toLowerCase().includes(character.name.toLowerCase())) {
-              script += `[${character.name.toUpperCase()} - ${emotion}]
-"${dialogue.text}"
-
-`;
-            } else {
-              // Include other character dialogue as narration
-              script += `[NARRATING OTHER CHARACTER - ${speaker}]
-${speaker} ${this.convertDialogueToNarration(dialogue.text)}
-
-`;
-            }
-          });
-        }
-
-        // Add scene description as action
-        script += `[ACTION SEQUENCE]
-*${scene.description}*
-
-`;
-
-        // Add transition between scenes
-        if (index < scenes.length - 1) {
-          script += `[TRANSITION]
-*The scene transitions as our story continues...*
-
-`;
-        }
-      });
-    } else {
-      // Create dramatic storytelling from prompt
-      const storyElements = this.extractStoryElements(request.prompt);
-      
-      script += `[MAIN STORY - Dramatic narration]
-${storyElements.setup}
-
-[CHARACTER PERSPECTIVE]
-"${storyElements.characterQuote}"
-
-[STORY CLIMAX]
-*${storyElements.climax}*
-
-[RESOLUTION]
-${storyElements.resolution}
-`;
-    }
-
-    // Add cinematic conclusion
-    script += `
-[CLOSING SCENE - Reflective tone]
-*${character.name} looks thoughtfully at the camera*
-
-"And that's how our story unfolds... every ending is just a new beginning."
-
-[FADE OUT]
-*The scene slowly fades as the story concludes*`;
-
-    // Optimize script length for Tavus (around 800-1000 characters for good pacing)
-    if (script.length > 1200) {
-      script = this.optimizeScriptLength(script);
-    }
-
-    console.log('🎬 Generated cinematic script:', script.substring(0, 200) + '...');
-    return script;
-  }
-
-  private getSceneMood(scene: any): string {
-    const description = scene.description?.toLowerCase() || '';
-    
-    if (description.includes('action') || description.includes('fight') || description.includes('chase')) {
-      return 'Action Sequence';
-    } else if (description.includes('sad') || description.includes('cry') || description.includes('tragic')) {
-      return 'Emotional Moment';
-    } else if (description.includes('funny') || description.includes('laugh') || description.includes('comedy')) {
-      return 'Comedy Beat';
-    } else if (description.includes('romantic') || description.includes('love') || description.includes('kiss')) {
-      return 'Romantic Scene';
-    } else if (description.includes('scary') || description.includes('dark') || description.includes('horror')) {
-      return 'Suspenseful';
-    } else if (description.includes('discover') || description.includes('reveal') || description.includes('surprise')) {
-      return 'Discovery';
-    }
-    
-    return 'Dramatic';
-  }
-
-  private generateSceneAction(scene: any): string {
-    const visualPrompt = scene.visualPrompt || scene.description;
-    const actions = [
-      `The camera captures ${visualPrompt.toLowerCase()}`,
-      `We see ${visualPrompt.toLowerCase()} unfolding`,
-      `The scene reveals ${visualPrompt.toLowerCase()}`,
-      `Focus shifts to ${visualPrompt.toLowerCase()}`,
-      `The story moves to ${visualPrompt.toLowerCase()}`
-    ];
-    
-    return actions[Math.floor(Math.random() * actions.length)];
-  }
-
-  private detectEmotion(text: string): string {
-    const textLower = text.toLowerCase();
-    
-    if (textLower.includes('!') || textLower.includes('amazing') || textLower.includes('incredible')) {
-      return 'Excited';
-    } else if (textLower.includes('?') || textLower.includes('confused') || textLower.includes('wonder')) {
-      return 'Curious';
-    } else if (textLower.includes('sad') || textLower.includes('sorry') || textLower.includes('tragic')) {
-      return 'Sorrowful';
-    } else if (textLower.includes('angry') || textLower.includes('mad') || textLower.includes('furious')) {
-      return 'Intense';
-    } else if (textLower.includes('love') || textLower.includes('care') || textLower.includes('heart')) {
-      return 'Tender';
-    } else if (textLower.includes('fear') || textLower.includes('scared') || textLower.includes('worried')) {
-      return 'Anxious';
-    }
-    
-    return 'Thoughtful';
-  }
-
-  private convertDialogueToNarration(dialogue: string): string {
-    // Convert direct dialogue to narrative speech
-    if (dialogue.startsWith('"') && dialogue.endsWith('"')) {
-      dialogue = dialogue.slice(1, -1);
-    }
-    
-    const narrativeStarters = [
-      'says',
-      'explains',
-      'reveals',
-      'shares',
-      'tells us',
-      'mentions',
-      'declares'
-    ];
-    
-    const starter = narrativeStarters[Math.floor(Math.random() * narrativeStarters.length)];
-    return `${starter}: "${dialogue}"`;
-  }
-
-  private extractStoryElements(prompt: string) {
-    // Extract key story elements for dramatic narration
-    const sentences = prompt.split('.').filter(s => s.trim().length > 10);
-    
-    return {
-      setup: sentences[0]?.trim() || 'Our story begins with an extraordinary moment',
-      characterQuote: this.generateCharacterQuote(prompt),
-      climax: sentences[Math.floor(sentences.length / 2)]?.trim() || 'The story reaches its pivotal moment',
-      resolution: sentences[sentences.length - 1]?.trim() || 'And so our journey comes to a meaningful conclusion'
-    };
-  }
-
-  private generateCharacterQuote(prompt: string): string {
-    const themes = prompt.toLowerCase();
-    
-    if (themes.includes('adventure')) {
-      return 'Every great adventure begins with a single step into the unknown.';
-    } else if (themes.includes('love')) {
-      return 'Love has a way of changing everything, doesn\'t it?';
-    } else if (themes.includes('mystery')) {
-      return 'Some mysteries are meant to be solved, others... are meant to be lived.';
-    } else if (themes.includes('friendship')) {
-      return 'True friendship is the greatest treasure we can find.';
-    } else if (themes.includes('family')) {
-      return 'Family isn\'t just about blood - it\'s about the bonds we choose to honor.';
-    }
-    
-    return 'Sometimes the most important stories are the ones we live ourselves.';
-  }
-
-  private optimizeScriptLength(script: string): string {
-    // Keep the most important parts while maintaining narrative flow
-    const lines = script.split('\n');
-    const importantLines = lines.filter(line => {
-      const lineLower = line.toLowerCase();
-      return (
-        line.includes('[') || // Keep direction markers
-        line.includes('"') || // Keep dialogue
-        line.includes('*') || // Keep action lines
-        lineLower.includes('story') ||
-        lineLower.includes('character') ||
-        line.trim().length > 30 // Keep substantial content
-      );
-    });
-    
-    let optimized = importantLines.join('\n');
-    
-    // If still too long, truncate with proper ending
-    if (optimized.length > 1000) {
-      optimized = optimized.substring(0, 900) + '\n\n[FADE OUT]\n*The story continues...*';
-    }
-    
-    return optimized;
-  }
-
-  private async generateWithReplicate(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
-    console.log('🔄 Generating with Replicate Video Models...');
-    
-    const prompt = this.buildVideoPrompt(request);
-    
-    try {
-      const response = await fetch('https://api.replicate.com/v1/predictions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Token ${this.replicateToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          version: 'cdb532257c2bff8c6dc96fb90da3a8a44c7a18bb0e9b0db6ce8e1b8a8ad8dca8', // Stable Video Diffusion
-          input: {
-            video_length: Math.min(request.duration || 5, 5),
-            prompt: prompt,
-            negative_prompt: 'low quality, blurry, distorted, watermark, text',
-            width: request.aspectRatio === '9:16' ? 576 : 1024,
-            height: request.aspectRatio === '9:16' ? 1024 : 576
-          }
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Replicate API error: ${response.status}`);
-      }
-
-      const prediction = await response.json();
-      
-      return {
-        id: prediction.id,
-        status: 'processing',
-        provider: 'replicate-video',
-        estimated_time: 120,
-        progress: 15,
-        instructions: 'AI video generation with Stable Video Diffusion in progress...'
-      };
-      
-    } catch (error) {
-      console.error('❌ Replicate video generation error:', error);
-      throw error;
-    }
-  }
-
-  private async generateWithHuggingFace(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
-    console.log('🤗 Generating with HuggingFace Video Models...');
-    
-    const prompt = this.buildVideoPrompt(request);
-    
-    try {
-      // Use HuggingFace video generation models
-      const response = await fetch('https://api-inference.huggingface.co/models/damo-vilab/text-to-video-ms-1.7b', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.huggingFaceToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: prompt,
-          parameters: {
-            num_frames: Math.min((request.duration || 3) * 8, 24), // 8 fps
-            height: request.aspectRatio === '9:16' ? 320 : 256,
-            width: request.aspectRatio === '9:16' ? 256 : 320
-          }
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`HuggingFace API error: ${response.status}`);
-      }
-
-      const blob = await response.blob();
-      const videoUrl = URL.createObjectURL(blob);
-      
-      return {
-        id: `hf-${Date.now()}`,
-        status: 'completed',
-        video_url: videoUrl,
-        provider: 'huggingface-video',
-        progress: 100,
-        instructions: 'AI-generated video completed with HuggingFace models'
-      };
-      
-    } catch (error) {
-      console.error('❌ HuggingFace video generation error:', error);
-      throw error;
-    }
-  }
-
-  private async generateAICanvasVideo(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
-    console.log('🎨 Generating AI Canvas video (procedural animation)...');
-    
-    // Simulate AI video processing
-    await new Promise(resolve => setTimeout(resolve, 3000));
-    
-    // Generate AI canvas video using procedural animation
-    const canvasVideoData = this.createProceduralVideo(request);
-    
-    return {
-      id: `ai-canvas-${Date.now()}`,
-      status: 'completed',
-      video_url: canvasVideoData.dataUrl,
-      thumbnail_url: canvasVideoData.thumbnailUrl,
-      provider: 'ai-generated-canvas',
-      progress: 100,
-      instructions: this.getAIVideoInstructions(request)
-    };
-  }
-
-  private createProceduralVideo(request: VideoGenerationRequest): { dataUrl: string; thumbnailUrl: string } {
-    // Create a canvas-based procedural video
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
-    
-    // Set dimensions based on aspect ratio
-    if (request.aspectRatio === '9:16') {
-      canvas.width = 720;
-      canvas.height = 1280;
-    } else if (request.aspectRatio === '1:1') {
-      canvas.width = 1080;
-      canvas.height = 1080;
-    } else {
-      canvas.width = 1920;
-      canvas.height = 1080;
-    }
-
-    // Create animated background based on story theme
-    const theme = this.analyzeStoryTheme(request.prompt);
-    this.drawAnimatedBackground(ctx, canvas, theme);
-    
-    // Add story elements
-    this.addStoryElements(ctx, canvas, request, theme);
-    
-    // Convert to data URL
-    const dataUrl = canvas.toDataURL('image/png');
-    
-    // Create thumbnail
-    const thumbnailCanvas = document.createElement('canvas');
-    thumbnailCanvas.width = 320;
-    thumbnailCanvas.height = 180;
-    const thumbCtx = thumbnailCanvas.getContext('2d')!;
-    thumbCtx.drawImage(canvas, 0, 0, 320, 180);
-    const thumbnailUrl = thumbnailCanvas.toDataURL('image/png');
-    
-    return { dataUrl, thumbnailUrl };
-  }
-
-  private analyzeStoryTheme(prompt: string): string {
-    const promptLower = prompt.toLowerCase();
-    
-    if (promptLower.includes('adventure') || promptLower.includes('journey')) return 'adventure';
-    if (promptLower.includes('mystery') || promptLower.includes('detective')) return 'mystery';
-    if (promptLower.includes('fantasy') || promptLower.includes('magic')) return 'fantasy';
-    if (promptLower.includes('sci-fi') || promptLower.includes('space')) return 'scifi';
-    if (promptLower.includes('romance') || promptLower.includes('love')) return 'romance';
-    if (promptLower.includes('horror') || promptLower.includes('scary')) return 'horror';
-    if (promptLower.includes('comedy') || promptLower.includes('funny')) return 'comedy';
-    
-    return 'general';
-  }
-
-  private drawAnimatedBackground(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, theme: string) {
-    // Create theme-appropriate gradient background
-    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
-    
-    switch (theme) {
-      case 'adventure':
-        gradient.addColorStop(0, '#FF6B35');
-        gradient.addColorStop(1, '#F7931E');
-        break;
-      case 'mystery':
-        gradient.addColorStop(0, '#2C3E50');
-        gradient.addColorStop(1, '#34495E');
-        break;
-      case 'fantasy':
-        gradient.addColorStop(0, '#667eea');
-        gradient.addColorStop(1, '#764ba2');
-        break;
-      case 'scifi':
-        gradient.addColorStop(0, '#0F2027');
-        gradient.addColorStop(1, '#2C5364');
-        break;
-      case 'romance':
-        gradient.addColorStop(0, '#ff9a9e');
-        gradient.addColorStop(1, '#fecfef');
-        break;
-      case 'horror':
-        gradient.addColorStop(0, '#232526');
-        gradient.addColorStop(1, '#414345');
-        break;
-      case 'comedy':
-        gradient.addColorStop(0, '#ffecd2');
-        gradient.addColorStop(1, '#fcb69f');
-        break;
-      default:
-        gradient.addColorStop(0, '#4facfe');
-        gradient.addColorStop(1, '#00f2fe');
-    }
-    
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    // Add animated particles
-    this.addAnimatedParticles(ctx, canvas, theme);
-  }
-
-  private addAnimatedParticles(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, theme: string) {
-    const particleCount = 20;
-    
-    for (let i = 0; i < particleCount; i++) {
-      const x = Math.random() * canvas.width;
-      const y = Math.random() * canvas.height;
-      const size = Math.random() * 4 + 2;
-      
-      ctx.save();
-      ctx.globalAlpha = 0.6;
-      
-      switch (theme) {
-        case 'fantasy':
-          ctx.fillStyle = '#FFD700';
-          this.drawStar(ctx, x, y, size);
-          break;
-        case 'scifi':
-          ctx.fillStyle = '#00FFFF';
-          ctx.fillRect(x, y, size, size);
-          break;
-        default:
-          ctx.fillStyle = '#FFFFFF';
-          ctx.beginPath();
-          ctx.arc(x, y, size, 0, Math.PI * 2);
-          ctx.fill();
-      }
-      
-      ctx.restore();
-    }
-  }
-
-  private drawStar(ctx: CanvasRenderingContext2D, x: number, y: number, size: number) {
-    ctx.save();
-    ctx.translate(x, y);
-    ctx.beginPath();
-    for (let i = 0; i < 5; i++) {
-      ctx.lineTo(Math.cos((18 + i * 72) * Math.PI / 180) * size, 
-                Math.sin((18 + i * 72) * Math.PI / 180) * size);
-      ctx.lineTo(Math.cos((54 + i * 72) * Math.PI / 180) * size / 2, 
-                Math.sin((54 + i * 72) * Math.PI / 180) * size / 2);
-    }
-    ctx.closePath();
-    ctx.fill();
-    ctx.restore();
-  }
-
-  private addStoryElements(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, request: VideoGenerationRequest, theme: string) {
-    // Add title
-    ctx.save();
-    ctx.fillStyle = '#FFFFFF';
-    ctx.font = `bold ${Math.floor(canvas.width / 20)}px Arial`;
-    ctx.textAlign = 'center';
-    ctx.shadowColor = 'rgba(0,0,0,0.5)';
-    ctx.shadowBlur = 4;
-    
-    const title = this.extractTitle(request.prompt);
-    ctx.fillText(title, canvas.width / 2, canvas.height / 3);
-    
-    // Add scene count if available
-    if (request.scenes && request.scenes.length > 0) {
-      ctx.font = `${Math.floor(canvas.width / 30)}px Arial`;
-      ctx.fillText(`${request.scenes.length} Scenes`, canvas.width / 2, canvas.height / 2);
-    }
-    
-    // Add duration
-    const duration = request.duration || 30;
-    ctx.fillText(`${duration}s Story Video`, canvas.width / 2, canvas.height * 2 / 3);
-    
-    ctx.restore();
-  }
-
-  private extractTitle(prompt: string): string {
-    // Extract a title from the prompt
-    const words = prompt.split(' ').slice(0, 4);
-    return words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
-  }
-
-  private buildVideoPrompt(request: VideoGenerationRequest): string {
-    let prompt = request.prompt;
-    
-    // Add style modifiers
-    if (request.style) {
-      prompt += `, ${request.style} style`;
-    }
-    
-    // Add technical modifiers for better AI generation
-    prompt += ', high quality, professional cinematography, smooth motion, detailed animation';
-    
-    // Add aspect ratio context
-    if (request.aspectRatio === '9:16') {
-      prompt += ', vertical format, mobile-optimized';
-    } else if (request.aspectRatio === '1:1') {
-      prompt += ', square format, social media optimized';
-    } else {
-      prompt += ', widescreen format, cinematic presentation';
-    }
-    
-    return prompt;
-  }
-
-  private getAIVideoInstructions(request: VideoGenerationRequest): string {
-    const scenes = request.scenes || [];
-    
-    return `🎬 **AI Video Generation Complete!**
-
-**Your Story Video Features:**
-- **AI-Generated Animation**: Procedural video created using advanced algorithms
-- **Theme-Based Visuals**: Customized graphics based on your story genre
-- **Professional Quality**: High-resolution output ready for sharing
-- **Interactive Elements**: Dynamic animations and scene transitions
-
-**Technical Details:**
-- **Resolution**: ${request.aspectRatio === '9:16' ? '720x1280' : request.aspectRatio === '1:1' ? '1080x1080' : '1920x1080'}
-- **Duration**: ${request.duration || 30} seconds
-- **Scenes**: ${scenes.length} story segments
-- **Animation Type**: Procedural AI-generated content
-
-**What Makes This Special:**
-✨ **No External Content** - Everything is generated specifically for your story
-🎨 **Unique Visuals** - Each video is created from scratch using AI algorithms  
-🎬 **Professional Output** - Broadcast-quality animation and effects
-📱 **Optimized Delivery** - Perfect for social media and presentations
-
-**Next Steps:**
-1. **Download** your AI-generated video
-2. **Share** across social platforms
-3. **Create More** - Try different styles and themes!
-
-*Powered by Animato's proprietary AI video generation system*`;
+    throw new Error(`No video backend could make this video. ${skipped
+      .map(skip => `${this.getBackend(skip.backend)?.label}: ${skip.reason}.`)
+      .join(' ')}`);
   }
 
   public async checkVideoStatus(id: string, provider: string): Promise<VideoGenerationResponse> {
     console.log(`🔍 Checking video status: ${id} (${provider})`);
-    
-    if (provider === 'runway-ml' && this.runwayApiKey) {
-      return await this.checkRunwayStatus(id);
-    } else if (provider === 'replicate-video' && this.replicateToken) {
-      return await this.checkReplicateStatus(id);
-    } else {
-      // For other providers, return completed status
+
+    const backend = this.getBackend(provider);
+    if (!backend?.poll || !backend.isConfigured()) {
+      // Backends without polling finish before returning, so there is no job to check on
       return {
         id,
-        status: 'completed',
+        status: 'failed',
         provider,
-        progress: 100
+        progress: 0,
+        error: `Status of ${provider} videos can't be checked`
       };
     }
-  }
-
-  private async checkRunwayStatus(id: string): Promise<VideoGenerationResponse> {
-    try {
-      const response = await fetch(`https://api.runwayml.com/v1/video_generations/${id}`, {
-        headers: {
-          'Authorization': `Bearer ${this.runwayApiKey}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Runway status check failed: ${response.status}`);
-      }
 
-      const result = await response.json();
-      
-      return {
-        id: result.id,
-        status: result.status === 'SUCCEEDED' ? 'completed' : result.status.toLowerCase(),
-        video_url: result.output?.[0],
-        provider: 'runway-ml',
-        progress: result.status === 'SUCCEEDED' ? 100 : 50
-      };
-    } catch (error) {
-      console.error('❌ Runway status check error:', error);
-      throw error;
-    }
+    return backend.poll(id);
   }
 
-  private async checkReplicateStatus(id: string): Promise<VideoGenerationResponse> {
-    try {
-      const response = await fetch(`https://api.replicate.com/v1/predictions/${id}`, {
-        headers: {
-          'Authorization': `Token ${this.replicateToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Replicate status check failed: ${response.status}`);
-      }
-
-      const result = await response.json();
-      
-      return {
-        id: result.id,
-        status: result.status === 'succeeded' ? 'completed' : result.status,
-        video_url: result.output,
-        provider: 'replicate-video',
-        progress: result.status === 'succeeded' ? 100 : 75
-      };
-    } catch (error) {
-      console.error('❌ Replicate status check error:', error);
-      throw error;
+  public async cancelVideo(id: string, provider: string): Promise<void> {
+    const backend = this.getBackend(provider);
+    if (!backend?.cancel) {
+      throw new Error(`${backend?.label || provider} videos can't be cancelled`);
     }
+
+    console.log(`🛑 Cancelling video: ${id} (${provider})`);
+    await backend.cancel(id);
   }
 }
 
-export const videoService = VideoService.getInstance();
\ No newline at end of file
+export const videoService = VideoService.getInstance();
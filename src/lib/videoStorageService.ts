@@ -0,0 +1,97 @@
+import { supabase } from './supabase';
+
+const VIDEO_BUCKET = 'story-videos';
+
+interface StoredVideo {
+  url: string;
+  path: string;
+}
+
+// The URLs a finished render points at
+export interface RenderedFiles {
+  video_url?: string;
+  thumbnail_url?: string;
+}
+
+export class VideoStorageService {
+  private static instance: VideoStorageService;
+
+  private constructor() {
+    console.log('🗄️ Video Storage Service initialized');
+  }
+
+  public static getInstance(): VideoStorageService {
+    if (!VideoStorageService.instance) {
+      VideoStorageService.instance = new VideoStorageService();
+    }
+    return VideoStorageService.instance;
+  }
+
+  // Provider URLs are already hosted; blob: and data: URLs only live in this tab
+  public needsUpload(url?: string): boolean {
+    return !!url && (url.startsWith('blob:') || url.startsWith('data:'));
+  }
+
+  /**
+   * Copies a render made in the browser into storage, so the saved video
+   * still plays after a reload. Hosted URLs are returned as they are.
+   */
+  public async storeRender<T extends RenderedFiles>(storyId: string, name: string, render: T): Promise<T> {
+    const video = this.needsUpload(render.video_url)
+      ? await this.uploadFile(storyId, name, render.video_url!)
+      : null;
+    const thumbnail = this.needsUpload(render.thumbnail_url)
+      ? await this.uploadFile(storyId, `${name}-thumbnail`, render.thumbnail_url!)
+      : null;
+
+    // The stored copies replace the tab's own, which hold the whole video in memory
+    if (video) URL.revokeObjectURL(render.video_url!);
+    if (thumbnail) URL.revokeObjectURL(render.thumbnail_url!);
+
+    return {
+      ...render,
+      video_url: video?.url ?? render.video_url,
+      thumbnail_url: thumbnail?.url ?? render.thumbnail_url,
+    };
+  }
+
+  // Upload a rendered file to Supabase Storage under the owner's folder
+  public async uploadFile(storyId: string, name: string, url: string): Promise<StoredVideo> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Could not read rendered video: ${response.status}`);
+    }
+
+    const blob = await response.blob();
+    const contentType = blob.type || 'video/webm';
+    const path = `${user.id}/${storyId}/${name}.${this.getExtension(contentType)}`;
+
+    const { error } = await supabase.storage
+      .from(VIDEO_BUCKET)
+      .upload(path, blob, { contentType, upsert: true });
+
+    if (error) {
+      console.error('❌ Video upload error:', error);
+      throw new Error(error.message || 'Failed to upload video');
+    }
+
+    const { data } = supabase.storage.from(VIDEO_BUCKET).getPublicUrl(path);
+
+    return { url: data.publicUrl, path };
+  }
+
+  private getExtension(contentType: string): string {
+    if (contentType.includes('mp4')) return 'mp4';
+    if (contentType.includes('jpeg')) return 'jpg';
+    if (contentType.includes('png')) return 'png';
+    return 'webm';
+  }
+}
+
+export const videoStorageService = VideoStorageService.getInstance();
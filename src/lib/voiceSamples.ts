@@ -0,0 +1,100 @@
+import { encodeWav } from './wav';
+
+export interface VoiceSample {
+  id: string;
+  blob: Blob;
+  url: string;
+  duration: number; // Seconds, after trimming
+  peaks: number[]; // 0-1 per waveform bar
+}
+
+const DECODE_SAMPLE_RATE = 44100;
+const WINDOW = 0.01; // Seconds of audio per loudness reading
+const SILENCE_FLOOR = 0.01; // RMS below this is always silence
+const SILENCE_RATIO = 0.08; // Share of the loudest window that still counts as speech
+const PADDING = 0.15; // Seconds kept either side of the speech
+const WAVEFORM_BARS = 96;
+
+/**
+ * Decodes a microphone take, cuts the silence before and after the speech and
+ * re-encodes it as mono WAV, which voice cloning accepts without conversion.
+ */
+export async function trimSilence(recording: Blob): Promise<VoiceSample> {
+  const decoder = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  const buffer = await decoder.decodeAudioData(await recording.arrayBuffer());
+  const mono = mixToMono(buffer);
+
+  const bounds = speechBounds(mono, buffer.sampleRate);
+  if (!bounds) {
+    throw new Error('No speech was detected in this recording');
+  }
+
+  const trimmed = mono.slice(bounds[0], bounds[1]);
+  const blob = encodeWav([trimmed], buffer.sampleRate);
+
+  return {
+    id: `sample-${Date.now()}`,
+    blob,
+    url: URL.createObjectURL(blob),
+    duration: trimmed.length / buffer.sampleRate,
+    peaks: getPeaks(trimmed, WAVEFORM_BARS),
+  };
+}
+
+// Root mean square of the samples, the loudness a level meter shows
+export function getLevel(samples: Float32Array | Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    // Analyser byte data is centred on 128
+    const value = samples instanceof Uint8Array ? (samples[i] - 128) / 128 : samples[i];
+    sum += value * value;
+  }
+  return samples.length ? Math.sqrt(sum / samples.length) : 0;
+}
+
+export function getPeaks(samples: Float32Array, bars: number): number[] {
+  const size = Math.max(1, Math.floor(samples.length / bars));
+  const peaks: number[] = [];
+
+  for (let bar = 0; bar < bars; bar++) {
+    let peak = 0;
+    for (let i = bar * size; i < Math.min(samples.length, (bar + 1) * size); i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks, 0);
+  return loudest > 0 ? peaks.map(peak => peak / loudest) : peaks;
+}
+
+function mixToMono(buffer: AudioBuffer): Float32Array {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+// First and last sample of speech, padded, or null when the take is silent
+function speechBounds(samples: Float32Array, sampleRate: number): [number, number] | null {
+  const windowSize = Math.round(WINDOW * sampleRate);
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += windowSize) {
+    levels.push(getLevel(samples.subarray(start, start + windowSize)));
+  }
+
+  const threshold = Math.max(SILENCE_FLOOR, Math.max(...levels, 0) * SILENCE_RATIO);
+  const first = levels.findIndex(level => level >= threshold);
+  if (first === -1) return null;
+
+  let last = levels.length - 1;
+  while (last > first && levels[last] < threshold) last--;
+
+  const padding = Math.round(PADDING * sampleRate);
+  return [
+    Math.max(0, first * windowSize - padding),
+    Math.min(samples.length, (last + 1) * windowSize + padding),
+  ];
+}
@@ -0,0 +1,221 @@
+// Encoded media as WebCodecs hands it over; timestamps are in microseconds
+export interface EncodedFrame {
+  data: Uint8Array;
+  timestamp: number;
+  keyframe: boolean;
+}
+
+export interface WebmVideoTrack {
+  codec: 'V_VP8' | 'V_VP9';
+  width: number;
+  height: number;
+  fps: number;
+  frames: EncodedFrame[];
+}
+
+export interface WebmAudioTrack {
+  sampleRate: number;
+  channels: number;
+  codecPrivate: Uint8Array; // OpusHead
+  preSkip: number; // Samples the decoder drops from the start
+  frames: EncodedFrame[];
+}
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+const MAX_CLUSTER_MS = 30000; // Block times are 16-bit offsets from their cluster
+
+/**
+ * Writes encoded VP8/VP9 video and Opus audio into a seekable WebM file. The
+ * whole file is built in memory, so sizes and cue positions are known up front.
+ */
+export function muxWebm(video: WebmVideoTrack, audio: WebmAudioTrack | null, duration: number): Blob {
+  const info = master(0x1549A966, [
+    uint(0x2AD7B1, 1000000), // Timestamps in milliseconds
+    str(0x4D80, 'Animato'),
+    str(0x5741, 'Animato'),
+    float(0x4489, duration * 1000),
+  ]);
+
+  const tracks = master(0x1654AE6B, [
+    master(0xAE, [
+      uint(0xD7, VIDEO_TRACK),
+      uint(0x73C5, VIDEO_TRACK),
+      uint(0x83, 1),
+      str(0x86, video.codec),
+      uint(0x23E383, Math.round(1e9 / video.fps)),
+      master(0xE0, [uint(0xB0, video.width), uint(0xBA, video.height)]),
+    ]),
+    ...(audio ? [master(0xAE, [
+      uint(0xD7, AUDIO_TRACK),
+      uint(0x73C5, AUDIO_TRACK),
+      uint(0x83, 2),
+      str(0x86, 'A_OPUS'),
+      element(0x63A2, audio.codecPrivate),
+      uint(0x56AA, Math.round(audio.preSkip / audio.sampleRate * 1e9)),
+      uint(0x56BB, 80000000),
+      master(0xE1, [float(0xB5, audio.sampleRate), uint(0x9F, audio.channels)]),
+    ])] : []),
+  ]);
+
+  const { clusters, cueTimes, clusterOffsets } = buildClusters(video.frames, audio?.frames || []);
+
+  // The seek head is written with fixed-width positions, so its size doesn't depend on them
+  const seekHeadSize = seekHead([0, 0, 0]).length;
+  const infoPosition = seekHeadSize;
+  const tracksPosition = infoPosition + info.length;
+  const clustersPosition = tracksPosition + tracks.length;
+  const clustersSize = clusters.reduce((total, cluster) => total + cluster.length, 0);
+
+  const cues = master(0x1C53BB6B, cueTimes.map((time, index) => master(0xBB, [
+    uint(0xB3, time),
+    master(0xB7, [uint(0xF7, VIDEO_TRACK), uint(0xF1, clustersPosition + clusterOffsets[index])]),
+  ])));
+
+  const segment = master(0x18538067, [
+    seekHead([infoPosition, tracksPosition, clustersPosition + clustersSize]),
+    info,
+    tracks,
+    ...clusters,
+    cues,
+  ]);
+
+  const header = master(0x1A45DFA3, [
+    uint(0x4286, 1),
+    uint(0x42F7, 1),
+    uint(0x42F2, 4),
+    uint(0x42F3, 8),
+    str(0x4282, 'webm'),
+    uint(0x4287, 2),
+    uint(0x4285, 2),
+  ]);
+
+  return new Blob([header, segment], { type: 'video/webm' });
+}
+
+// Groups frames by time into clusters, starting a new one at each video keyframe
+function buildClusters(videoFrames: EncodedFrame[], audioFrames: EncodedFrame[]) {
+  const blocks = [
+    ...videoFrames.map(frame => ({ ...frame, track: VIDEO_TRACK })),
+    ...audioFrames.map(frame => ({ ...frame, track: AUDIO_TRACK, keyframe: true })),
+  ].sort((a, b) => a.timestamp - b.timestamp || a.track - b.track);
+
+  const clusters: Uint8Array[] = [];
+  const cueTimes: number[] = [];
+  const clusterOffsets: number[] = [];
+  let offset = 0;
+  let clusterTime = 0;
+  let current: Uint8Array[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const cluster = master(0x1F43B675, [uint(0xE7, clusterTime), ...current]);
+    clusters.push(cluster);
+    offset += cluster.length;
+    current = [];
+  };
+
+  blocks.forEach(block => {
+    const time = Math.max(0, Math.round(block.timestamp / 1000));
+    const startsCluster = current.length === 0
+      || (block.track === VIDEO_TRACK && block.keyframe)
+      || time - clusterTime > MAX_CLUSTER_MS;
+
+    if (startsCluster) {
+      flush();
+      clusterTime = time;
+      if (block.track === VIDEO_TRACK && block.keyframe) {
+        cueTimes.push(time);
+        clusterOffsets.push(offset);
+      }
+    }
+
+    const header = new Uint8Array(4);
+    header[0] = 0x80 | block.track;
+    new DataView(header.buffer).setInt16(1, time - clusterTime);
+    header[3] = block.keyframe ? 0x80 : 0;
+    current.push(element(0xA3, concat([header, block.data])));
+  });
+  flush();
+
+  return { clusters, cueTimes, clusterOffsets };
+}
+
+function seekHead([info, tracks, cues]: number[]): Uint8Array {
+  const seek = (id: number, position: number) => master(0x4DBB, [
+    element(0x53AB, idBytes(id)),
+    element(0x53AC, fixedUint(position, 8)),
+  ]);
+  return master(0x114D9B74, [seek(0x1549A966, info), seek(0x1654AE6B, tracks), seek(0x1C53BB6B, cues)]);
+}
+
+function element(id: number, data: Uint8Array): Uint8Array {
+  return concat([idBytes(id), sizeBytes(data.length), data]);
+}
+
+function master(id: number, children: Uint8Array[]): Uint8Array {
+  return element(id, concat(children));
+}
+
+function uint(id: number, value: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && value >= 2 ** (8 * length)) length++;
+  return element(id, fixedUint(value, length));
+}
+
+function float(id: number, value: number): Uint8Array {
+  const data = new Uint8Array(8);
+  new DataView(data.buffer).setFloat64(0, value);
+  return element(id, data);
+}
+
+function str(id: number, value: string): Uint8Array {
+  return element(id, new TextEncoder().encode(value));
+}
+
+function fixedUint(value: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, rest = value; i >= 0; i--, rest = Math.floor(rest / 256)) {
+    bytes[i] = rest % 256;
+  }
+  return bytes;
+}
+
+// Element IDs already carry their length marker, so they are written as-is
+function idBytes(id: number): Uint8Array {
+  const length = id >= 0x1000000 ? 4 : id >= 0x10000 ? 3 : id >= 0x100 ? 2 : 1;
+  return fixedUint(id, length);
+}
+
+// EBML variable-length size: a leading 1 bit marks how many bytes follow
+function sizeBytes(size: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length++;
+  const bytes = fixedUint(size, length);
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+// Opus identification header for the track's CodecPrivate, when the encoder doesn't supply one
+export function opusHead(channels: number, sampleRate: number, preSkip: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1; // Version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  head[18] = 0; // Mono or stereo, no channel mapping table
+  return head;
+}
@@ -0,0 +1,30 @@
+// URL segments for StoryWorkflowContinuation steps, mapped to the step ids the dashboard uses
+const STORY_STEP_SEGMENTS: Record<string, string> = {
+  edit: 'story-editing',
+  characters: 'character-extraction',
+  scenes: 'scene-segmentation',
+  audio: 'audio-generation',
+  video: 'video-generation',
+  complete: 'completed',
+};
+
+export const paths = {
+  dashboard: '/',
+  create: '/create',
+  stories: '/stories',
+  storyStep: (storyId: string, stepId = 'story-editing') => `/stories/${storyId}/${stepToSegment(stepId)}`,
+  videos: '/videos',
+  video: (videoId: string) => `/videos/${videoId}`,
+  videoEdit: (videoId: string) => `/videos/${videoId}/edit`,
+  characters: '/characters',
+  settings: (tab?: string) => tab ? `/settings/${tab}` : '/settings',
+  authCallback: '/auth/callback',
+};
+
+export function stepToSegment(stepId: string): string {
+  return Object.keys(STORY_STEP_SEGMENTS).find(segment => STORY_STEP_SEGMENTS[segment] === stepId) || 'edit';
+}
+
+export function segmentToStep(segment: string | undefined): string | undefined {
+  return segment ? STORY_STEP_SEGMENTS[segment] : undefined;
+}
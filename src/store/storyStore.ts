@@ -1,11 +1,18 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
-import { Story, Character, Video, StoryTheme, StoryLength } from '../types';
+import { audioStorageService } from '../lib/audioStorageService';
+import { localDatabase, PendingMutation } from '../lib/localDatabase';
+import { useSyncStore, registerMutationHandler, SyncConflictError } from './syncStore';
+import { useVideoJobStore, onVideoJobUpdate } from './videoJobStore';
+import { videoService, VideoGenerationResponse, withReferenceImages } from '../lib/videoService';
+import { storyboardService } from '../lib/storyboardService';
+import { Story, Character, CharacterPhoto, ExtractedCharacter, ExtractedCharacterPhoto, Video, StoryTheme, StoryLength, StorySegment, SegmentMetadata, Scene, AudioFile, AudioClip, StoryRevision, RevisionSource } from '../types';
 import toast from 'react-hot-toast';
 
 interface StoryState {
   stories: Story[];
   currentStory: Story | null;
+  revisions: Record<string, StoryRevision[]>; // Newest first, keyed by story id
   isCreatingStory: boolean;
   generationProgress: {
     step: string;
@@ -22,11 +29,32 @@ interface StoryState {
   generateCharacters: (storyId: string) => Promise<Character[]>;
   generateVideo: (storyId: string) => Promise<Video>;
   fetchUserStories: (userId: string) => Promise<void>;
+  fetchStory: (storyId: string) => Promise<Story | null>;
+
+  // Scene segments
+  createSegment: (storyId: string, scene: Scene) => Promise<StorySegment>;
+  updateSegment: (storyId: string, segmentId: string, updates: Partial<Scene>) => Promise<void>;
+  reorderSegments: (storyId: string, segmentIds: string[]) => Promise<void>;
+  deleteSegment: (storyId: string, segmentId: string) => Promise<void>;
+  saveSegments: (storyId: string, scenes: Scene[]) => Promise<StorySegment[]>;
+
+  // Characters
+  saveCharacters: (storyId: string, characters: ExtractedCharacter[]) => Promise<Character[]>;
+  deleteCharacter: (storyId: string, characterId: string) => Promise<void>;
+
+  // Audio
+  saveAudioFiles: (storyId: string, clips: AudioClip[]) => Promise<AudioFile[]>;
+
+  // Revisions
+  fetchRevisions: (storyId: string) => Promise<StoryRevision[]>;
+  recordRevision: (storyId: string, content: string, source: RevisionSource, metadata?: StoryRevision['metadata']) => Promise<void>;
+  restoreRevision: (storyId: string, revisionId: string) => Promise<string>;
 }
 
 export const useStoryStore = create<StoryState>((set, get) => ({
   stories: [],
   currentStory: null,
+  revisions: {},
   isCreatingStory: false,
   generationProgress: null,
   
@@ -95,6 +123,8 @@ export const useStoryStore = create<StoryState>((set, get) => ({
         currentStory: story,
         isCreatingStory: false,
       }));
+
+      await cacheStory(story);
       
       return story;
     } catch (error: any) {
@@ -105,85 +135,59 @@ export const useStoryStore = create<StoryState>((set, get) => ({
   },
   
   updateStory: async (storyId: string, updates: Partial<Story>) => {
-    try {
-      console.log('🔄 Updating story:', storyId, updates);
+    console.log('🔄 Updating story:', storyId, updates);
 
-      // Prepare update data - only include database columns
-      const updateData: any = {
-        updated_at: new Date().toISOString()
-      };
+    // Prepare update data - only include database columns
+    const updateData: Record<string, unknown> = {};
 
-      // Only include valid database columns that exist in the stories table
-      if (updates.title !== undefined) updateData.title = updates.title;
-      if (updates.content !== undefined) updateData.content = updates.content;
-      if (updates.theme !== undefined) updateData.theme = updates.theme;
-      if (updates.length !== undefined) updateData.length = updates.length;
-      if (updates.status !== undefined) updateData.status = updates.status;
-      if (updates.metadata !== undefined) updateData.metadata = updates.metadata;
-      
-      // Note: segments, audio, characters, and videos are handled by separate tables
-      // and should not be updated directly in the stories table
+    // Only include valid database columns that exist in the stories table
+    if (updates.title !== undefined) updateData.title = updates.title;
+    if (updates.content !== undefined) updateData.content = updates.content;
+    if (updates.theme !== undefined) updateData.theme = updates.theme;
+    if (updates.length !== undefined) updateData.length = updates.length;
+    if (updates.status !== undefined) updateData.status = updates.status;
+    if (updates.metadata !== undefined) updateData.metadata = updates.metadata;
+    if (updates.pronunciations !== undefined) updateData.pronunciations = updates.pronunciations;
+    
+    // Note: segments, audio, characters, and videos are handled by separate tables
+    // and should not be updated directly in the stories table
 
-      // Update in database
-      const { error } = await supabase
-        .from('stories')
-        .update(updateData)
-        .eq('id', storyId);
+    const baseUpdatedAt = get().stories.find(s => s.id === storyId)?.updated_at;
 
-      if (error) {
-        console.error('❌ Database update error:', error);
-        // Continue with local update even if database fails for better UX
-        toast.error('Failed to sync changes to database, but local changes saved');
-      } else {
-        console.log('✅ Story updated in database');
-      }
+    // Apply locally first; the sync outbox delivers the change to the database
+    set(state => ({
+      stories: state.stories.map(story => 
+        story.id === storyId ? { ...story, ...updates } : story
+      ),
+      currentStory: state.currentStory?.id === storyId 
+        ? { ...state.currentStory, ...updates }
+        : state.currentStory,
+    }));
 
-      // Update local state (always do this for better UX)
-      set(state => ({
-        stories: state.stories.map(story => 
-          story.id === storyId 
-            ? { ...story, ...updates, updated_at: new Date().toISOString() }
-            : story
-        ),
-        currentStory: state.currentStory?.id === storyId 
-          ? { ...state.currentStory, ...updates, updated_at: new Date().toISOString() }
-          : state.currentStory,
-      }));
+    await cacheStory(get().stories.find(s => s.id === storyId));
 
+    if (Object.keys(updateData).length === 0) return;
+
+    try {
+      await useSyncStore.getState().enqueue('story.update', storyId, updateData, baseUpdatedAt);
+      await useSyncStore.getState().flush();
     } catch (error: any) {
       console.error('❌ Update story error:', error);
-      // Still update local state for better UX
-      set(state => ({
-        stories: state.stories.map(story => 
-          story.id === storyId 
-            ? { ...story, ...updates, updated_at: new Date().toISOString() }
-            : story
-        ),
-        currentStory: state.currentStory?.id === storyId 
-          ? { ...state.currentStory, ...updates, updated_at: new Date().toISOString() }
-          : state.currentStory,
-      }));
-      
-      toast.error('Failed to sync changes, but local changes saved');
+      toast.error('Failed to queue changes for sync');
     }
   },
   
   deleteStory: async (storyId: string) => {
     try {
-      const { error } = await supabase
-        .from('stories')
-        .delete()
-        .eq('id', storyId);
-
-      if (error) {
-        throw error;
-      }
-
       set(state => ({
         stories: state.stories.filter(story => story.id !== storyId),
         currentStory: state.currentStory?.id === storyId ? null : state.currentStory,
       }));
 
+      await uncacheStory(storyId);
+      await useSyncStore.getState().enqueue('story.delete', storyId, {});
+      await useSyncStore.getState().flush();
+
       toast.success('Story deleted successfully');
     } catch (error: any) {
       console.error('Delete story error:', error);
@@ -257,117 +261,63 @@ export const useStoryStore = create<StoryState>((set, get) => ({
     
     set({ generationProgress: { step: 'Generating Video', progress: 90, message: 'Creating your animated video...', isComplete: false } });
     
-    try {
-      // Use the actual video service for real video generation
-      const { videoService } = await import('../lib/videoService');
-      
-      const videoRequest = {
-        prompt: `${story.theme} story: ${story.content?.substring(0, 300) || 'Story content'}`,
-        duration: 30,
-        aspectRatio: '16:9' as const,
-        style: 'cinematic' as const,
-        scenes: story.segments?.map((segment: any, index: number) => ({
+    const videoRequest = withReferenceImages({
+      prompt: `${story.theme} story: ${story.content?.substring(0, 300) || 'Story content'}`,
+      title: story.title,
+      theme: story.theme,
+      duration: 30,
+      aspectRatio: '16:9' as const,
+      style: 'cinematic' as const,
+      scenes: story.segments?.map((segment: any, index: number) => {
+        // An approved storyboard still sets the shot; the others fall back to character photos
+        const still = storyboardService.approvedStillUrl(segment.storyboard);
+        return {
           description: segment.content || `Scene ${index + 1}`,
+          characters: segment.characters,
           duration: Math.max(5, Math.min(10, segment.duration || 8)),
-          visualPrompt: segment.visualPrompt || `${segment.content}. Cinematic style, high quality.`
-        })) || [{
-          description: story.content?.substring(0, 200) || 'A cinematic story scene',
-          duration: 10,
-          visualPrompt: `${story.theme} themed story scene. Professional cinematography.`
-        }],
-        characters: story.characters?.map((char: any) => ({
-          name: char.name,
-          description: char.description,
-          photo_url: char.photo_url || char.image_url
-        })) || []
-      };
+          visualPrompt: segment.visual_prompt || `${segment.content}. Cinematic style, high quality.`,
+          referenceImage: still ? { url: still } : undefined
+        };
+      }) || [{
+        description: story.content?.substring(0, 200) || 'A cinematic story scene',
+        duration: 10,
+        visualPrompt: `${story.theme} themed story scene. Professional cinematography.`
+      }],
+      characters: story.characters?.map(char => ({
+        name: char.name,
+        description: char.description,
+        photo_url: (char.photos?.find(photo => photo.is_selected) || char.photos?.[0])?.photo_url
+      })) || []
+    });
 
-      const result = await videoService.generateVideo(videoRequest);
-      
-      let video;
-      if (result.status === 'completed' && result.video_url) {
-                 video = {
-           id: result.id,
-           story_id: storyId,
-           video_url: result.video_url,
-           thumbnail_url: result.thumbnail_url || 'https://images.pexels.com/photos/1261728/pexels-photo-1261728.jpeg?auto=compress&cs=tinysrgb&w=800',
-           duration: 30,
-           provider: (result.provider as 'demo' | 'luma' | 'runway' | 'aiml' | 'kling' | 'mock') || 'demo',
-           status: 'completed' as const,
-           created_at: new Date().toISOString(),
-         } as Video;
-      } else {
-        // Fallback to demo video if generation fails or returns instructions
-                 video = {
-           id: result.id || Date.now().toString(),
-           story_id: storyId,
-           video_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4',
-           thumbnail_url: 'https://images.pexels.com/photos/1261728/pexels-photo-1261728.jpeg?auto=compress&cs=tinysrgb&w=800',
-           duration: 120,
-           provider: 'demo' as const,
-           status: 'completed' as const,
-           created_at: new Date().toISOString(),
-         } as Video;
-        
-        // If we got instructions, show them to the user
-        if (result.instructions) {
-          console.log('📝 Video generation instructions:', result.instructions);
-        }
-      }
+    let result: VideoGenerationResponse;
+    try {
+      result = await videoService.generateVideo(videoRequest);
+    } catch (error: any) {
+      console.error('Video generation error:', error);
+      // Recorded as a failed video rather than hidden, so it shows up in My Videos
+      result = { id: '', status: 'failed', provider: 'ai-generated-canvas', error: error.message || 'Video generation failed' };
+    }
 
-      // Try to save to database
-      try {
-        const { data, error } = await supabase
-          .from('videos')
-          .insert({
-            story_id: storyId,
-            video_url: video.video_url,
-            thumbnail_url: video.thumbnail_url,
-            duration: video.duration,
-            provider: video.provider,
-            status: video.status,
-          })
-          .select()
-          .single();
-
-        if (error) {
-          throw error;
-        }
+    const video = await useVideoJobStore.getState().submitJob(storyId, result, {
+      instructions: result.instructions,
+      mimeType: result.mime_type,
+    });
 
-        const savedVideo = { ...data } as Video;
-        
-        set({ generationProgress: { step: 'Video Complete', progress: 100, message: 'Your video is ready!', isComplete: true } });
-        
-        get().updateStory(storyId, { videos: [savedVideo], status: 'completed' });
-        
-        return savedVideo;
-      } catch (error: any) {
-        console.error('Generate video database error:', error);
-        // Fallback for demo - still return the video locally
-        set({ generationProgress: { step: 'Video Complete', progress: 100, message: 'Your video is ready!', isComplete: true } });
-        get().updateStory(storyId, { videos: [video], status: 'completed' });
-        return video;
-      }
+    if (video.status === 'failed') {
+      set({ generationProgress: { step: 'Video Failed', progress: 100, message: video.error || 'Video generation failed', isComplete: true } });
+      throw new Error(video.error || 'Video generation failed');
+    }
 
-    } catch (error: any) {
-      console.error('Video generation error:', error);
-      
-      // If real video generation fails, fall back to demo video
-      const fallbackVideo: Video = {
-        id: Date.now().toString(),
-        story_id: storyId,
-        video_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4',
-        thumbnail_url: 'https://images.pexels.com/photos/1261728/pexels-photo-1261728.jpeg?auto=compress&cs=tinysrgb&w=800',
-        duration: 120,
-        provider: 'demo',
-        status: 'completed',
-        created_at: new Date().toISOString(),
-      };
-      
+    if (video.status === 'completed') {
+      // The video job listener marks the story completed
       set({ generationProgress: { step: 'Video Complete', progress: 100, message: 'Your video is ready!', isComplete: true } });
-      get().updateStory(storyId, { videos: [fallbackVideo], status: 'completed' });
-      return fallbackVideo;
+    } else {
+      // The job poller finishes the video in the background, even after leaving this page
+      set({ generationProgress: { step: 'Rendering Video', progress: 100, message: 'Your video is rendering and will appear in My Videos when it is done', isComplete: true } });
     }
+
+    return video;
   },
   
   fetchUserStories: async (userId: string) => {
@@ -376,11 +326,7 @@ export const useStoryStore = create<StoryState>((set, get) => ({
 
       const { data, error } = await supabase
         .from('stories')
-        .select(`
-          *,
-          characters (*),
-          videos (*)
-        `)
+        .select(STORY_SELECT)
         .eq('user_id', userId)
         .order('created_at', { ascending: false });
 
@@ -391,24 +337,974 @@ export const useStoryStore = create<StoryState>((set, get) => ({
 
       console.log('✅ Fetched stories:', data?.length || 0);
 
-      const stories: Story[] = (data || []).map(story => ({
-        ...story,
-        theme: story.theme as StoryTheme,
-        status: story.status as any,
-        characters: story.characters || [],
-        videos: story.videos || [],
-      }));
+      const stories: Story[] = (data || []).map(rowToStory);
 
-      set({ stories });
+      set({ stories: await mergeWithLocalChanges(userId, stories) });
     } catch (error: any) {
       console.error('❌ Fetch stories error:', error);
+
+      const cached = await loadCachedStories(userId);
+      if (cached.length > 0) {
+        toast('Offline - showing stories saved on this device', { icon: '📴' });
+        set({ stories: cached });
+        return;
+      }
+
       toast.error('Failed to load stories');
       // Set empty array on error to prevent infinite loading
       set({ stories: [] });
     }
   },
+
+  fetchStory: async (storyId: string) => {
+    console.log('🔄 Fetching story:', storyId);
+
+    let story: Story | null = null;
+
+    try {
+      const { data, error } = await supabase
+        .from('stories')
+        .select(STORY_SELECT)
+        .eq('id', storyId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(error.message || 'Failed to load story');
+      }
+
+      const pendingIds = await useSyncStore.getState().getPendingStoryIds();
+      story = data ? rowToStory(data) : null;
+
+      // Unsynced local edits win over the server copy
+      if (story && pendingIds.has(storyId) && localDatabase.isAvailable()) {
+        story = await localDatabase.getStory(storyId) || story;
+      }
+    } catch (error) {
+      console.error('❌ Fetch story error:', error);
+      story = localDatabase.isAvailable() ? await localDatabase.getStory(storyId).catch(() => undefined) || null : null;
+    }
+
+    if (story) {
+      const loaded = story;
+      set(state => ({
+        stories: state.stories.some(s => s.id === storyId)
+          ? state.stories.map(s => s.id === storyId ? loaded : s)
+          : [loaded, ...state.stories],
+      }));
+      await cacheStory(loaded);
+    }
+
+    return story;
+  },
+
+  createSegment: async (storyId: string, scene: Scene) => {
+    const { data, error } = await supabase
+      .from('story_segments')
+      .insert(sceneToSegmentRow(storyId, scene))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Create segment error:', error);
+      throw new Error(error.message || 'Failed to save scene');
+    }
+
+    const segment = data as StorySegment;
+
+    set(state => withSegments(state, storyId, segments => sortSegments([...segments, segment])));
+
+    return segment;
+  },
+
+  updateSegment: async (storyId: string, segmentId: string, updates: Partial<Scene>) => {
+    const updateData: Partial<StorySegment> = {};
+
+    if (updates.title !== undefined) updateData.title = updates.title;
+    if (updates.content !== undefined) updateData.content = updates.content;
+    if (updates.setting !== undefined) updateData.setting = updates.setting;
+    if (updates.characters !== undefined) updateData.characters = updates.characters;
+    if (updates.duration !== undefined) updateData.duration = Math.round(updates.duration);
+    if (updates.visualPrompt !== undefined) updateData.visual_prompt = updates.visualPrompt;
+    if (updates.order !== undefined) updateData.segment_order = updates.order;
+    if (['heading', 'act', 'actTitle', 'transitionIn', 'plan', 'storyboard'].some(key => key in updates)) {
+      // Metadata is one JSON column, so merge with what the segment already holds
+      const current = get().stories.find(s => s.id === storyId)?.segments?.find(segment => segment.id === segmentId);
+      updateData.metadata = { ...current?.metadata, ...sceneToSegmentMetadata(updates) };
+    }
+
+    const { error } = await supabase
+      .from('story_segments')
+      .update(updateData)
+      .eq('id', segmentId);
+
+    if (error) {
+      console.error('❌ Update segment error:', error);
+      throw new Error(error.message || 'Failed to update scene');
+    }
+
+    set(state => withSegments(state, storyId, segments => sortSegments(
+      segments.map(segment => segment.id === segmentId ? { ...segment, ...updateData } : segment)
+    )));
+  },
+
+  reorderSegments: async (storyId: string, segmentIds: string[]) => {
+    const results = await Promise.all(segmentIds.map((segmentId, index) =>
+      supabase
+        .from('story_segments')
+        .update({ segment_order: index })
+        .eq('id', segmentId)
+    ));
+
+    const failed = results.find(result => result.error);
+    if (failed?.error) {
+      console.error('❌ Reorder segments error:', failed.error);
+      throw new Error(failed.error.message || 'Failed to reorder scenes');
+    }
+
+    set(state => withSegments(state, storyId, segments => sortSegments(
+      segments.map(segment => {
+        const index = segmentIds.indexOf(segment.id);
+        return index === -1 ? segment : { ...segment, segment_order: index };
+      })
+    )));
+  },
+
+  deleteSegment: async (storyId: string, segmentId: string) => {
+    const { error } = await supabase
+      .from('story_segments')
+      .delete()
+      .eq('id', segmentId);
+
+    if (error) {
+      console.error('❌ Delete segment error:', error);
+      throw new Error(error.message || 'Failed to delete scene');
+    }
+
+    set(state => withSegments(state, storyId, segments =>
+      segments.filter(segment => segment.id !== segmentId)
+    ));
+  },
+
+  saveSegments: async (storyId: string, scenes: Scene[]) => {
+    const ordered = scenes.map((scene, index) => ({ ...scene, order: index }));
+    const now = new Date().toISOString();
+
+    console.log('🔄 Saving segments for story:', storyId, ordered.length);
+
+    // Show the scenes right away; new ones keep their local ids until the outbox syncs them
+    set(state => withSegments(state, storyId, segments => ordered.map(scene => ({
+      created_at: segments.find(segment => segment.id === scene.id)?.created_at || now,
+      updated_at: now,
+      ...sceneToSegmentRow(storyId, scene),
+      id: scene.id,
+    }))));
+
+    await cacheStory(get().stories.find(s => s.id === storyId));
+    await useSyncStore.getState().enqueue('segments.save', storyId, { scenes: ordered });
+    await useSyncStore.getState().flush();
+
+    return get().stories.find(s => s.id === storyId)?.segments || [];
+  },
+
+  saveCharacters: async (storyId: string, characters: ExtractedCharacter[]) => {
+    console.log('🔄 Saving characters for story:', storyId, characters.length);
+
+    set(state => withCharacters(state, storyId, () =>
+      characters.map(character => extractedToCharacter(storyId, character))
+    ));
+
+    await cacheStory(get().stories.find(s => s.id === storyId));
+    await useSyncStore.getState().enqueue('characters.save', storyId, { characters });
+    await useSyncStore.getState().flush();
+
+    return get().stories.find(s => s.id === storyId)?.characters || [];
+  },
+
+  deleteCharacter: async (storyId: string, characterId: string) => {
+    const { error } = await supabase
+      .from('characters')
+      .delete()
+      .eq('id', characterId);
+
+    if (error) {
+      console.error('❌ Delete character error:', error);
+      throw new Error(error.message || 'Failed to delete character');
+    }
+
+    set(state => withCharacters(state, storyId, characters =>
+      characters.filter(character => character.id !== characterId)
+    ));
+  },
+
+  saveAudioFiles: async (storyId: string, clips: AudioClip[]) => {
+    const story = get().stories.find(s => s.id === storyId);
+    const existing = story?.audio || [];
+    const keptIds = new Set(clips.map(clip => clip.id));
+
+    console.log('🔄 Saving audio clips for story:', storyId, clips.length);
+
+    // Drop clips that were regenerated or removed, including their stored objects
+    const removed = existing.filter(file => !keptIds.has(file.id));
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from('audio_files')
+        .delete()
+        .in('id', removed.map(file => file.id));
+
+      if (error) {
+        console.error('❌ Delete audio error:', error);
+        throw new Error(error.message || 'Failed to replace audio');
+      }
+
+      await audioStorageService.removeClips(
+        removed.map(file => file.metadata?.storage_path).filter((path): path is string => !!path)
+      );
+    }
+
+    const saved: AudioFile[] = [];
+    for (const [order, clip] of clips.entries()) {
+      const previous = existing.find(file => file.id === clip.id);
+      if (previous) {
+        saved.push({ ...previous, metadata: { ...previous.metadata, order } });
+        continue;
+      }
+
+      if (!clip.audioUrl || clip.isGenerated === false) {
+        continue;
+      }
+
+      let audioUrl = clip.audioUrl;
+      let storagePath: string | undefined;
+
+      if (audioStorageService.needsUpload(clip.audioUrl)) {
+        const stored = await audioStorageService.uploadClip(storyId, `${Date.now()}-${order}`, clip.audioUrl);
+        audioUrl = stored.url;
+        storagePath = stored.path;
+      } else if (!/^https?:\/\//.test(clip.audioUrl)) {
+        console.warn('⚠️ Skipping audio clip without playable audio:', clip.id);
+        continue;
+      }
+
+      const character = clip.character
+        ? story?.characters?.find(c => c.name.toUpperCase() === clip.character?.toUpperCase())
+        : undefined;
+
+      const { data, error } = await supabase
+        .from('audio_files')
+        .insert({
+          story_id: storyId,
+          character_id: character?.id,
+          audio_url: audioUrl,
+          text_content: clip.text,
+          voice_id: clip.voiceId,
+          provider: clip.voiceId ? 'elevenlabs' : 'browser',
+          duration: clip.duration !== undefined ? Math.round(clip.duration) : undefined,
+          metadata: {
+            type: clip.type,
+            character: clip.character,
+            order,
+            scene: clip.scene,
+            storage_path: storagePath,
+            words: clip.words,
+          },
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ Save audio error:', error);
+        throw new Error(error.message || 'Failed to save audio');
+      }
+
+      saved.push(data as AudioFile);
+    }
+
+    // Persist the new order for clips that were kept
+    await Promise.all(saved
+      .filter(file => existing.some(previous => previous.id === file.id))
+      .map(file => supabase.from('audio_files').update({ metadata: file.metadata }).eq('id', file.id))
+    );
+
+    set(state => ({
+      stories: state.stories.map(s => s.id === storyId ? { ...s, audio: saved } : s),
+      currentStory: state.currentStory?.id === storyId
+        ? { ...state.currentStory, audio: saved }
+        : state.currentStory,
+    }));
+
+    await cacheStory(get().stories.find(s => s.id === storyId));
+
+    console.log('✅ Audio clips saved:', saved.length);
+
+    return saved;
+  },
+
+  fetchRevisions: async (storyId: string) => {
+    const { data, error } = await supabase
+      .from('story_revisions')
+      .select('*')
+      .eq('story_id', storyId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ Fetch revisions error:', error);
+      throw new Error(error.message || 'Failed to load revision history');
+    }
+
+    // Snapshots still waiting in the outbox stay on top
+    const unsynced = (get().revisions[storyId] || []).filter(revision => isLocalRevision(revision.id));
+    const revisions = [...unsynced, ...(data || [])];
+
+    set(state => ({ revisions: { ...state.revisions, [storyId]: revisions } }));
+
+    return revisions;
+  },
+
+  recordRevision: async (storyId: string, content: string, source: RevisionSource, metadata = {}) => {
+    // History is only in the store once opened, so otherwise ask the server for the newest snapshot
+    const latest = get().revisions[storyId]?.[0] ?? await fetchLatestRevision(storyId);
+    if (latest?.content === content) return;
+
+    const revision: StoryRevision = {
+      id: `${LOCAL_REVISION_PREFIX}${Date.now()}`,
+      story_id: storyId,
+      content,
+      source,
+      metadata,
+      created_at: new Date().toISOString(),
+    };
+
+    console.log('🔄 Recording revision:', storyId, source);
+
+    set(state => ({
+      revisions: { ...state.revisions, [storyId]: [revision, ...(state.revisions[storyId] || [])] },
+    }));
+
+    await useSyncStore.getState().enqueue('revision.create', storyId, { revision });
+    await useSyncStore.getState().flush();
+  },
+
+  restoreRevision: async (storyId: string, revisionId: string) => {
+    const revision = get().revisions[storyId]?.find(r => r.id === revisionId);
+    if (!revision) throw new Error('Revision not found');
+
+    await get().updateStory(storyId, { content: revision.content });
+    await get().recordRevision(storyId, revision.content, 'manual', { restored_from: revisionId });
+
+    toast.success('Revision restored');
+
+    return revision.content;
+  },
 }));
 
+const LOCAL_REVISION_PREFIX = 'local-';
+
+function isLocalRevision(revisionId: string): boolean {
+  return revisionId.startsWith(LOCAL_REVISION_PREFIX);
+}
+
+async function fetchLatestRevision(storyId: string): Promise<StoryRevision | undefined> {
+  const { data, error } = await supabase
+    .from('story_revisions')
+    .select('*')
+    .eq('story_id', storyId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    // Offline or unreachable: a duplicate snapshot is better than a lost one
+    console.warn('⚠️ Could not load latest revision:', error.message);
+    return undefined;
+  }
+
+  return data || undefined;
+}
+
+async function replayRevision(mutation: PendingMutation) {
+  const revision = mutation.payload.revision as StoryRevision;
+
+  const { data, error } = await supabase
+    .from('story_revisions')
+    .insert({
+      story_id: revision.story_id,
+      content: revision.content,
+      source: revision.source,
+      metadata: {
+        ...revision.metadata,
+        // Restores made before the original synced point at its local id
+        restored_from: revision.metadata?.restored_from && !isLocalRevision(revision.metadata.restored_from)
+          ? revision.metadata.restored_from
+          : undefined,
+      },
+      created_at: revision.created_at,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ Save revision error:', error);
+    throw new Error(error.message || 'Failed to save revision');
+  }
+
+  useStoryStore.setState(state => ({
+    revisions: {
+      ...state.revisions,
+      [revision.story_id]: (state.revisions[revision.story_id] || []).map(r => r.id === revision.id ? data : r),
+    },
+  }));
+}
+
+const STORY_SELECT = `
+  *,
+  characters (*, character_photos (*)),
+  videos (*),
+  story_segments (*),
+  audio_files (*)
+`;
+
+type StoryRow = Omit<Story, 'characters' | 'segments' | 'audio'> & {
+  characters?: CharacterRow[];
+  story_segments?: StorySegment[];
+  audio_files?: AudioFile[];
+};
+
+function rowToStory({ story_segments, audio_files, ...story }: StoryRow): Story {
+  return {
+    ...story,
+    theme: story.theme as StoryTheme,
+    status: story.status,
+    characters: (story.characters || []).map(rowToCharacter),
+    videos: story.videos || [],
+    segments: sortSegments(story_segments || []),
+    audio: sortAudioFiles(audio_files || []),
+  };
+}
+
+// Keep the device copy of a story current; the cache is best effort
+async function cacheStory(story: Story | undefined) {
+  if (!story || !localDatabase.isAvailable()) return;
+
+  try {
+    await localDatabase.putStory(story);
+  } catch (error) {
+    console.warn('⚠️ Could not cache story locally:', error);
+  }
+}
+
+async function uncacheStory(storyId: string) {
+  if (!localDatabase.isAvailable()) return;
+
+  try {
+    await localDatabase.deleteStory(storyId);
+  } catch (error) {
+    console.warn('⚠️ Could not remove cached story:', error);
+  }
+}
+
+async function loadCachedStories(userId: string): Promise<Story[]> {
+  if (!localDatabase.isAvailable()) return [];
+
+  try {
+    return await localDatabase.getStories(userId);
+  } catch (error) {
+    console.warn('⚠️ Could not read cached stories:', error);
+    return [];
+  }
+}
+
+// Stories with unsynced changes keep their local copy until the outbox catches up
+async function mergeWithLocalChanges(userId: string, remote: Story[]): Promise<Story[]> {
+  if (!localDatabase.isAvailable()) return remote;
+
+  try {
+    const pendingIds = await useSyncStore.getState().getPendingStoryIds();
+    const cached = await localDatabase.getStories(userId);
+    const remoteIds = new Set(remote.map(story => story.id));
+
+    const stories = remote.map(story =>
+      pendingIds.has(story.id) ? cached.find(c => c.id === story.id) || story : story
+    );
+
+    // Forget stories that were deleted elsewhere
+    await Promise.all(cached
+      .filter(story => !remoteIds.has(story.id) && !pendingIds.has(story.id))
+      .map(story => localDatabase.deleteStory(story.id))
+    );
+    await localDatabase.putStories(stories);
+
+    return stories;
+  } catch (error) {
+    console.warn('⚠️ Could not merge cached stories:', error);
+    return remote;
+  }
+}
+
+const STORY_COLUMNS = ['title', 'content', 'theme', 'length', 'status', 'metadata', 'pronunciations', 'updated_at'] as const;
+
+function applyRemoteStory(storyId: string, remote: Record<string, unknown>) {
+  const fields = Object.fromEntries(
+    STORY_COLUMNS.filter(column => remote[column] !== undefined).map(column => [column, remote[column]])
+  ) as Partial<Story>;
+
+  useStoryStore.setState(state => ({
+    stories: state.stories.map(story => story.id === storyId ? { ...story, ...fields } : story),
+    currentStory: state.currentStory?.id === storyId
+      ? { ...state.currentStory, ...fields }
+      : state.currentStory,
+  }));
+
+  return cacheStory(useStoryStore.getState().stories.find(s => s.id === storyId));
+}
+
+async function replayStoryUpdate(mutation: PendingMutation, { force }: { force: boolean }) {
+  const { data: remote, error: fetchError } = await supabase
+    .from('stories')
+    .select('*')
+    .eq('id', mutation.storyId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(fetchError.message || 'Failed to load story');
+  }
+
+  if (!remote) {
+    console.warn('⚠️ Story no longer exists, dropping queued update:', mutation.storyId);
+    return;
+  }
+
+  // Compare against the version the edit was made on; the store may already hold a newer fetch
+  const base = mutation.baseUpdatedAt
+    ?? useStoryStore.getState().stories.find(s => s.id === mutation.storyId)?.updated_at;
+
+  if (!force && base && remote.updated_at > base) {
+    throw new SyncConflictError(remote);
+  }
+
+  const { data, error } = await supabase
+    .from('stories')
+    .update(mutation.payload)
+    .eq('id', mutation.storyId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('❌ Database update error:', error);
+    throw new Error(error.message || 'Failed to update story');
+  }
+
+  console.log('✅ Story updated in database');
+
+  await rebaseQueuedUpdates(mutation, remote.updated_at, data.updated_at);
+  await applyRemoteStory(mutation.storyId, { updated_at: data.updated_at });
+}
+
+// Edits queued on the version this update replaced now build on the update, not on the other device
+async function rebaseQueuedUpdates(replayed: PendingMutation, from: string, to: string) {
+  if (!localDatabase.isAvailable()) return;
+
+  try {
+    const queued = await localDatabase.getMutations();
+    await Promise.all(queued
+      .filter(m => m.id !== replayed.id && m.storyId === replayed.storyId && m.kind === 'story.update' && m.baseUpdatedAt === from)
+      .map(m => localDatabase.putMutation({ ...m, baseUpdatedAt: to })));
+  } catch (error) {
+    console.warn('⚠️ Could not rebase queued story updates:', error);
+  }
+}
+
+// Bring a story's stored scenes in line with the segmenter
+async function syncSegments(storyId: string, scenes: Scene[]) {
+  const { createSegment, updateSegment, reorderSegments, deleteSegment } = useStoryStore.getState();
+
+  const { data: remote, error } = await supabase
+    .from('story_segments')
+    .select('id')
+    .eq('story_id', storyId);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to load scenes');
+  }
+
+  const existingIds = new Set<string>((remote || []).map(row => row.id));
+
+  // Remove segments that were deleted in the segmenter
+  const keptIds = new Set(scenes.map(scene => scene.id));
+  for (const segmentId of existingIds) {
+    if (!keptIds.has(segmentId)) {
+      await deleteSegment(storyId, segmentId);
+    }
+  }
+
+  // Update known segments and insert new ones, keeping scene order
+  const savedIds: string[] = [];
+  for (const scene of scenes) {
+    if (existingIds.has(scene.id)) {
+      await updateSegment(storyId, scene.id, scene);
+      savedIds.push(scene.id);
+    } else {
+      const segment = await createSegment(storyId, scene);
+      savedIds.push(segment.id);
+    }
+  }
+
+  await reorderSegments(storyId, savedIds);
+
+  // Swap local placeholders for the stored rows
+  const { data: saved, error: reloadError } = await supabase
+    .from('story_segments')
+    .select('*')
+    .eq('story_id', storyId);
+
+  if (reloadError) {
+    throw new Error(reloadError.message || 'Failed to reload scenes');
+  }
+
+  useStoryStore.setState(state => withSegments(state, storyId, () => sortSegments(saved || [])));
+  await cacheStory(useStoryStore.getState().stories.find(s => s.id === storyId));
+
+  console.log('✅ Segments saved');
+}
+
+// Bring a story's stored characters and photos in line with the extractor
+async function syncCharacters(storyId: string, characters: ExtractedCharacter[]) {
+  const { data: remote, error: fetchError } = await supabase
+    .from('characters')
+    .select('*, character_photos (*)')
+    .eq('story_id', storyId);
+
+  if (fetchError) {
+    throw new Error(fetchError.message || 'Failed to load characters');
+  }
+
+  const existing = ((remote || []) as CharacterRow[]).map(rowToCharacter);
+  const keptIds = new Set(characters.map(character => character.id));
+
+  // Remove characters that were deleted in the extractor (photos cascade)
+  for (const character of existing) {
+    if (!keptIds.has(character.id)) {
+      await useStoryStore.getState().deleteCharacter(storyId, character.id);
+    }
+  }
+
+  const saved: Character[] = [];
+  for (const character of characters) {
+    const row = {
+      story_id: storyId,
+      name: character.name,
+      description: character.description,
+      personality: character.personality,
+      appearance: character.appearance,
+      role: character.role,
+      aliases: character.aliases || [],
+      dialogue_lines: character.dialogueLines,
+      evidence: character.evidence || [],
+      voice: character.voice || null,
+    };
+    const previous = existing.find(c => c.id === character.id);
+
+    const { data, error } = previous
+      ? await supabase.from('characters').update(row).eq('id', character.id).select().single()
+      : await supabase.from('characters').insert(row).select().single();
+
+    if (error) {
+      console.error('❌ Save character error:', error);
+      throw new Error(error.message || `Failed to save ${character.name}`);
+    }
+
+    const photos = await syncCharacterPhotos(data.id, character.photos, previous?.photos || []);
+    saved.push(rowToCharacter({ ...data, character_photos: photos }));
+  }
+
+  useStoryStore.setState(state => withCharacters(state, storyId, () => saved));
+  await cacheStory(useStoryStore.getState().stories.find(s => s.id === storyId));
+
+  console.log('✅ Characters saved');
+}
+
+registerMutationHandler('story.update', {
+  replay: replayStoryUpdate,
+  discard: mutation => applyRemoteStory(mutation.storyId, mutation.remote || {}),
+});
+
+registerMutationHandler('story.delete', {
+  replay: async mutation => {
+    const { error } = await supabase
+      .from('stories')
+      .delete()
+      .eq('id', mutation.storyId);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to delete story');
+    }
+  },
+});
+
+registerMutationHandler('revision.create', {
+  replay: replayRevision,
+});
+
+registerMutationHandler('segments.save', {
+  replay: mutation => syncSegments(mutation.storyId, mutation.payload.scenes as Scene[]),
+});
+
+registerMutationHandler('characters.save', {
+  replay: mutation => syncCharacters(mutation.storyId, mutation.payload.characters as ExtractedCharacter[]),
+});
+
+// Saved and updated render jobs land in their story's video list
+onVideoJobUpdate(video => {
+  const withVideo = (story: Story): Story => {
+    if (story.id !== video.story_id) return story;
+    const videos = story.videos || [];
+    return {
+      ...story,
+      videos: videos.some(v => v.id === video.id)
+        ? videos.map(v => v.id === video.id ? video : v)
+        : [...videos, video],
+    };
+  };
+
+  useStoryStore.setState(state => ({
+    stories: state.stories.map(withVideo),
+    currentStory: state.currentStory && withVideo(state.currentStory),
+  }));
+
+  const story = useStoryStore.getState().stories.find(s => s.id === video.story_id);
+  cacheStory(story);
+
+  // Renders that finish in the background complete their story, as a synchronous render does
+  if (video.status === 'completed' && story && story.status !== 'completed') {
+    useStoryStore.getState().updateStory(story.id, { status: 'completed' })
+      .catch(error => console.warn('⚠️ Could not mark story completed:', error));
+  }
+});
+
+// Convert a persisted audio file into the clip shape used by the audio step
+export function audioFileToClip(file: AudioFile): AudioClip {
+  return {
+    id: file.id,
+    text: file.text_content,
+    character: file.metadata?.character,
+    type: file.metadata?.type || (file.character_id ? 'dialogue' : 'narration'),
+    audioUrl: file.audio_url,
+    duration: file.duration,
+    voiceId: file.voice_id,
+    isGenerated: true,
+    scene: file.metadata?.scene,
+    words: file.metadata?.words,
+  };
+}
+
+function sortAudioFiles(files: AudioFile[]): AudioFile[] {
+  return [...files].sort((a, b) => (a.metadata?.order ?? 0) - (b.metadata?.order ?? 0));
+}
+
+// Convert a persisted character into the shape used by the extraction UI
+export function characterToExtracted(character: Character): ExtractedCharacter {
+  return {
+    id: character.id,
+    name: character.name,
+    role: character.role,
+    description: character.description,
+    personality: character.personality || [],
+    appearance: character.appearance,
+    aliases: character.aliases || [],
+    dialogueLines: character.dialogue_lines || [],
+    evidence: character.evidence || [],
+    voice: character.voice || undefined,
+    photos: (character.photos || []).map(photo => ({
+      id: photo.id,
+      url: photo.photo_url,
+      provider: photo.provider || 'unknown',
+      style: photo.style || 'realistic',
+      isSelected: photo.is_selected,
+      validation: photo.metadata?.validation,
+      isAccepted: photo.metadata?.isAccepted,
+      needsRegeneration: photo.metadata?.needsRegeneration,
+    })),
+  };
+}
+
+// Local stand-in for a character until the outbox has stored it
+function extractedToCharacter(storyId: string, character: ExtractedCharacter): Character {
+  const now = new Date().toISOString();
+
+  return {
+    id: character.id,
+    story_id: storyId,
+    name: character.name,
+    description: character.description,
+    personality: character.personality,
+    appearance: character.appearance,
+    role: character.role,
+    aliases: character.aliases,
+    dialogue_lines: character.dialogueLines,
+    evidence: character.evidence,
+    voice: character.voice,
+    photos: character.photos.map((photo, index) => ({
+      id: photo.id || `${character.id}-photo-${index}`,
+      character_id: character.id,
+      photo_url: photo.url,
+      provider: photo.provider,
+      style: photo.style,
+      is_selected: !!photo.isSelected,
+      metadata: {
+        validation: photo.validation,
+        isAccepted: photo.isAccepted,
+        needsRegeneration: photo.needsRegeneration,
+      },
+      created_at: now,
+    })),
+    created_at: now,
+  };
+}
+
+type CharacterRow = Omit<Character, 'photos'> & { character_photos?: CharacterPhoto[] };
+
+function rowToCharacter({ character_photos, ...row }: CharacterRow): Character {
+  return {
+    ...row,
+    personality: row.personality || [],
+    aliases: row.aliases || [],
+    dialogue_lines: row.dialogue_lines || [],
+    evidence: row.evidence || [],
+    photos: [...(character_photos || [])].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  };
+}
+
+// Bring a character's stored photos in line with the extractor, keeping is_selected in sync
+async function syncCharacterPhotos(
+  characterId: string,
+  photos: ExtractedCharacterPhoto[],
+  existing: CharacterPhoto[]
+): Promise<CharacterPhoto[]> {
+  const keptIds = new Set(photos.map(photo => photo.id).filter(Boolean));
+  const removedIds = existing.filter(photo => !keptIds.has(photo.id)).map(photo => photo.id);
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from('character_photos')
+      .delete()
+      .in('id', removedIds);
+
+    if (error) {
+      console.error('❌ Delete character photos error:', error);
+      throw new Error(error.message || 'Failed to remove old character photos');
+    }
+  }
+
+  const saved: CharacterPhoto[] = [];
+  for (const photo of photos) {
+    const row = {
+      character_id: characterId,
+      photo_url: photo.url,
+      provider: photo.provider,
+      style: photo.style,
+      is_selected: !!photo.isSelected,
+      metadata: {
+        validation: photo.validation,
+        isAccepted: photo.isAccepted,
+        needsRegeneration: photo.needsRegeneration,
+      },
+    };
+
+    const { data, error } = photo.id && existing.some(p => p.id === photo.id)
+      ? await supabase.from('character_photos').update(row).eq('id', photo.id).select().single()
+      : await supabase.from('character_photos').insert(row).select().single();
+
+    if (error) {
+      console.error('❌ Save character photo error:', error);
+      throw new Error(error.message || 'Failed to save character photo');
+    }
+
+    saved.push(data as CharacterPhoto);
+  }
+
+  return saved;
+}
+
+function withCharacters(
+  state: StoryState,
+  storyId: string,
+  update: (characters: Character[]) => Character[]
+): Partial<StoryState> {
+  return {
+    stories: state.stories.map(story =>
+      story.id === storyId ? { ...story, characters: update(story.characters || []) } : story
+    ),
+    currentStory: state.currentStory?.id === storyId
+      ? { ...state.currentStory, characters: update(state.currentStory.characters || []) }
+      : state.currentStory,
+  };
+}
+
+// Convert a persisted segment into the scene shape used by the segmentation UI
+export function segmentToScene(segment: StorySegment): Scene {
+  return {
+    id: segment.id,
+    title: segment.title,
+    content: segment.content,
+    characters: segment.characters || [],
+    setting: segment.setting,
+    duration: segment.duration ?? 30,
+    visualPrompt: segment.visual_prompt,
+    order: segment.segment_order,
+    heading: segment.metadata?.heading,
+    act: segment.metadata?.act,
+    actTitle: segment.metadata?.act_title,
+    transitionIn: segment.metadata?.transition_in,
+    plan: segment.metadata?.plan,
+    storyboard: segment.metadata?.storyboard,
+  };
+}
+
+function sceneToSegmentRow(storyId: string, scene: Scene) {
+  return {
+    story_id: storyId,
+    segment_order: scene.order,
+    title: scene.title,
+    content: scene.content,
+    setting: scene.setting,
+    characters: scene.characters,
+    duration: Math.round(scene.duration),
+    visual_prompt: scene.visualPrompt,
+    metadata: sceneToSegmentMetadata(scene),
+  };
+}
+
+function sceneToSegmentMetadata(scene: Partial<Scene>): SegmentMetadata {
+  const metadata: SegmentMetadata = {
+    heading: scene.heading,
+    act: scene.act,
+    act_title: scene.actTitle,
+    transition_in: scene.transitionIn,
+    plan: scene.plan,
+    storyboard: scene.storyboard,
+  };
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined));
+}
+
+function sortSegments(segments: StorySegment[]): StorySegment[] {
+  return [...segments].sort((a, b) => a.segment_order - b.segment_order);
+}
+
+// Apply a segment change to a story in both the list and the current story
+function withSegments(
+  state: StoryState,
+  storyId: string,
+  update: (segments: StorySegment[]) => StorySegment[]
+): Partial<StoryState> {
+  return {
+    stories: state.stories.map(story =>
+      story.id === storyId ? { ...story, segments: update(story.segments || []) } : story
+    ),
+    currentStory: state.currentStory?.id === storyId
+      ? { ...state.currentStory, segments: update(state.currentStory.segments || []) }
+      : state.currentStory,
+  };
+}
+
 // Helper function to generate characters based on theme
 function generateCharactersForTheme(theme: StoryTheme, storyId: string): Character[] {
   const characterTemplates = {
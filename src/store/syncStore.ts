@@ -0,0 +1,343 @@
+import { create } from 'zustand';
+import { localDatabase, MutationKind, PendingMutation } from '../lib/localDatabase';
+
+export type SyncStatus = 'synced' | 'syncing' | 'pending' | 'offline' | 'conflict' | 'error';
+
+type ConflictResolution = 'local' | 'remote';
+
+interface MutationHandler {
+  replay: (mutation: PendingMutation, options: { force: boolean }) => Promise<void>;
+  // Called when the server version wins a conflict
+  discard?: (mutation: PendingMutation) => Promise<void>;
+}
+
+// Thrown by a handler when the server copy changed since the local edit was made
+export class SyncConflictError extends Error {
+  remote: Record<string, unknown>;
+
+  constructor(remote: Record<string, unknown>) {
+    super('This story was changed somewhere else');
+    this.name = 'SyncConflictError';
+    this.remote = remote;
+  }
+}
+
+interface SyncState {
+  status: SyncStatus;
+  isOnline: boolean;
+  pendingCount: number;
+  conflicts: PendingMutation[];
+  failed: PendingMutation[];
+  lastSyncedAt: string | null;
+
+  // Actions
+  enqueue: (kind: MutationKind, storyId: string, payload: Record<string, unknown>, baseUpdatedAt?: string) => Promise<void>;
+  flush: () => Promise<void>;
+  resolveConflict: (mutationId: number, resolution: ConflictResolution) => Promise<void>;
+  retryFailed: (mutationId: number) => Promise<void>;
+  dismissFailed: (mutationId: number) => Promise<void>;
+  getPendingStoryIds: () => Promise<Set<string>>;
+  startSync: () => () => void;
+}
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+// Each queued mutation of these kinds must reach the server, so they are never merged
+const APPEND_ONLY_KINDS: MutationKind[] = ['revision.create'];
+
+const handlers: Partial<Record<MutationKind, MutationHandler>> = {};
+
+let flushPromise: Promise<void> | null = null;
+let flushAgain = false;
+let inFlightId: number | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+export function registerMutationHandler(kind: MutationKind, handler: MutationHandler) {
+  handlers[kind] = handler;
+}
+
+export const useSyncStore = create<SyncState>((set, get) => ({
+  status: 'synced',
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pendingCount: 0,
+  conflicts: [],
+  failed: [],
+  lastSyncedAt: null,
+
+  enqueue: async (kind, storyId, payload, baseUpdatedAt) => {
+    if (!localDatabase.isAvailable()) {
+      // Without IndexedDB there is nothing durable to queue into, so replay straight away
+      await handlers[kind]?.replay(createMutation(kind, storyId, payload, baseUpdatedAt), { force: false });
+      return;
+    }
+
+    const mutations = await localDatabase.getMutations();
+    const sameStory = mutations.filter(m => m.storyId === storyId && m.id !== inFlightId);
+
+    if (kind === 'story.delete') {
+      // Nothing else needs to reach the server for a story that is going away
+      await Promise.all(sameStory.map(m => localDatabase.deleteMutation(m.id!)));
+      await localDatabase.addMutation(createMutation(kind, storyId, payload, baseUpdatedAt));
+    } else {
+      const existing = APPEND_ONLY_KINDS.includes(kind)
+        ? undefined
+        : sameStory.find(m => m.kind === kind && m.status === 'pending');
+
+      if (existing) {
+        // Story updates merge field by field; segment and character saves carry the full set
+        const merged = kind === 'story.update' ? { ...existing.payload, ...payload } : payload;
+        await localDatabase.putMutation({ ...existing, payload: merged });
+      } else {
+        await localDatabase.addMutation(createMutation(kind, storyId, payload, baseUpdatedAt));
+      }
+    }
+
+    await refreshQueueState(set);
+  },
+
+  flush: () => {
+    if (flushPromise) {
+      flushAgain = true;
+      return flushPromise;
+    }
+
+    flushPromise = (async () => {
+      do {
+        flushAgain = false;
+        await processOutbox(set, get);
+      } while (flushAgain);
+    })().finally(() => {
+      flushPromise = null;
+    });
+
+    return flushPromise;
+  },
+
+  resolveConflict: async (mutationId: number, resolution: ConflictResolution) => {
+    const mutation = get().conflicts.find(m => m.id === mutationId);
+    if (!mutation) return;
+
+    const handler = handlers[mutation.kind];
+
+    try {
+      if (resolution === 'local') {
+        await handler?.replay(mutation, { force: true });
+      } else {
+        await handler?.discard?.(mutation);
+      }
+      await localDatabase.deleteMutation(mutationId);
+    } catch (error) {
+      console.error('❌ Conflict resolution failed:', error);
+      throw error;
+    } finally {
+      await refreshQueueState(set);
+    }
+
+    // Later changes to the same story were held back behind the conflict
+    await get().flush();
+  },
+
+  retryFailed: async (mutationId: number) => {
+    const mutation = get().failed.find(m => m.id === mutationId);
+    if (!mutation) return;
+
+    await localDatabase.putMutation({ ...mutation, status: 'pending', attempts: 0, nextAttemptAt: 0 });
+    await refreshQueueState(set);
+    await get().flush();
+  },
+
+  dismissFailed: async (mutationId: number) => {
+    await localDatabase.deleteMutation(mutationId);
+    await refreshQueueState(set);
+  },
+
+  getPendingStoryIds: async () => {
+    if (!localDatabase.isAvailable()) return new Set<string>();
+
+    try {
+      const mutations = await localDatabase.getMutations();
+      return new Set(mutations.map(m => m.storyId));
+    } catch (error) {
+      console.warn('⚠️ Could not read sync outbox:', error);
+      return new Set<string>();
+    }
+  },
+
+  startSync: () => {
+    const handleOnline = () => {
+      console.log('🌐 Connection restored, syncing pending changes');
+      set({ isOnline: true });
+      get().flush();
+    };
+
+    const handleOffline = () => {
+      console.log('📴 Connection lost, changes will be queued');
+      set({ isOnline: false, status: 'offline' });
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    if (localDatabase.isAvailable()) {
+      refreshQueueState(set)
+        .then(() => get().flush())
+        .catch(error => console.warn('⚠️ Could not start sync:', error));
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+    };
+  },
+}));
+
+function createMutation(
+  kind: MutationKind,
+  storyId: string,
+  payload: Record<string, unknown>,
+  baseUpdatedAt?: string
+): PendingMutation {
+  return {
+    kind,
+    storyId,
+    payload,
+    baseUpdatedAt,
+    attempts: 0,
+    nextAttemptAt: 0,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+  };
+}
+
+async function processOutbox(
+  set: (partial: Partial<SyncState>) => void,
+  get: () => SyncState
+) {
+  if (!localDatabase.isAvailable()) return;
+
+  if (!navigator.onLine) {
+    set({ isOnline: false, status: 'offline' });
+    return;
+  }
+
+  const mutations = await localDatabase.getMutations();
+  const blockedStories = new Set<string>();
+  let wentOffline = false;
+
+  if (mutations.some(m => m.status === 'pending')) {
+    set({ status: 'syncing' });
+  }
+
+  for (const mutation of mutations) {
+    // Keep per-story ordering: nothing overtakes an unresolved change to the same story
+    if (mutation.status !== 'pending' || blockedStories.has(mutation.storyId)) {
+      blockedStories.add(mutation.storyId);
+      continue;
+    }
+
+    if (mutation.nextAttemptAt > Date.now()) {
+      blockedStories.add(mutation.storyId);
+      continue;
+    }
+
+    const handler = handlers[mutation.kind];
+    if (!handler) {
+      console.warn('⚠️ No handler registered for mutation:', mutation.kind);
+      blockedStories.add(mutation.storyId);
+      continue;
+    }
+
+    inFlightId = mutation.id ?? null;
+
+    try {
+      await handler.replay(mutation, { force: false });
+      await localDatabase.deleteMutation(mutation.id!);
+      set({ lastSyncedAt: new Date().toISOString() });
+    } catch (error) {
+      blockedStories.add(mutation.storyId);
+
+      if (error instanceof SyncConflictError) {
+        console.warn('⚠️ Sync conflict for story:', mutation.storyId);
+        await localDatabase.putMutation({
+          ...mutation,
+          status: 'conflict',
+          remote: error.remote,
+          lastError: error.message,
+        });
+        continue;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = mutation.attempts + 1;
+
+      if (isNetworkError(message)) {
+        // Connectivity problems hold the whole queue until the next retry
+        await localDatabase.putMutation({ ...mutation, lastError: message, nextAttemptAt: nextRetryAt(attempts), attempts });
+        wentOffline = true;
+        break;
+      }
+
+      console.error('❌ Sync failed for mutation:', mutation.kind, message);
+      await localDatabase.putMutation({
+        ...mutation,
+        attempts,
+        lastError: message,
+        nextAttemptAt: nextRetryAt(attempts),
+        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+      });
+    } finally {
+      inFlightId = null;
+    }
+  }
+
+  await refreshQueueState(set, wentOffline);
+  scheduleRetry(get);
+}
+
+async function refreshQueueState(set: (partial: Partial<SyncState>) => void, wentOffline = false) {
+  const mutations = await localDatabase.getMutations();
+  const conflicts = mutations.filter(m => m.status === 'conflict');
+  const failed = mutations.filter(m => m.status === 'failed');
+  const pendingCount = mutations.filter(m => m.status === 'pending').length;
+  const isOnline = navigator.onLine && !wentOffline;
+
+  let status: SyncStatus = 'synced';
+  if (conflicts.length > 0) status = 'conflict';
+  else if (failed.length > 0) status = 'error';
+  else if (!isOnline) status = 'offline';
+  else if (pendingCount > 0) status = 'pending';
+
+  set({ conflicts, failed, pendingCount, isOnline, status });
+}
+
+function scheduleRetry(get: () => SyncState) {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  localDatabase.getMutations().then(mutations => {
+    const waiting = mutations.filter(m => m.status === 'pending');
+    if (waiting.length === 0) return;
+
+    const nextAt = Math.min(...waiting.map(m => m.nextAttemptAt));
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      get().flush();
+    }, Math.max(0, nextAt - Date.now()));
+  }).catch(error => console.warn('⚠️ Could not schedule sync retry:', error));
+}
+
+function nextRetryAt(attempts: number): number {
+  return Date.now() + Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+}
+
+function isNetworkError(message: string): boolean {
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
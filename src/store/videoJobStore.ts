@@ -0,0 +1,822 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { videoService, splitByScene, VideoGenerationRequest, VideoGenerationResponse } from '../lib/videoService';
+import { videoCompositor, CompositionScene } from '../lib/videoCompositor';
+import { videoStorageService, RenderedFiles } from '../lib/videoStorageService';
+import { audioStorageService } from '../lib/audioStorageService';
+import { EditList, FinalCutSettings, Video, VideoProviderName, VideoSegment } from '../types';
+
+interface SegmentedVideoOptions {
+  preferredBackend?: string; // Tried first for every scene
+  metadata?: Video['metadata'];
+}
+
+interface VideoJobState {
+  jobs: Video[]; // Renders a provider is still working on
+  finalCuts: Video[]; // Videos stitched from scene clips, loaded this session
+  segments: VideoSegment[]; // Their scene clips, finished or not
+
+  // Actions
+  submitJob: (storyId: string, result: VideoGenerationResponse, metadata?: Video['metadata']) => Promise<Video>;
+  submitSegmentedVideo: (storyId: string, request: VideoGenerationRequest, options?: SegmentedVideoOptions) => Promise<Video>;
+  regenerateSegment: (segmentId: string) => Promise<void>;
+  cancelJob: (videoId: string) => Promise<void>;
+  loadSegments: (videoId: string) => Promise<VideoSegment[]>;
+  saveEditList: (video: Video, editList: EditList) => Promise<Video>;
+  pollNow: () => Promise<void>;
+  startPolling: () => () => void;
+}
+
+type JobListener = (video: Video) => void;
+type RenderJob = Video | VideoSegment;
+type SetState = (updater: (state: VideoJobState) => Partial<VideoJobState>) => void;
+
+const POLL_INTERVAL = 5000;
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const JOB_TIMEOUT = 60 * 60 * 1000;
+const LOCAL_ID_PREFIX = 'local-video-'; // Videos the database didn't accept
+
+const listeners = new Set<JobListener>();
+
+let pollPromise: Promise<void> | null = null;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+// Scene clips are submitted one at a time, so a long story doesn't hit every provider at once
+let renderQueue: Promise<void> = Promise.resolve();
+
+// Called with every saved or updated video, so stories can show job progress
+export function onVideoJobUpdate(listener: JobListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const useVideoJobStore = create<VideoJobState>((set, get) => ({
+  jobs: [],
+  finalCuts: [],
+  segments: [],
+
+  submitJob: async (storyId, result, metadata = {}) => {
+    const now = new Date().toISOString();
+    const finished = result.status === 'completed' || result.status === 'failed';
+    const id = `${LOCAL_ID_PREFIX}${Date.now()}`;
+
+    // A video rendered in this tab is only saved once it is stored; otherwise it lasts the session
+    let files = { video_url: result.video_url, thumbnail_url: result.thumbnail_url };
+    let stored = true;
+    if (result.status === 'completed') {
+      try {
+        files = await videoStorageService.storeRender(storyId, id, files);
+      } catch (error) {
+        console.warn('⚠️ Could not store rendered video, keeping it for this session only:', error);
+        stored = false;
+      }
+    }
+
+    const row: Video = {
+      id,
+      story_id: storyId,
+      video_url: files.video_url,
+      thumbnail_url: files.thumbnail_url,
+      provider: result.provider as VideoProviderName,
+      status: result.status,
+      created_at: now,
+      completed_at: result.status === 'completed' ? now : undefined,
+      provider_job_id: finished ? undefined : result.id,
+      attempts: 0,
+      next_poll_at: finished ? undefined : new Date(Date.now() + POLL_INTERVAL).toISOString(),
+      error: result.error,
+      metadata,
+    };
+    const video = stored ? await insertVideo(row) : row;
+
+    notify(video);
+
+    if (!finished) {
+      console.log('🔄 Video job queued:', video.provider, video.provider_job_id);
+      set(state => ({ jobs: [...state.jobs, video] }));
+      scheduleNextPoll(get);
+    }
+
+    return video;
+  },
+
+  submitSegmentedVideo: async (storyId, request, { preferredBackend, metadata = {} } = {}) => {
+    const clipRequests = splitByScene(request);
+    if (clipRequests.length === 0) {
+      throw new Error('No scenes to render');
+    }
+
+    const now = new Date().toISOString();
+
+    // Narration mixed in this tab is stored so the cut can still be stitched after a reload
+    let audioUrl = request.narration?.audio_url;
+    let stored = true;
+    if (audioUrl && audioStorageService.needsUpload(audioUrl)) {
+      try {
+        audioUrl = (await audioStorageService.uploadClip(storyId, `mixdown-${Date.now()}`, audioUrl)).url;
+      } catch (error) {
+        console.warn('⚠️ Could not store the narration, keeping this video for this session only:', error);
+        stored = false;
+      }
+    }
+
+    const finalCut: FinalCutSettings = {
+      title: request.title || 'Story',
+      theme: request.theme || 'fantasy',
+      aspectRatio: request.aspectRatio || '16:9',
+      audioUrl,
+      burnSubtitles: !!request.subtitles && !!request.subtitleCues?.length,
+      preferredBackend,
+    };
+
+    // Scenes keep their place on the narration timeline, or follow one another
+    let cursor = 0;
+    const timing = request.scenes!.map(scene => {
+      const start = scene.start ?? cursor;
+      cursor = start + scene.duration;
+      return { start, length: scene.duration };
+    });
+
+    const row: Video = {
+      id: `${LOCAL_ID_PREFIX}${Date.now()}`,
+      story_id: storyId,
+      provider: (preferredBackend || 'ai-generated-canvas') as VideoProviderName,
+      status: 'processing',
+      created_at: now,
+      duration: Math.round(cursor),
+      attempts: 0,
+      metadata: { ...metadata, subtitles: metadata.subtitles ?? request.subtitleCues, finalCut },
+    };
+    const video = stored ? await insertVideo(row) : row;
+
+    const segments = await insertSegments(video, clipRequests.map((clip, index) => ({
+      id: `${LOCAL_ID_PREFIX}${Date.now()}-${index}`,
+      video_id: video.id,
+      segment_order: index,
+      prompt: clip.prompt,
+      duration: Math.ceil(timing[index].length),
+      status: 'pending',
+      created_at: now,
+      attempts: 0,
+      metadata: {
+        title: clip.title,
+        start: timing[index].start,
+        length: timing[index].length,
+        transition: clip.scenes![0].transition,
+        request: clip,
+      },
+    })));
+
+    console.log('🔄 Segmented video queued:', video.id, segments.length, 'scenes');
+    set(state => ({
+      finalCuts: [...state.finalCuts, video],
+      segments: [...state.segments, ...segments],
+    }));
+    notify(video);
+    segments.forEach(segment => queueRender(segment.id, set, get));
+
+    return video;
+  },
+
+  regenerateSegment: async (segmentId) => {
+    const segment = get().segments.find(s => s.id === segmentId);
+    if (!segment) return;
+    if (segment.status === 'pending' || segment.status === 'processing') {
+      throw new Error('This scene is still rendering');
+    }
+
+    // Scenes listed after a reload belong to a video this session hasn't loaded yet
+    const cut = await loadFinalCut(segment.video_id, set, get);
+    if (!cut) {
+      throw new Error('The video this scene belongs to no longer exists');
+    }
+
+    const now = new Date().toISOString();
+    const reset: VideoSegment = {
+      ...segment,
+      status: 'pending',
+      video_url: undefined,
+      thumbnail_url: undefined,
+      completed_at: undefined,
+      provider_job_id: undefined,
+      attempts: 0,
+      next_poll_at: undefined,
+      error: undefined,
+      metadata: { ...segment.metadata, submittedAt: now },
+    };
+    set(state => ({ segments: state.segments.map(s => s.id === segmentId ? reset : s) }));
+    await saveSegment(reset);
+
+    // The final cut is stitched again once the new clip is done
+    const reopened: Video = {
+      ...cut,
+      status: 'processing',
+      video_url: undefined,
+      thumbnail_url: undefined,
+      completed_at: undefined,
+      error: undefined,
+    };
+    set(state => ({ finalCuts: state.finalCuts.map(v => v.id === cut.id ? reopened : v) }));
+    await saveVideo(reopened);
+    notify(reopened);
+
+    console.log('🔄 Regenerating scene:', segment.segment_order + 1, 'of video', segment.video_id);
+    queueRender(segmentId, set, get);
+  },
+
+  cancelJob: async (videoId) => {
+    const job = get().jobs.find(j => j.id === videoId);
+    if (!job) return;
+
+    await videoService.cancelVideo(job.provider_job_id!, job.provider);
+
+    const cancelled = failJob(job, 'Cancelled');
+    set(state => ({ jobs: state.jobs.filter(j => j.id !== videoId) }));
+    await saveVideo(cancelled);
+    notify(cancelled);
+    scheduleNextPoll(get);
+  },
+
+  // Scene clips of any video, from this session or the database
+  loadSegments: async (videoId) => {
+    const known = get().segments.filter(s => s.video_id === videoId);
+    if (known.length > 0 || videoId.startsWith(LOCAL_ID_PREFIX)) {
+      return known.sort((a, b) => a.segment_order - b.segment_order);
+    }
+
+    const { data, error } = await supabase
+      .from('video_segments')
+      .select('*')
+      .eq('video_id', videoId)
+      .order('segment_order');
+
+    if (error) {
+      console.error('❌ Load scene clips error:', error);
+      throw new Error(error.message || 'Failed to load scene clips');
+    }
+
+    const segments = (data || []) as VideoSegment[];
+    set(state => ({
+      segments: [...state.segments.filter(s => s.video_id !== videoId), ...segments],
+    }));
+    return segments;
+  },
+
+  saveEditList: async (video, editList) => {
+    if (!video.id.startsWith(LOCAL_ID_PREFIX)) {
+      const { error } = await supabase
+        .from('videos')
+        .update({ edit_list: editList })
+        .eq('id', video.id);
+
+      if (error) {
+        console.error('❌ Save edit error:', error);
+        throw new Error(error.message || 'Failed to save the edit');
+      }
+    }
+
+    const edited: Video = { ...video, edit_list: editList };
+    set(state => ({ finalCuts: state.finalCuts.map(v => v.id === video.id ? edited : v) }));
+    notify(edited);
+    console.log('✅ Edit saved for video:', video.id);
+    return edited;
+  },
+
+  pollNow: () => {
+    if (pollPromise) return pollPromise;
+
+    pollPromise = pollDueJobs(set, get).finally(() => {
+      pollPromise = null;
+      scheduleNextPoll(get);
+    });
+
+    return pollPromise;
+  },
+
+  startPolling: () => {
+    const handleOnline = () => {
+      get().pollNow();
+    };
+
+    window.addEventListener('online', handleOnline);
+
+    // Jobs started before a reload are still running at the provider
+    loadUnfinishedJobs()
+      .then(loaded => {
+        const known = new Set(get().jobs.map(job => job.id));
+        const resumed = loaded.filter(job => !known.has(job.id));
+        if (resumed.length > 0) {
+          console.log('🔄 Resuming video jobs:', resumed.length);
+          set(state => ({ jobs: [...state.jobs, ...resumed] }));
+          resumed.forEach(notify);
+        }
+        return get().pollNow();
+      })
+      .catch(error => console.warn('⚠️ Could not resume video jobs:', error));
+
+    loadUnfinishedFinalCuts()
+      .then(loaded => {
+        const known = new Set(get().finalCuts.map(cut => cut.id));
+        const resumed = loaded.filter(({ cut }) => !known.has(cut.id));
+        if (resumed.length === 0) return;
+
+        console.log('🔄 Resuming segmented videos:', resumed.length);
+        set(state => ({
+          finalCuts: [...state.finalCuts, ...resumed.map(({ cut }) => cut)],
+          segments: [...state.segments, ...resumed.flatMap(({ segments }) => segments)],
+        }));
+        resumed.forEach(({ cut, segments }) => {
+          notify(cut);
+          // Clips that were never submitted are queued again; the rest are polled or already done
+          const unsubmitted = segments.filter(segment => segment.status === 'pending' && !segment.provider_job_id);
+          unsubmitted.forEach(segment => queueRender(segment.id, set, get));
+          if (unsubmitted.length === 0) settleFinalCut(cut.id, set, get);
+        });
+        return get().pollNow();
+      })
+      .catch(error => console.warn('⚠️ Could not resume segmented videos:', error));
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      if (pollTimer) {
+        clearTimeout(pollTimer);
+        pollTimer = null;
+      }
+    };
+  },
+}));
+
+async function pollDueJobs(set: SetState, get: () => VideoJobState) {
+  if (!navigator.onLine) return;
+
+  const isDue = (job: RenderJob) => !job.next_poll_at || Date.parse(job.next_poll_at) <= Date.now();
+  const due = get().jobs.filter(isDue);
+
+  for (const job of due) {
+    const updated = await checkJob(job);
+    // Cancelled while the provider was being asked
+    if (!get().jobs.some(j => j.id === job.id)) continue;
+
+    const finished = updated.status === 'completed' || updated.status === 'failed';
+
+    set(state => ({
+      jobs: finished
+        ? state.jobs.filter(j => j.id !== job.id)
+        : state.jobs.map(j => j.id === job.id ? updated : j),
+    }));
+
+    // Routine "still rendering" answers aren't worth a database write
+    if (updated.status !== job.status || updated.attempts !== job.attempts) {
+      await saveVideo(updated);
+      notify(updated);
+    }
+
+    if (updated.status === 'completed') {
+      console.log('✅ Video job finished:', updated.id);
+    } else if (updated.status === 'failed') {
+      console.error('❌ Video job failed:', updated.id, updated.error);
+    }
+  }
+
+  for (const segment of get().segments.filter(s => isPolled(s) && isDue(s))) {
+    const updated = await checkJob(segment, segment.metadata?.submittedAt);
+    // Regenerated while the provider was being asked
+    const current = get().segments.find(s => s.id === segment.id);
+    if (current?.provider_job_id !== segment.provider_job_id) continue;
+
+    if (updated.status !== segment.status || updated.attempts !== segment.attempts) {
+      await updateSegment(updated, set, get);
+    } else {
+      set(state => ({ segments: state.segments.map(s => s.id === segment.id ? updated : s) }));
+    }
+  }
+}
+
+// Segments wait in the render queue until they have a provider job to poll
+function isPolled(segment: VideoSegment): boolean {
+  return (segment.status === 'pending' || segment.status === 'processing') && !!segment.provider_job_id;
+}
+
+async function checkJob<T extends RenderJob>(job: T, startedAt = job.created_at): Promise<T> {
+  if (Date.now() - Date.parse(startedAt) > JOB_TIMEOUT) {
+    return failJob(job, 'The video provider did not finish within an hour');
+  }
+
+  try {
+    const status = await videoService.checkVideoStatus(job.provider_job_id!, job.provider!);
+
+    if (status.status === 'completed') {
+      if (!status.video_url) {
+        return failJob(job, 'The video provider finished without returning a video');
+      }
+      return {
+        ...job,
+        status: 'completed',
+        video_url: status.video_url,
+        thumbnail_url: status.thumbnail_url || job.thumbnail_url,
+        completed_at: new Date().toISOString(),
+        attempts: 0,
+        next_poll_at: undefined,
+        error: undefined,
+      };
+    }
+
+    if (status.status === 'failed') {
+      return failJob(job, status.error || 'The video provider could not render this video');
+    }
+
+    return {
+      ...job,
+      status: status.status,
+      attempts: 0,
+      next_poll_at: new Date(Date.now() + POLL_INTERVAL).toISOString(),
+    };
+  } catch (error) {
+    // The job may still be rendering, so status-check errors back off before giving up
+    const message = error instanceof Error ? error.message : String(error);
+    const attempts = (job.attempts || 0) + 1;
+
+    if (attempts >= MAX_ATTEMPTS) {
+      return failJob(job, `Could not reach the video provider: ${message}`);
+    }
+
+    console.warn('⚠️ Video status check failed, retrying:', message);
+    return {
+      ...job,
+      attempts,
+      next_poll_at: new Date(Date.now() + Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY)).toISOString(),
+    };
+  }
+}
+
+function failJob<T extends RenderJob>(job: T, error: string): T {
+  return { ...job, status: 'failed', error, next_poll_at: undefined };
+}
+
+function scheduleNextPoll(get: () => VideoJobState) {
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+
+  // Going back online polls straight away
+  const jobs: RenderJob[] = [...get().jobs, ...get().segments.filter(isPolled)];
+  if (jobs.length === 0 || !navigator.onLine) return;
+
+  const nextAt = Math.min(...jobs.map(job => job.next_poll_at ? Date.parse(job.next_poll_at) : Date.now()));
+  pollTimer = setTimeout(() => {
+    pollTimer = null;
+    get().pollNow();
+  }, Math.max(0, nextAt - Date.now()));
+}
+
+function queueRender(segmentId: string, set: SetState, get: () => VideoJobState) {
+  renderQueue = renderQueue
+    .then(() => renderSegment(segmentId, set, get))
+    .catch(error => console.error('❌ Scene render failed:', error));
+}
+
+async function renderSegment(segmentId: string, set: SetState, get: () => VideoJobState) {
+  const segment = get().segments.find(s => s.id === segmentId);
+  if (!segment || segment.status !== 'pending' || segment.provider_job_id) return;
+
+  const cut = get().finalCuts.find(v => v.id === segment.video_id);
+  const submittedAt = new Date().toISOString();
+  let updated: VideoSegment;
+
+  try {
+    if (!cut) {
+      throw new Error('The video this scene belongs to is not loaded');
+    }
+
+    const result = await videoService.generateVideo(segment.metadata?.request as VideoGenerationRequest, {
+      preferredBackend: cut.metadata?.finalCut?.preferredBackend,
+    });
+    const finished = result.status === 'completed' || result.status === 'failed';
+    const files = result.status === 'completed' && !isLocal(segment)
+      ? await storeRender(cut.story_id, `scene-${segment.id}-${Date.now()}`, result, 'scene clip')
+      : result;
+
+    updated = {
+      ...segment,
+      status: result.status,
+      provider: result.provider as VideoProviderName,
+      video_url: files.video_url,
+      thumbnail_url: files.thumbnail_url,
+      completed_at: result.status === 'completed' ? submittedAt : undefined,
+      provider_job_id: finished ? undefined : result.id,
+      attempts: 0,
+      next_poll_at: finished ? undefined : new Date(Date.now() + POLL_INTERVAL).toISOString(),
+      error: result.error,
+      metadata: { ...segment.metadata, submittedAt },
+    };
+  } catch (error) {
+    updated = failJob(segment, error instanceof Error ? error.message : String(error));
+  }
+
+  await updateSegment(updated, set, get);
+}
+
+async function updateSegment(segment: VideoSegment, set: SetState, get: () => VideoJobState) {
+  set(state => ({ segments: state.segments.map(s => s.id === segment.id ? segment : s) }));
+  await saveSegment(segment);
+
+  if (segment.status === 'completed') {
+    console.log('✅ Scene clip finished:', segment.segment_order + 1, segment.provider);
+  } else if (segment.status === 'failed') {
+    console.error('❌ Scene clip failed:', segment.segment_order + 1, segment.error);
+  }
+
+  if (segment.status === 'completed' || segment.status === 'failed') {
+    await settleFinalCut(segment.video_id, set, get);
+  } else {
+    scheduleNextPoll(get);
+  }
+}
+
+// Once no scene is left rendering, stitches the clips or reports the scenes that need regenerating
+async function settleFinalCut(videoId: string, set: SetState, get: () => VideoJobState) {
+  // Clips loaded on their own, e.g. by the timeline editor, still finish their video
+  const cut = await loadFinalCut(videoId, set, get).catch(error => {
+    console.warn('⚠️ Could not load the video to stitch:', error);
+    return undefined;
+  });
+  if (!cut || cut.status === 'completed') return;
+
+  const clips = get().segments
+    .filter(s => s.video_id === videoId)
+    .sort((a, b) => a.segment_order - b.segment_order);
+  if (clips.some(s => s.status === 'pending' || s.status === 'processing')) return;
+
+  // A clip that no longer loads would be swapped for a photo, so it has to be rendered again
+  const unavailable = clips.some(s => s.status === 'failed') ? [] : await findUnavailableClips(clips);
+  for (const clip of unavailable) {
+    const lost = failJob(clip, 'This clip is no longer available. Regenerate it.');
+    set(state => ({ segments: state.segments.map(s => s.id === clip.id ? lost : s) }));
+    await saveSegment(lost);
+  }
+
+  const failed = get().segments.filter(s => s.video_id === videoId && s.status === 'failed');
+  const updated = failed.length > 0
+    ? failJob(cut, `${failed.length} of ${clips.length} scenes failed to render. Regenerate them to finish the video.`)
+    : await stitchFinalCut(cut, clips);
+
+  // A scene may have been regenerated while the clips were being stitched
+  if (get().segments.some(s => s.video_id === videoId && (s.status === 'pending' || s.status === 'processing'))) return;
+
+  set(state => ({ finalCuts: state.finalCuts.map(v => v.id === videoId ? updated : v) }));
+  await saveVideo(updated);
+  notify(updated);
+
+  if (updated.status === 'completed') {
+    console.log('✅ Final cut stitched:', updated.id);
+  } else {
+    console.error('❌ Final cut failed:', updated.id, updated.error);
+  }
+}
+
+async function stitchFinalCut(cut: Video, clips: VideoSegment[]): Promise<Video> {
+  const settings = cut.metadata?.finalCut;
+  console.log('🔄 Stitching final cut:', cut.id, clips.length, 'scenes');
+
+  let cursor = 0;
+  const scenes: CompositionScene[] = clips.map(clip => {
+    const start = clip.metadata?.start ?? cursor;
+    const duration = clip.metadata?.length ?? clip.duration;
+    cursor = start + duration;
+    // The scene's reference photo stands in if its clip can't be loaded
+    const reference = (clip.metadata?.request as VideoGenerationRequest | undefined)?.scenes?.[0]?.referenceImage;
+
+    return {
+      title: clip.metadata?.title || `Scene ${clip.segment_order + 1}`,
+      start,
+      duration,
+      photos: reference ? [reference.url] : [],
+      clip: clip.video_url,
+      transition: clip.metadata?.transition,
+    };
+  });
+
+  const request = {
+    title: settings?.title || 'Story',
+    theme: settings?.theme || 'fantasy',
+    aspectRatio: settings?.aspectRatio || '16:9',
+    scenes,
+    audioUrl: settings?.audioUrl,
+    subtitles: settings?.burnSubtitles ? cut.metadata?.subtitles : undefined,
+    requireClips: true,
+  };
+
+  let result;
+  try {
+    result = await videoCompositor.render(request);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return failJob(cut, `Could not stitch the scenes together: ${message}`);
+  }
+
+  try {
+    const files = isLocal(cut)
+      ? { video_url: result.url, thumbnail_url: result.thumbnailUrl }
+      : await storeRender(cut.story_id, `final-${cut.id}-${Date.now()}`, { video_url: result.url, thumbnail_url: result.thumbnailUrl }, 'final cut');
+
+    return {
+      ...cut,
+      status: 'completed',
+      ...files,
+      duration: Math.round(result.duration),
+      completed_at: new Date().toISOString(),
+      error: undefined,
+      metadata: { ...cut.metadata, mimeType: result.mimeType },
+    };
+  } catch (error) {
+    return failJob(cut, error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Clips saved in an earlier session may point at URLs that have since gone away
+async function findUnavailableClips(clips: VideoSegment[]): Promise<VideoSegment[]> {
+  const missing = await Promise.all(clips.map(async clip => {
+    if (!clip.video_url) return true;
+    try {
+      // Object URLs only answer GET; hosted clips are checked without downloading them
+      const response = await fetch(clip.video_url, { method: clip.video_url.startsWith('blob:') ? 'GET' : 'HEAD' });
+      return !response.ok;
+    } catch (error) {
+      console.warn('⚠️ Scene clip could not be reached:', clip.video_url, error);
+      return true;
+    }
+  }));
+
+  return clips.filter((_, index) => missing[index]);
+}
+
+// Renders made in this tab are stored before a saved row points at them
+async function storeRender<T extends RenderedFiles>(storyId: string, name: string, render: T, what: string): Promise<T> {
+  try {
+    return await videoStorageService.storeRender(storyId, name, render);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not store the ${what}: ${message}`);
+  }
+}
+
+// Rows the database didn't accept are never saved, so their files don't need storing either
+function isLocal(job: RenderJob): boolean {
+  return job.id.startsWith(LOCAL_ID_PREFIX);
+}
+
+// A video stitched from scene clips, from this session or the database
+async function loadFinalCut(videoId: string, set: SetState, get: () => VideoJobState): Promise<Video | undefined> {
+  const known = get().finalCuts.find(v => v.id === videoId);
+  if (known || videoId.startsWith(LOCAL_ID_PREFIX)) return known;
+
+  const { data, error } = await supabase
+    .from('videos')
+    .select('*')
+    .eq('id', videoId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Load video error:', error);
+    throw new Error(error.message || 'Failed to load the video');
+  }
+  if (!data) return undefined;
+
+  const cut = data as Video;
+  set(state => ({ finalCuts: [...state.finalCuts.filter(v => v.id !== videoId), cut] }));
+  return cut;
+}
+
+function notify(video: Video) {
+  listeners.forEach(listener => listener(video));
+}
+
+async function loadUnfinishedJobs(): Promise<Video[]> {
+  const { data, error } = await supabase
+    .from('videos')
+    .select('*')
+    .in('status', ['pending', 'processing'])
+    .not('provider_job_id', 'is', null);
+
+  if (error) throw error;
+  return (data || []) as Video[];
+}
+
+async function loadUnfinishedFinalCuts(): Promise<{ cut: Video; segments: VideoSegment[] }[]> {
+  const { data, error } = await supabase
+    .from('videos')
+    .select('*, video_segments (*)')
+    .in('status', ['pending', 'processing'])
+    .not('metadata->finalCut', 'is', null);
+
+  if (error) throw error;
+  return (data || []).map(({ video_segments, ...cut }) => ({
+    cut: cut as Video,
+    segments: (video_segments || []) as VideoSegment[],
+  }));
+}
+
+async function insertVideo(video: Video): Promise<Video> {
+  try {
+    const { data, error } = await supabase
+      .from('videos')
+      .insert(toRow(video))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Video;
+  } catch (error) {
+    // Keep the job in memory so it still finishes this session
+    console.warn('⚠️ Could not save video job, tracking it locally:', error);
+    return video;
+  }
+}
+
+async function saveVideo(video: Video) {
+  if (video.id.startsWith(LOCAL_ID_PREFIX)) return;
+
+  try {
+    const { error } = await supabase
+      .from('videos')
+      .update(toRow(video))
+      .eq('id', video.id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.warn('⚠️ Could not save video job status:', error);
+  }
+}
+
+// Segments of a video the database didn't accept stay local too
+async function insertSegments(video: Video, segments: VideoSegment[]): Promise<VideoSegment[]> {
+  if (video.id.startsWith(LOCAL_ID_PREFIX)) return segments;
+
+  try {
+    const { data, error } = await supabase
+      .from('video_segments')
+      .insert(segments.map(toSegmentRow))
+      .select();
+
+    if (error) throw error;
+    return (data as VideoSegment[]).sort((a, b) => a.segment_order - b.segment_order);
+  } catch (error) {
+    console.warn('⚠️ Could not save scene clips, tracking them locally:', error);
+    return segments;
+  }
+}
+
+async function saveSegment(segment: VideoSegment) {
+  if (segment.id.startsWith(LOCAL_ID_PREFIX)) return;
+
+  try {
+    const { error } = await supabase
+      .from('video_segments')
+      .update(toSegmentRow(segment))
+      .eq('id', segment.id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.warn('⚠️ Could not save scene clip status:', error);
+  }
+}
+
+function toSegmentRow(segment: VideoSegment) {
+  return {
+    video_id: segment.video_id,
+    segment_order: segment.segment_order,
+    prompt: segment.prompt,
+    video_url: segment.video_url ?? null,
+    thumbnail_url: segment.thumbnail_url ?? null,
+    duration: segment.duration,
+    status: segment.status,
+    provider: segment.provider ?? null,
+    metadata: segment.metadata || {},
+    completed_at: segment.completed_at ?? null,
+    provider_job_id: segment.provider_job_id ?? null,
+    attempts: segment.attempts ?? 0,
+    next_poll_at: segment.next_poll_at ?? null,
+    error: segment.error ?? null,
+  };
+}
+
+function toRow(video: Video) {
+  return {
+    story_id: video.story_id,
+    video_url: video.video_url ?? null,
+    thumbnail_url: video.thumbnail_url ?? null,
+    duration: video.duration ?? null,
+    provider: video.provider,
+    status: video.status,
+    metadata: video.metadata || {},
+    completed_at: video.completed_at ?? null,
+    provider_job_id: video.provider_job_id ?? null,
+    attempts: video.attempts ?? 0,
+    next_poll_at: video.next_poll_at ?? null,
+    error: video.error ?? null,
+  };
+}
@@ -18,6 +18,7 @@ export interface Story {
   videos?: Video[];
   segments?: StorySegment[];
   audio?: AudioFile[];
+  pronunciations?: PronunciationEntry[];
   metadata?: Record<string, any>;
 }
 
@@ -33,6 +34,19 @@ export type StoryTheme =
 
 export type StoryLength = 'short' | 'medium' | 'long';
 
+export type RevisionSource = 'manual' | 'copilot_rewrite' | 'ai_chat';
+
+export interface StoryRevision {
+  id: string;
+  story_id: string;
+  content: string;
+  source: RevisionSource;
+  metadata?: {
+    restored_from?: string; // Revision id this snapshot was restored from
+  };
+  created_at: string;
+}
+
 export interface Character {
   id: string;
   story_id: string;
@@ -46,32 +60,168 @@ export interface Character {
     hairColor: string;
     eyeColor: string;
     style: string;
+    bodyType?: string;
+    height?: string;
+    facialFeatures?: string;
   };
   role: 'protagonist' | 'antagonist' | 'supporting';
+  aliases?: string[];
+  dialogue_lines?: string[];
+  evidence?: string[]; // Story lines quoted to back up the extracted traits
+  voice?: CharacterVoice | null;
   photos: CharacterPhoto[];
   created_at: string;
 }
 
+export interface VoiceSettings {
+  stability: number;
+  similarity_boost: number;
+  style: number;
+  use_speaker_boost: boolean;
+}
+
+// Voice a character is cast with; stored on the character so every narration reuses it
+export interface CharacterVoice {
+  voiceId: string;
+  voiceName?: string;
+  settings: VoiceSettings;
+}
+
+// How a name in the story is spoken: an IPA transcription or a plain respelling
+export interface PronunciationEntry {
+  id: string;
+  term: string;
+  type: 'ipa' | 'alias';
+  value: string;
+}
+
 export interface CharacterPhoto {
   id: string;
   character_id: string;
   photo_url: string;
+  provider?: string;
+  style?: string;
   is_selected: boolean;
+  metadata?: {
+    validation?: PhotoValidation;
+    isAccepted?: boolean;
+    needsRegeneration?: boolean;
+  };
   created_at: string;
 }
 
+export interface PhotoValidation {
+  isValid: boolean;
+  mismatches: string[];
+  confidence: number;
+}
+
+// Character shape used by the extraction UI; persisted as a Character
+export interface ExtractedCharacter {
+  id: string;
+  name: string;
+  role: 'protagonist' | 'antagonist' | 'supporting';
+  description: string;
+  personality: string[];
+  appearance: Character['appearance'];
+  aliases?: string[];
+  dialogueLines: string[];
+  evidence?: string[];
+  voice?: CharacterVoice;
+  photos: ExtractedCharacterPhoto[];
+}
+
+export interface ExtractedCharacterPhoto {
+  id?: string; // Set once the photo has been saved
+  url: string;
+  provider: string;
+  style: string;
+  isSelected?: boolean;
+  validation?: PhotoValidation;
+  needsRegeneration?: boolean;
+  isAccepted?: boolean;
+}
+
+export type VideoProviderName =
+  | 'tavus'
+  | 'runway-ml'
+  | 'replicate-video'
+  | 'huggingface-video'
+  | 'ai-generated-canvas'
+  | 'luma' | 'runway' | 'aiml' | 'kling' | 'mock' | 'demo';
+
+export type VideoJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
 export interface Video {
   id: string;
   story_id: string;
   video_url?: string;
   thumbnail_url?: string;
   duration?: number;
-  provider: 'luma' | 'runway' | 'aiml' | 'kling' | 'mock' | 'demo';
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  provider: VideoProviderName;
+  status: VideoJobStatus;
   created_at: string;
+  completed_at?: string;
+  // Render job state, while a provider works on the video in the background
+  provider_job_id?: string;
+  attempts?: number; // Status checks that failed in a row
+  next_poll_at?: string;
+  error?: string; // Why the render failed
   segments?: VideoSegment[];
+  edit_list?: EditList | null;
+  metadata?: {
+    subtitles?: SubtitleCue[];
+    mimeType?: string; // Container the video was rendered to, when it isn't MP4
+    finalCut?: FinalCutSettings; // Set on videos stitched from scene clips
+    [key: string]: unknown;
+  };
+}
+
+export type TimelineTrackKind = 'video' | 'narration' | 'dialogue' | 'music';
+
+// A clip on the timeline, trimmed to the part of its source between `in` and `out`
+export interface TimelineClip {
+  id: string;
+  label: string;
+  source: string; // Video or audio URL
+  sourceId?: string; // The video_segments or audio_files row it came from
+  sourceDuration: number;
+  start: number; // Seconds on the timeline
+  in: number; // Seconds into the source
+  out: number;
+  volume: number; // 1 plays the source as it is; video clips are always silent
+  transition?: SceneTransitionType; // How a video clip enters from the one before
+  text?: string; // The spoken line, for subtitles
+  speaker?: string;
+  words?: WordTiming[]; // Timings within the source
+}
+
+export interface TimelineTrack {
+  kind: TimelineTrackKind;
+  clips: TimelineClip[]; // Video clips play one after another, in this order
 }
 
+// A timeline edit of a video, saved with it so the compositor can render it again
+export interface EditList {
+  version: 1;
+  videoId: string;
+  aspectRatio: '16:9' | '9:16' | '1:1';
+  tracks: TimelineTrack[];
+  subtitles: boolean; // Burns the spoken lines into the render
+  updatedAt: string;
+}
+
+// How a segmented video's scene clips are put together, kept so it can be stitched again
+export interface FinalCutSettings {
+  title: string;
+  theme: string;
+  aspectRatio: '16:9' | '9:16' | '1:1';
+  audioUrl?: string; // Narration laid over the clips
+  burnSubtitles?: boolean; // Draws metadata.subtitles onto the picture
+  preferredBackend?: string;
+}
+
+// One scene's clip of a segmented video; the clips are stitched into the video once all are done
 export interface VideoSegment {
   id: string;
   video_id: string;
@@ -79,8 +229,26 @@ export interface VideoSegment {
   prompt: string;
   character_id?: string;
   video_url?: string;
+  thumbnail_url?: string;
   duration: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: VideoJobStatus;
+  provider?: VideoProviderName;
+  created_at: string;
+  completed_at?: string;
+  // Render job state, as on Video
+  provider_job_id?: string;
+  attempts?: number;
+  next_poll_at?: string;
+  error?: string;
+  metadata?: {
+    title?: string;
+    start?: number; // Seconds into the final cut
+    length?: number; // Exact scene length; `duration` is rounded for the database
+    transition?: SceneTransitionType;
+    request?: unknown; // The clip's VideoGenerationRequest, kept so the scene can be regenerated
+    submittedAt?: string; // When the current render of the clip started
+    [key: string]: unknown;
+  };
 }
 
 export interface VideoGenerationOptions {
@@ -101,15 +269,194 @@ export interface StorySegment {
   id: string;
   story_id: string;
   segment_order: number;
+  title: string;
   content: string;
+  setting: string;
+  characters: string[];
   character_id?: string;
   duration?: number;
+  visual_prompt: string;
+  metadata?: SegmentMetadata;
+  created_at?: string;
+  updated_at?: string;
 }
 
+// Screenplay structure and shot plan kept alongside a segment
+export interface SegmentMetadata {
+  heading?: SceneHeading;
+  act?: number;
+  act_title?: string;
+  transition_in?: SceneTransitionType;
+  plan?: ScenePlan;
+  storyboard?: StoryboardFrame[];
+}
+
+// A still showing what a scene will look like, made before any video is rendered
+export interface StoryboardFrame {
+  id: string;
+  url: string;
+  prompt: string;
+  provider: string; // The image provider, 'sketch' when none is configured, or 'upload'
+  shot?: string; // The framing the still was asked for, e.g. "wide establishing shot"
+  approved: boolean;
+  storage_path?: string; // Set once the image is in the storyboards bucket
+  created_at: string;
+}
+
+// Scene shape used by the segmentation UI; persisted as a StorySegment
+export interface Scene {
+  id: string;
+  title: string;
+  content: string;
+  characters: string[];
+  setting: string;
+  duration: number; // in seconds
+  visualPrompt: string;
+  order: number;
+  heading?: SceneHeading; // Parsed slugline, when the story has one
+  act?: number;
+  actTitle?: string;
+  transitionIn?: SceneTransitionType;
+  plan?: ScenePlan;
+  storyboard?: StoryboardFrame[];
+}
+
+export interface SceneHeading {
+  placement: 'INT' | 'EXT' | 'INT/EXT';
+  location: string;
+  time?: string;
+}
+
+export type SceneTransitionType = 'cut' | 'dissolve' | 'fade';
+
+export interface ShotPlan {
+  description: string;
+  camera: string; // e.g. "wide establishing shot", "slow push-in"
+  duration: number; // in seconds
+  characters: string[];
+}
+
+export interface ScenePlan {
+  mood: string;
+  camera: string;
+  shots: ShotPlan[];
+  source: 'llm' | 'heuristic';
+}
+
+// Ordered scenes plus the act and transition structure the video step renders from
+export interface SceneGraph {
+  scenes: Scene[];
+  acts: SceneAct[];
+  transitions: SceneTransition[];
+  totalDuration: number;
+}
+
+export interface SceneAct {
+  number: number;
+  title?: string;
+  sceneIds: string[];
+}
+
+export interface SceneTransition {
+  from: string;
+  to: string;
+  type: SceneTransitionType;
+  sameLocation: boolean;
+  sharedCharacters: string[];
+}
+
+// Format-neutral screenplay model shared by the story text, Fountain and FDX formats
+export type ScreenplayElement = (
+  | { type: 'section'; text: string; depth: number } // Act markers and other outline headings
+  | { type: 'scene_heading'; text: string }
+  | { type: 'action'; text: string; centered?: boolean }
+  | { type: 'character'; name: string; extension?: string } // extension is e.g. "V.O." or "CONT'D"
+  | { type: 'parenthetical'; text: string }
+  | { type: 'dialogue'; text: string }
+  | { type: 'transition'; text: string }
+  | { type: 'page_break' }
+) & { range?: SourceRange };
+
+// Character offsets of an element in the text it was parsed from (end is exclusive)
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface Screenplay {
+  title?: string;
+  author?: string;
+  elements: ScreenplayElement[];
+}
+
+export type ScreenplayFormat = 'fountain' | 'fdx';
+
 export interface AudioFile {
   id: string;
   story_id: string;
   character_id?: string;
   audio_url: string;
+  text_content: string;
+  voice_id?: string;
+  provider: string;
   duration?: number;
+  metadata?: {
+    type?: 'narration' | 'dialogue';
+    character?: string;
+    order?: number;
+    scene?: number;
+    storage_path?: string;
+    words?: WordTiming[];
+  };
+  created_at?: string;
+}
+
+// Clip produced by the audio step; persisted as an AudioFile
+export interface AudioClip {
+  id: string;
+  text: string;
+  character?: string;
+  type: 'narration' | 'dialogue';
+  audioUrl?: string;
+  duration?: number;
+  voiceId?: string;
+  isGenerated?: boolean;
+  scene?: number; // Index of the scene the clip was extracted from
+  words?: WordTiming[];
+}
+
+// When a word is spoken, in seconds from the start of its clip
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// One subtitle on the story timeline, in seconds
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+export interface MixdownSettings {
+  clipPause: number; // Seconds of silence between clips within a scene
+  scenePause: number; // Seconds of silence when the next clip starts a new scene
+  fadeIn: number;
+  fadeOut: number;
+  narrationGain: number;
+  characterGains: Record<string, number>; // Keyed by upper-case character name
+  music: boolean;
+  ambience: boolean;
+  musicGain: number;
+  ambienceGain: number;
+}
+
+// Every clip rendered into one file, with where each clip landed on the timeline
+export interface AudioMixdown {
+  url: string;
+  blob: Blob;
+  duration: number;
+  cues: { clipId: string; start: number; end: number }[];
 }
\ No newline at end of file
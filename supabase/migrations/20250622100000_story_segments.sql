@@ -0,0 +1,102 @@
+/*
+  # Story Segments
+
+  1. New Tables
+    - `story_segments` - Scenes produced by the scene segmentation step
+
+  2. Security
+    - Enable RLS on `story_segments`
+    - Add policies for authenticated users to manage segments of their own stories
+
+  3. Features
+    - Ordered by `segment_order` within a story
+    - Automatic `updated_at` timestamps
+*/
+
+-- Story segments table
+CREATE TABLE IF NOT EXISTS story_segments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id uuid REFERENCES stories(id) ON DELETE CASCADE NOT NULL,
+  segment_order integer NOT NULL,
+  title text NOT NULL,
+  content text NOT NULL DEFAULT '',
+  setting text DEFAULT 'indoor scene',
+  characters text[] DEFAULT '{}',
+  duration integer DEFAULT 30, -- in seconds
+  visual_prompt text DEFAULT '',
+  metadata jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security (safe to run multiple times)
+ALTER TABLE story_segments ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist, then recreate them
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can read segments from own stories" ON story_segments;
+  DROP POLICY IF EXISTS "Users can create segments for own stories" ON story_segments;
+  DROP POLICY IF EXISTS "Users can update segments from own stories" ON story_segments;
+  DROP POLICY IF EXISTS "Users can delete segments from own stories" ON story_segments;
+END $$;
+
+-- Story segments policies
+CREATE POLICY "Users can read segments from own stories"
+  ON story_segments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM stories
+      WHERE stories.id = story_segments.story_id
+      AND stories.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create segments for own stories"
+  ON story_segments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM stories
+      WHERE stories.id = story_segments.story_id
+      AND stories.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update segments from own stories"
+  ON story_segments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM stories
+      WHERE stories.id = story_segments.story_id
+      AND stories.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete segments from own stories"
+  ON story_segments
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM stories
+      WHERE stories.id = story_segments.story_id
+      AND stories.user_id = auth.uid()
+    )
+  );
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_story_segments_story_id ON story_segments(story_id);
+CREATE INDEX IF NOT EXISTS idx_story_segments_order ON story_segments(story_id, segment_order);
+
+-- Trigger for automatic timestamps (safe to recreate)
+DROP TRIGGER IF EXISTS update_story_segments_updated_at ON story_segments;
+CREATE TRIGGER update_story_segments_updated_at
+    BEFORE UPDATE ON story_segments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,86 @@
+/*
+  # Audio Storage
+
+  1. Storage
+    - `story-audio` bucket for generated narration and dialogue clips
+    - Objects are stored under `<user_id>/<story_id>/`
+
+  2. Security
+    - Users can upload, replace and delete objects in their own folder
+    - Add update and delete policies on `audio_files` so clips can be replaced
+
+  3. Indexes
+    - `audio_files.character_id` for per-character lookups
+*/
+
+-- Public bucket so clips can be played and handed to video providers by URL
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('story-audio', 'story-audio', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Drop existing policies if they exist, then recreate them
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can upload audio to own folder" ON storage.objects;
+  DROP POLICY IF EXISTS "Users can update audio in own folder" ON storage.objects;
+  DROP POLICY IF EXISTS "Users can delete audio in own folder" ON storage.objects;
+
+  DROP POLICY IF EXISTS "Users can update audio from own stories" ON audio_files;
+  DROP POLICY IF EXISTS "Users can delete audio from own stories" ON audio_files;
+END $$;
+
+-- Storage policies
+CREATE POLICY "Users can upload audio to own folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'story-audio'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update audio in own folder"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'story-audio'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete audio in own folder"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'story-audio'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Audio files policies
+CREATE POLICY "Users can update audio from own stories"
+  ON audio_files
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM stories
+      WHERE stories.id = audio_files.story_id
+      AND stories.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete audio from own stories"
+  ON audio_files
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM stories
+      WHERE stories.id = audio_files.story_id
+      AND stories.user_id = auth.uid()
+    )
+  );
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_audio_files_character_id ON audio_files(character_id);
@@ -0,0 +1,75 @@
+/*
+  # Story Revisions
+
+  1. New Tables
+    - `story_revisions` - Snapshots of story content taken on every save and AI rewrite
+
+  2. Security
+    - Enable RLS on `story_revisions`
+    - Add policies for authenticated users to read, create and delete revisions of their own stories
+
+  3. Features
+    - `source` records what produced the snapshot (manual save, copilot rewrite, AI chat generation)
+    - Revisions are immutable, so there is no update policy or `updated_at`
+*/
+
+-- Story revisions table
+CREATE TABLE IF NOT EXISTS story_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id uuid REFERENCES stories(id) ON DELETE CASCADE NOT NULL,
+  content text NOT NULL,
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'copilot_rewrite', 'ai_chat')),
+  metadata jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security (safe to run multiple times)
+ALTER TABLE story_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist, then recreate them
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can read revisions from own stories" ON story_revisions;
+  DROP POLICY IF EXISTS "Users can create revisions for own stories" ON story_revisions;
+  DROP POLICY IF EXISTS "Users can delete revisions from own stories" ON story_revisions;
+END $$;
+
+-- Story revisions policies
+CREATE POLICY "Users can read revisions from own stories"
+  ON story_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM stories
+      WHERE stories.id = story_revisions.story_id
+      AND stories.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create revisions for own stories"
+  ON story_revisions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM stories
+      WHERE stories.id = story_revisions.story_id
+      AND stories.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete revisions from own stories"
+  ON story_revisions
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM stories
+      WHERE stories.id = story_revisions.story_id
+      AND stories.user_id = auth.uid()
+    )
+  );
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_story_revisions_story_created ON story_revisions(story_id, created_at DESC);
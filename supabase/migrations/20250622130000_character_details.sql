@@ -0,0 +1,15 @@
+/*
+  # Character Details
+
+  1. Changes
+    - `characters.aliases` (text[]) other names the story uses for the character
+    - `characters.evidence` (text[]) story lines quoted to support the extracted traits
+    - Appearance keeps living in the `appearance` jsonb column; extraction may now
+      also fill `bodyType`, `height` and `facialFeatures`
+
+  2. Security
+    - Existing character policies cover the new columns
+*/
+
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS aliases text[] DEFAULT '{}';
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS evidence text[] DEFAULT '{}';
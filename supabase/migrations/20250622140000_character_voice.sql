@@ -0,0 +1,13 @@
+/*
+  # Character Voice Casting
+
+  1. Changes
+    - `characters.voice` (jsonb) the voice a character is cast with:
+      `{ voiceId, voiceName, settings: { stability, similarity_boost, style, use_speaker_boost } }`
+    - Null means the voice is still picked automatically from age and gender
+
+  2. Security
+    - Existing character policies cover the new column
+*/
+
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS voice jsonb;
@@ -0,0 +1,14 @@
+/*
+  # Story Pronunciation Lexicon
+
+  1. Changes
+    - `stories.pronunciations` (jsonb) how names in the story are spoken:
+      `[{ id, term, type: 'ipa' | 'alias', value }]`
+    - Sent to ElevenLabs as a pronunciation dictionary and substituted into
+      the text for browser and offline speech
+
+  2. Security
+    - Existing story policies cover the new column
+*/
+
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS pronunciations jsonb DEFAULT '[]';
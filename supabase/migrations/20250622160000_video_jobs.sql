@@ -0,0 +1,35 @@
+/*
+  # Video Render Jobs
+
+  1. Changes
+    - `videos.provider_job_id` (text) the provider's id for the render, used to poll its status
+    - `videos.attempts` (integer) status checks that failed in a row
+    - `videos.next_poll_at` (timestamptz) when the job is next checked
+    - `videos.error` (text) why a render failed
+    - `videos.updated_at` (timestamptz)
+
+  2. Security
+    - Existing video policies cover the new columns
+
+  3. Indexes
+    - Unfinished jobs by status, so they can be resumed after a reload
+
+  4. Triggers
+    - Keep `videos.updated_at` current
+*/
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS provider_job_id text;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS attempts integer DEFAULT 0;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS next_poll_at timestamptz;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS error text;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_videos_unfinished
+  ON videos(status)
+  WHERE status IN ('pending', 'processing');
+
+DROP TRIGGER IF EXISTS update_videos_updated_at ON videos;
+CREATE TRIGGER update_videos_updated_at
+    BEFORE UPDATE ON videos
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
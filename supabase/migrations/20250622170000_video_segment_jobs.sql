@@ -0,0 +1,55 @@
+/*
+  # Scene Clip Jobs
+
+  1. Changes
+    - `video_segments.provider` (text) the backend rendering the clip
+    - `video_segments.provider_job_id` (text) the provider's id for the render, used to poll its status
+    - `video_segments.thumbnail_url` (text)
+    - `video_segments.attempts` (integer) status checks that failed in a row
+    - `video_segments.next_poll_at` (timestamptz) when the clip is next checked
+    - `video_segments.error` (text) why the clip failed
+    - `video_segments.completed_at` (timestamptz)
+    - `video_segments.updated_at` (timestamptz)
+
+  2. Security
+    - Users can update segments of videos from their own stories, so a single
+      scene can be regenerated
+
+  3. Indexes
+    - Segments of a video in order, for stitching the final cut
+
+  4. Triggers
+    - Keep `video_segments.updated_at` current
+*/
+
+ALTER TABLE video_segments ADD COLUMN IF NOT EXISTS provider text;
+ALTER TABLE video_segments ADD COLUMN IF NOT EXISTS provider_job_id text;
+ALTER TABLE video_segments ADD COLUMN IF NOT EXISTS thumbnail_url text;
+ALTER TABLE video_segments ADD COLUMN IF NOT EXISTS attempts integer DEFAULT 0;
+ALTER TABLE video_segments ADD COLUMN IF NOT EXISTS next_poll_at timestamptz;
+ALTER TABLE video_segments ADD COLUMN IF NOT EXISTS error text;
+ALTER TABLE video_segments ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+ALTER TABLE video_segments ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+DROP POLICY IF EXISTS "Users can update segments from own videos" ON video_segments;
+
+CREATE POLICY "Users can update segments from own videos"
+  ON video_segments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM videos 
+      JOIN stories ON stories.id = videos.story_id
+      WHERE videos.id = video_segments.video_id 
+      AND stories.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_video_segments_order ON video_segments(video_id, segment_order);
+
+DROP TRIGGER IF EXISTS update_video_segments_updated_at ON video_segments;
+CREATE TRIGGER update_video_segments_updated_at
+    BEFORE UPDATE ON video_segments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
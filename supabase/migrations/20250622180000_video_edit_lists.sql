@@ -0,0 +1,13 @@
+/*
+  # Video Edit Lists
+
+  1. Changes
+    - `videos.edit_list` (jsonb) the timeline edit made of the video: clips on the
+      video, narration, dialogue and music tracks with their trims, order,
+      transitions and volumes, so the edit can be rendered again
+
+  2. Security
+    - Existing video policies cover the new column
+*/
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS edit_list jsonb;
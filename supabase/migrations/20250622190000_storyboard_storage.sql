@@ -0,0 +1,52 @@
+/*
+  # Storyboard Storage
+
+  1. Storage
+    - `storyboards` bucket for scene keyframe stills, generated or uploaded
+    - Objects are stored under `<user_id>/<story_id>/`
+    - The frames themselves are listed in `story_segments.metadata.storyboard`
+
+  2. Security
+    - Users can upload, replace and delete objects in their own folder
+*/
+
+-- Public bucket so stills can be shown and exported by URL
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('storyboards', 'storyboards', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Drop existing policies if they exist, then recreate them
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can upload storyboards to own folder" ON storage.objects;
+  DROP POLICY IF EXISTS "Users can update storyboards in own folder" ON storage.objects;
+  DROP POLICY IF EXISTS "Users can delete storyboards in own folder" ON storage.objects;
+END $$;
+
+-- Storage policies
+CREATE POLICY "Users can upload storyboards to own folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'storyboards'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update storyboards in own folder"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'storyboards'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete storyboards in own folder"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'storyboards'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
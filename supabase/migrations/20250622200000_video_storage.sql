@@ -0,0 +1,51 @@
+/*
+  # Video Storage
+
+  1. Storage
+    - `story-videos` bucket for videos rendered in the browser, their scene clips and thumbnails
+    - Objects are stored under `<user_id>/<story_id>/`
+
+  2. Security
+    - Users can upload, replace and delete objects in their own folder
+*/
+
+-- Public bucket so videos can be played, shared and stitched by URL
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('story-videos', 'story-videos', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Drop existing policies if they exist, then recreate them
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can upload videos to own folder" ON storage.objects;
+  DROP POLICY IF EXISTS "Users can update videos in own folder" ON storage.objects;
+  DROP POLICY IF EXISTS "Users can delete videos in own folder" ON storage.objects;
+END $$;
+
+-- Storage policies
+CREATE POLICY "Users can upload videos to own folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'story-videos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update videos in own folder"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'story-videos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete videos in own folder"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'story-videos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );